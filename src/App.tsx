@@ -10,6 +10,13 @@ import { TransactionProvider } from "@/contexts/TransactionContext";
 import { SupplierProvider } from "@/contexts/SupplierContext";
 import { CustomerProvider } from "@/contexts/CustomerContext";
 import { SettingsProvider } from "@/contexts/SettingsContext";
+import { PromotionProvider } from "@/contexts/PromotionContext";
+import { ShiftProvider } from "@/contexts/ShiftContext";
+import { OutboxProvider } from "@/contexts/OutboxContext";
+import { LoyaltyProvider } from "@/contexts/LoyaltyContext";
+import { CreditProvider } from "@/contexts/CreditContext";
+import { VoucherProvider } from "@/contexts/VoucherContext";
+import { LayawayProvider } from "@/contexts/LayawayContext";
 
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
@@ -21,6 +28,14 @@ import Suppliers from "./pages/Suppliers";
 import Customers from "./pages/Customers";
 import StockManagement from "./pages/StockManagement";
 import Settings from "./pages/Settings";
+import Promotions from "./pages/Promotions";
+import Vouchers from "./pages/Vouchers";
+import Returns from "./pages/Returns";
+import Shifts from "./pages/Shifts";
+import Receivables from "./pages/Receivables";
+import Layaways from "./pages/Layaways";
+import SyncQueue from "./pages/SyncQueue";
+import CustomerDisplay from "./pages/CustomerDisplay";
 import NotFound from "./pages/NotFound";
 import ProtectedRoute from "./components/ProtectedRoute";
 
@@ -33,79 +48,149 @@ const App = () => {
         <Toaster />
         <Sonner />
         <BrowserRouter>
-          <AuthProvider>
-            <SettingsProvider>
-              <ProductProvider>
-                <TransactionProvider>
-                  <SupplierProvider>
-                    <CustomerProvider>
-                      <Routes>
-                        <Route path="/login" element={<Login />} />
-                        
-                        <Route path="/" element={<Navigate to="/dashboard" />} />
-                        
-                        <Route path="/dashboard" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                            <Dashboard />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/pos" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager', 'cashier']}>
-                            <POS />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/products" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                            <Products />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/stock" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                            <StockManagement />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/suppliers" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                            <Suppliers />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/customers" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                            <Customers />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/reports" element={
-                          <ProtectedRoute allowedRoles={['admin', 'manager']}>
-                            <Reports />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/users" element={
-                          <ProtectedRoute allowedRoles={['admin']}>
-                            <Users />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="/settings" element={
-                          <ProtectedRoute allowedRoles={['admin']}>
-                            <Settings />
-                          </ProtectedRoute>
-                        } />
-                        
-                        <Route path="*" element={<NotFound />} />
-                      </Routes>
-                    </CustomerProvider>
-                  </SupplierProvider>
-                </TransactionProvider>
-              </ProductProvider>
-            </SettingsProvider>
-          </AuthProvider>
+          <Routes>
+            {/* Opened by the till in a second window facing the customer. It only listens, so it stays
+                clear of the providers that sync the outbox or write sales back to storage */}
+            <Route path="/customer-display" element={
+              <SettingsProvider>
+                <PromotionProvider>
+                  <CustomerDisplay />
+                </PromotionProvider>
+              </SettingsProvider>
+            } />
+
+            <Route path="*" element={
+              <AuthProvider>
+                <SettingsProvider>
+                  <ProductProvider>
+                    <PromotionProvider>
+                      <ShiftProvider>
+                        <OutboxProvider>
+                          <CustomerProvider>
+                            <LoyaltyProvider>
+                              <CreditProvider>
+                                <VoucherProvider>
+                                  <TransactionProvider>
+                                    <LayawayProvider>
+                                      <SupplierProvider>
+                                        <Routes>
+                                          <Route path="/login" element={<Login />} />
+                                    
+                                          <Route path="/" element={<Navigate to="/dashboard" />} />
+                                    
+                                          <Route path="/dashboard" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Dashboard />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/pos" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager', 'cashier']}>
+                                              <POS />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/returns" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager', 'cashier']}>
+                                              <Returns />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/shifts" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager', 'cashier']}>
+                                              <Shifts />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/receivables" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager', 'cashier']}>
+                                              <Receivables />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/layaways" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager', 'cashier']}>
+                                              <Layaways />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/products" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Products />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/stock" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <StockManagement />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/suppliers" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Suppliers />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/customers" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Customers />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/reports" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Reports />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/promotions" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Promotions />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/vouchers" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <Vouchers />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/sync" element={
+                                            <ProtectedRoute allowedRoles={['admin', 'manager']}>
+                                              <SyncQueue />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/users" element={
+                                            <ProtectedRoute allowedRoles={['admin']}>
+                                              <Users />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="/settings" element={
+                                            <ProtectedRoute allowedRoles={['admin']}>
+                                              <Settings />
+                                            </ProtectedRoute>
+                                          } />
+                                    
+                                          <Route path="*" element={<NotFound />} />
+                                        </Routes>
+                                      </SupplierProvider>
+                                    </LayawayProvider>
+                                  </TransactionProvider>
+                                </VoucherProvider>
+                              </CreditProvider>
+                            </LoyaltyProvider>
+                          </CustomerProvider>
+                        </OutboxProvider>
+                      </ShiftProvider>
+                    </PromotionProvider>
+                  </ProductProvider>
+                </SettingsProvider>
+              </AuthProvider>
+            } />
+          </Routes>
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
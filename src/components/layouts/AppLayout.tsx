@@ -16,9 +16,17 @@ import {
   Truck,
   UserPlus,
   Package,
-  Settings
+  Settings,
+  Tag,
+  RotateCcw,
+  Clock,
+  RefreshCw,
+  HandCoins,
+  Gift,
+  PackageCheck
 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import SyncStatusIndicator from "./SyncStatusIndicator";
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -40,6 +48,30 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       icon: <CreditCard className="w-6 h-6" />,
       allowedRoles: ['admin', 'manager', 'cashier'] as UserRole[],
     },
+    {
+      name: "Retur",
+      path: "/returns",
+      icon: <RotateCcw className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager', 'cashier'] as UserRole[],
+    },
+    {
+      name: "Shift",
+      path: "/shifts",
+      icon: <Clock className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager', 'cashier'] as UserRole[],
+    },
+    {
+      name: "Kasbon",
+      path: "/receivables",
+      icon: <HandCoins className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager', 'cashier'] as UserRole[],
+    },
+    {
+      name: "Layaway",
+      path: "/layaways",
+      icon: <PackageCheck className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager', 'cashier'] as UserRole[],
+    },
     {
       name: "Dashboard",
       path: "/dashboard",
@@ -70,12 +102,30 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       icon: <UserPlus className="w-6 h-6" />,
       allowedRoles: ['admin', 'manager'] as UserRole[],
     },
+    {
+      name: "Promo",
+      path: "/promotions",
+      icon: <Tag className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager'] as UserRole[],
+    },
+    {
+      name: "Voucher",
+      path: "/vouchers",
+      icon: <Gift className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager'] as UserRole[],
+    },
     {
       name: "Laporan",
       path: "/reports",
       icon: <FileText className="w-6 h-6" />,
       allowedRoles: ['admin', 'manager'] as UserRole[],
     },
+    {
+      name: "Sinkron",
+      path: "/sync",
+      icon: <RefreshCw className="w-6 h-6" />,
+      allowedRoles: ['admin', 'manager'] as UserRole[],
+    },
     {
       name: "Pengguna",
       path: "/users",
@@ -130,6 +180,9 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
           ))}
         </div>
         <div className="p-4 border-t border-sidebar-border">
+          <div className="mb-4">
+            <SyncStatusIndicator />
+          </div>
           <div className="flex items-center justify-center lg:justify-start space-x-2 text-white mb-4">
             <div className="w-8 h-8 rounded-full bg-gray-500 flex items-center justify-center">
               <User className="w-5 h-5" />
@@ -163,6 +216,9 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       <div className="md:hidden bg-pos-blue-dark text-white p-4 flex items-center justify-between">
         <h1 className="text-xl font-bold">Toko Usaha Mandiri</h1>
         <div className="flex items-center space-x-2">
+          <div className="p-2">
+            <SyncStatusIndicator />
+          </div>
           <Button variant="ghost" className="p-2 text-white hover:bg-sidebar-accent">
             <Search className="h-5 w-5" />
           </Button>
@@ -0,0 +1,65 @@
+import { useNavigate } from 'react-router-dom';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  Cloud,
+  CloudOff,
+  RefreshCw,
+  AlertTriangle
+} from "lucide-react";
+
+const SyncStatusIndicator = () => {
+  const { pendingCount, conflictCount, isOnline, isSyncing, lastSyncedAt } = useOutbox();
+  const { hasPermission } = useAuth();
+  const navigate = useNavigate();
+
+  const canManage = hasPermission(['admin', 'manager']);
+
+  let icon = <Cloud className="w-4 h-4" />;
+  let label = 'Tersinkron';
+  let color = 'text-green-300';
+
+  if (conflictCount > 0) {
+    icon = <AlertTriangle className="w-4 h-4" />;
+    label = `${conflictCount} konflik`;
+    color = 'text-red-300';
+  } else if (!isOnline) {
+    icon = <CloudOff className="w-4 h-4" />;
+    label = pendingCount > 0 ? `Offline, ${pendingCount} antre` : 'Offline';
+    color = 'text-gray-300';
+  } else if (isSyncing || pendingCount > 0) {
+    icon = <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />;
+    label = `${pendingCount} menunggu sinkron`;
+    color = 'text-amber-300';
+  }
+
+  const detail = lastSyncedAt
+    ? `Terakhir sinkron ${new Date(lastSyncedAt).toLocaleString('id-ID')}`
+    : 'Belum pernah sinkron';
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <button
+            type="button"
+            className={`flex items-center justify-center lg:justify-start w-full space-x-2 text-xs ${color} ${
+              canManage ? 'cursor-pointer hover:text-white' : 'cursor-default'
+            }`}
+            onClick={() => canManage && navigate('/sync')}
+          >
+            {icon}
+            <span className="hidden lg:inline">{label}</span>
+          </button>
+        </TooltipTrigger>
+        <TooltipContent side="right">
+          <div>{label}</div>
+          <div className="text-xs text-muted-foreground">{detail}</div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+};
+
+export default SyncStatusIndicator;
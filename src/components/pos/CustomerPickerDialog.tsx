@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { useCustomers } from '@/contexts/CustomerContext';
+import { Customer } from '@/types';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Search,
+  UserPlus,
+  User
+} from "lucide-react";
+import { toast } from 'sonner';
+
+interface CustomerPickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (customer: Customer) => void;
+}
+
+const MAX_RESULTS = 8;
+
+const CustomerPickerDialog = ({ open, onOpenChange, onSelect }: CustomerPickerDialogProps) => {
+  const { searchCustomers, addCustomer } = useCustomers();
+
+  const [query, setQuery] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newPhone, setNewPhone] = useState('');
+
+  const results = query.trim() ? searchCustomers(query.trim()).slice(0, MAX_RESULTS) : [];
+
+  const resetForm = () => {
+    setQuery('');
+    setIsCreating(false);
+    setNewName('');
+    setNewPhone('');
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      resetForm();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (customer: Customer) => {
+    onSelect(customer);
+    handleOpenChange(false);
+  };
+
+  const handleStartCreate = () => {
+    // Whatever was typed is most likely the new customer's name or phone number
+    const typed = query.trim();
+    if (/^[\d+\s-]+$/.test(typed)) {
+      setNewPhone(typed);
+    } else {
+      setNewName(typed);
+    }
+    setIsCreating(true);
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) {
+      toast.error('Nama pelanggan harus diisi');
+      return;
+    }
+
+    try {
+      const customer = addCustomer({
+        name: newName.trim(),
+        phone: newPhone.trim(),
+      });
+      handleSelect(customer);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isCreating ? 'Pelanggan Baru' : 'Pilih Pelanggan'}</DialogTitle>
+        </DialogHeader>
+
+        {isCreating ? (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-customer-name">Nama *</Label>
+              <Input
+                id="new-customer-name"
+                placeholder="Nama lengkap pelanggan"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-customer-phone">Telepon</Label>
+              <Input
+                id="new-customer-phone"
+                placeholder="Nomor telepon pelanggan"
+                value={newPhone}
+                onChange={(e) => setNewPhone(e.target.value)}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+              <Input
+                placeholder="Cari nama atau nomor telepon..."
+                className="pl-10"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                autoFocus
+              />
+            </div>
+
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {results.map(customer => (
+                <button
+                  key={customer.id}
+                  type="button"
+                  className="w-full flex items-center justify-between border rounded-lg p-3 text-left hover:bg-gray-50"
+                  onClick={() => handleSelect(customer)}
+                >
+                  <div className="flex items-center">
+                    <User size={18} className="mr-3 text-gray-400" />
+                    <div>
+                      <div className="font-medium">{customer.name}</div>
+                      <div className="text-sm text-gray-500">{customer.phone || '-'}</div>
+                    </div>
+                  </div>
+                  <div className="text-xs text-gray-500 text-right">
+                    {customer.total_transactions || 0} transaksi
+                  </div>
+                </button>
+              ))}
+
+              {query.trim() && results.length === 0 && (
+                <p className="text-sm text-center text-gray-500 py-2">
+                  Pelanggan tidak ditemukan.
+                </p>
+              )}
+            </div>
+
+            <Button variant="outline" className="w-full" onClick={handleStartCreate}>
+              <UserPlus size={16} className="mr-2" /> Tambah Pelanggan Baru
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          {isCreating ? (
+            <>
+              <Button variant="outline" onClick={() => setIsCreating(false)}>Kembali</Button>
+              <Button onClick={handleCreate}>Simpan & Pilih</Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>Batal</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerPickerDialog;
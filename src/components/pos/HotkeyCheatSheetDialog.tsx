@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { HotkeyAction } from '@/types';
+import { formatHotkey, getHotkey, HOTKEY_ACTION_LABELS, HotkeyBindings, findHotkeyAction } from '@/lib/hotkeys';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from 'sonner';
+
+interface HotkeyCheatSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: HotkeyBindings;
+  onChange: (bindings: HotkeyBindings) => void;
+  onReset: () => void;
+}
+
+const HotkeyCheatSheetDialog = ({ open, onOpenChange, bindings, onChange, onReset }: HotkeyCheatSheetDialogProps) => {
+  const [capturing, setCapturing] = useState<HotkeyAction | null>(null);
+
+  useEffect(() => {
+    if (!open) setCapturing(null);
+  }, [open]);
+
+  // Listens ahead of everything else so the key being bound does not also close the dialog or fire its action
+  useEffect(() => {
+    if (!capturing) return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const hotkey = getHotkey(event);
+      if (!hotkey) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+
+      const taken = findHotkeyAction(bindings, hotkey);
+      if (taken && taken !== capturing) {
+        toast.error(`${formatHotkey(hotkey)} sudah dipakai untuk "${HOTKEY_ACTION_LABELS[taken]}"`);
+        return;
+      }
+
+      onChange({ ...bindings, [capturing]: hotkey });
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturing, bindings, onChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pintasan Keyboard</DialogTitle>
+          <DialogDescription>
+            Pilih Ubah lalu tekan tombol baru. Pintasan disimpan untuk akun Anda.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto divide-y">
+          {(Object.keys(HOTKEY_ACTION_LABELS) as HotkeyAction[]).map(action => (
+            <div key={action} className="flex items-center justify-between py-2">
+              <span className="text-sm">{HOTKEY_ACTION_LABELS[action]}</span>
+              <div className="flex items-center gap-2">
+                <kbd className="min-w-[3rem] text-center rounded border bg-gray-50 px-2 py-1 font-mono text-xs">
+                  {capturing === action ? 'Tekan tombol...' : formatHotkey(bindings[action])}
+                </kbd>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCapturing(capturing === action ? null : action)}
+                >
+                  {capturing === action ? 'Batal' : 'Ubah'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onReset}>Kembalikan Default</Button>
+          <Button onClick={() => onOpenChange(false)}>Tutup</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HotkeyCheatSheetDialog;
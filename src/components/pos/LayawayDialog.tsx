@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useLayaways } from '@/contexts/LayawayContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { Layaway, PaymentMethod } from '@/types';
+import { COUNTER_PAYMENT_METHODS, getPaymentMethodLabel } from '@/lib/payments';
+import { getDefaultDueDate, getMinimumDeposit } from '@/lib/layaways';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PackageCheck } from "lucide-react";
+import { toast } from 'sonner';
+
+interface LayawayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (layaway: Layaway) => void;
+}
+
+// Reserves the cart for the selected customer against a down payment instead of selling it
+const LayawayDialog = ({ open, onOpenChange, onCreated }: LayawayDialogProps) => {
+  const { cartCustomer, calculateTotal } = useTransactions();
+  const { createLayaway } = useLayaways();
+  const { settings } = useSettings();
+
+  const [deposit, setDeposit] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const total = calculateTotal();
+  const minimumDeposit = getMinimumDeposit(total, settings.layaway_policy);
+  const depositValue = deposit ? parseFloat(deposit) || 0 : 0;
+
+  // Prefilled on opening; the cart cannot change while the dialog is up
+  useEffect(() => {
+    if (!open) return;
+    setDeposit(minimumDeposit > 0 ? minimumDeposit.toString() : '');
+    setMethod('cash');
+    setReference('');
+    setDueDate(getDefaultDueDate(settings.layaway_policy));
+    setNotes('');
+  }, [open, minimumDeposit, settings.layaway_policy]);
+
+  const handleCreate = async () => {
+    if (isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const layaway = await createLayaway({
+        deposit: depositValue,
+        method,
+        reference: reference.trim() || undefined,
+        dueDate: dueDate || undefined,
+        notes: notes.trim() || undefined,
+      });
+      onCreated(layaway);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Layaway / DP</DialogTitle>
+        </DialogHeader>
+
+        {cartCustomer ? (
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-gray-500">Pelanggan</span>
+              <span className="text-right">{cartCustomer.name}</span>
+              <span className="text-gray-500">Total</span>
+              <span className="text-right font-bold">Rp {total.toLocaleString('id-ID')}</span>
+              <span className="text-gray-500">Minimal DP ({settings.layaway_policy.min_deposit_percent}%)</span>
+              <span className="text-right">Rp {minimumDeposit.toLocaleString('id-ID')}</span>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="layaway-deposit">Uang Muka (Rp) *</Label>
+              <Input
+                id="layaway-deposit"
+                type="number"
+                min="0"
+                value={deposit}
+                onChange={(e) => setDeposit(e.target.value)}
+                autoFocus
+              />
+              {depositValue > 0 && depositValue < total && (
+                <p className="text-sm text-gray-600">
+                  Sisa Rp {(total - depositValue).toLocaleString('id-ID')} dibayar saat pengambilan
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Metode Pembayaran</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {COUNTER_PAYMENT_METHODS.map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    variant={method === option ? 'default' : 'outline'}
+                    onClick={() => setMethod(option)}
+                  >
+                    {getPaymentMethodLabel(option)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {method !== 'cash' && (
+              <div className="space-y-2">
+                <Label htmlFor="layaway-reference">No. Referensi</Label>
+                <Input
+                  id="layaway-reference"
+                  placeholder="Opsional"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="layaway-due-date">Diambil Paling Lambat</Label>
+              <Input
+                id="layaway-due-date"
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="layaway-notes">Catatan</Label>
+              <Input
+                id="layaway-notes"
+                placeholder="Opsional"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="py-4 text-sm text-amber-600">
+            Layaway hanya untuk pelanggan terdaftar. Pilih pelanggan di keranjang terlebih dahulu.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+          <Button onClick={handleCreate} disabled={!cartCustomer || isProcessing}>
+            <PackageCheck className="mr-2 h-4 w-4" /> {isProcessing ? 'Memproses...' : 'Simpan Layaway'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LayawayDialog;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { OverrideType, User } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { OVERRIDE_TYPE_LABELS } from '@/lib/approvals';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShieldCheck } from "lucide-react";
+
+export interface ApprovalRequest {
+  type: OverrideType;
+  detail: string;
+}
+
+interface ManagerApprovalDialogProps {
+  request: ApprovalRequest | null;
+  onApprove: (approver: User) => void;
+  onCancel: () => void;
+}
+
+const ManagerApprovalDialog = ({ request, onApprove, onCancel }: ManagerApprovalDialogProps) => {
+  const { verifyApproverPin } = useAuth();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setPin('');
+    setError('');
+  }, [request]);
+
+  const handleApprove = () => {
+    const approver = verifyApproverPin(pin);
+    if (!approver) {
+      setError('PIN salah atau tidak berwenang menyetujui');
+      setPin('');
+      return;
+    }
+    onApprove(approver);
+  };
+
+  return (
+    <Dialog open={request !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="mr-2 h-5 w-5 text-amber-500" />
+            Persetujuan Manajer
+          </DialogTitle>
+          <DialogDescription>
+            {request ? OVERRIDE_TYPE_LABELS[request.type] : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <form
+            className="space-y-4 py-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleApprove();
+            }}
+          >
+            <p className="text-sm bg-amber-50 border border-amber-200 rounded-md p-3">{request.detail}</p>
+
+            <div className="space-y-2">
+              <Label htmlFor="approver-pin">PIN Manajer / Admin</Label>
+              <Input
+                id="approver-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                autoFocus
+                value={pin}
+                onChange={(e) => {
+                  setPin(e.target.value.replace(/\D/g, ''));
+                  setError('');
+                }}
+              />
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onCancel}>Batal</Button>
+              <Button type="submit" disabled={!pin}>Setujui</Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManagerApprovalDialog;
@@ -0,0 +1,708 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useLoyalty } from '@/contexts/LoyaltyContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useCredit } from '@/contexts/CreditContext';
+import { useVouchers } from '@/contexts/VoucherContext';
+import { Coupon, HotkeyAction, OverrideApproval, PaymentMethod, PaymentTender, Transaction } from '@/types';
+import { useManagerApproval } from '@/hooks/use-manager-approval';
+import { useHotkeys } from '@/hooks/use-hotkeys';
+import { formatHotkey, HotkeyBindings } from '@/lib/hotkeys';
+import { exceedsDiscountLimit, getDiscountPercent } from '@/lib/approvals';
+import { calculateChange, getCashRounding, getPaymentMethodLabel, getQuickCashAmounts, sumTenders } from '@/lib/payments';
+import { breakDownCash } from '@/lib/shifts';
+import { buildDynamicQris, createQrisReference } from '@/lib/qris';
+import { getTaxLabel } from '@/lib/tax';
+import { normalizeCode } from '@/lib/vouchers';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import QrCode from './QrCode';
+import {
+  BanknoteIcon,
+  CreditCard,
+  Wallet,
+  NotebookPen,
+  Gift,
+  Plus,
+  Trash2,
+  X
+} from "lucide-react";
+import { toast } from 'sonner';
+
+interface PaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: (transaction: Transaction) => void;
+  hotkeys: HotkeyBindings;
+  // Tender to start on when the dialog was opened with a payment hotkey
+  initialMethod?: PaymentMethod;
+  // Discounts and tenders as they are entered, for the customer display; null once the dialog closes
+  onCheckoutChange?: (checkout: { discount: number; rounding: number; paid: number } | null) => void;
+}
+
+const PAYMENT_METHOD_OPTIONS: Array<{ method: PaymentMethod; hotkey: HotkeyAction; icon: React.ReactNode }> = [
+  { method: 'cash', hotkey: 'pay_cash', icon: <BanknoteIcon className="h-6 w-6 mb-1" /> },
+  { method: 'card', hotkey: 'pay_card', icon: <CreditCard className="h-6 w-6 mb-1" /> },
+  { method: 'e-wallet', hotkey: 'pay_ewallet', icon: <Wallet className="h-6 w-6 mb-1" /> },
+  { method: 'credit', hotkey: 'pay_credit', icon: <NotebookPen className="h-6 w-6 mb-1" /> },
+  { method: 'voucher', hotkey: 'pay_voucher', icon: <Gift className="h-6 w-6 mb-1" /> },
+];
+
+const PaymentDialog = ({ open, onOpenChange, onCompleted, hotkeys, initialMethod, onCheckoutChange }: PaymentDialogProps) => {
+  const { cart, appliedPromotions, cartCustomer, calculateSubtotal, calculatePromotionDiscount, calculateTax, calculateTotal, completeTransaction } = useTransactions();
+  const { isEnabled: isLoyaltyEnabled, pointValue, getPointsBalance } = useLoyalty();
+  const { settings } = useSettings();
+  const { getAvailableCredit } = useCredit();
+  const { getRedeemableVoucher, applyCoupon } = useVouchers();
+  const { requestApproval, approvalDialog, isApprovalPending } = useManagerApproval();
+
+  const [discount, setDiscount] = useState<string>('');
+  const [redeemPoints, setRedeemPoints] = useState<string>('');
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<{ coupon: Coupon; discount: number } | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const [payments, setPayments] = useState<PaymentTender[]>([]);
+  const [tenderMethod, setTenderMethod] = useState<PaymentMethod>('cash');
+  const [tenderAmount, setTenderAmount] = useState<string>('');
+  const [tenderReference, setTenderReference] = useState('');
+  // Generated when e-wallet is picked so the code the customer scans stays the same while the amount is edited
+  const [qrisReference, setQrisReference] = useState('');
+  const [voucherCode, setVoucherCode] = useState('');
+  const [checkedVoucher, setCheckedVoucher] = useState<{ code: string; balance: number } | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  // Kept so a retried payment does not ask for the PIN again, unless the discount changed
+  const [discountApproval, setDiscountApproval] = useState<{ amount: number; approval: OverrideApproval } | null>(null);
+
+  const subtotal = calculateSubtotal();
+  const discountValue = discount ? parseFloat(discount) : 0;
+  const discountBase = subtotal - calculatePromotionDiscount();
+  const needsDiscountApproval = exceedsDiscountLimit(discountValue, discountBase, settings.approval_policy);
+
+  const pointsBalance = cartCustomer && isLoyaltyEnabled ? getPointsBalance(cartCustomer.id) : 0;
+  // Never redeem more points than the sale is worth after the other discounts
+  const maxRedeemablePoints = pointValue > 0
+    ? Math.min(pointsBalance, Math.floor(Math.max(0, subtotal - calculatePromotionDiscount() - discountValue) / pointValue))
+    : 0;
+  const pointsValue = redeemPoints ? Math.min(parseInt(redeemPoints, 10) || 0, maxRedeemablePoints) : 0;
+  const loyaltyDiscount = pointsValue * pointValue;
+  // The coupon was priced when it was applied; later discounts can only shrink what is left for it
+  const couponDiscount = appliedCoupon
+    ? Math.min(appliedCoupon.discount, Math.max(0, subtotal - calculatePromotionDiscount() - discountValue - loyaltyDiscount))
+    : 0;
+  const reductions = discountValue + loyaltyDiscount + couponDiscount;
+
+  const taxBreakdown = calculateTax(reductions);
+  const billTotal = calculateTotal(reductions);
+  const totalPaid = sumTenders(payments);
+  const pendingAmount = tenderAmount ? parseFloat(tenderAmount) || 0 : 0;
+  // Rounded as soon as cash is picked, so the cashier sees the payable amount before typing it
+  const nonCashPaid = totalPaid - sumTenders(payments, 'cash') + (tenderMethod === 'cash' ? 0 : pendingAmount);
+  const payingCash = tenderMethod === 'cash' || payments.some((payment) => payment.method === 'cash');
+  const cashRounding = payingCash ? getCashRounding(billTotal, nonCashPaid, settings.cash_rounding) : 0;
+  const total = billTotal + cashRounding;
+  const remaining = Math.max(0, total - totalPaid);
+  // Kasbon already added as a tender in this dialog counts against the limit too
+  const availableCredit = cartCustomer ? Math.max(0, getAvailableCredit(cartCustomer.id) - sumTenders(payments, 'credit')) : 0;
+  // Same for a voucher that already paid part of this sale
+  const availableVoucher = checkedVoucher
+    ? Math.max(0, checkedVoucher.balance - sumTenders(payments.filter((payment) => payment.reference === checkedVoucher.code), 'voucher'))
+    : 0;
+
+  useEffect(() => {
+    onCheckoutChange?.(open ? { discount: reductions, rounding: cashRounding, paid: totalPaid } : null);
+  }, [open, reductions, cashRounding, totalPaid, onCheckoutChange]);
+
+  const resetForm = () => {
+    setDiscount('');
+    setRedeemPoints('');
+    setCouponCode('');
+    setAppliedCoupon(null);
+    setCustomerName('');
+    setPayments([]);
+    setTenderMethod('cash');
+    setTenderAmount('');
+    setTenderReference('');
+    setQrisReference('');
+    setVoucherCode('');
+    setCheckedVoucher(null);
+    setDiscountApproval(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      resetForm();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelectMethod = useCallback((method: PaymentMethod) => {
+    setTenderMethod(method);
+    setTenderReference('');
+    setQrisReference(method === 'e-wallet' && settings.qris_payload ? createQrisReference() : '');
+    setVoucherCode('');
+    setCheckedVoucher(null);
+    // Non-cash tenders are charged exactly, so prefill what is still owed before cash rounding, up to the kasbon limit.
+    // A voucher is prefilled once its code has been checked.
+    const billRemaining = Math.max(0, billTotal - totalPaid);
+    const prefill = method === 'credit' ? Math.min(billRemaining, availableCredit) : billRemaining;
+    setTenderAmount(method === 'cash' || method === 'voucher' || prefill === 0 ? '' : prefill.toString());
+  }, [billTotal, totalPaid, availableCredit, settings.qris_payload]);
+
+  const handleApplyCoupon = () => {
+    if (!couponCode.trim()) return;
+
+    try {
+      const applied = applyCoupon(couponCode, cart);
+      setAppliedCoupon(applied);
+      setCouponCode(applied.coupon.code);
+      toast.success(`Kupon ${applied.coupon.code} dipakai`);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleCheckVoucher = () => {
+    if (!voucherCode.trim()) return;
+
+    try {
+      const { voucher, balance } = getRedeemableVoucher(voucherCode);
+      const used = sumTenders(payments.filter((payment) => payment.reference === voucher.code), 'voucher');
+      setVoucherCode(voucher.code);
+      setCheckedVoucher({ code: voucher.code, balance });
+      const prefill = Math.min(remaining, Math.max(0, balance - used));
+      setTenderAmount(prefill > 0 ? prefill.toString() : '');
+    } catch (error) {
+      setCheckedVoucher(null);
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  // Enter in a code field applies the code; preventDefault keeps it from confirming the payment
+  const handleCodeKeyDown = (apply: () => void) => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    apply();
+  };
+
+  const tenderValue = tenderAmount ? parseFloat(tenderAmount) : 0;
+  const qris = useMemo(() => {
+    if (!qrisReference || !(tenderValue > 0)) return null;
+    try {
+      return { payload: buildDynamicQris(settings.qris_payload, tenderValue, qrisReference) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [qrisReference, tenderValue, settings.qris_payload]);
+
+  // Cash needs no reference, kasbon is tied to the customer, QRIS carries its own and a voucher is its code
+  const showTenderReference = tenderMethod !== 'cash' && tenderMethod !== 'credit' && tenderMethod !== 'voucher' && !qrisReference;
+
+  // Validates the tender being typed and returns it, or null when it is not acceptable
+  const buildPendingTender = (): PaymentTender | null => {
+    const amount = tenderAmount ? parseFloat(tenderAmount) : 0;
+    if (!amount || amount <= 0) {
+      return null;
+    }
+
+    if (tenderMethod !== 'cash' && amount > remaining) {
+      toast.error(`Pembayaran ${getPaymentMethodLabel(tenderMethod)} tidak boleh melebihi sisa tagihan!`);
+      return null;
+    }
+
+    if (tenderMethod === 'credit') {
+      if (!cartCustomer) {
+        toast.error('Kasbon hanya untuk pelanggan terdaftar. Pilih pelanggan terlebih dahulu.');
+        return null;
+      }
+      if (amount > availableCredit) {
+        toast.error(`Kasbon melebihi sisa limit Rp ${availableCredit.toLocaleString('id-ID')}`);
+        return null;
+      }
+    }
+
+    if (tenderMethod === 'voucher') {
+      if (!checkedVoucher || checkedVoucher.code !== normalizeCode(voucherCode)) {
+        toast.error('Cek kode voucher terlebih dahulu');
+        return null;
+      }
+      if (amount > availableVoucher) {
+        toast.error(`Saldo voucher tidak cukup, sisa Rp ${availableVoucher.toLocaleString('id-ID')}`);
+        return null;
+      }
+      return { method: 'voucher', amount, reference: checkedVoucher.code };
+    }
+
+    if (qris?.payload) {
+      return { method: tenderMethod, amount, reference: qrisReference, qrisPayload: qris.payload };
+    }
+
+    return {
+      method: tenderMethod,
+      amount,
+      reference: tenderReference.trim() || undefined,
+    };
+  };
+
+  const handleAddTender = () => {
+    if (remaining === 0) {
+      toast.error('Total sudah terbayar penuh!');
+      return;
+    }
+
+    const tender = buildPendingTender();
+    if (!tender) return;
+
+    setPayments([...payments, tender]);
+    setTenderMethod('cash');
+    setTenderAmount('');
+    setTenderReference('');
+    setQrisReference('');
+    setVoucherCode('');
+    setCheckedVoucher(null);
+  };
+
+  const handleRemoveTender = (index: number) => {
+    setPayments(payments.filter((_, i) => i !== index));
+  };
+
+  const handleCompletePayment = async () => {
+    if (isProcessing) return;
+
+    // A tender that is typed but not yet added still counts, which keeps single-tender sales one click
+    const pendingTender = tenderAmount && remaining > 0 ? buildPendingTender() : null;
+    if (tenderAmount && remaining > 0 && !pendingTender) return;
+
+    const allPayments = pendingTender ? [...payments, pendingTender] : payments;
+
+    if (sumTenders(allPayments) < total) {
+      toast.error('Jumlah pembayaran kurang dari total!');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      let approvals: OverrideApproval[] = [];
+      if (needsDiscountApproval) {
+        let approval = discountApproval?.amount === discountValue ? discountApproval.approval : null;
+        if (!approval) {
+          approval = await requestApproval(
+            'discount',
+            `Diskon Rp ${discountValue.toLocaleString('id-ID')} (${getDiscountPercent(discountValue, discountBase).toFixed(1)}% dari Rp ${discountBase.toLocaleString('id-ID')}), batas ${settings.approval_policy.max_discount_percent}%`
+          );
+          if (!approval) return;
+          setDiscountApproval({ amount: discountValue, approval });
+        }
+        approvals = [approval];
+      }
+
+      const transaction = await completeTransaction({
+        payments: allPayments,
+        discount: discountValue,
+        redeemPoints: pointsValue > 0 ? pointsValue : undefined,
+        couponCode: appliedCoupon?.coupon.code,
+        customerName: customerName || undefined,
+        approvals,
+      });
+
+      onCompleted(transaction);
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const initialMethodApplied = useRef(false);
+  useEffect(() => {
+    if (!open) {
+      initialMethodApplied.current = false;
+      return;
+    }
+    if (initialMethodApplied.current || !initialMethod) return;
+    initialMethodApplied.current = true;
+    handleSelectMethod(initialMethod);
+  }, [open, initialMethod, handleSelectMethod]);
+
+  // Enter confirms even from the amount field, so a cash sale is type-the-amount-and-Enter
+  useHotkeys(hotkeys, {
+    pay_cash: () => handleSelectMethod('cash'),
+    pay_card: () => handleSelectMethod('card'),
+    pay_ewallet: () => handleSelectMethod('e-wallet'),
+    pay_credit: () => handleSelectMethod('credit'),
+    pay_voucher: () => handleSelectMethod('voucher'),
+    confirm_payment: handleCompletePayment,
+    cancel: () => handleOpenChange(false),
+  }, { enabled: open && !isApprovalPending, inFields: true });
+
+  const previewPayments = pendingAmount > 0
+    ? [...payments, { method: tenderMethod, amount: pendingAmount }]
+    : payments;
+  const previewPaid = sumTenders(previewPayments);
+  const change = previewPaid >= total ? calculateChange(previewPayments, total) : 0;
+  const changeBreakdown = breakDownCash(change);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pembayaran</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div>
+            <Label htmlFor="customerName">{cartCustomer ? 'Pelanggan' : 'Nama Pelanggan (Opsional)'}</Label>
+            {cartCustomer ? (
+              <Input
+                id="customerName"
+                value={cartCustomer.phone ? `${cartCustomer.name} (${cartCustomer.phone})` : cartCustomer.name}
+                readOnly
+                disabled
+              />
+            ) : (
+              <Input
+                id="customerName"
+                placeholder="Masukkan nama pelanggan"
+                value={customerName}
+                onChange={(e) => setCustomerName(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="subtotal">Subtotal</Label>
+              <Input
+                id="subtotal"
+                value={`Rp ${subtotal.toLocaleString('id-ID')}`}
+                readOnly
+                disabled
+              />
+            </div>
+            <div>
+              <Label htmlFor="discount">Diskon (Rp)</Label>
+              <Input
+                id="discount"
+                type="number"
+                placeholder="0"
+                value={discount}
+                onChange={(e) => setDiscount(e.target.value)}
+                disabled={payments.length > 0}
+              />
+              {needsDiscountApproval && (
+                <p className="text-xs text-amber-600 mt-1">
+                  Melebihi {settings.approval_policy.max_discount_percent}%, perlu persetujuan manajer
+                </p>
+              )}
+            </div>
+          </div>
+
+          {appliedPromotions.length > 0 && (
+            <div className="space-y-1 text-sm text-green-700">
+              {appliedPromotions.map((promotion) => (
+                <div key={promotion.promotionId} className="flex justify-between">
+                  <span>{promotion.name}</span>
+                  <span>-Rp {promotion.amount.toLocaleString('id-ID')}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {pointsBalance > 0 && (
+            <div className="border rounded-lg p-3 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">Poin Pelanggan</span>
+                <span>{pointsBalance.toLocaleString('id-ID')} poin (Rp {(pointsBalance * pointValue).toLocaleString('id-ID')})</span>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  placeholder="Jumlah poin ditukar"
+                  value={redeemPoints}
+                  onChange={(e) => setRedeemPoints(e.target.value)}
+                  min="0"
+                  max={maxRedeemablePoints}
+                  disabled={payments.length > 0}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setRedeemPoints(maxRedeemablePoints.toString())}
+                  disabled={payments.length > 0 || maxRedeemablePoints === 0}
+                >
+                  Maks
+                </Button>
+              </div>
+              {loyaltyDiscount > 0 && (
+                <div className="flex justify-between text-sm text-green-700">
+                  <span>Tukar {pointsValue.toLocaleString('id-ID')} poin</span>
+                  <span>-Rp {loyaltyDiscount.toLocaleString('id-ID')}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="border rounded-lg p-3 space-y-2">
+            <Label htmlFor="couponCode">Kode Kupon</Label>
+            {appliedCoupon ? (
+              <div className="flex justify-between items-center text-sm text-green-700">
+                <span>{appliedCoupon.coupon.code} · {appliedCoupon.coupon.name}</span>
+                <div className="flex items-center space-x-2">
+                  <span>-Rp {couponDiscount.toLocaleString('id-ID')}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-red-500 hover:text-red-700"
+                    onClick={() => setAppliedCoupon(null)}
+                    disabled={payments.length > 0}
+                  >
+                    <X size={14} />
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="couponCode"
+                  placeholder="Masukkan kode kupon"
+                  value={couponCode}
+                  onChange={(e) => setCouponCode(e.target.value)}
+                  onKeyDown={handleCodeKeyDown(handleApplyCoupon)}
+                  disabled={payments.length > 0}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleApplyCoupon}
+                  disabled={payments.length > 0 || !couponCode.trim()}
+                >
+                  Pakai
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {taxBreakdown.tax > 0 && (
+            <div className="flex justify-between text-sm">
+              <span>{getTaxLabel(taxBreakdown.rate, taxBreakdown.inclusive)}</span>
+              <span>Rp {taxBreakdown.tax.toLocaleString('id-ID')}</span>
+            </div>
+          )}
+
+          {cashRounding !== 0 && (
+            <div className="flex justify-between text-sm">
+              <span>Pembulatan Tunai</span>
+              <span>{cashRounding > 0 ? '+' : '-'}Rp {Math.abs(cashRounding).toLocaleString('id-ID')}</span>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="total">Total</Label>
+            <Input
+              id="total"
+              className="text-lg font-bold"
+              value={`Rp ${total.toLocaleString('id-ID')}`}
+              readOnly
+              disabled
+            />
+          </div>
+
+          {payments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Pembayaran Diterima</Label>
+              {payments.map((payment, index) => (
+                <div key={index} className="flex justify-between items-center border rounded p-2 text-sm">
+                  <div>
+                    <div className="font-medium">{getPaymentMethodLabel(payment.method)}</div>
+                    {payment.reference && (
+                      <div className="text-gray-500">Ref: {payment.reference}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span>Rp {payment.amount.toLocaleString('id-ID')}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-500 hover:text-red-700"
+                      onClick={() => handleRemoveTender(index)}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <div className="flex justify-between text-sm font-medium">
+                <span>Sisa Tagihan:</span>
+                <span>Rp {remaining.toLocaleString('id-ID')}</span>
+              </div>
+            </div>
+          )}
+
+          {remaining > 0 && (
+            <div className="space-y-4">
+              <div>
+                <Label>Metode Pembayaran</Label>
+                <div className="grid grid-cols-5 gap-2 mt-2">
+                  {PAYMENT_METHOD_OPTIONS.map(({ method, hotkey, icon }) => (
+                    <Button
+                      key={method}
+                      type="button"
+                      variant={tenderMethod === method ? 'default' : 'outline'}
+                      className={`flex flex-col items-center justify-center h-20 px-1 ${
+                        tenderMethod === method ? 'bg-pos-blue text-white' : ''
+                      }`}
+                      onClick={() => handleSelectMethod(method)}
+                    >
+                      {icon}
+                      <span>{getPaymentMethodLabel(method)}</span>
+                      <span className="text-xs opacity-70">
+                        {formatHotkey(hotkeys[hotkey])}
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className={showTenderReference ? '' : 'col-span-2'}>
+                  <Label htmlFor="tenderAmount">Jumlah Pembayaran</Label>
+                  <Input
+                    id="tenderAmount"
+                    type="number"
+                    placeholder={remaining.toString()}
+                    value={tenderAmount}
+                    onChange={(e) => setTenderAmount(e.target.value)}
+                  />
+                </div>
+                {showTenderReference && (
+                  <div>
+                    <Label htmlFor="tenderReference">No. Referensi</Label>
+                    <Input
+                      id="tenderReference"
+                      placeholder="Opsional"
+                      value={tenderReference}
+                      onChange={(e) => setTenderReference(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {tenderMethod === 'cash' && (
+                <div className="flex flex-wrap gap-2">
+                  {getQuickCashAmounts(remaining).map((amount, index) => (
+                    <Button
+                      key={amount}
+                      type="button"
+                      variant={pendingAmount === amount ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setTenderAmount(amount.toString())}
+                    >
+                      {index === 0 ? 'Uang Pas' : `Rp ${amount.toLocaleString('id-ID')}`}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {tenderMethod === 'credit' && (
+                <p className={`text-sm ${cartCustomer ? 'text-gray-600' : 'text-amber-600'}`}>
+                  {cartCustomer
+                    ? `Sisa limit kasbon ${cartCustomer.name}: Rp ${availableCredit.toLocaleString('id-ID')}`
+                    : 'Kasbon hanya untuk pelanggan terdaftar. Pilih pelanggan di keranjang terlebih dahulu.'}
+                </p>
+              )}
+
+              {tenderMethod === 'voucher' && (
+                <div className="space-y-2">
+                  <Label htmlFor="voucherCode">Kode Voucher</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="voucherCode"
+                      placeholder="GV-XXXX-XXXX"
+                      value={voucherCode}
+                      onChange={(e) => {
+                        setVoucherCode(e.target.value);
+                        setCheckedVoucher(null);
+                      }}
+                      onKeyDown={handleCodeKeyDown(handleCheckVoucher)}
+                    />
+                    <Button type="button" variant="outline" onClick={handleCheckVoucher} disabled={!voucherCode.trim()}>
+                      Cek
+                    </Button>
+                  </div>
+                  {checkedVoucher && (
+                    <p className="text-sm text-gray-600">
+                      Saldo voucher {checkedVoucher.code}: Rp {availableVoucher.toLocaleString('id-ID')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {qrisReference && (
+                <div className="flex flex-col items-center rounded-lg border p-3">
+                  {qris?.payload ? (
+                    <>
+                      <QrCode value={qris.payload} size={220} />
+                      <span className="text-lg font-bold">Rp {tenderValue.toLocaleString('id-ID')}</span>
+                    </>
+                  ) : (
+                    <span className="text-sm text-gray-500 py-8">
+                      {qris?.error ? `QRIS tidak valid: ${qris.error}` : 'Isi jumlah pembayaran untuk membuat QRIS'}
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500">Ref QRIS: {qrisReference}</span>
+                </div>
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleAddTender}
+              >
+                <Plus className="mr-2 h-4 w-4" /> Tambah Pembayaran Lain
+              </Button>
+            </div>
+          )}
+
+          {previewPaid >= total && change > 0 && (
+            <div>
+              <Label htmlFor="change">Kembalian</Label>
+              <Input
+                id="change"
+                className="text-lg font-bold"
+                value={`Rp ${change.toLocaleString('id-ID')}`}
+                readOnly
+                disabled
+              />
+              <div className="flex flex-wrap gap-1 mt-2 text-xs">
+                {changeBreakdown.parts.map(({ denomination, count }) => (
+                  <span key={denomination} className="rounded border px-2 py-1">
+                    {count} × {denomination.toLocaleString('id-ID')}
+                  </span>
+                ))}
+                {changeBreakdown.remainder > 0 && (
+                  <span className="rounded border px-2 py-1 text-amber-600">
+                    sisa Rp {changeBreakdown.remainder.toLocaleString('id-ID')}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Batal</Button>
+          <Button onClick={handleCompletePayment} disabled={isProcessing}>
+            {isProcessing ? 'Memproses...' : `Selesaikan Pembayaran (${formatHotkey(hotkeys.confirm_payment)})`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      {approvalDialog}
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
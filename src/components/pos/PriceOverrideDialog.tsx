@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { CartItem } from '@/types';
+import { getListUnitPrice, getUnitCost } from '@/lib/approvals';
+import { getUnitLabel } from '@/lib/units';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface PriceOverrideDialogProps {
+  item: CartItem | null;
+  onOpenChange: (open: boolean) => void;
+  // undefined puts the line back on its normal price
+  onConfirm: (price: number | undefined) => void;
+}
+
+const PriceOverrideDialog = ({ item, onOpenChange, onConfirm }: PriceOverrideDialogProps) => {
+  const [price, setPrice] = useState('');
+
+  useEffect(() => {
+    setPrice(item?.priceOverride !== undefined ? item.priceOverride.toString() : '');
+  }, [item]);
+
+  const value = parseFloat(price);
+  const isValid = Number.isFinite(value) && value >= 0;
+
+  const handleConfirm = (next: number | undefined) => {
+    onConfirm(next);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{item ? `Ubah Harga ${item.product.name}` : 'Ubah Harga'}</DialogTitle>
+        </DialogHeader>
+
+        {item && (
+          <form
+            className="space-y-4 py-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (isValid) handleConfirm(value);
+            }}
+          >
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <span className="text-gray-500">Harga normal</span>
+              <span className="text-right">Rp {getListUnitPrice(item).toLocaleString('id-ID')}/{getUnitLabel(item)}</span>
+              <span className="text-gray-500">Harga modal</span>
+              <span className="text-right">Rp {getUnitCost(item).toLocaleString('id-ID')}/{getUnitLabel(item)}</span>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="override-price">Harga baru per {getUnitLabel(item)} (Rp)</Label>
+              <Input
+                id="override-price"
+                type="number"
+                min="0"
+                autoFocus
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+              />
+            </div>
+
+            <DialogFooter className="gap-2">
+              {item.priceOverride !== undefined && (
+                <Button type="button" variant="outline" onClick={() => handleConfirm(undefined)}>
+                  Harga Normal
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+              <Button type="submit" disabled={!isValid}>Simpan</Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PriceOverrideDialog;
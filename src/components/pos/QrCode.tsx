@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { encodeQr, getQrSvgPath } from '@/lib/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  className?: string;
+}
+
+const QR_BORDER = 4;
+
+const QrCode = ({ value, size = 200, className }: QrCodeProps) => {
+  const modules = useMemo(() => encodeQr(value), [value]);
+  const viewBox = modules.length + QR_BORDER * 2;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${viewBox} ${viewBox}`}
+      shapeRendering="crispEdges"
+      className={className}
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width="100%" height="100%" fill="#fff" />
+      <path d={getQrSvgPath(modules, QR_BORDER)} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
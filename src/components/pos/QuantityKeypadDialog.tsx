@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { CartItem } from '@/types';
+import { getLineGross, getUnitPrice } from '@/lib/pricing';
+import { getQuantityPrecision, getUnitLabel } from '@/lib/units';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Delete } from "lucide-react";
+
+interface QuantityKeypadDialogProps {
+  // The line being entered; quantity 0 for a product not yet in the cart
+  item: CartItem | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (quantity: number) => void;
+}
+
+const KEYS = ['7', '8', '9', '4', '5', '6', '1', '2', '3', ',', '0'];
+
+// Quantities are typed the Indonesian way, with a decimal comma
+const toEntry = (quantity: number) => (quantity > 0 ? quantity.toString().replace('.', ',') : '');
+
+const parseEntry = (entry: string) => Number(entry.replace(',', '.'));
+
+const QuantityKeypadDialog = ({ item, onOpenChange, onConfirm }: QuantityKeypadDialogProps) => {
+  const [entry, setEntry] = useState('');
+
+  useEffect(() => {
+    setEntry(item ? toEntry(item.quantity) : '');
+  }, [item]);
+
+  // Pack lines are always whole packs
+  const precision = item && !item.unit ? getQuantityPrecision(item.product) : 0;
+  const quantity = parseEntry(entry);
+  const isValid = entry !== '' && Number.isFinite(quantity) && quantity > 0;
+
+  const handleEntryChange = (value: string) => {
+    const next = value.replace('.', ',');
+    const pattern = precision > 0 ? new RegExp(`^\\d*(,\\d{0,${precision}})?$`) : /^\d*$/;
+    if (pattern.test(next)) {
+      setEntry(next);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!isValid) return;
+    onConfirm(quantity);
+    onOpenChange(false);
+  };
+
+  const unitLabel = item ? getUnitLabel(item) : '';
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{item ? item.product.name : 'Jumlah'}</DialogTitle>
+        </DialogHeader>
+
+        {item && (
+          <form
+            className="space-y-4 py-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleConfirm();
+            }}
+          >
+            <div className="text-sm text-gray-500">
+              Rp {getUnitPrice(item).toLocaleString('id-ID')}/{unitLabel}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Input
+                autoFocus
+                onFocus={(e) => e.target.select()}
+                inputMode="decimal"
+                aria-label={`Jumlah dalam ${unitLabel}`}
+                placeholder={precision > 0 ? `0,${'0'.repeat(precision)}` : '0'}
+                value={entry}
+                onChange={(e) => handleEntryChange(e.target.value)}
+                className="text-right text-2xl h-14 font-mono"
+              />
+              <span className="text-lg font-medium w-12">{unitLabel}</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {KEYS.map(key => (
+                <Button
+                  key={key}
+                  type="button"
+                  variant="outline"
+                  className="h-12 text-lg"
+                  disabled={key === ',' && precision === 0}
+                  onClick={() => handleEntryChange(entry + key)}
+                >
+                  {key}
+                </Button>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                className="h-12"
+                aria-label="Hapus angka terakhir"
+                onClick={() => setEntry(entry.slice(0, -1))}
+              >
+                <Delete size={18} />
+              </Button>
+            </div>
+
+            <div className="flex justify-between font-bold text-lg border-t pt-3">
+              <span>Total</span>
+              <span>Rp {(isValid ? getLineGross({ ...item, quantity }) : 0).toLocaleString('id-ID')}</span>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="outline" onClick={() => setEntry('')}>C</Button>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+              <Button type="submit" disabled={!isValid}>OK</Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuantityKeypadDialog;
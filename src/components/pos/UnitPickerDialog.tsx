@@ -0,0 +1,68 @@
+import { Product, ProductUnit } from '@/types';
+import { formatStockQuantity, getBaseUnit, getSellUnits } from '@/lib/units';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface UnitPickerDialogProps {
+  product: Product | null;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (product: Product, unit?: ProductUnit) => void;
+}
+
+const UnitPickerDialog = ({ product, onOpenChange, onSelect }: UnitPickerDialogProps) => {
+  const handleSelect = (unit?: ProductUnit) => {
+    if (!product) return;
+    onSelect(product, unit);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={product !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{product ? `Pilih Satuan ${product.name}` : 'Pilih Satuan'}</DialogTitle>
+        </DialogHeader>
+
+        {product && (
+          <div className="space-y-2 py-4">
+            <p className="text-sm text-gray-500">Stok: {formatStockQuantity(product, product.stock)}</p>
+
+            <button
+              type="button"
+              className="w-full flex items-center justify-between border rounded-lg p-3 text-left hover:bg-gray-50"
+              onClick={() => handleSelect()}
+            >
+              <span className="font-medium">1 {getBaseUnit(product)}</span>
+              <span className="font-bold text-pos-blue-dark">Rp {product.price.toLocaleString('id-ID')}</span>
+            </button>
+
+            {getSellUnits(product).map(unit => (
+              <button
+                key={unit.name}
+                type="button"
+                className={`
+                  w-full flex items-center justify-between border rounded-lg p-3 text-left
+                  ${unit.factor > product.stock ? 'opacity-60' : 'hover:bg-gray-50'}
+                `}
+                onClick={() => handleSelect(unit)}
+                disabled={unit.factor > product.stock}
+              >
+                <div>
+                  <div className="font-medium">1 {unit.name}</div>
+                  <div className="text-xs text-gray-500">isi {unit.factor.toLocaleString('id-ID')} {getBaseUnit(product)}</div>
+                </div>
+                <span className="font-bold text-pos-blue-dark">Rp {(unit.price || 0).toLocaleString('id-ID')}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnitPickerDialog;
@@ -0,0 +1,68 @@
+import { useProducts } from '@/contexts/ProductContext';
+import { Product } from '@/types';
+import { getVariantLabel } from '@/lib/variants';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface VariantPickerDialogProps {
+  parent: Product | null;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (variant: Product) => void;
+}
+
+const VariantPickerDialog = ({ parent, onOpenChange, onSelect }: VariantPickerDialogProps) => {
+  const { getProductVariants } = useProducts();
+
+  const variants = parent ? getProductVariants(parent.id).filter(variant => variant.isActive) : [];
+
+  const handleSelect = (variant: Product) => {
+    onSelect(variant);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={parent !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{parent ? `Pilih Varian ${parent.name}` : 'Pilih Varian'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3 py-4 max-h-96 overflow-y-auto">
+          {variants.map(variant => (
+            <button
+              key={variant.id}
+              type="button"
+              className={`
+                border rounded-lg p-3 text-left transition-all
+                ${variant.stock <= 0 ? 'opacity-60' : 'hover:bg-gray-50'}
+              `}
+              onClick={() => handleSelect(variant)}
+              disabled={variant.stock <= 0}
+            >
+              <div className="font-medium">{getVariantLabel(variant.variantAttributes)}</div>
+              <div className="text-xs text-gray-500 truncate">SKU: {variant.sku}</div>
+              <div className="flex justify-between items-center mt-2 text-sm">
+                <span className="font-bold text-pos-blue-dark">Rp {variant.price.toLocaleString('id-ID')}</span>
+                <span className={variant.stock <= variant.lowStockThreshold ? 'text-red-500' : 'text-gray-500'}>
+                  Stok: {variant.stock}
+                </span>
+              </div>
+            </button>
+          ))}
+
+          {variants.length === 0 && (
+            <p className="col-span-2 text-sm text-center text-gray-500 py-2">
+              Produk ini belum memiliki varian aktif.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VariantPickerDialog;
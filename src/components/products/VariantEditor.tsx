@@ -0,0 +1,185 @@
+import { ProductVariantInput, VariantOption } from '@/types';
+import { buildVariantCombinations, getVariantKey, getVariantLabel, normalizeVariantOptions } from '@/lib/variants';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, RefreshCw, X } from "lucide-react";
+import { toast } from 'sonner';
+
+interface VariantEditorProps {
+  options: VariantOption[];
+  variants: ProductVariantInput[];
+  defaultPrice: number;
+  defaultCost: number;
+  skuPrefix: string;
+  onOptionsChange: (options: VariantOption[]) => void;
+  onVariantsChange: (variants: ProductVariantInput[]) => void;
+}
+
+const VariantEditor = ({
+  options,
+  variants,
+  defaultPrice,
+  defaultCost,
+  skuPrefix,
+  onOptionsChange,
+  onVariantsChange,
+}: VariantEditorProps) => {
+  const handleOptionChange = (index: number, changes: Partial<VariantOption>) => {
+    onOptionsChange(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  const handleRemoveOption = (index: number) => {
+    onOptionsChange(options.filter((_, i) => i !== index));
+  };
+
+  // Rebuilds the rows from the options, keeping whatever was already entered for combinations that survive
+  const handleGenerate = () => {
+    let normalized: VariantOption[];
+    try {
+      normalized = normalizeVariantOptions(options);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+      return;
+    }
+
+    if (normalized.length === 0) {
+      toast.error('Tambahkan minimal satu atribut varian');
+      return;
+    }
+
+    const existing = new Map(variants.map(variant => [getVariantKey(variant.variantAttributes, normalized), variant]));
+
+    onOptionsChange(normalized);
+    onVariantsChange(
+      buildVariantCombinations(normalized).map(attributes => {
+        return existing.get(getVariantKey(attributes, normalized)) || {
+          variantAttributes: attributes,
+          sku: [skuPrefix, ...Object.values(attributes)].filter(Boolean).join('-').toUpperCase().replace(/\s+/g, ''),
+          barcode: '',
+          price: defaultPrice,
+          cost: defaultCost,
+          stock: 0,
+          isActive: true,
+        };
+      })
+    );
+  };
+
+  const handleVariantChange = (index: number, changes: Partial<ProductVariantInput>) => {
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const handleRemoveVariant = (index: number) => {
+    onVariantsChange(variants.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder="Atribut, mis. Ukuran"
+              aria-label="Nama atribut"
+              value={option.name}
+              onChange={(e) => handleOptionChange(index, { name: e.target.value })}
+              className="w-32"
+            />
+            <Input
+              placeholder="Nilai, pisahkan dengan koma"
+              aria-label="Nilai atribut"
+              value={option.values.join(',')}
+              onChange={(e) => handleOptionChange(index, { values: e.target.value.split(',') })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => handleRemoveOption(index)}
+            >
+              <X size={14} />
+            </Button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onOptionsChange([...options, { name: '', values: [] }])}
+          >
+            <Plus size={14} className="mr-1" /> Atribut
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={handleGenerate}>
+            <RefreshCw size={14} className="mr-1" /> Buat Varian
+          </Button>
+        </div>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="space-y-2">
+          <Label>Varian ({variants.length})</Label>
+          {variants.map((variant, index) => (
+            <div key={getVariantKey(variant.variantAttributes, options) || index} className="border rounded-lg p-2 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-sm">{getVariantLabel(variant.variantAttributes)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => handleRemoveVariant(index)}
+                >
+                  <X size={12} />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  placeholder="SKU"
+                  aria-label="SKU varian"
+                  value={variant.sku}
+                  onChange={(e) => handleVariantChange(index, { sku: e.target.value })}
+                />
+                <Input
+                  placeholder="Barcode"
+                  aria-label="Barcode varian"
+                  value={variant.barcode || ''}
+                  onChange={(e) => handleVariantChange(index, { barcode: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  placeholder="Harga"
+                  aria-label="Harga varian"
+                  value={variant.price || ''}
+                  onChange={(e) => handleVariantChange(index, { price: parseFloat(e.target.value) || 0 })}
+                />
+                <Input
+                  type="number"
+                  placeholder="Modal"
+                  aria-label="Harga modal varian"
+                  value={variant.cost || ''}
+                  onChange={(e) => handleVariantChange(index, { cost: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              {variant.id ? (
+                <p className="text-xs text-gray-500">Stok: {variant.stock} (ubah melalui Kelola Stok)</p>
+              ) : (
+                <Input
+                  type="number"
+                  placeholder="Stok awal"
+                  aria-label="Stok awal varian"
+                  value={variant.stock || ''}
+                  onChange={(e) => handleVariantChange(index, { stock: parseInt(e.target.value) || 0 })}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantEditor;
@@ -3,6 +3,7 @@ import React, { createContext, useState, useContext, useEffect } from 'react';
 import { User, UserRole } from '@/types';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
+import { canApproveOverrides } from '@/lib/approvals';
 
 interface AuthContextType {
   user: User | null;
@@ -10,6 +11,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   logout: () => void;
   hasPermission: (roles: UserRole[]) => boolean;
+  verifyApproverPin: (pin: string) => User | null;
 }
 
 const mockUsers = [
@@ -39,6 +41,12 @@ const mockUsers = [
   },
 ];
 
+// Override PINs of the users allowed to approve them, by user id
+const approverPins: Record<string, string> = {
+  '1': '1234',
+  '2': '5678',
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -95,12 +103,24 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return roles.includes(user.role);
   };
 
+  // Only managers and admins can approve, and never for themselves through the PIN prompt
+  const verifyApproverPin = (pin: string) => {
+    const approver = mockUsers.find(
+      (u) => approverPins[u.id] === pin && canApproveOverrides(u.role)
+    );
+    if (!approver || approver.id === user?.id) return null;
+
+    const { id, name, email, role, avatar } = approver;
+    return { id, name, email, role, avatar };
+  };
+
   const value = {
     user,
     isAuthenticated: !!user,
     login,
     logout,
     hasPermission,
+    verifyApproverPin,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
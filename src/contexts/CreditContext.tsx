@@ -0,0 +1,173 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { CreditEntry, PaymentMethod, Refund, Transaction } from '@/types';
+import { useAuth } from './AuthContext';
+import { useShift } from './ShiftContext';
+import { useCustomers } from './CustomerContext';
+import { toast } from 'sonner';
+import { createId } from '@/lib/ids';
+import { COUNTER_PAYMENT_METHODS, sumTenders } from '@/lib/payments';
+import { getAvailableCredit, getCreditBalance, settleCharges } from '@/lib/credit';
+
+interface CreditContextType {
+  ledger: CreditEntry[];
+  getCreditBalance: (customerId: string) => number;
+  getAvailableCredit: (customerId: string) => number;
+  getCustomerCreditLedger: (customerId: string) => CreditEntry[];
+  getOwedOnTransaction: (transactionId: string) => number;
+  chargeCredit: (transaction: Transaction) => void;
+  recordRepayment: (repaymentDetails: {
+    customerId: string;
+    amount: number;
+    method: PaymentMethod;
+    reference?: string;
+    notes?: string;
+  }) => CreditEntry;
+  reverseCredit: (transaction: Transaction, refund: Refund) => void;
+}
+
+const CreditContext = createContext<CreditContextType | undefined>(undefined);
+
+export const CreditProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [ledger, setLedger] = useState<CreditEntry[]>(() => {
+    const stored = localStorage.getItem('posCreditLedger');
+    return stored ? JSON.parse(stored) : [];
+  });
+
+  const { user } = useAuth();
+  const { currentShift } = useShift();
+  const { getCustomerById } = useCustomers();
+
+  useEffect(() => {
+    localStorage.setItem('posCreditLedger', JSON.stringify(ledger));
+  }, [ledger]);
+
+  const getCustomerCreditLedger = (customerId: string) => {
+    return ledger
+      .filter(entry => entry.customerId === customerId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  };
+
+  const getCustomerAvailableCredit = (customerId: string) => {
+    const customer = getCustomerById(customerId);
+    return customer ? getAvailableCredit(customer, ledger) : 0;
+  };
+
+  const getOwedOnTransaction = (transactionId: string) => {
+    return ledger
+      .filter(entry => entry.type === 'charge' && entry.transactionId === transactionId)
+      .reduce((sum, entry) => sum + (entry.remaining || 0), 0);
+  };
+
+  // Limits are checked by completeTransaction before the sale is final; this only books it
+  const chargeCredit = (transaction: Transaction) => {
+    const amount = sumTenders(transaction.payments, 'credit');
+    if (!transaction.customerId || amount <= 0) return;
+
+    const entry: CreditEntry = {
+      id: createId(),
+      customerId: transaction.customerId,
+      type: 'charge',
+      amount,
+      remaining: amount,
+      transactionId: transaction.id,
+      transactionNumber: transaction.number,
+      cashierId: transaction.cashierId,
+      cashierName: transaction.cashierName,
+      shiftId: transaction.shiftId,
+      createdAt: transaction.createdAt,
+    };
+
+    setLedger(prev => [...prev, entry]);
+  };
+
+  const recordRepayment = (repaymentDetails: {
+    customerId: string;
+    amount: number;
+    method: PaymentMethod;
+    reference?: string;
+    notes?: string;
+  }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!COUNTER_PAYMENT_METHODS.includes(repaymentDetails.method)) {
+      throw new Error('Credit can only be repaid in cash, by card or by e-wallet');
+    }
+
+    // Cash goes into a drawer, so it has to be booked against an open shift
+    if (repaymentDetails.method === 'cash' && !currentShift) {
+      throw new Error('No open shift');
+    }
+
+    if (!Number.isFinite(repaymentDetails.amount) || repaymentDetails.amount <= 0) {
+      throw new Error('Repayment must be greater than 0');
+    }
+
+    if (repaymentDetails.amount > getCreditBalance(ledger, repaymentDetails.customerId)) {
+      throw new Error('Repayment exceeds the outstanding balance');
+    }
+
+    const entry: CreditEntry = {
+      id: createId(),
+      customerId: repaymentDetails.customerId,
+      type: 'repayment',
+      amount: -repaymentDetails.amount,
+      method: repaymentDetails.method,
+      reference: repaymentDetails.reference,
+      notes: repaymentDetails.notes,
+      cashierId: user.id,
+      cashierName: user.name,
+      shiftId: currentShift?.id,
+      createdAt: new Date().toISOString(),
+    };
+
+    setLedger(prev => [...settleCharges(prev, repaymentDetails.customerId, repaymentDetails.amount), entry]);
+    toast.success('Pembayaran kasbon berhasil dicatat');
+
+    return entry;
+  };
+
+  // A return refunded to kasbon lowers what the customer owes instead of paying out
+  const reverseCredit = (transaction: Transaction, refund: Refund) => {
+    if (!transaction.customerId || refund.method !== 'credit' || refund.total <= 0) return;
+
+    const customerId = transaction.customerId;
+    const entry: CreditEntry = {
+      id: createId(),
+      customerId,
+      type: 'refund',
+      amount: -refund.total,
+      transactionId: transaction.id,
+      transactionNumber: transaction.number,
+      refundId: refund.id,
+      cashierId: refund.cashierId,
+      cashierName: refund.cashierName,
+      shiftId: refund.shiftId,
+      createdAt: refund.createdAt,
+    };
+
+    setLedger(prev => [...settleCharges(prev, customerId, refund.total, transaction.id), entry]);
+  };
+
+  const value = {
+    ledger,
+    getCreditBalance: (customerId: string) => getCreditBalance(ledger, customerId),
+    getAvailableCredit: getCustomerAvailableCredit,
+    getCustomerCreditLedger,
+    getOwedOnTransaction,
+    chargeCredit,
+    recordRepayment,
+    reverseCredit,
+  };
+
+  return <CreditContext.Provider value={value}>{children}</CreditContext.Provider>;
+};
+
+export const useCredit = () => {
+  const context = useContext(CreditContext);
+  if (context === undefined) {
+    throw new Error('useCredit must be used within a CreditProvider');
+  }
+  return context;
+};
@@ -1,6 +1,7 @@
 
-import React, { createContext, useState, useContext, ReactNode } from 'react';
-import { Customer, Transaction } from '@/types';
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { Customer } from '@/types';
+import { createId } from '@/lib/ids';
 import { toast } from 'sonner';
 
 // Mock customers data
@@ -52,99 +53,64 @@ const mockCustomers: Customer[] = [
   },
 ];
 
-// Mock transactions data (for optional feature)
-const mockCustomerTransactions: { [customerId: string]: Transaction[] } = {
-  '1': [
-    {
-      id: 't1',
-      items: [
-        {
-          product: {
-            id: 'p1',
-            name: 'Produk A',
-            sku: 'SKU001',
-            price: 15000,
-            categoryId: 'c1',
-            stock: 50,
-            lowStockThreshold: 10,
-            isActive: true,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          },
-          quantity: 2,
-        }
-      ],
-      subtotal: 30000,
-      total: 30000,
-      paymentMethod: 'cash',
-      cashierId: 'u1',
-      customerId: '1',
-      createdAt: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-    }
-  ],
-  '2': [
-    {
-      id: 't2',
-      items: [
-        {
-          product: {
-            id: 'p2',
-            name: 'Produk B',
-            sku: 'SKU002',
-            price: 25000,
-            categoryId: 'c2',
-            stock: 30,
-            lowStockThreshold: 5,
-            isActive: true,
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-          },
-          quantity: 1,
-        }
-      ],
-      subtotal: 25000,
-      total: 25000,
-      paymentMethod: 'card',
-      cashierId: 'u1',
-      customerId: '2',
-      createdAt: new Date(Date.now() - 172800000).toISOString(), // 2 days ago
-    }
-  ]
-};
-
 interface CustomerContextType {
   customers: Customer[];
   getCustomerById: (id: string) => Customer | undefined;
-  addCustomer: (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  addCustomer: (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => Customer;
   updateCustomer: (id: string, customer: Partial<Customer>) => void;
   deleteCustomer: (id: string) => void;
   searchCustomers: (query: string) => Customer[];
-  getCustomerTransactions: (customerId: string) => Transaction[];
+  recordCustomerPurchase: (customerId: string, amount: number, date: string) => void;
+  recordCustomerRefund: (customerId: string, amount: number) => void;
 }
 
+const normalizePhone = (phone?: string) => (phone || '').replace(/\D/g, '');
+
 const CustomerContext = createContext<CustomerContextType | undefined>(undefined);
 
 export const CustomerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [customers, setCustomers] = useState<Customer[]>(mockCustomers);
+  const [customers, setCustomers] = useState<Customer[]>(() => {
+    const stored = localStorage.getItem('posCustomers');
+    return stored ? JSON.parse(stored) : mockCustomers;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('posCustomers', JSON.stringify(customers));
+  }, [customers]);
 
   const getCustomerById = (id: string) => {
     return customers.find(customer => customer.id === id);
   };
 
   const addCustomer = (customer: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>) => {
+    // Phone numbers are how cashiers look regulars up, so they must stay unique
+    const phone = normalizePhone(customer.phone);
+    if (phone && customers.some(existing => normalizePhone(existing.phone) === phone)) {
+      throw new Error('A customer with this phone number already exists');
+    }
+
     const now = new Date().toISOString();
-    const newCustomer = {
+    const newCustomer: Customer = {
       ...customer,
-      id: (customers.length + 1).toString(),
+      id: createId(),
+      total_transactions: 0,
+      total_spent: 0,
       createdAt: now,
       updatedAt: now,
     };
 
-    setCustomers([...customers, newCustomer]);
+    setCustomers(prev => [...prev, newCustomer]);
     toast.success('Pelanggan berhasil ditambahkan');
+
+    return newCustomer;
   };
 
   const updateCustomer = (id: string, updatedCustomer: Partial<Customer>) => {
+    const phone = normalizePhone(updatedCustomer.phone);
+    if (phone && customers.some(existing => existing.id !== id && normalizePhone(existing.phone) === phone)) {
+      throw new Error('A customer with this phone number already exists');
+    }
+
     const updatedCustomers = customers.map(customer => {
       if (customer.id === id) {
         return {
@@ -176,8 +142,27 @@ export const CustomerProvider: React.FC<{ children: ReactNode }> = ({ children }
     );
   };
 
-  const getCustomerTransactions = (customerId: string) => {
-    return mockCustomerTransactions[customerId] || [];
+  // Purchase stats are kept on the customer so lists don't have to scan every transaction
+  const recordCustomerPurchase = (customerId: string, amount: number, date: string) => {
+    setCustomers(prev => prev.map(customer => {
+      if (customer.id !== customerId) return customer;
+
+      const lastDate = customer.last_transaction_date;
+      return {
+        ...customer,
+        total_transactions: (customer.total_transactions || 0) + 1,
+        total_spent: (customer.total_spent || 0) + amount,
+        last_transaction_date: !lastDate || new Date(date) > new Date(lastDate) ? date : lastDate,
+      };
+    }));
+  };
+
+  const recordCustomerRefund = (customerId: string, amount: number) => {
+    setCustomers(prev => prev.map(customer =>
+      customer.id === customerId
+        ? { ...customer, total_spent: Math.max(0, (customer.total_spent || 0) - amount) }
+        : customer
+    ));
   };
 
   return (
@@ -189,7 +174,8 @@ export const CustomerProvider: React.FC<{ children: ReactNode }> = ({ children }
         updateCustomer,
         deleteCustomer,
         searchCustomers,
-        getCustomerTransactions,
+        recordCustomerPurchase,
+        recordCustomerRefund,
       }}
     >
       {children}
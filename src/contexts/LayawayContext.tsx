@@ -0,0 +1,338 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { Layaway, LayawayPayment, PaymentMethod, StockLotMovement, Transaction } from '@/types';
+import { useAuth } from './AuthContext';
+import { useShift } from './ShiftContext';
+import { useProducts } from './ProductContext';
+import { useSettings } from './SettingsContext';
+import { useTransactions } from './TransactionContext';
+import { toast } from 'sonner';
+import { createId } from '@/lib/ids';
+import { allocateDocumentNumber } from '@/lib/numbering';
+import { COUNTER_PAYMENT_METHODS } from '@/lib/payments';
+import { toDateKey } from '@/lib/promotions';
+import { getBaseQuantitiesByProduct, roundQuantity } from '@/lib/units';
+import { getCancellationSplit, getLayawayBalance, getMinimumDeposit } from '@/lib/layaways';
+
+interface LayawayContextType {
+  layaways: Layaway[];
+  getLayawayById: (id: string) => Layaway | undefined;
+  createLayaway: (layawayDetails: {
+    deposit: number;
+    method: PaymentMethod;
+    reference?: string;
+    dueDate?: string;
+    notes?: string;
+  }) => Promise<Layaway>;
+  recordLayawayPayment: (id: string, paymentDetails: {
+    amount: number;
+    method: PaymentMethod;
+    reference?: string;
+  }) => Promise<{ layaway: Layaway; transaction?: Transaction }>;
+  cancelLayaway: (id: string, cancelDetails: {
+    refundMethod: PaymentMethod;
+    reason?: string;
+  }) => Layaway;
+}
+
+const LayawayContext = createContext<LayawayContextType | undefined>(undefined);
+
+export const LayawayProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [layaways, setLayaways] = useState<Layaway[]>(() => {
+    const stored = localStorage.getItem('posLayaways');
+    return stored ? JSON.parse(stored) : [];
+  });
+
+  const { user } = useAuth();
+  const { currentShift } = useShift();
+  const { updateStock, getProductById } = useProducts();
+  const { settings } = useSettings();
+  const {
+    cart,
+    appliedPromotions,
+    cartCustomer,
+    cartApprovals,
+    calculateSubtotal,
+    calculateTax,
+    calculateTotal,
+    clearCart,
+    completeLayawaySale
+  } = useTransactions();
+
+  useEffect(() => {
+    localStorage.setItem('posLayaways', JSON.stringify(layaways));
+  }, [layaways]);
+
+  const getLayawayById = (id: string) => {
+    return layaways.find(layaway => layaway.id === id);
+  };
+
+  // Deposits go into a drawer or a terminal like any payment, so they follow the same rules
+  const assertCounterPayment = (method: PaymentMethod, amount: number) => {
+    if (!COUNTER_PAYMENT_METHODS.includes(method)) {
+      throw new Error('Layaways can only be paid in cash, by card or by e-wallet');
+    }
+
+    if (!currentShift) {
+      throw new Error('No open shift');
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new Error('Payment must be greater than 0');
+    }
+  };
+
+  const createLayaway = async (layawayDetails: {
+    deposit: number;
+    method: PaymentMethod;
+    reference?: string;
+    dueDate?: string;
+    notes?: string;
+  }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (cart.length === 0) {
+      throw new Error('Cart is empty');
+    }
+
+    // The goods are held for someone who has to come back for them
+    if (!cartCustomer) {
+      throw new Error('Layaway is only available to registered customers');
+    }
+
+    assertCounterPayment(layawayDetails.method, layawayDetails.deposit);
+
+    const taxBreakdown = calculateTax();
+    const total = calculateTotal();
+    const minimumDeposit = getMinimumDeposit(total, settings.layaway_policy);
+    if (layawayDetails.deposit < minimumDeposit) {
+      throw new Error(`Deposit must be at least Rp ${minimumDeposit.toLocaleString('id-ID')}`);
+    }
+
+    if (layawayDetails.deposit >= total) {
+      throw new Error('Deposit covers the full total; complete it as a sale instead');
+    }
+
+    if (layawayDetails.dueDate && layawayDetails.dueDate < toDateKey(new Date())) {
+      throw new Error('Due date is in the past');
+    }
+
+    const reserved = getBaseQuantitiesByProduct(cart);
+    reserved.forEach((quantity, productId) => {
+      const product = getProductById(productId);
+      if (!product || roundQuantity(product.stock - quantity) < 0) {
+        throw new Error(`Insufficient stock for ${product?.name ?? 'a product in the cart'}`);
+      }
+    });
+
+    const createdAt = new Date();
+    const number = await allocateDocumentNumber('layaway', settings.document_numbering.layaway, createdAt);
+
+    const deposit: LayawayPayment = {
+      id: createId(),
+      type: 'payment',
+      amount: layawayDetails.deposit,
+      method: layawayDetails.method,
+      reference: layawayDetails.reference,
+      cashierId: user.id,
+      cashierName: user.name,
+      shiftId: currentShift?.id,
+      createdAt: createdAt.toISOString(),
+    };
+
+    const newLayaway: Layaway = {
+      id: createId(),
+      number,
+      items: [...cart],
+      subtotal: calculateSubtotal(),
+      promotions: appliedPromotions.length > 0 ? appliedPromotions : undefined,
+      tax: taxBreakdown.tax,
+      taxRate: taxBreakdown.rate,
+      taxInclusive: taxBreakdown.inclusive,
+      taxableAmount: taxBreakdown.taxableAmount,
+      total,
+      customerId: cartCustomer.id,
+      customerName: cartCustomer.name,
+      payments: [deposit],
+      status: 'open',
+      dueDate: layawayDetails.dueDate || undefined,
+      notes: layawayDetails.notes || undefined,
+      overrides: cartApprovals.length > 0 ? cartApprovals : undefined,
+      cashierId: user.id,
+      cashierName: user.name,
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+    };
+
+    // Reserved goods come off the shelf now so they cannot be sold to someone else.
+    // The lots they came from are kept, so a cancellation puts them back where they were
+    const reservedLots: Record<string, StockLotMovement[]> = {};
+    for (const [productId, quantity] of reserved) {
+      const lots = await updateStock(
+        productId,
+        -quantity,
+        'reservation',
+        undefined,
+        `Dipesan untuk layaway #${number}`,
+        { fromDocument: true }
+      );
+      if (lots && lots.length > 0) {
+        reservedLots[productId] = lots;
+      }
+    }
+    if (Object.keys(reservedLots).length > 0) {
+      newLayaway.reservedLots = reservedLots;
+    }
+
+    setLayaways(prev => [...prev, newLayaway]);
+    clearCart();
+    toast.success('Layaway berhasil dibuat');
+
+    return newLayaway;
+  };
+
+  const recordLayawayPayment = async (id: string, paymentDetails: {
+    amount: number;
+    method: PaymentMethod;
+    reference?: string;
+  }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const layaway = getLayawayById(id);
+    if (!layaway) {
+      throw new Error('Layaway not found');
+    }
+
+    if (layaway.status !== 'open') {
+      throw new Error('Layaway is not open');
+    }
+
+    assertCounterPayment(paymentDetails.method, paymentDetails.amount);
+
+    if (paymentDetails.amount > getLayawayBalance(layaway)) {
+      throw new Error('Payment exceeds the balance due');
+    }
+
+    const payment: LayawayPayment = {
+      id: createId(),
+      type: 'payment',
+      amount: paymentDetails.amount,
+      method: paymentDetails.method,
+      reference: paymentDetails.reference,
+      cashierId: user.id,
+      cashierName: user.name,
+      shiftId: currentShift?.id,
+      createdAt: new Date().toISOString(),
+    };
+
+    let updated: Layaway = {
+      ...layaway,
+      payments: [...layaway.payments, payment],
+      updatedAt: payment.createdAt,
+    };
+
+    // The last installment turns the layaway into a sale the customer walks out with
+    let transaction: Transaction | undefined;
+    if (getLayawayBalance(updated) === 0) {
+      transaction = await completeLayawaySale(updated);
+      updated = {
+        ...updated,
+        status: 'completed',
+        transactionId: transaction.id,
+        transactionNumber: transaction.number,
+      };
+      toast.success(`Layaway lunas, penjualan #${transaction.number} dibuat`);
+    } else {
+      toast.success('Cicilan layaway berhasil dicatat');
+    }
+
+    setLayaways(prev => prev.map(l => (l.id === id ? updated : l)));
+
+    return { layaway: updated, transaction };
+  };
+
+  const cancelLayaway = (id: string, cancelDetails: {
+    refundMethod: PaymentMethod;
+    reason?: string;
+  }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const layaway = getLayawayById(id);
+    if (!layaway) {
+      throw new Error('Layaway not found');
+    }
+
+    if (layaway.status !== 'open') {
+      throw new Error('Layaway is not open');
+    }
+
+    // The store keeps what the policy says and pays the rest back
+    const { forfeited, refundable } = getCancellationSplit(layaway, settings.layaway_policy);
+    if (refundable > 0) {
+      assertCounterPayment(cancelDetails.refundMethod, refundable);
+    }
+
+    const cancelledAt = new Date().toISOString();
+    const refund: LayawayPayment | null = refundable > 0 ? {
+      id: createId(),
+      type: 'refund',
+      amount: -refundable,
+      method: cancelDetails.refundMethod,
+      cashierId: user.id,
+      cashierName: user.name,
+      shiftId: currentShift?.id,
+      createdAt: cancelledAt,
+    } : null;
+
+    const updated: Layaway = {
+      ...layaway,
+      payments: refund ? [...layaway.payments, refund] : layaway.payments,
+      status: 'cancelled',
+      forfeitedAmount: forfeited > 0 ? forfeited : undefined,
+      cancelReason: cancelDetails.reason || undefined,
+      cancelledAt,
+      updatedAt: cancelledAt,
+    };
+
+    // The reserved goods go back on the shelf, into the lots they were taken from
+    getBaseQuantitiesByProduct(layaway.items).forEach((quantity, productId) => {
+      const restoreLots = layaway.reservedLots?.[productId];
+      updateStock(
+        productId,
+        quantity,
+        'reservation',
+        undefined,
+        `Layaway #${layaway.number} dibatalkan`,
+        { restoreLots, fromDocument: true }
+      );
+    });
+
+    setLayaways(prev => prev.map(l => (l.id === id ? updated : l)));
+    toast.success('Layaway dibatalkan');
+
+    return updated;
+  };
+
+  const value = {
+    layaways,
+    getLayawayById,
+    createLayaway,
+    recordLayawayPayment,
+    cancelLayaway,
+  };
+
+  return <LayawayContext.Provider value={value}>{children}</LayawayContext.Provider>;
+};
+
+export const useLayaways = () => {
+  const context = useContext(LayawayContext);
+  if (context === undefined) {
+    throw new Error('useLayaways must be used within a LayawayProvider');
+  }
+  return context;
+};
@@ -0,0 +1,191 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { LoyaltyEntry, Refund, Transaction } from '@/types';
+import { useProducts } from './ProductContext';
+import { useSettings } from './SettingsContext';
+import { createId } from '@/lib/ids';
+import { calculateEarnedPoints, consumePoints, expireLots, getLoyaltyBalance } from '@/lib/loyalty';
+
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface LoyaltyContextType {
+  ledger: LoyaltyEntry[];
+  isEnabled: boolean;
+  pointValue: number;
+  getPointsBalance: (customerId: string) => number;
+  getCustomerLedger: (customerId: string) => LoyaltyEntry[];
+  earnPoints: (transaction: Transaction) => number;
+  redeemPoints: (customerId: string, points: number, transactionId: string) => void;
+  reversePoints: (transaction: Transaction, refund: Refund, refundedShare: number) => void;
+}
+
+const LoyaltyContext = createContext<LoyaltyContextType | undefined>(undefined);
+
+export const LoyaltyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [ledger, setLedger] = useState<LoyaltyEntry[]>(() => {
+    const stored = localStorage.getItem('posLoyaltyLedger');
+    return stored ? expireLots(JSON.parse(stored), new Date()) : [];
+  });
+
+  const { categories } = useProducts();
+  const { settings } = useSettings();
+
+  useEffect(() => {
+    localStorage.setItem('posLoyaltyLedger', JSON.stringify(ledger));
+  }, [ledger]);
+
+  // Tills stay open for days, so expiry can't wait for the next page load
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setLedger(prev => expireLots(prev, new Date()));
+    }, EXPIRY_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const getPointsBalance = (customerId: string) => {
+    return getLoyaltyBalance(ledger, customerId);
+  };
+
+  const getCustomerLedger = (customerId: string) => {
+    return ledger
+      .filter(entry => entry.customerId === customerId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  };
+
+  const getExpiryDate = (from: string) => {
+    if (settings.loyalty_expiry_days <= 0) return undefined;
+    const expiry = new Date(from);
+    expiry.setDate(expiry.getDate() + settings.loyalty_expiry_days);
+    return expiry.toISOString();
+  };
+
+  const earnPoints = (transaction: Transaction) => {
+    if (!settings.loyalty_enabled || !transaction.customerId) return 0;
+
+    const points = calculateEarnedPoints(transaction, categories, settings.loyalty_spend_per_point);
+    if (points <= 0) return 0;
+
+    const expiresAt = getExpiryDate(transaction.createdAt);
+
+    const entry: LoyaltyEntry = {
+      id: createId(),
+      customerId: transaction.customerId,
+      type: 'earn',
+      points,
+      remaining: points,
+      expiresAt,
+      transactionId: transaction.id,
+      createdAt: transaction.createdAt,
+    };
+
+    setLedger(prev => [...prev, entry]);
+
+    return points;
+  };
+
+  const redeemPoints = (customerId: string, points: number, transactionId: string) => {
+    if (!settings.loyalty_enabled) {
+      throw new Error('Loyalty program is disabled');
+    }
+
+    if (points <= 0 || !Number.isInteger(points)) {
+      throw new Error('Redeemed points must be a positive whole number');
+    }
+
+    if (points > getPointsBalance(customerId)) {
+      throw new Error('Insufficient loyalty points');
+    }
+
+    const entry: LoyaltyEntry = {
+      id: createId(),
+      customerId,
+      type: 'redeem',
+      points: -points,
+      transactionId,
+      createdAt: new Date().toISOString(),
+    };
+
+    setLedger(prev => [...consumePoints(prev, customerId, points), entry]);
+  };
+
+  /**
+   * Settles loyalty for returned goods. Points redeemed on the sale go back
+   * to the customer in line with refundedShare, the part of the order
+   * returned so far, so a full return or void restores all of them. Points
+   * earned on the returned goods are taken back, but never below a zero
+   * balance.
+   */
+  const reversePoints = (transaction: Transaction, refund: Refund, refundedShare: number) => {
+    if (!transaction.customerId) return;
+
+    const customerId = transaction.customerId;
+    let balance = getPointsBalance(customerId);
+    const entries: LoyaltyEntry[] = [];
+
+    if (transaction.loyaltyPointsRedeemed) {
+      // Rounded against the running total, so partial refunds add up to exactly what was redeemed
+      const restored = ledger
+        .filter(entry => entry.type === 'restore' && entry.transactionId === transaction.id)
+        .reduce((sum, entry) => sum + entry.points, 0);
+      const points = Math.round(transaction.loyaltyPointsRedeemed * refundedShare) - restored;
+      if (points > 0) {
+        entries.push({
+          id: createId(),
+          customerId,
+          type: 'restore',
+          points,
+          remaining: points,
+          expiresAt: getExpiryDate(refund.createdAt),
+          transactionId: transaction.id,
+          refundId: refund.id,
+          createdAt: refund.createdAt,
+        });
+        balance += points;
+      }
+    }
+
+    let clawedBack = 0;
+    if (transaction.loyaltyPointsEarned && transaction.total > 0) {
+      const share = Math.min(1, refund.total / transaction.total);
+      clawedBack = Math.min(Math.round(transaction.loyaltyPointsEarned * share), balance);
+      if (clawedBack > 0) {
+        entries.push({
+          id: createId(),
+          customerId,
+          type: 'refund',
+          points: -clawedBack,
+          transactionId: transaction.id,
+          refundId: refund.id,
+          createdAt: refund.createdAt,
+        });
+      }
+    }
+
+    if (entries.length === 0) return;
+
+    setLedger(prev => {
+      const next = [...prev, ...entries];
+      return clawedBack > 0 ? consumePoints(next, customerId, clawedBack) : next;
+    });
+  };
+
+  const value = {
+    ledger,
+    isEnabled: settings.loyalty_enabled,
+    pointValue: settings.loyalty_point_value,
+    getPointsBalance,
+    getCustomerLedger,
+    earnPoints,
+    redeemPoints,
+    reversePoints,
+  };
+
+  return <LoyaltyContext.Provider value={value}>{children}</LoyaltyContext.Provider>;
+};
+
+export const useLoyalty = () => {
+  const context = useContext(LoyaltyContext);
+  if (context === undefined) {
+    throw new Error('useLoyalty must be used within a LoyaltyProvider');
+  }
+  return context;
+};
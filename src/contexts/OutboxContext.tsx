@@ -0,0 +1,206 @@
+import React, { createContext, useState, useContext, useEffect, useRef, useCallback } from 'react';
+import { OutboxEntry, Transaction } from '@/types';
+import { useAuth } from './AuthContext';
+import { createTransaction } from '@/services/transactionService';
+import { createId } from '@/lib/ids';
+import { getDocumentNumber } from '@/lib/numbering';
+import { classifySyncError, createIdempotencyKey, getRetryDelay, toTransactionInput } from '@/lib/outbox';
+import { toast } from 'sonner';
+
+interface OutboxContextType {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  conflictCount: number;
+  isOnline: boolean;
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  enqueueTransaction: (transaction: Transaction) => void;
+  syncNow: () => void;
+  retryEntry: (id: string) => void;
+  resolveEntry: (id: string, note?: string) => void;
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => {
+    const stored = localStorage.getItem('posOutbox');
+    return stored ? JSON.parse(stored) : [];
+  });
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(() => localStorage.getItem('posOutboxLastSyncedAt'));
+
+  const { user } = useAuth();
+
+  // The replay loop is async, so it reads the latest queue through a ref rather than a stale closure
+  const entriesRef = useRef(entries);
+  const isSyncingRef = useRef(false);
+
+  useEffect(() => {
+    entriesRef.current = entries;
+    localStorage.setItem('posOutbox', JSON.stringify(entries));
+  }, [entries]);
+
+  useEffect(() => {
+    if (lastSyncedAt) {
+      localStorage.setItem('posOutboxLastSyncedAt', lastSyncedAt);
+    }
+  }, [lastSyncedAt]);
+
+  // Pending entries become due immediately, e.g. when the connection comes back
+  const makePendingDue = useCallback(() => {
+    const now = new Date().toISOString();
+    setEntries(prev => prev.map(entry =>
+      entry.status === 'pending' ? { ...entry, nextAttemptAt: now } : entry
+    ));
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      makePendingDue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [makePendingDue]);
+
+  const processQueue = useCallback(async () => {
+    if (isSyncingRef.current || !navigator.onLine) return;
+
+    const now = Date.now();
+    const due = entriesRef.current
+      .filter(entry => entry.status === 'pending' && new Date(entry.nextAttemptAt).getTime() <= now)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    if (due.length === 0) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+
+    for (const entry of due) {
+      try {
+        await createTransaction(toTransactionInput(entry.transaction), {
+          idempotencyKey: entry.idempotencyKey,
+          background: true,
+        });
+
+        setEntries(prev => prev.filter(e => e.id !== entry.id));
+        setLastSyncedAt(new Date().toISOString());
+      } catch (error) {
+        const { conflict, message } = classifySyncError(error);
+
+        setEntries(prev => prev.map(e => {
+          if (e.id !== entry.id) return e;
+          const attempts = e.attempts + 1;
+          return {
+            ...e,
+            attempts,
+            status: conflict ? 'conflict' : 'pending',
+            lastError: message,
+            nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+          };
+        }));
+
+        if (conflict) {
+          toast.error(`Transaksi #${getDocumentNumber(entry.transaction)} ditolak server: ${message}`);
+        }
+      }
+    }
+
+    isSyncingRef.current = false;
+    setIsSyncing(false);
+  }, []);
+
+  // Wake up when the earliest pending entry is due
+  useEffect(() => {
+    if (!isOnline) return;
+
+    const pending = entries.filter(entry => entry.status === 'pending');
+    if (pending.length === 0) return;
+
+    const nextAttempt = Math.min(...pending.map(entry => new Date(entry.nextAttemptAt).getTime()));
+    const timer = setTimeout(processQueue, Math.max(0, nextAttempt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [entries, isOnline, isSyncing, processQueue]);
+
+  const enqueueTransaction = (transaction: Transaction) => {
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = {
+      id: createId(),
+      idempotencyKey: createIdempotencyKey(),
+      transaction,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+
+    setEntries(prev => [...prev, entry]);
+  };
+
+  const syncNow = () => {
+    if (!navigator.onLine) {
+      toast.error('Tidak ada koneksi internet');
+      return;
+    }
+    makePendingDue();
+  };
+
+  const retryEntry = (id: string) => {
+    setEntries(prev => prev.map(entry =>
+      entry.id === id ? {
+        ...entry,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date().toISOString(),
+      } : entry
+    ));
+    toast.info('Transaksi dijadwalkan untuk dikirim ulang');
+  };
+
+  const resolveEntry = (id: string, note?: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    setEntries(prev => prev.map(entry =>
+      entry.id === id ? {
+        ...entry,
+        status: 'resolved',
+        resolvedBy: user.name,
+        resolvedAt: new Date().toISOString(),
+        resolutionNote: note,
+      } : entry
+    ));
+    toast.success('Konflik ditandai selesai');
+  };
+
+  const value = {
+    entries,
+    pendingCount: entries.filter(entry => entry.status === 'pending').length,
+    conflictCount: entries.filter(entry => entry.status === 'conflict').length,
+    isOnline,
+    isSyncing,
+    lastSyncedAt,
+    enqueueTransaction,
+    syncNow,
+    retryEntry,
+    resolveEntry,
+  };
+
+  return <OutboxContext.Provider value={value}>{children}</OutboxContext.Provider>;
+};
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
@@ -1,16 +1,25 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import { Product, Category, StockAdjustment, StockAdjustmentType } from '@/types';
+import { Product, Category, ProductVariantInput, StockAdjustment, StockAdjustmentType, StockLot, StockLotMovement } from '@/types';
 import { toast } from 'sonner';
 import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { createId } from '@/lib/ids';
+import { allocateDocumentNumber } from '@/lib/numbering';
+import { buildVariantName, isVariantParent } from '@/lib/variants';
+import { roundQuantity } from '@/lib/units';
+import { drawFromLot, drawLots, getDefaultBatchNumber, getUntrackedStock, returnToLots } from '@/lib/lots';
 
 interface ProductContextType {
   products: Product[];
   categories: Category[];
   stockAdjustments: StockAdjustment[];
-  addProduct: (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  addProduct: (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt'>) => Product;
   updateProduct: (id: string, updates: Partial<Product>) => void;
   deleteProduct: (id: string) => void;
   getProductById: (id: string) => Product | undefined;
+  getProductByBarcode: (barcode: string) => Product | undefined;
+  getProductVariants: (parentId: string) => Product[];
+  saveProductVariants: (parent: Product, variants: ProductVariantInput[]) => void;
   getProductsByCategory: (categoryId: string) => Product[];
   searchProducts: (query: string) => Product[];
   getLowStockProducts: () => Product[];
@@ -22,11 +31,12 @@ interface ProductContextType {
     quantity: number, 
     adjustmentType: StockAdjustmentType, 
     supplierId?: string, 
-    notes?: string
-  ) => void;
+    notes?: string,
+    options?: StockUpdateOptions
+  ) => Promise<StockLotMovement[] | undefined>;
   addStockAdjustment: (
-    adjustment: Omit<StockAdjustment, 'id' | 'createdAt' | 'userName' | 'productName' | 'supplierName'>
-  ) => void;
+    adjustment: Omit<StockAdjustment, 'id' | 'number' | 'createdAt' | 'userName' | 'productName' | 'supplierName'>
+  ) => Promise<void>;
   getStockAdjustments: () => StockAdjustment[];
   getStockAdjustmentsByType: (type: StockAdjustmentType) => StockAdjustment[];
   getStockAdjustmentsByDateRange: (startDate: string, endDate: string) => StockAdjustment[];
@@ -35,6 +45,14 @@ interface ProductContextType {
   getMonthlyLossesReturns: () => number;
 }
 
+interface StockUpdateOptions {
+  lotId?: string; // Lot a write-off comes out of
+  batchNumber?: string; // Lot a purchase opens
+  expiryDate?: string;
+  restoreLots?: StockLotMovement[]; // Lots released goods go back into
+  fromDocument?: boolean; // Booked by a sale, refund or layaway whose number is in the notes; takes no number of its own
+}
+
 // Mock data
 const mockCategories: Category[] = [
   { id: '1', name: 'Makanan', description: 'Produk makanan' },
@@ -196,6 +214,7 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
   );
   
   const { user } = useAuth();
+  const { settings } = useSettings();
 
   useEffect(() => {
     localStorage.setItem('posProducts', JSON.stringify(products));
@@ -213,17 +232,19 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     const now = new Date().toISOString();
     const newProduct: Product = {
       ...productData,
-      id: Date.now().toString(),
+      id: createId(),
       createdAt: now,
       updatedAt: now,
     };
     
-    setProducts([...products, newProduct]);
+    setProducts(prevProducts => [...prevProducts, newProduct]);
     toast.success(`Produk ${newProduct.name} berhasil ditambahkan`);
+
+    return newProduct;
   };
 
   const updateProduct = (id: string, updates: Partial<Product>) => {
-    setProducts(products.map(product => 
+    setProducts(prevProducts => prevProducts.map(product => 
       product.id === id ? { 
         ...product, 
         ...updates, 
@@ -235,7 +256,8 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
 
   const deleteProduct = (id: string) => {
     const productToDelete = products.find(p => p.id === id);
-    setProducts(products.filter(product => product.id !== id));
+    // A parent takes its variants with it
+    setProducts(prevProducts => prevProducts.filter(product => product.id !== id && product.parentId !== id));
     
     if (productToDelete) {
       toast.success(`Produk ${productToDelete.name} berhasil dihapus`);
@@ -246,6 +268,64 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     return products.find(product => product.id === id);
   };
 
+  const getProductByBarcode = (barcode: string) => {
+    return products.find(product => product.isActive && product.barcode === barcode);
+  };
+
+  const getProductVariants = (parentId: string) => {
+    return products.filter(product => product.parentId === parentId);
+  };
+
+  /**
+   * Creates, updates and retires the variants of a parent in one go. Variants
+   * dropped from the list are deactivated rather than deleted, because past
+   * sales and stock movements still point at them. Stock of an existing
+   * variant only changes through stock adjustments.
+   */
+  const saveProductVariants = (parent: Product, variants: ProductVariantInput[]) => {
+    const now = new Date().toISOString();
+
+    setProducts(prevProducts => {
+      const updated = prevProducts.map(product => {
+        if (product.parentId !== parent.id) return product;
+
+        const variant = variants.find(v => v.id === product.id);
+        if (!variant) {
+          return product.isActive ? { ...product, isActive: false, updatedAt: now } : product;
+        }
+
+        return {
+          ...product,
+          ...variant,
+          stock: product.stock,
+          name: buildVariantName(parent.name, variant.variantAttributes),
+          categoryId: parent.categoryId,
+          lowStockThreshold: parent.lowStockThreshold,
+          isActive: parent.isActive && variant.isActive,
+          updatedAt: now,
+        };
+      });
+
+      const created: Product[] = variants
+        .filter(variant => !variant.id)
+        .map(variant => ({
+          ...variant,
+          id: createId(),
+          parentId: parent.id,
+          name: buildVariantName(parent.name, variant.variantAttributes),
+          description: parent.description,
+          categoryId: parent.categoryId,
+          lowStockThreshold: parent.lowStockThreshold,
+          imageUrl: parent.imageUrl,
+          isActive: parent.isActive && variant.isActive,
+          createdAt: now,
+          updatedAt: now,
+        }));
+
+      return [...updated, ...created];
+    });
+  };
+
   const getProductsByCategory = (categoryId: string) => {
     return products.filter(product => product.categoryId === categoryId && product.isActive);
   };
@@ -262,13 +342,14 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
   };
 
   const getLowStockProducts = () => {
-    return products.filter(product => product.isActive && product.stock <= product.lowStockThreshold);
+    // A parent holds no stock of its own; its variants are listed instead
+    return products.filter(product => product.isActive && !isVariantParent(product) && product.stock <= product.lowStockThreshold);
   };
 
   const addCategory = (categoryData: Omit<Category, 'id'>) => {
     const newCategory: Category = {
       ...categoryData,
-      id: Date.now().toString(),
+      id: createId(),
     };
     
     setCategories([...categories, newCategory]);
@@ -298,13 +379,14 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const updateStock = (
+  const updateStock = async (
     productId: string, 
     quantity: number, 
     adjustmentType: StockAdjustmentType, 
     supplierId?: string, 
-    notes?: string
-  ) => {
+    notes?: string,
+    options?: StockUpdateOptions
+  ): Promise<StockLotMovement[] | undefined> => {
     if (!user) {
       toast.error('Pengguna tidak terautentikasi');
       return;
@@ -316,8 +398,13 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
       return;
     }
 
+    if (isVariantParent(product)) {
+      toast.error('Stok produk bervarian dikelola per varian');
+      return;
+    }
+
     // Check if the adjustment would make stock negative
-    if (product.stock + quantity < 0) {
+    if (roundQuantity(product.stock + quantity) < 0) {
       toast.error('Stok tidak boleh negatif');
       return;
     }
@@ -328,35 +415,121 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
       return;
     }
 
-    if ((adjustmentType === 'loss' || adjustmentType === 'return') && quantity >= 0) {
-      toast.error('Jumlah kehilangan atau retur harus negatif');
+    if (adjustmentType === 'loss' && quantity >= 0) {
+      toast.error('Jumlah kehilangan harus negatif');
       return;
     }
 
+    // Returns go both ways: negative back to a supplier, positive when a customer brings goods back
+    if (adjustmentType === 'return' && quantity === 0) {
+      toast.error('Jumlah retur tidak boleh nol');
+      return;
+    }
+
+    if (adjustmentType === 'reservation' && quantity === 0) {
+      toast.error('Jumlah reservasi tidak boleh nol');
+      return;
+    }
+
+    /**
+     * A purchase opens a new lot, a write-off of a chosen lot comes out of
+     * that lot only, and anything else taken off the shelf uses up untracked
+     * stock before drawing the lots first expiry, first out. Goods released
+     * from a reservation go back into the lots they were taken from; other
+     * stock put back by returns and corrections stays untracked, since it
+     * cannot be told which lot it came from.
+     */
+    const receivedAt = new Date().toISOString();
+    const newLot: StockLot | undefined = adjustmentType === 'purchase' ? {
+      id: createId(),
+      batchNumber: options?.batchNumber?.trim() || getDefaultBatchNumber(),
+      expiryDate: options?.expiryDate || undefined,
+      receivedAt,
+      quantity,
+    } : undefined;
+
+    if (options?.lotId && !newLot && quantity >= 0) {
+      toast.error('Lot hanya dapat dipilih untuk pengurangan stok');
+      return;
+    }
+
+    const nextLots = (current: Product): { lots: StockLot[]; movements: StockLotMovement[] } | undefined => {
+      const lots = current.lots || [];
+      if (newLot) {
+        const { id: lotId, batchNumber, expiryDate } = newLot;
+        return { lots: [...lots, newLot], movements: [{ lotId, batchNumber, expiryDate, receivedAt, quantity }] };
+      }
+      if (options?.restoreLots && quantity > 0) return returnToLots(lots, options.restoreLots, receivedAt);
+      if (options?.lotId) return drawFromLot(lots, options.lotId, -quantity);
+      if (quantity < 0) return drawLots(lots, -quantity, getUntrackedStock(current));
+      return { lots, movements: [] };
+    };
+
+    const lotChange = nextLots(product);
+    if (!lotChange) {
+      toast.error('Jumlah melebihi sisa lot yang dipilih');
+      return;
+    }
+
+    /**
+     * Purchases and adjustments made by hand draw their number before
+     * anything changes, so a numbering failure leaves the stock untouched.
+     * Movements booked by another document skip the await and run in the
+     * caller's tick.
+     */
+    let number: string | undefined;
+    if (!options?.fromDocument) {
+      const documentType = adjustmentType === 'purchase' ? 'purchase' : 'adjustment';
+      try {
+        number = await allocateDocumentNumber(documentType, settings.document_numbering[documentType], new Date(receivedAt));
+      } catch (error) {
+        toast.error(`Error: ${(error as Error).message}`);
+        return;
+      }
+    }
+
     // Update product stock
     const previousStock = product.stock;
-    const newStock = previousStock + quantity;
+    // Weighed goods move in fractions, which must not leave 0.30000000000000004 on the shelf
+    const newStock = roundQuantity(previousStock + quantity);
     
-    setProducts(products.map(p => 
-      p.id === productId ? { ...p, stock: newStock, updatedAt: new Date().toISOString() } : p
-    ));
+    // Functional update so several products adjusted in the same tick all land. The lot change
+    // recorded below is worked out from this render's state, so callers move each product once
+    // per tick (see getBaseQuantitiesByProduct)
+    setProducts(prevProducts => prevProducts.map(p => {
+      if (p.id !== productId) return p;
+      const lots = nextLots(p)?.lots ?? p.lots ?? [];
+      return {
+        ...p,
+        stock: roundQuantity(p.stock + quantity),
+        lots: lots.length > 0 ? lots : undefined,
+        updatedAt: receivedAt,
+      };
+    }));
 
     // Create stock adjustment record
-    addStockAdjustment({
+    recordStockAdjustment({
       productId,
       previousStock,
       adjustmentQuantity: quantity,
       newStock,
       adjustmentType,
       supplierId,
+      lots: lotChange.movements.length > 0 ? lotChange.movements : undefined,
       notes,
       userId: user.id
-    });
+    }, number, receivedAt);
     
     toast.success(`Stok produk ${product.name} berhasil diperbarui`);
+
+    return lotChange.movements;
   };
 
-  const addStockAdjustment = (adjustment: Omit<StockAdjustment, 'id' | 'createdAt' | 'userName' | 'productName' | 'supplierName'>) => {
+  const recordStockAdjustment = (
+    adjustment: Omit<StockAdjustment, 'id' | 'number' | 'createdAt' | 'userName' | 'productName' | 'supplierName'>,
+    number: string | undefined,
+    createdAt: string
+  ) => {
     if (!user) return;
     
     const product = products.find(p => p.id === adjustment.productId);
@@ -369,17 +542,27 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
       // For now just use a placeholder
       supplierName = `Supplier ${adjustment.supplierId}`;
     }
-    
+
     const newAdjustment: StockAdjustment = {
       ...adjustment,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
+      id: createId(),
+      number,
+      createdAt,
       userName: user.name,
       productName: product.name,
       supplierName
     };
     
-    setStockAdjustments([...stockAdjustments, newAdjustment]);
+    setStockAdjustments(prevAdjustments => [...prevAdjustments, newAdjustment]);
+  };
+
+  const addStockAdjustment = async (adjustment: Omit<StockAdjustment, 'id' | 'number' | 'createdAt' | 'userName' | 'productName' | 'supplierName'>) => {
+    // Goods received from suppliers are numbered as purchases, every other movement as an adjustment
+    const documentType = adjustment.adjustmentType === 'purchase' ? 'purchase' : 'adjustment';
+    const createdAt = new Date();
+    const number = await allocateDocumentNumber(documentType, settings.document_numbering[documentType], createdAt);
+
+    recordStockAdjustment(adjustment, number, createdAt.toISOString());
   };
 
   const getStockAdjustments = () => {
@@ -439,6 +622,9 @@ export const ProductProvider: React.FC<{ children: React.ReactNode }> = ({ child
     updateProduct,
     deleteProduct,
     getProductById,
+    getProductByBarcode,
+    getProductVariants,
+    saveProductVariants,
     getProductsByCategory,
     searchProducts,
     getLowStockProducts,
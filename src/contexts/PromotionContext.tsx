@@ -0,0 +1,114 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { Promotion } from '@/types';
+import { isPromotionActive } from '@/lib/promotions';
+import { createId } from '@/lib/ids';
+import { toast } from 'sonner';
+
+interface PromotionContextType {
+  promotions: Promotion[];
+  addPromotion: (promotion: Omit<Promotion, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  updatePromotion: (id: string, updates: Partial<Promotion>) => void;
+  deletePromotion: (id: string) => void;
+  getPromotionById: (id: string) => Promotion | undefined;
+  getActivePromotions: (at?: Date) => Promotion[];
+}
+
+// Mock data
+const mockPromotions: Promotion[] = [
+  {
+    id: '1',
+    name: 'Beli 2 Gratis 1 Mie Instan',
+    type: 'buy_x_get_y',
+    productIds: ['1'],
+    buyQuantity: 2,
+    getQuantity: 1,
+    isActive: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+  {
+    id: '2',
+    name: 'Happy Hour Minuman 10%',
+    type: 'category_percentage',
+    categoryId: '2',
+    percentage: 10,
+    startTime: '14:00',
+    endTime: '16:00',
+    isActive: false,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  },
+];
+
+const PromotionContext = createContext<PromotionContextType | undefined>(undefined);
+
+export const PromotionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [promotions, setPromotions] = useState<Promotion[]>(() => {
+    const stored = localStorage.getItem('posPromotions');
+    return stored ? JSON.parse(stored) : mockPromotions;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('posPromotions', JSON.stringify(promotions));
+  }, [promotions]);
+
+  const addPromotion = (promotionData: Omit<Promotion, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const now = new Date().toISOString();
+    const newPromotion: Promotion = {
+      ...promotionData,
+      id: createId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    setPromotions([...promotions, newPromotion]);
+    toast.success(`Promo ${newPromotion.name} berhasil ditambahkan`);
+  };
+
+  const updatePromotion = (id: string, updates: Partial<Promotion>) => {
+    setPromotions(promotions.map(promotion =>
+      promotion.id === id ? {
+        ...promotion,
+        ...updates,
+        updatedAt: new Date().toISOString()
+      } : promotion
+    ));
+    toast.success('Promo berhasil diperbarui');
+  };
+
+  const deletePromotion = (id: string) => {
+    const promotionToDelete = promotions.find(p => p.id === id);
+    setPromotions(promotions.filter(promotion => promotion.id !== id));
+
+    if (promotionToDelete) {
+      toast.success(`Promo ${promotionToDelete.name} berhasil dihapus`);
+    }
+  };
+
+  const getPromotionById = (id: string) => {
+    return promotions.find(promotion => promotion.id === id);
+  };
+
+  const getActivePromotions = (at: Date = new Date()) => {
+    return promotions.filter(promotion => isPromotionActive(promotion, at));
+  };
+
+  const value = {
+    promotions,
+    addPromotion,
+    updatePromotion,
+    deletePromotion,
+    getPromotionById,
+    getActivePromotions,
+  };
+
+  return <PromotionContext.Provider value={value}>{children}</PromotionContext.Provider>;
+};
+
+export const usePromotions = () => {
+  const context = useContext(PromotionContext);
+  if (context === undefined) {
+    throw new Error('usePromotions must be used within a PromotionProvider');
+  }
+  return context;
+};
@@ -1,5 +1,9 @@
 
-import React, { createContext, useContext, useState } from 'react';
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AppSettings, PriceRounding } from '@/types';
+import { DEFAULT_NUMBERING, DocumentType, NumberingRule } from '@/lib/numbering';
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY } from '@/lib/approvals';
+import { DEFAULT_LAYAWAY_POLICY, LayawayPolicy } from '@/lib/layaways';
 import { toast } from '@/components/ui/sonner';
 
 export interface Settings {
@@ -9,7 +13,22 @@ export interface Settings {
   phone: string;
   email: string;
   tax_percentage: number;
+  tax_inclusive: boolean;
+  weighed_price_rounding: PriceRounding;
+  cash_rounding: PriceRounding; // Applied to what is left for cash, so no sale ends in coins nobody carries
   receipt_footer: string;
+  receipt_print_format: AppSettings['receipt_print_format'];
+  receipt_printer_bridge_url: string;
+  auto_print_receipt: boolean;
+  loyalty_enabled: boolean;
+  loyalty_spend_per_point: number;
+  loyalty_point_value: number;
+  loyalty_expiry_days: number;
+  document_numbering: Record<DocumentType, NumberingRule>;
+  approval_policy: ApprovalPolicy;
+  layaway_policy: LayawayPolicy;
+  qris_payload: string; // The store's static QRIS, as decoded from the acquirer's sticker
+  qris_on_receipt: boolean;
   currency: string;
   logo_path: string;
   updated_at: string;
@@ -29,7 +48,22 @@ const defaultSettings: Settings = {
   phone: '08123456789',
   email: 'toko@example.com',
   tax_percentage: 10.00,
+  tax_inclusive: false,
+  weighed_price_rounding: { step: 1, mode: 'nearest' },
+  cash_rounding: { step: 1, mode: 'nearest' },
   receipt_footer: 'Terima kasih telah berbelanja di toko kami!',
+  receipt_print_format: 'thermal_80mm',
+  receipt_printer_bridge_url: '',
+  auto_print_receipt: false,
+  loyalty_enabled: true,
+  loyalty_spend_per_point: 10000,
+  loyalty_point_value: 100,
+  loyalty_expiry_days: 365,
+  document_numbering: DEFAULT_NUMBERING,
+  approval_policy: DEFAULT_APPROVAL_POLICY,
+  layaway_policy: DEFAULT_LAYAWAY_POLICY,
+  qris_payload: '',
+  qris_on_receipt: false,
   currency: 'IDR',
   logo_path: '',
   updated_at: new Date().toISOString()
@@ -46,9 +80,23 @@ export const useSettings = () => {
 };
 
 export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [settings, setSettings] = useState<Settings>(defaultSettings);
+  const [settings, setSettings] = useState<Settings>(() => {
+    const stored = localStorage.getItem('posSettings');
+    if (!stored) return defaultSettings;
+    const parsed = JSON.parse(stored);
+    // Document types added since the settings were saved still need a numbering rule
+    return {
+      ...defaultSettings,
+      ...parsed,
+      document_numbering: { ...DEFAULT_NUMBERING, ...parsed.document_numbering },
+    };
+  });
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
+  useEffect(() => {
+    localStorage.setItem('posSettings', JSON.stringify(settings));
+  }, [settings]);
+
   const updateSettings = async (newSettings: Partial<Settings>) => {
     try {
       setIsLoading(true);
@@ -0,0 +1,115 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { Shift } from '@/types';
+import { useAuth } from './AuthContext';
+import { createId } from '@/lib/ids';
+import { countCash } from '@/lib/shifts';
+import { toast } from 'sonner';
+
+interface ShiftContextType {
+  shifts: Shift[];
+  currentShift: Shift | undefined;
+  openShift: (openingFloat: number) => Shift;
+  closeShift: (closeDetails: {
+    cashCount: Record<string, number>;
+    expectedCash: number;
+    notes?: string;
+  }) => Shift;
+  getShiftById: (id: string) => Shift | undefined;
+}
+
+const ShiftContext = createContext<ShiftContextType | undefined>(undefined);
+
+export const ShiftProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [shifts, setShifts] = useState<Shift[]>(() => {
+    const stored = localStorage.getItem('posShifts');
+    return stored ? JSON.parse(stored) : [];
+  });
+
+  const { user } = useAuth();
+
+  useEffect(() => {
+    localStorage.setItem('posShifts', JSON.stringify(shifts));
+  }, [shifts]);
+
+  // Each cashier works one drawer at a time
+  const currentShift = user
+    ? shifts.find((shift) => shift.cashierId === user.id && shift.status === 'open')
+    : undefined;
+
+  const openShift = (openingFloat: number) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (currentShift) {
+      throw new Error('Shift already open');
+    }
+
+    if (openingFloat < 0) {
+      throw new Error('Opening float cannot be negative');
+    }
+
+    const shift: Shift = {
+      id: createId(),
+      cashierId: user.id,
+      cashierName: user.name,
+      openingFloat,
+      status: 'open',
+      openedAt: new Date().toISOString(),
+    };
+
+    setShifts([...shifts, shift]);
+    toast.success('Shift berhasil dibuka');
+
+    return shift;
+  };
+
+  const closeShift = (closeDetails: {
+    cashCount: Record<string, number>;
+    expectedCash: number;
+    notes?: string;
+  }) => {
+    if (!currentShift) {
+      throw new Error('No open shift');
+    }
+
+    const countedCash = countCash(closeDetails.cashCount);
+    const closedShift: Shift = {
+      ...currentShift,
+      status: 'closed',
+      closedAt: new Date().toISOString(),
+      cashCount: closeDetails.cashCount,
+      countedCash,
+      expectedCash: closeDetails.expectedCash,
+      overShort: countedCash - closeDetails.expectedCash,
+      notes: closeDetails.notes,
+    };
+
+    setShifts(shifts.map((shift) => (shift.id === closedShift.id ? closedShift : shift)));
+    toast.success('Shift berhasil ditutup');
+
+    return closedShift;
+  };
+
+  const getShiftById = (id: string) => {
+    return shifts.find((shift) => shift.id === id);
+  };
+
+  const value = {
+    shifts,
+    currentShift,
+    openShift,
+    closeShift,
+    getShiftById,
+  };
+
+  return <ShiftContext.Provider value={value}>{children}</ShiftContext.Provider>;
+};
+
+export const useShift = () => {
+  const context = useContext(ShiftContext);
+  if (context === undefined) {
+    throw new Error('useShift must be used within a ShiftProvider');
+  }
+  return context;
+};
@@ -1,28 +1,77 @@
 
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import { CartItem, Transaction, PaymentMethod } from '@/types';
+import { CartItem, Coupon, Customer, Transaction, PaymentTender, PaymentMethod, HeldOrder, AppliedPromotion, Refund, RefundItem, OverrideApproval, Layaway } from '@/types';
 import { useProducts } from './ProductContext';
 import { useAuth } from './AuthContext';
+import { usePromotions } from './PromotionContext';
+import { useSettings } from './SettingsContext';
+import { useShift } from './ShiftContext';
+import { useOutbox } from './OutboxContext';
+import { useCustomers } from './CustomerContext';
+import { useLoyalty } from './LoyaltyContext';
+import { useCredit } from './CreditContext';
+import { useVouchers } from './VoucherContext';
 import { toast } from 'sonner';
+import { calculateChange, getCashRounding, getPrimaryPaymentMethod, sumTenders, withPayments } from '@/lib/payments';
+import { evaluatePromotions, sumPromotions } from '@/lib/promotions';
+import { calculateTaxBreakdown, TaxBreakdown } from '@/lib/tax';
+import { getLineAmount, getLineGross } from '@/lib/pricing';
+import { getBaseQuantitiesByProduct, getLineKey, roundQuantity, toBaseQuantity } from '@/lib/units';
+import { createId } from '@/lib/ids';
+import { exceedsDiscountLimit } from '@/lib/approvals';
+import { allocateDocumentNumber, getDocumentNumber } from '@/lib/numbering';
+import {
+  calculateRefundLineAmount,
+  calculateRefundTax,
+  getRefundableQuantity,
+  getRefundedShare,
+  getRefundsForTransaction
+} from '@/lib/refunds';
 
 interface TransactionContextType {
   cart: CartItem[];
   transactions: Transaction[];
+  refunds: Refund[];
+  heldOrders: HeldOrder[];
+  overrideApprovals: OverrideApproval[];
+  appliedPromotions: AppliedPromotion[];
+  cartCustomer: Customer | null;
+  cartApprovals: OverrideApproval[];
+  setCartCustomer: (customer: Customer | null) => void;
   addToCart: (cartItem: CartItem) => void;
   updateCartItem: (index: number, updates: Partial<CartItem>) => void;
   removeFromCart: (index: number) => void;
   clearCart: () => void;
+  recordCartApproval: (approval: OverrideApproval) => void;
   calculateSubtotal: () => number;
+  calculatePromotionDiscount: () => number;
+  calculateTax: (discount?: number) => TaxBreakdown;
   calculateTotal: (discount?: number) => number;
   completeTransaction: (paymentDetails: {
-    paymentMethod: PaymentMethod;
+    payments: PaymentTender[];
     discount?: number;
-    amountPaid?: number;
+    redeemPoints?: number;
+    couponCode?: string;
     customerName?: string;
-  }) => Transaction;
+    approvals?: OverrideApproval[];
+  }) => Promise<Transaction>;
+  completeLayawaySale: (layaway: Layaway) => Promise<Transaction>;
   getTransactionById: (id: string) => Transaction | undefined;
   getTransactionsByDateRange: (startDate: string, endDate: string) => Transaction[];
   getDailyTransactions: (date: string) => Transaction[];
+  getCustomerTransactions: (customerId: string) => Transaction[];
+  createRefund: (refundDetails: {
+    transactionId: string;
+    items: Array<{ lineKey: string; quantity: number }>;
+    method: PaymentMethod;
+    reason?: string;
+  }) => Promise<Refund>;
+  getRefundsByTransaction: (transactionId: string) => Refund[];
+  voidTransaction: (transactionId: string, approval?: OverrideApproval) => Promise<Refund>;
+  holdCart: (details: { label: string; customerName?: string }) => HeldOrder;
+  resumeHeldOrder: (id: string) => void;
+  deleteHeldOrder: (id: string) => void;
+  getStaleHeldOrders: () => HeldOrder[];
 }
 
 const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
@@ -73,6 +122,7 @@ const createMockTransactions = (): Transaction[] => {
       subtotal: 11000,
       total: 11000,
       paymentMethod: 'cash',
+      payments: [{ method: 'cash', amount: 20000 }],
       change: 9000,
       cashierId: '3',
       createdAt: today.toISOString(),
@@ -100,6 +150,7 @@ const createMockTransactions = (): Transaction[] => {
       discount: 1000,
       total: 9000,
       paymentMethod: 'card',
+      payments: [{ method: 'card', amount: 9000 }],
       cashierId: '3',
       createdAt: yesterday.toISOString(),
     },
@@ -140,6 +191,7 @@ const createMockTransactions = (): Transaction[] => {
       subtotal: 23500,
       total: 23500,
       paymentMethod: 'cash',
+      payments: [{ method: 'cash', amount: 25000 }],
       change: 1500,
       cashierId: '3',
       customerName: 'Pembeli Alat Tulis',
@@ -150,28 +202,85 @@ const createMockTransactions = (): Transaction[] => {
 
 export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [cartCustomer, setCartCustomer] = useState<Customer | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>(() => {
     const stored = localStorage.getItem('posTransactions');
-    return stored ? JSON.parse(stored) : createMockTransactions();
+    return stored ? (JSON.parse(stored) as Transaction[]).map(withPayments) : createMockTransactions();
   });
+  const [refunds, setRefunds] = useState<Refund[]>(() => {
+    const stored = localStorage.getItem('posRefunds');
+    return stored ? JSON.parse(stored) : [];
+  });
+  const [heldOrders, setHeldOrders] = useState<HeldOrder[]>(() => {
+    const stored = localStorage.getItem('posHeldOrders');
+    return stored ? JSON.parse(stored) : [];
+  });
+  const [overrideApprovals, setOverrideApprovals] = useState<OverrideApproval[]>(() => {
+    const stored = localStorage.getItem('posOverrideApprovals');
+    return stored ? JSON.parse(stored) : [];
+  });
+  // Approvals given while building the current cart, attached to the sale when it completes
+  const [cartApprovals, setCartApprovals] = useState<OverrideApproval[]>([]);
   
-  const { updateStock } = useProducts();
+  const { updateStock, categories, getProductById } = useProducts();
   const { user } = useAuth();
+  const { promotions } = usePromotions();
+  const { settings } = useSettings();
+  const { currentShift } = useShift();
+  const { enqueueTransaction } = useOutbox();
+  const { getCustomerById, recordCustomerPurchase, recordCustomerRefund } = useCustomers();
+  const { pointValue, getPointsBalance, earnPoints, redeemPoints, reversePoints } = useLoyalty();
+  const { getCreditBalance, getAvailableCredit, chargeCredit, reverseCredit } = useCredit();
+  const {
+    getRedeemableVoucher,
+    redeemVouchers,
+    getVoucherRefundable,
+    reverseVoucher,
+    applyCoupon,
+    recordCouponRedemption,
+    releaseCoupon
+  } = useVouchers();
+
+  // Re-evaluated on every render so cart edits and happy-hour boundaries are picked up immediately
+  const appliedPromotions = evaluatePromotions(cart, promotions);
 
   useEffect(() => {
     localStorage.setItem('posTransactions', JSON.stringify(transactions));
   }, [transactions]);
 
-  const addToCart = (cartItem: CartItem) => {
+  useEffect(() => {
+    localStorage.setItem('posRefunds', JSON.stringify(refunds));
+  }, [refunds]);
+
+  useEffect(() => {
+    localStorage.setItem('posHeldOrders', JSON.stringify(heldOrders));
+  }, [heldOrders]);
+
+  useEffect(() => {
+    localStorage.setItem('posOverrideApprovals', JSON.stringify(overrideApprovals));
+  }, [overrideApprovals]);
+
+  const addToCart = (newItem: CartItem) => {
+    const cartItem = newItem.product.soldByWeight && !newItem.unit && !newItem.priceRounding
+      ? { ...newItem, priceRounding: settings.weighed_price_rounding }
+      : newItem;
+
     // Check if item already exists in cart
+    // The same product in another pack size is a separate line
     const existingItemIndex = cart.findIndex(
-      (item) => item.product.id === cartItem.product.id
+      (item) => getLineKey(item) === getLineKey(cartItem)
     );
     
     if (existingItemIndex !== -1) {
       // Update quantity if item exists
+      const existingItem = cart[existingItemIndex];
+      const quantity = roundQuantity(existingItem.quantity + cartItem.quantity);
       updateCartItem(existingItemIndex, {
-        quantity: cart[existingItemIndex].quantity + cartItem.quantity,
+        quantity,
+        // A line priced by its scale label stays at the sum of the labels scanned onto it
+        ...(cartItem.priceOverride !== undefined && {
+          priceOverride: (getLineGross(existingItem) + getLineGross(cartItem)) / quantity,
+        }),
       });
       toast.info(`Jumlah ${cartItem.product.name} diperbarui dalam keranjang`);
     } else {
@@ -198,25 +307,50 @@ export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ c
 
   const clearCart = () => {
     setCart([]);
+    setCartCustomer(null);
+    setCartApprovals([]);
+  };
+
+  // Logged straight away so an approval still shows up if the cart is abandoned afterwards
+  const recordCartApproval = (approval: OverrideApproval) => {
+    setCartApprovals(prev => [...prev, approval]);
+    setOverrideApprovals(prev => [...prev, approval]);
   };
 
   const calculateSubtotal = () => {
-    return cart.reduce((total, item) => {
-      const itemPrice = item.product.price * item.quantity;
-      const itemDiscount = item.discount || 0;
-      return total + (itemPrice - itemDiscount);
-    }, 0);
+    // Lines are priced at their wholesale tier, so crossing a break reprices the whole line
+    return cart.reduce((total, item) => total + getLineAmount(item), 0);
+  };
+
+  const calculatePromotionDiscount = () => {
+    return sumPromotions(appliedPromotions);
+  };
+
+  const calculateTax = (discount = 0) => {
+    return calculateTaxBreakdown({
+      cart,
+      categories,
+      rate: settings.tax_percentage || 0,
+      inclusive: settings.tax_inclusive,
+      reductions: calculatePromotionDiscount() + discount,
+    });
   };
 
   const calculateTotal = (discount = 0) => {
-    return calculateSubtotal() - discount;
+    const net = Math.max(0, calculateSubtotal() - calculatePromotionDiscount() - discount);
+    const taxBreakdown = calculateTax(discount);
+
+    // Inclusive prices already carry the PPN, so only exclusive tax is added on top
+    return taxBreakdown.inclusive ? net : net + taxBreakdown.tax;
   };
 
-  const completeTransaction = (paymentDetails: {
-    paymentMethod: PaymentMethod;
+  const completeTransaction = async (paymentDetails: {
+    payments: PaymentTender[];
     discount?: number;
-    amountPaid?: number;
+    redeemPoints?: number;
+    couponCode?: string;
     customerName?: string;
+    approvals?: OverrideApproval[];
   }) => {
     if (!user) {
       throw new Error('User not authenticated');
@@ -226,43 +360,194 @@ export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ c
       throw new Error('Cart is empty');
     }
 
+    if (!currentShift) {
+      throw new Error('No open shift');
+    }
+
+    const payments = paymentDetails.payments.filter((payment) => payment.amount > 0);
+    if (payments.length === 0) {
+      throw new Error('No payment provided');
+    }
+
+    // Redeemed points work like a discount, so they also come off the PPN base
+    const pointsRedeemed = paymentDetails.redeemPoints || 0;
+    const loyaltyDiscount = pointsRedeemed * pointValue;
+    // Mirrors redeemPoints, which runs only after the invoice number is taken
+    if (pointsRedeemed < 0 || !Number.isInteger(pointsRedeemed)) {
+      throw new Error('Redeemed points must be a positive whole number');
+    }
+    if (pointsRedeemed > 0) {
+      if (!settings.loyalty_enabled) {
+        throw new Error('Loyalty program is disabled');
+      }
+      if (!cartCustomer) {
+        throw new Error('Points can only be redeemed by a registered customer');
+      }
+      if (pointsRedeemed > getPointsBalance(cartCustomer.id)) {
+        throw new Error('Insufficient loyalty points');
+      }
+      if (loyaltyDiscount > calculateSubtotal() - calculatePromotionDiscount() - (paymentDetails.discount || 0)) {
+        throw new Error('Redeemed points exceed the amount due');
+      }
+    }
+
+    // A coupon comes off last, after the manual discount and points, and also reduces the PPN base
+    let coupon: Coupon | undefined;
+    let couponDiscount = 0;
+    if (paymentDetails.couponCode) {
+      const applied = applyCoupon(paymentDetails.couponCode, cart);
+      coupon = applied.coupon;
+      couponDiscount = Math.min(
+        applied.discount,
+        Math.max(0, calculateSubtotal() - calculatePromotionDiscount() - (paymentDetails.discount || 0) - loyaltyDiscount)
+      );
+    }
+    const reductions = (paymentDetails.discount || 0) + loyaltyDiscount + couponDiscount;
+
+    const paymentApprovals = paymentDetails.approvals || [];
+    const discountBase = calculateSubtotal() - calculatePromotionDiscount();
+    if (
+      exceedsDiscountLimit(paymentDetails.discount || 0, discountBase, settings.approval_policy) &&
+      !paymentApprovals.some((approval) => approval.type === 'discount')
+    ) {
+      throw new Error('Discount requires manager approval');
+    }
+
     const subtotal = calculateSubtotal();
-    const total = calculateTotal(paymentDetails.discount);
-    
-    let change = 0;
-    if (paymentDetails.paymentMethod === 'cash' && paymentDetails.amountPaid) {
-      if (paymentDetails.amountPaid < total) {
-        throw new Error('Insufficient payment amount');
+    const taxBreakdown = calculateTax(reductions);
+    const billTotal = calculateTotal(reductions);
+
+    // Card and e-wallet tenders are charged exactly, so any overpayment must come from cash
+    const totalPaid = sumTenders(payments);
+    const nonCashPaid = totalPaid - sumTenders(payments, 'cash');
+    if (nonCashPaid > billTotal) {
+      throw new Error('Non-cash payments exceed the total');
+    }
+
+    const hasCash = payments.some((payment) => payment.method === 'cash');
+    const cashRounding = hasCash ? getCashRounding(billTotal, nonCashPaid, settings.cash_rounding) : 0;
+    const total = billTotal + cashRounding;
+    if (totalPaid < total) {
+      throw new Error('Insufficient payment amount');
+    }
+
+    const creditPaid = sumTenders(payments, 'credit');
+    if (creditPaid > 0) {
+      if (!cartCustomer) {
+        throw new Error('Credit is only available to registered customers');
+      }
+      if (creditPaid > getAvailableCredit(cartCustomer.id)) {
+        throw new Error('Credit limit exceeded');
       }
-      change = paymentDetails.amountPaid - total;
     }
 
+    // Several tenders may draw on the same voucher, so its balance is checked against their sum
+    const voucherTenders = new Map<string, { balance: number; amount: number }>();
+    payments.filter((payment) => payment.method === 'voucher').forEach((payment) => {
+      if (!payment.reference) {
+        throw new Error('Voucher code is required');
+      }
+      const { voucher, balance } = getRedeemableVoucher(payment.reference);
+      const tendered = voucherTenders.get(voucher.id);
+      voucherTenders.set(voucher.id, { balance, amount: (tendered?.amount || 0) + payment.amount });
+    });
+    voucherTenders.forEach(({ balance, amount }) => {
+      if (amount > balance) {
+        throw new Error('Voucher balance is insufficient');
+      }
+    });
+
+    // Another till may have sold the same goods since they went into the cart
+    const cartStock = getBaseQuantitiesByProduct(cart);
+    cartStock.forEach((quantity, productId) => {
+      const product = getProductById(productId);
+      if (!product || roundQuantity(product.stock - quantity) < 0) {
+        throw new Error(`Insufficient stock for ${product?.name ?? 'a product in the cart'}`);
+      }
+    });
+
+    // Drawn only after every check has passed, so a rejected sale never leaves a gap in the sequence
+    const createdAt = new Date();
+    const number = await allocateDocumentNumber('sale', settings.document_numbering.sale, createdAt);
+    const transactionId = createId();
+    const overrides = [...cartApprovals, ...paymentApprovals].map((approval) => ({
+      ...approval,
+      transactionId,
+      transactionNumber: number,
+    }));
+
     const transaction: Transaction = {
-      id: Date.now().toString(),
+      id: transactionId,
+      number,
       items: [...cart],
       subtotal,
+      promotions: appliedPromotions.length > 0 ? appliedPromotions : undefined,
       discount: paymentDetails.discount,
+      tax: taxBreakdown.tax,
+      taxRate: taxBreakdown.rate,
+      taxInclusive: taxBreakdown.inclusive,
+      taxableAmount: taxBreakdown.taxableAmount,
       total,
-      paymentMethod: paymentDetails.paymentMethod,
-      change: paymentDetails.paymentMethod === 'cash' ? change : undefined,
+      paymentMethod: getPrimaryPaymentMethod(payments),
+      payments,
+      change: hasCash ? calculateChange(payments, total) : undefined,
+      cashRounding: cashRounding !== 0 ? cashRounding : undefined,
       cashierId: user.id,
-      customerName: paymentDetails.customerName,
-      createdAt: new Date().toISOString(),
+      cashierName: user.name,
+      shiftId: currentShift.id,
+      customerId: cartCustomer?.id,
+      customerName: cartCustomer?.name || paymentDetails.customerName,
+      loyaltyPointsRedeemed: pointsRedeemed > 0 ? pointsRedeemed : undefined,
+      loyaltyDiscount: pointsRedeemed > 0 ? loyaltyDiscount : undefined,
+      couponId: coupon?.id,
+      couponCode: coupon?.code,
+      couponDiscount: coupon ? couponDiscount : undefined,
+      overrides: overrides.length > 0 ? overrides : undefined,
+      qrisReference: payments.find((payment) => payment.qrisPayload)?.reference,
+      createdAt: createdAt.toISOString(),
     };
 
+    if (transaction.customerId) {
+      if (pointsRedeemed > 0) {
+        redeemPoints(transaction.customerId, pointsRedeemed, transaction.id);
+      }
+      const pointsEarned = earnPoints(transaction);
+      transaction.loyaltyPointsEarned = pointsEarned > 0 ? pointsEarned : undefined;
+    }
+
     // Update stock for each product using the new updateStock method
-    cart.forEach((item) => {
+    cartStock.forEach((quantity, productId) => {
       updateStock(
-        item.product.id,
-        -item.quantity,
+        productId,
+        -quantity,
         'loss',
         undefined,
-        `Penjualan dari transaksi #${transaction.id}`
+        `Penjualan dari transaksi #${number}`,
+        { fromDocument: true }
       );
     });
 
     // Add transaction to history
-    setTransactions([...transactions, transaction]);
+    setTransactions(prev => [...prev, transaction]);
+
+    // Cart approvals are already in the log; they now get the sale they ended up on
+    if (overrides.length > 0) {
+      setOverrideApprovals(prev => [
+        ...prev.filter((approval) => !overrides.some((override) => override.id === approval.id)),
+        ...overrides,
+      ]);
+    }
+
+    if (transaction.customerId) {
+      recordCustomerPurchase(transaction.customerId, transaction.total, transaction.createdAt);
+      chargeCredit(transaction);
+    }
+
+    redeemVouchers(transaction);
+    recordCouponRedemption(transaction);
+
+    // The sale is final locally; the outbox delivers it to the server whenever it is reachable
+    enqueueTransaction(transaction);
     
     // Clear the cart
     clearCart();
@@ -272,6 +557,68 @@ export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ c
     return transaction;
   };
 
+  // The goods left the shelf when they were reserved and the money came in with each
+  // installment, so the sale only books what the layaway already holds, settled by its deposits
+  const completeLayawaySale = async (layaway: Layaway) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!currentShift) {
+      throw new Error('No open shift');
+    }
+
+    const createdAt = new Date();
+    const number = await allocateDocumentNumber('sale', settings.document_numbering.sale, createdAt);
+    const transactionId = createId();
+    const overrides = (layaway.overrides || []).map((approval) => ({
+      ...approval,
+      transactionId,
+      transactionNumber: number,
+    }));
+
+    const transaction: Transaction = {
+      id: transactionId,
+      number,
+      items: layaway.items,
+      subtotal: layaway.subtotal,
+      promotions: layaway.promotions,
+      tax: layaway.tax,
+      taxRate: layaway.taxRate,
+      taxInclusive: layaway.taxInclusive,
+      taxableAmount: layaway.taxableAmount,
+      total: layaway.total,
+      paymentMethod: 'deposit',
+      payments: [{ method: 'deposit', amount: layaway.total, reference: layaway.number }],
+      cashierId: user.id,
+      cashierName: user.name,
+      shiftId: currentShift.id,
+      customerId: layaway.customerId,
+      customerName: layaway.customerName,
+      layawayId: layaway.id,
+      layawayNumber: layaway.number,
+      overrides: overrides.length > 0 ? overrides : undefined,
+      createdAt: createdAt.toISOString(),
+    };
+
+    const pointsEarned = earnPoints(transaction);
+    transaction.loyaltyPointsEarned = pointsEarned > 0 ? pointsEarned : undefined;
+
+    setTransactions(prev => [...prev, transaction]);
+
+    // Approvals given on the cart the layaway was made from now get the sale they ended up on
+    if (overrides.length > 0) {
+      setOverrideApprovals(prev => [
+        ...prev.filter((approval) => !overrides.some((override) => override.id === approval.id)),
+        ...overrides,
+      ]);
+    }
+    recordCustomerPurchase(transaction.customerId, transaction.total, transaction.createdAt);
+    enqueueTransaction(transaction);
+
+    return transaction;
+  };
+
   const getTransactionById = (id: string) => {
     return transactions.find((transaction) => transaction.id === id);
   };
@@ -301,19 +648,322 @@ export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ c
     });
   };
 
+  const getCustomerTransactions = (customerId: string) => {
+    return transactions
+      .filter((transaction) => transaction.customerId === customerId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  };
+
+  const createRefund = async (refundDetails: {
+    transactionId: string;
+    items: Array<{ lineKey: string; quantity: number }>;
+    method: PaymentMethod;
+    reason?: string;
+  }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const transaction = getTransactionById(refundDetails.transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    // Cash comes out of a drawer, so it has to be booked against an open shift
+    if (refundDetails.method === 'cash' && !currentShift) {
+      throw new Error('No open shift');
+    }
+
+    if (refundDetails.method === 'credit' && !transaction.customerId) {
+      throw new Error('Only sales to a registered customer can be refunded to credit');
+    }
+
+    const requestedItems = refundDetails.items.filter((item) => item.quantity > 0);
+    if (requestedItems.length === 0) {
+      throw new Error('No items to refund');
+    }
+
+    const refundItems: RefundItem[] = requestedItems.map((requested) => {
+      const line = transaction.items.find((item) => getLineKey(item) === requested.lineKey);
+      if (!line) {
+        throw new Error('Product is not part of this transaction');
+      }
+
+      if (requested.quantity > getRefundableQuantity(transaction, refunds, requested.lineKey)) {
+        throw new Error('Refund quantity exceeds quantity sold');
+      }
+
+      return {
+        product: line.product,
+        quantity: requested.quantity,
+        unit: line.unit,
+        amount: calculateRefundLineAmount(transaction, line, requested.quantity),
+      };
+    });
+
+    // Rounding on earlier partial refunds must never push the sum past what was paid
+    const alreadyRefunded = getRefundsForTransaction(refunds, transaction.id)
+      .reduce((sum, refund) => sum + refund.total, 0);
+    const total = Math.min(
+      refundItems.reduce((sum, item) => sum + item.amount, 0),
+      Math.max(0, transaction.total - alreadyRefunded)
+    );
+
+    if (refundDetails.method === 'credit' && total > getCreditBalance(transaction.customerId)) {
+      throw new Error('Credit refund exceeds the outstanding balance');
+    }
+
+    if (refundDetails.method === 'deposit') {
+      throw new Error('Refunds cannot be paid as a layaway deposit');
+    }
+
+    if (refundDetails.method === 'voucher' && total > getVoucherRefundable(transaction)) {
+      throw new Error('Voucher refund exceeds the amount paid by voucher');
+    }
+
+    const createdAt = new Date();
+    const number = await allocateDocumentNumber('refund', settings.document_numbering.refund, createdAt);
+
+    const refund: Refund = {
+      id: createId(),
+      number,
+      transactionId: transaction.id,
+      transactionNumber: transaction.number,
+      items: refundItems,
+      tax: Math.min(calculateRefundTax(transaction, refundItems, categories), total),
+      total,
+      method: refundDetails.method,
+      reason: refundDetails.reason,
+      cashierId: user.id,
+      cashierName: user.name,
+      shiftId: currentShift?.id,
+      createdAt: createdAt.toISOString(),
+    };
+
+    // Returned goods go back on the shelf
+    getBaseQuantitiesByProduct(refundItems).forEach((quantity, productId) => {
+      updateStock(
+        productId,
+        quantity,
+        'return',
+        undefined,
+        `Retur dari transaksi #${getDocumentNumber(transaction)} (${number})`,
+        { fromDocument: true }
+      );
+    });
+
+    setRefunds(prev => [...prev, refund]);
+
+    if (transaction.customerId) {
+      recordCustomerRefund(transaction.customerId, refund.total);
+      reversePoints(transaction, refund, getRefundedShare(transaction, [...refunds, refund]));
+      reverseCredit(transaction, refund);
+    }
+    reverseVoucher(transaction, refund);
+
+    toast.success('Retur berhasil diproses');
+
+    return refund;
+  };
+
+  const getRefundsByTransaction = (transactionId: string) => {
+    return getRefundsForTransaction(refunds, transactionId);
+  };
+
+  /**
+   * Cancels a completed sale by refunding whatever has not been returned
+   * yet to its primary tender, then marks the sale as voided.
+   */
+  const voidTransaction = async (transactionId: string, approval?: OverrideApproval) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const transaction = getTransactionById(transactionId);
+    if (!transaction) {
+      throw new Error('Transaction not found');
+    }
+
+    if (transaction.voidedAt) {
+      throw new Error('Transaction is already voided');
+    }
+
+    if (settings.approval_policy.void_sale && approval?.type !== 'void') {
+      throw new Error('Voiding a sale requires manager approval');
+    }
+
+    const items = transaction.items
+      .map((item) => ({
+        lineKey: getLineKey(item),
+        quantity: getRefundableQuantity(transaction, refunds, getLineKey(item)),
+      }))
+      .filter((item) => item.quantity > 0);
+    if (items.length === 0) {
+      throw new Error('Transaction is already fully refunded');
+    }
+
+    // A voucher only takes back what it paid; when other tenders were involved the rest goes back as cash.
+    // Layaway deposits were spent on the sale, so those are paid back in cash too
+    const outstanding = transaction.total - getRefundsForTransaction(refunds, transactionId)
+      .reduce((sum, refund) => sum + refund.total, 0);
+    const method = transaction.paymentMethod === 'deposit' ||
+      (transaction.paymentMethod === 'voucher' && outstanding > getVoucherRefundable(transaction))
+      ? 'cash'
+      : transaction.paymentMethod;
+
+    const refund = await createRefund({
+      transactionId,
+      items,
+      method,
+      reason: 'Void',
+    });
+    releaseCoupon(transactionId);
+
+    const override = approval && { ...approval, transactionId, transactionNumber: transaction.number };
+    setTransactions(prev => prev.map((t) => (
+      t.id === transactionId
+        ? {
+            ...t,
+            voidedAt: refund.createdAt,
+            voidedBy: approval?.approvedBy ?? user.id,
+            overrides: override ? [...(t.overrides || []), override] : t.overrides,
+          }
+        : t
+    )));
+    if (override) {
+      setOverrideApprovals(prev => [...prev, override]);
+    }
+
+    toast.success(`Transaksi ${getDocumentNumber(transaction)} dibatalkan`);
+
+    return refund;
+  };
+
+  const holdCart = (details: { label: string; customerName?: string }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (cart.length === 0) {
+      throw new Error('Cart is empty');
+    }
+
+    const heldOrder: HeldOrder = {
+      id: createId(),
+      label: details.label,
+      items: [...cart],
+      cashierId: user.id,
+      customerName: details.customerName || cartCustomer?.name,
+      customerId: cartCustomer?.id,
+      createdAt: new Date().toISOString(),
+    };
+
+    setHeldOrders([...heldOrders, heldOrder]);
+    clearCart();
+
+    toast.success(`Pesanan "${heldOrder.label}" ditahan`);
+
+    return heldOrder;
+  };
+
+  const resumeHeldOrder = (id: string) => {
+    const heldOrder = heldOrders.find((order) => order.id === id);
+    if (!heldOrder) {
+      throw new Error('Held order not found');
+    }
+
+    // Resuming never merges carts, so the current one must be parked or cleared first
+    if (cart.length > 0) {
+      throw new Error('Cart is not empty');
+    }
+
+    // The order may have been parked for hours: prices come from the catalogue as it is now,
+    // and lines shrink to what is still on the shelf
+    const available = new Map<string, number>();
+    const adjusted: string[] = [];
+    const items = heldOrder.items.flatMap((item): CartItem[] => {
+      const product = getProductById(item.product.id);
+      const unit = item.unit ? product?.units?.find((u) => u.name === item.unit.name) : undefined;
+      if (!product || !product.isActive || (item.unit && !unit)) {
+        adjusted.push(item.product.name);
+        return [];
+      }
+
+      const left = available.get(product.id) ?? product.stock;
+      const maxQuantity = unit ? Math.floor(roundQuantity(left / unit.factor)) : roundQuantity(left);
+      const quantity = Math.min(item.quantity, maxQuantity);
+      if (quantity < item.quantity) {
+        adjusted.push(product.name);
+      }
+      if (quantity <= 0) return [];
+
+      available.set(product.id, roundQuantity(left - toBaseQuantity(quantity, unit)));
+      return [{ ...item, product, unit, quantity }];
+    });
+
+    if (items.length === 0) {
+      throw new Error('None of the held items are in stock anymore');
+    }
+
+    setCart(items);
+    setCartCustomer((heldOrder.customerId && getCustomerById(heldOrder.customerId)) || null);
+    setHeldOrders(heldOrders.filter((order) => order.id !== id));
+
+    toast.info(`Pesanan "${heldOrder.label}" dilanjutkan`);
+    if (adjusted.length > 0) {
+      toast.warning(`Stok berubah, jumlah disesuaikan: ${Array.from(new Set(adjusted)).join(', ')}`);
+    }
+  };
+
+  const deleteHeldOrder = (id: string) => {
+    const heldOrder = heldOrders.find((order) => order.id === id);
+    setHeldOrders(heldOrders.filter((order) => order.id !== id));
+
+    if (heldOrder) {
+      toast.info(`Pesanan "${heldOrder.label}" dihapus`);
+    }
+  };
+
+  // Held orders parked before today were never completed at the end of their day
+  const getStaleHeldOrders = () => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+
+    return heldOrders.filter((order) => new Date(order.createdAt) < startOfToday);
+  };
+
   const value = {
     cart,
     transactions,
+    refunds,
+    heldOrders,
+    overrideApprovals,
+    appliedPromotions,
+    cartCustomer,
+    cartApprovals,
+    setCartCustomer,
     addToCart,
     updateCartItem,
     removeFromCart,
     clearCart,
+    recordCartApproval,
     calculateSubtotal,
+    calculatePromotionDiscount,
+    calculateTax,
     calculateTotal,
     completeTransaction,
+    completeLayawaySale,
     getTransactionById,
     getTransactionsByDateRange,
     getDailyTransactions,
+    getCustomerTransactions,
+    createRefund,
+    getRefundsByTransaction,
+    voidTransaction,
+    holdCart,
+    resumeHeldOrder,
+    deleteHeldOrder,
+    getStaleHeldOrders,
   };
 
   return <TransactionContext.Provider value={value}>{children}</TransactionContext.Provider>;
@@ -0,0 +1,421 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { CartItem, Coupon, CouponRedemption, GiftVoucher, PaymentMethod, Refund, Transaction, VoucherEntry } from '@/types';
+import { useAuth } from './AuthContext';
+import { useShift } from './ShiftContext';
+import { toast } from 'sonner';
+import { createId } from '@/lib/ids';
+import { COUNTER_PAYMENT_METHODS } from '@/lib/payments';
+import { toDateKey } from '@/lib/promotions';
+import {
+  calculateCouponDiscount,
+  generateVoucherCode,
+  getCouponUsageCount,
+  getVoucherBalance,
+  isVoucherExpired,
+  normalizeCode
+} from '@/lib/vouchers';
+
+interface VoucherContextType {
+  vouchers: GiftVoucher[];
+  voucherLedger: VoucherEntry[];
+  coupons: Coupon[];
+  couponRedemptions: CouponRedemption[];
+  getVoucherBalance: (voucherId: string) => number;
+  getVoucherByCode: (code: string) => GiftVoucher | undefined;
+  getRedeemableVoucher: (code: string) => { voucher: GiftVoucher; balance: number };
+  issueVouchers: (issueDetails: {
+    faceValue: number;
+    quantity: number;
+    expiresAt?: string;
+    method?: PaymentMethod;
+    recipientName?: string;
+    notes?: string;
+  }) => GiftVoucher[];
+  voidVoucher: (voucherId: string) => void;
+  redeemVouchers: (transaction: Transaction) => void;
+  getVoucherRefundable: (transaction: Transaction) => number;
+  reverseVoucher: (transaction: Transaction, refund: Refund) => void;
+  addCoupon: (coupon: Omit<Coupon, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  updateCoupon: (id: string, updates: Partial<Coupon>) => void;
+  deleteCoupon: (id: string) => void;
+  getCouponUsageCount: (couponId: string) => number;
+  applyCoupon: (code: string, cart: CartItem[]) => { coupon: Coupon; discount: number };
+  recordCouponRedemption: (transaction: Transaction) => void;
+  releaseCoupon: (transactionId: string) => void;
+}
+
+const VoucherContext = createContext<VoucherContextType | undefined>(undefined);
+
+export const VoucherProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [vouchers, setVouchers] = useState<GiftVoucher[]>(() => {
+    const stored = localStorage.getItem('posGiftVouchers');
+    return stored ? JSON.parse(stored) : [];
+  });
+  const [voucherLedger, setVoucherLedger] = useState<VoucherEntry[]>(() => {
+    const stored = localStorage.getItem('posVoucherLedger');
+    return stored ? JSON.parse(stored) : [];
+  });
+  const [coupons, setCoupons] = useState<Coupon[]>(() => {
+    const stored = localStorage.getItem('posCoupons');
+    return stored ? JSON.parse(stored) : [];
+  });
+  const [couponRedemptions, setCouponRedemptions] = useState<CouponRedemption[]>(() => {
+    const stored = localStorage.getItem('posCouponRedemptions');
+    return stored ? JSON.parse(stored) : [];
+  });
+
+  const { user } = useAuth();
+  const { currentShift } = useShift();
+
+  useEffect(() => {
+    localStorage.setItem('posGiftVouchers', JSON.stringify(vouchers));
+  }, [vouchers]);
+
+  useEffect(() => {
+    localStorage.setItem('posVoucherLedger', JSON.stringify(voucherLedger));
+  }, [voucherLedger]);
+
+  useEffect(() => {
+    localStorage.setItem('posCoupons', JSON.stringify(coupons));
+  }, [coupons]);
+
+  useEffect(() => {
+    localStorage.setItem('posCouponRedemptions', JSON.stringify(couponRedemptions));
+  }, [couponRedemptions]);
+
+  const getVoucherByCode = (code: string) => {
+    const normalized = normalizeCode(code);
+    return vouchers.find(voucher => voucher.code === normalized);
+  };
+
+  // Checked when the code is typed in and again when the sale completes
+  const getRedeemableVoucher = (code: string) => {
+    const voucher = getVoucherByCode(code);
+    if (!voucher) {
+      throw new Error('Voucher not found');
+    }
+    if (voucher.voidedAt) {
+      throw new Error('Voucher has been voided');
+    }
+    if (isVoucherExpired(voucher)) {
+      throw new Error('Voucher has expired');
+    }
+
+    const balance = getVoucherBalance(voucherLedger, voucher.id);
+    if (balance <= 0) {
+      throw new Error('Voucher has no remaining balance');
+    }
+
+    return { voucher, balance };
+  };
+
+  const issueVouchers = (issueDetails: {
+    faceValue: number;
+    quantity: number;
+    expiresAt?: string;
+    method?: PaymentMethod;
+    recipientName?: string;
+    notes?: string;
+  }) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    if (!Number.isFinite(issueDetails.faceValue) || issueDetails.faceValue <= 0) {
+      throw new Error('Face value must be greater than 0');
+    }
+
+    if (!Number.isInteger(issueDetails.quantity) || issueDetails.quantity <= 0) {
+      throw new Error('Quantity must be a whole number greater than 0');
+    }
+
+    if (issueDetails.expiresAt && issueDetails.expiresAt < toDateKey(new Date())) {
+      throw new Error('Expiry date is in the past');
+    }
+
+    if (issueDetails.method && !COUNTER_PAYMENT_METHODS.includes(issueDetails.method)) {
+      throw new Error('Vouchers can only be paid for in cash, by card or by e-wallet');
+    }
+
+    // Money for a voucher sold over the counter goes into a drawer
+    if (issueDetails.method === 'cash' && !currentShift) {
+      throw new Error('No open shift');
+    }
+
+    const createdAt = new Date().toISOString();
+    const codes = new Set(vouchers.map(voucher => voucher.code));
+    const issued: GiftVoucher[] = [];
+    const entries: VoucherEntry[] = [];
+
+    for (let i = 0; i < issueDetails.quantity; i++) {
+      let code = generateVoucherCode();
+      while (codes.has(code)) {
+        code = generateVoucherCode();
+      }
+      codes.add(code);
+
+      const voucher: GiftVoucher = {
+        id: createId(),
+        code,
+        faceValue: issueDetails.faceValue,
+        expiresAt: issueDetails.expiresAt,
+        recipientName: issueDetails.recipientName,
+        notes: issueDetails.notes,
+        issuedBy: user.id,
+        issuedByName: user.name,
+        createdAt,
+      };
+      issued.push(voucher);
+      entries.push({
+        id: createId(),
+        voucherId: voucher.id,
+        code,
+        type: 'issue',
+        amount: issueDetails.faceValue,
+        method: issueDetails.method,
+        cashierId: user.id,
+        cashierName: user.name,
+        shiftId: currentShift?.id,
+        createdAt,
+      });
+    }
+
+    setVouchers(prev => [...prev, ...issued]);
+    setVoucherLedger(prev => [...prev, ...entries]);
+    toast.success(`${issued.length} voucher berhasil diterbitkan`);
+
+    return issued;
+  };
+
+  // Whatever is left on the voucher is written off, so it drops out of the liability
+  const voidVoucher = (voucherId: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const voucher = vouchers.find(v => v.id === voucherId);
+    if (!voucher) {
+      throw new Error('Voucher not found');
+    }
+    if (voucher.voidedAt) {
+      throw new Error('Voucher is already voided');
+    }
+
+    const createdAt = new Date().toISOString();
+    const balance = getVoucherBalance(voucherLedger, voucherId);
+    setVouchers(prev => prev.map(v => (v.id === voucherId ? { ...v, voidedAt: createdAt } : v)));
+    if (balance > 0) {
+      setVoucherLedger(prev => [...prev, {
+        id: createId(),
+        voucherId,
+        code: voucher.code,
+        type: 'void',
+        amount: -balance,
+        cashierId: user.id,
+        cashierName: user.name,
+        createdAt,
+      }]);
+    }
+    toast.success(`Voucher ${voucher.code} dibatalkan`);
+  };
+
+  // Balances are checked by completeTransaction before the sale is final; this only books it
+  const redeemVouchers = (transaction: Transaction) => {
+    const entries = transaction.payments
+      .filter(payment => payment.method === 'voucher' && payment.reference)
+      .map((payment): VoucherEntry | null => {
+        const voucher = getVoucherByCode(payment.reference);
+        return voucher && {
+          id: createId(),
+          voucherId: voucher.id,
+          code: voucher.code,
+          type: 'redeem',
+          amount: -payment.amount,
+          transactionId: transaction.id,
+          transactionNumber: transaction.number,
+          cashierId: transaction.cashierId,
+          cashierName: transaction.cashierName,
+          shiftId: transaction.shiftId,
+          createdAt: transaction.createdAt,
+        };
+      })
+      .filter((entry): entry is VoucherEntry => entry !== null);
+
+    if (entries.length > 0) {
+      setVoucherLedger(prev => [...prev, ...entries]);
+    }
+  };
+
+  // Voucher tenders on the sale that have not already been put back on their vouchers
+  const getRefundedToVoucher = (transactionId: string, voucherId: string) => {
+    return voucherLedger
+      .filter(entry => entry.type === 'refund' && entry.transactionId === transactionId && entry.voucherId === voucherId)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+  };
+
+  const getVoucherRefundable = (transaction: Transaction) => {
+    return transaction.payments
+      .filter(payment => payment.method === 'voucher')
+      .reduce((sum, payment) => sum + payment.amount, 0) -
+      voucherLedger
+        .filter(entry => entry.type === 'refund' && entry.transactionId === transaction.id)
+        .reduce((sum, entry) => sum + entry.amount, 0);
+  };
+
+  // A return refunded to voucher goes back onto the vouchers the sale was paid with, in tender order
+  const reverseVoucher = (transaction: Transaction, refund: Refund) => {
+    if (refund.method !== 'voucher' || refund.total <= 0) return;
+
+    let left = refund.total;
+    const entries: VoucherEntry[] = [];
+    transaction.payments
+      .filter(payment => payment.method === 'voucher' && payment.reference)
+      .forEach(payment => {
+        const voucher = getVoucherByCode(payment.reference);
+        if (!voucher || left <= 0) return;
+
+        const alreadyRefunded = getRefundedToVoucher(transaction.id, voucher.id) +
+          entries.filter(entry => entry.voucherId === voucher.id).reduce((sum, entry) => sum + entry.amount, 0);
+        const amount = Math.min(left, Math.max(0, payment.amount - alreadyRefunded));
+        if (amount <= 0) return;
+
+        left -= amount;
+        entries.push({
+          id: createId(),
+          voucherId: voucher.id,
+          code: voucher.code,
+          type: 'refund',
+          amount,
+          transactionId: transaction.id,
+          transactionNumber: transaction.number,
+          refundId: refund.id,
+          cashierId: refund.cashierId,
+          cashierName: refund.cashierName,
+          shiftId: refund.shiftId,
+          createdAt: refund.createdAt,
+        });
+      });
+
+    if (entries.length > 0) {
+      setVoucherLedger(prev => [...prev, ...entries]);
+    }
+  };
+
+  const addCoupon = (couponData: Omit<Coupon, 'id' | 'createdAt' | 'updatedAt'>) => {
+    const code = normalizeCode(couponData.code);
+    if (!code) {
+      throw new Error('Coupon code is required');
+    }
+    if (coupons.some(coupon => coupon.code === code)) {
+      throw new Error('Coupon code already exists');
+    }
+
+    const now = new Date().toISOString();
+    const newCoupon: Coupon = {
+      ...couponData,
+      code,
+      id: createId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    setCoupons([...coupons, newCoupon]);
+    toast.success(`Kupon ${newCoupon.code} berhasil ditambahkan`);
+  };
+
+  const updateCoupon = (id: string, updates: Partial<Coupon>) => {
+    const code = updates.code !== undefined ? normalizeCode(updates.code) : undefined;
+    if (code !== undefined && coupons.some(coupon => coupon.id !== id && coupon.code === code)) {
+      throw new Error('Coupon code already exists');
+    }
+
+    setCoupons(coupons.map(coupon =>
+      coupon.id === id ? {
+        ...coupon,
+        ...updates,
+        ...(code !== undefined ? { code } : {}),
+        updatedAt: new Date().toISOString()
+      } : coupon
+    ));
+    toast.success('Kupon berhasil diperbarui');
+  };
+
+  // Redemptions keep the code, so usage reports still read after a coupon is deleted
+  const deleteCoupon = (id: string) => {
+    const couponToDelete = coupons.find(c => c.id === id);
+    setCoupons(coupons.filter(coupon => coupon.id !== id));
+
+    if (couponToDelete) {
+      toast.success(`Kupon ${couponToDelete.code} berhasil dihapus`);
+    }
+  };
+
+  const applyCoupon = (code: string, cart: CartItem[]) => {
+    const normalized = normalizeCode(code);
+    const coupon = coupons.find(c => c.code === normalized);
+    if (!coupon) {
+      throw new Error('Coupon not found');
+    }
+
+    return { coupon, discount: calculateCouponDiscount(coupon, cart, getCouponUsageCount(couponRedemptions, coupon.id)) };
+  };
+
+  const recordCouponRedemption = (transaction: Transaction) => {
+    if (!transaction.couponId || !transaction.couponCode) return;
+
+    const redemption: CouponRedemption = {
+      id: createId(),
+      couponId: transaction.couponId,
+      code: transaction.couponCode,
+      discount: transaction.couponDiscount || 0,
+      transactionId: transaction.id,
+      transactionNumber: transaction.number,
+      customerId: transaction.customerId,
+      cashierId: transaction.cashierId,
+      cashierName: transaction.cashierName,
+      createdAt: transaction.createdAt,
+    };
+
+    setCouponRedemptions(prev => [...prev, redemption]);
+  };
+
+  // Only a voided sale gives the use back; a partial return keeps the coupon spent
+  const releaseCoupon = (transactionId: string) => {
+    const voidedAt = new Date().toISOString();
+    setCouponRedemptions(prev => prev.map(redemption => (
+      redemption.transactionId === transactionId && !redemption.voidedAt ? { ...redemption, voidedAt } : redemption
+    )));
+  };
+
+  const value = {
+    vouchers,
+    voucherLedger,
+    coupons,
+    couponRedemptions,
+    getVoucherBalance: (voucherId: string) => getVoucherBalance(voucherLedger, voucherId),
+    getVoucherByCode,
+    getRedeemableVoucher,
+    issueVouchers,
+    voidVoucher,
+    redeemVouchers,
+    getVoucherRefundable,
+    reverseVoucher,
+    addCoupon,
+    updateCoupon,
+    deleteCoupon,
+    getCouponUsageCount: (couponId: string) => getCouponUsageCount(couponRedemptions, couponId),
+    applyCoupon,
+    recordCouponRedemption,
+    releaseCoupon,
+  };
+
+  return <VoucherContext.Provider value={value}>{children}</VoucherContext.Provider>;
+};
+
+export const useVouchers = () => {
+  const context = useContext(VoucherContext);
+  if (context === undefined) {
+    throw new Error('useVouchers must be used within a VoucherProvider');
+  }
+  return context;
+};
@@ -0,0 +1,54 @@
+import * as React from "react"
+
+// A keyboard-wedge scanner types a whole code in well under this gap per key; people don't
+const MAX_KEY_GAP_MS = 50
+const MIN_CODE_LENGTH = 6
+
+interface BarcodeScannerOptions {
+  enabled?: boolean
+}
+
+/**
+ * Listens for scanner bursts anywhere on the page and reports the scanned
+ * code once the terminating Enter arrives. Slow typing is left alone.
+ */
+export function useBarcodeScanner(
+  onScan: (code: string, target: EventTarget | null) => void,
+  { enabled = true }: BarcodeScannerOptions = {}
+) {
+  const onScanRef = React.useRef(onScan)
+
+  React.useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ""
+    let lastKeyAt = 0
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey) return
+
+      const now = performance.now()
+      const isBurst = now - lastKeyAt <= MAX_KEY_GAP_MS
+      lastKeyAt = now
+
+      if (event.key === "Enter") {
+        if (isBurst && buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault()
+          onScanRef.current(buffer, event.target)
+        }
+        buffer = ""
+        return
+      }
+
+      if (event.key.length !== 1) return
+      buffer = isBurst ? buffer + event.key : event.key
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [enabled])
+}
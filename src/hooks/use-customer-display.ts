@@ -0,0 +1,27 @@
+import * as React from "react"
+import {
+  CustomerDisplayState,
+  getLastCustomerDisplay,
+  publishCustomerDisplay,
+  subscribeCustomerDisplay,
+} from "@/lib/customer-display"
+
+/**
+ * Mirrors the till onto the customer display. The state is compared by
+ * value, so re-renders that change nothing the customer sees send nothing.
+ */
+export function usePublishCustomerDisplay(state: CustomerDisplayState) {
+  const serialized = JSON.stringify(state)
+
+  React.useEffect(() => {
+    publishCustomerDisplay(JSON.parse(serialized))
+  }, [serialized])
+}
+
+export function useCustomerDisplay() {
+  const [state, setState] = React.useState<CustomerDisplayState>(getLastCustomerDisplay)
+
+  React.useEffect(() => subscribeCustomerDisplay(setState), [])
+
+  return state
+}
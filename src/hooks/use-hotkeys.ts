@@ -0,0 +1,63 @@
+import * as React from "react"
+import { HotkeyAction } from "@/types"
+import { findHotkeyAction, getHotkey, HotkeyBindings, isFunctionKey } from "@/lib/hotkeys"
+
+interface HotkeyOptions {
+  enabled?: boolean
+  // Also fire while the cashier is typing in a field, e.g. Enter in the tender amount
+  inFields?: boolean
+  // Also fire from a text field while it is empty, e.g. the product search right after a scan
+  inEmptyFields?: boolean
+}
+
+const isEditable = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+const isEmptyField = (target: EventTarget | null) => {
+  return (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) && target.value === ""
+}
+
+/**
+ * Runs the handler bound to a key press. Outside inFields mode a focused
+ * field keeps its keys, except function keys which always reach through
+ * and, in inEmptyFields mode, any key pressed while the field is empty.
+ */
+export function useHotkeys(
+  bindings: HotkeyBindings,
+  handlers: Partial<Record<HotkeyAction, () => void>>,
+  { enabled = true, inFields = false, inEmptyFields = false }: HotkeyOptions = {}
+) {
+  const handlersRef = React.useRef(handlers)
+
+  React.useEffect(() => {
+    handlersRef.current = handlers
+  }, [handlers])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return
+
+      const hotkey = getHotkey(event)
+      const action = hotkey && findHotkeyAction(bindings, hotkey)
+      const handler = action && handlersRef.current[action]
+      if (!handler) return
+
+      if (
+        !inFields &&
+        isEditable(event.target) &&
+        !isFunctionKey(hotkey) &&
+        !(inEmptyFields && isEmptyField(event.target))
+      ) return
+
+      event.preventDefault()
+      handler()
+    }
+
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [bindings, enabled, inFields, inEmptyFields])
+}
@@ -0,0 +1,59 @@
+import * as React from "react"
+import { OverrideApproval, OverrideType, User } from "@/types"
+import { useAuth } from "@/contexts/AuthContext"
+import { canApproveOverrides } from "@/lib/approvals"
+import { createId } from "@/lib/ids"
+import ManagerApprovalDialog, { ApprovalRequest } from "@/components/pos/ManagerApprovalDialog"
+
+interface PendingApproval extends ApprovalRequest {
+  resolve: (approval: OverrideApproval | null) => void
+}
+
+/**
+ * Asks for a manager's PIN before an action past the store's policy
+ * limits. Resolves with the approval to record, or null when cancelled.
+ * Managers and admins approve their own actions without a prompt.
+ * Render approvalDialog somewhere in the calling component.
+ */
+export function useManagerApproval() {
+  const { user } = useAuth()
+  const [pending, setPending] = React.useState<PendingApproval | null>(null)
+
+  const buildApproval = React.useCallback((request: ApprovalRequest, approver: User): OverrideApproval => ({
+    id: createId(),
+    type: request.type,
+    detail: request.detail,
+    requestedBy: user?.id ?? approver.id,
+    requestedByName: user?.name ?? approver.name,
+    approvedBy: approver.id,
+    approvedByName: approver.name,
+    createdAt: new Date().toISOString(),
+  }), [user])
+
+  const requestApproval = React.useCallback((type: OverrideType, detail: string) => {
+    return new Promise<OverrideApproval | null>((resolve) => {
+      if (user && canApproveOverrides(user.role)) {
+        resolve(buildApproval({ type, detail }, user))
+        return
+      }
+      setPending({ type, detail, resolve })
+    })
+  }, [user, buildApproval])
+
+  const approvalDialog = (
+    <ManagerApprovalDialog
+      request={pending}
+      onApprove={(approver) => {
+        if (!pending) return
+        pending.resolve(buildApproval(pending, approver))
+        setPending(null)
+      }}
+      onCancel={() => {
+        pending?.resolve(null)
+        setPending(null)
+      }}
+    />
+  )
+
+  return { requestApproval, approvalDialog, isApprovalPending: pending !== null }
+}
@@ -0,0 +1,39 @@
+import * as React from "react"
+import { UserPreference } from "@/types"
+import { useAuth } from "@/contexts/AuthContext"
+
+const STORAGE_KEY = "posUserPreferences"
+
+/**
+ * The logged-in user's preferences, kept per user on this device so a
+ * shared till remembers each cashier's own setup.
+ */
+export function useUserPreferences() {
+  const { user } = useAuth()
+  const [preferences, setPreferences] = React.useState<Record<string, UserPreference>>(() => {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : {}
+  })
+
+  React.useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
+  }, [preferences])
+
+  const updatePreferences = React.useCallback((changes: Partial<UserPreference>) => {
+    if (!user) return
+    setPreferences((prev) => ({
+      ...prev,
+      [user.id]: {
+        ...prev[user.id],
+        ...changes,
+        user_id: user.id,
+        updated_at: new Date().toISOString(),
+      },
+    }))
+  }, [user])
+
+  return {
+    preferences: user ? preferences[user.id] ?? { user_id: user.id } : null,
+    updatePreferences,
+  }
+}
@@ -0,0 +1,52 @@
+import { CartItem, OverrideType, UserRole } from '@/types';
+import { getUnitPrice } from './pricing';
+
+// Limits past which a cashier needs a manager's PIN
+export interface ApprovalPolicy {
+  max_discount_percent: number;
+  price_below_cost: boolean;
+  remove_after_payment: boolean;
+  void_sale: boolean;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  max_discount_percent: 10,
+  price_below_cost: true,
+  remove_after_payment: true,
+  void_sale: true,
+};
+
+export const OVERRIDE_TYPE_LABELS: Record<OverrideType, string> = {
+  discount: 'Diskon melebihi batas',
+  price_below_cost: 'Harga di bawah modal',
+  remove_line: 'Hapus item setelah pembayaran',
+  void: 'Void transaksi',
+};
+
+export const canApproveOverrides = (role: UserRole) => role === 'admin' || role === 'manager';
+
+export const getDiscountPercent = (discount: number, base: number) => (base > 0 ? (discount / base) * 100 : 0);
+
+export const exceedsDiscountLimit = (discount: number, base: number, policy: ApprovalPolicy) => {
+  return discount > 0 && getDiscountPercent(discount, base) > policy.max_discount_percent;
+};
+
+// What a line would be charged per unit without a price typed in at the till
+export const getListUnitPrice = (item: CartItem) => getUnitPrice({ ...item, priceOverride: undefined });
+
+export const getUnitCost = (item: CartItem) => (item.product.cost || 0) * (item.unit?.factor ?? 1);
+
+/**
+ * The override a new price for a line needs, if any. Selling below cost is
+ * checked first since it is the stricter of the two.
+ */
+export const getPriceOverrideType = (item: CartItem, price: number, policy: ApprovalPolicy): OverrideType | undefined => {
+  if (policy.price_below_cost && price < getUnitCost(item)) {
+    return 'price_below_cost';
+  }
+  const listPrice = getListUnitPrice(item);
+  if (exceedsDiscountLimit(listPrice - price, listPrice, policy)) {
+    return 'discount';
+  }
+  return undefined;
+};
@@ -0,0 +1,54 @@
+// In-store barcodes printed by the scale: prefixes 20-24 carry the weight, 25-29 the price
+const WEIGHT_PREFIXES = ['20', '21', '22', '23', '24'];
+const PRICE_PREFIXES = ['25', '26', '27', '28', '29'];
+
+export interface WeighedBarcode {
+  itemCode: string;
+  weight?: number;
+  price?: number;
+}
+
+const isDigits = (code: string) => /^\d+$/.test(code);
+
+/**
+ * GS1 mod-10 check digit: weights of 3 and 1 alternate from the rightmost
+ * data digit, which covers EAN-13 and EAN-8 alike.
+ */
+export const calculateEanCheckDigit = (data: string) => {
+  const sum = data
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isEanCode = (code: string) => {
+  return isDigits(code) && (code.length === 13 || code.length === 8);
+};
+
+export const isValidEan = (code: string) => {
+  if (!isEanCode(code)) return false;
+  return calculateEanCheckDigit(code.slice(0, -1)) === Number(code[code.length - 1]);
+};
+
+/**
+ * Decodes an EAN-13 from the weighing scale laid out as 2P IIIII VVVVV C:
+ * a two-digit prefix, the 5-digit item code the product is registered under,
+ * then the weight in grams or the price in rupiah depending on the prefix.
+ * Returns null for anything that is not an in-store code.
+ */
+export const parseWeighedBarcode = (code: string): WeighedBarcode | null => {
+  if (code.length !== 13 || !isValidEan(code)) return null;
+
+  const prefix = code.slice(0, 2);
+  const itemCode = code.slice(2, 7);
+  const value = Number(code.slice(7, 12));
+
+  if (WEIGHT_PREFIXES.includes(prefix)) {
+    return { itemCode, weight: value / 1000 };
+  }
+  if (PRICE_PREFIXES.includes(prefix)) {
+    return { itemCode, price: value };
+  }
+  return null;
+};
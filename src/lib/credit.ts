@@ -0,0 +1,85 @@
+import { CreditEntry, Customer } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CREDIT_ENTRY_LABELS: Record<CreditEntry['type'], string> = {
+  charge: 'Kasbon',
+  repayment: 'Pembayaran',
+  refund: 'Retur',
+};
+
+export interface CreditAging {
+  current: number; // 0-30 days
+  days31to60: number;
+  over60: number;
+  total: number;
+}
+
+export const AGING_BUCKET_LABELS: Record<Exclude<keyof CreditAging, 'total'>, string> = {
+  current: '0-30 hari',
+  days31to60: '31-60 hari',
+  over60: '> 60 hari',
+};
+
+export const getCreditBalance = (ledger: CreditEntry[], customerId: string) => {
+  return ledger
+    .filter((entry) => entry.customerId === customerId)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+};
+
+export const getAvailableCredit = (customer: Customer, ledger: CreditEntry[]) => {
+  return Math.max(0, (customer.credit_limit || 0) - getCreditBalance(ledger, customer.id));
+};
+
+// Oldest sales are paid off first, which is also what the aging report assumes
+const getOpenCharges = (ledger: CreditEntry[], customerId: string) => {
+  return ledger
+    .filter((entry) => entry.customerId === customerId && entry.type === 'charge' && (entry.remaining || 0) > 0)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+/**
+ * Takes an amount off the customer's open charges, starting with the given
+ * sale when there is one and then oldest first. Returns the updated ledger.
+ */
+export const settleCharges = (ledger: CreditEntry[], customerId: string, amount: number, transactionId?: string) => {
+  const open = getOpenCharges(ledger, customerId);
+  const ordered = transactionId
+    ? [...open.filter((entry) => entry.transactionId === transactionId), ...open.filter((entry) => entry.transactionId !== transactionId)]
+    : open;
+
+  let left = amount;
+  const settled = new Map<string, number>();
+  for (const charge of ordered) {
+    if (left <= 0) break;
+    const take = Math.min(charge.remaining || 0, left);
+    settled.set(charge.id, take);
+    left -= take;
+  }
+
+  return ledger.map((entry) =>
+    settled.has(entry.id) ? { ...entry, remaining: (entry.remaining || 0) - settled.get(entry.id) } : entry
+  );
+};
+
+export const getDaysOutstanding = (entry: CreditEntry, now: Date) => {
+  return Math.max(0, Math.floor((now.getTime() - new Date(entry.createdAt).getTime()) / DAY_MS));
+};
+
+// Splits what is still owed by the age of the sale it came from
+export const getCreditAging = (ledger: CreditEntry[], customerId: string, now: Date = new Date()): CreditAging => {
+  return getOpenCharges(ledger, customerId).reduce<CreditAging>(
+    (aging, charge) => {
+      const days = getDaysOutstanding(charge, now);
+      const remaining = charge.remaining || 0;
+      if (days <= 30) aging.current += remaining;
+      else if (days <= 60) aging.days31to60 += remaining;
+      else aging.over60 += remaining;
+      aging.total += remaining;
+      return aging;
+    },
+    { current: 0, days31to60: 0, over60: 0, total: 0 }
+  );
+};
+
+export const getOldestOpenCharge = (ledger: CreditEntry[], customerId: string) => getOpenCharges(ledger, customerId)[0];
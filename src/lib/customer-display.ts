@@ -0,0 +1,80 @@
+import { AppliedPromotion, CartItem } from '@/types';
+import { getLineAmount, getUnitPrice } from './pricing';
+import { formatQuantity, getUnitLabel } from './units';
+
+const CHANNEL_NAME = 'pos-customer-display';
+const STORAGE_KEY = 'posCustomerDisplay';
+
+// How long the change stays up before the display falls back to the idle slideshow
+export const PAID_SCREEN_MS = 30 * 1000;
+
+export interface CustomerDisplayLine {
+  name: string;
+  quantity: string; // Already formatted with its unit, e.g. "1,250 kg" or "2 dus"
+  unitPrice: number;
+  amount: number;
+}
+
+export type CustomerDisplayState =
+  | { status: 'idle' }
+  | {
+      status: 'cart';
+      lines: CustomerDisplayLine[];
+      subtotal: number;
+      promotions: AppliedPromotion[];
+      discount: number; // Manual and loyalty discounts typed in at payment
+      tax: number;
+      total: number;
+      paid: number;
+      customerName?: string;
+    }
+  | {
+      status: 'paid';
+      transactionNumber?: string;
+      total: number;
+      paid: number;
+      change: number;
+      paidAt: string;
+    };
+
+export const toCustomerDisplayLine = (item: CartItem): CustomerDisplayLine => ({
+  name: item.product.name,
+  quantity: `${formatQuantity(item.product, item.quantity)} ${getUnitLabel(item)}`,
+  unitPrice: getUnitPrice(item),
+  amount: getLineAmount(item),
+});
+
+const openChannel = () => (typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME));
+
+/**
+ * Sends the till's current state to any open customer display. The last
+ * state is also kept in localStorage so a display opened mid-sale starts
+ * from it instead of waiting for the next change.
+ */
+export const publishCustomerDisplay = (state: CustomerDisplayState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  const channel = openChannel();
+  if (!channel) return;
+  channel.postMessage(state);
+  channel.close();
+};
+
+export const getLastCustomerDisplay = (): CustomerDisplayState => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return stored ? JSON.parse(stored) : { status: 'idle' };
+};
+
+// Falls back to storage events in browsers without BroadcastChannel
+export const subscribeCustomerDisplay = (onChange: (state: CustomerDisplayState) => void) => {
+  const channel = openChannel();
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<CustomerDisplayState>) => onChange(event.data);
+    return () => channel.close();
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY && event.newValue) onChange(JSON.parse(event.newValue));
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
@@ -0,0 +1,93 @@
+import { HotkeyAction } from '@/types';
+
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export const HOTKEY_ACTION_LABELS: Record<HotkeyAction, string> = {
+  show_shortcuts: 'Tampilkan pintasan',
+  focus_search: 'Cari produk / barcode',
+  hold_resume: 'Tahan atau lanjutkan pesanan',
+  pay_cash: 'Bayar tunai',
+  pay_card: 'Bayar kartu',
+  pay_ewallet: 'Bayar e-wallet',
+  pay_credit: 'Bayar kasbon',
+  pay_voucher: 'Bayar voucher',
+  previous_line: 'Pilih item sebelumnya',
+  next_line: 'Pilih item berikutnya',
+  increase_quantity: 'Tambah jumlah item',
+  decrease_quantity: 'Kurangi jumlah item',
+  set_quantity: 'Ketik jumlah item',
+  remove_line: 'Hapus item',
+  confirm_payment: 'Selesaikan pembayaran',
+  cancel: 'Batal / tutup',
+};
+
+// Function keys stay clear of what a cashier types into the search box
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  show_shortcuts: 'F1',
+  focus_search: 'F2',
+  hold_resume: 'F3',
+  pay_cash: 'F7',
+  pay_card: 'F8',
+  pay_ewallet: 'F9',
+  pay_credit: 'F4',
+  pay_voucher: 'F6',
+  previous_line: 'ArrowUp',
+  next_line: 'ArrowDown',
+  increase_quantity: '+',
+  decrease_quantity: '-',
+  set_quantity: '*',
+  remove_line: 'Delete',
+  confirm_payment: 'Enter',
+  cancel: 'Escape',
+};
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+/**
+ * The binding a key press matches, e.g. "F2", "Ctrl+H" or "+". Shift is
+ * only spelled out for named keys, since it is already part of a typed
+ * character. Returns null for a lone modifier.
+ */
+export const getHotkey = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'metaKey' | 'shiftKey'>) => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.metaKey && 'Meta',
+    event.shiftKey && event.key.length > 1 && 'Shift',
+  ].filter(Boolean);
+
+  return [...modifiers, key].join('+');
+};
+
+export const isFunctionKey = (hotkey: string) => /(^|\+)F\d{1,2}$/.test(hotkey);
+
+export const findHotkeyAction = (bindings: HotkeyBindings, hotkey: string) => {
+  return (Object.keys(bindings) as HotkeyAction[]).find((action) => bindings[action] === hotkey);
+};
+
+// Stored preferences only hold what the user changed
+export const resolveHotkeys = (overrides?: Partial<HotkeyBindings>): HotkeyBindings => ({
+  ...DEFAULT_HOTKEYS,
+  ...overrides,
+});
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Delete: 'Del',
+};
+
+export const formatHotkey = (hotkey: string) => {
+  if (!hotkey) return '-';
+  return hotkey
+    .split('+')
+    .map((part, index, parts) => (part === '' && index === parts.length - 1 ? '+' : KEY_LABELS[part] || part))
+    .filter(Boolean)
+    .join(' + ');
+};
@@ -0,0 +1,7 @@
+// crypto.randomUUID is only available in secure contexts, which a till on a LAN address may not be
+export const createId = () => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
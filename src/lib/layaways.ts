@@ -0,0 +1,51 @@
+import { Layaway, LayawayStatus } from '@/types';
+import { toDateKey } from './promotions';
+
+// How much a layaway needs up front, how long the goods are held and what is kept on cancellation
+export interface LayawayPolicy {
+  min_deposit_percent: number;
+  hold_days: number;
+  forfeit_percent: number; // Share of the deposits kept when a layaway is cancelled; 0 refunds everything
+}
+
+export const DEFAULT_LAYAWAY_POLICY: LayawayPolicy = {
+  min_deposit_percent: 20,
+  hold_days: 30,
+  forfeit_percent: 0,
+};
+
+export const LAYAWAY_STATUS_LABELS: Record<LayawayStatus, string> = {
+  open: 'Berjalan',
+  completed: 'Lunas',
+  cancelled: 'Dibatalkan',
+};
+
+export const getMinimumDeposit = (total: number, policy: LayawayPolicy) => {
+  return Math.ceil((total * policy.min_deposit_percent) / 100);
+};
+
+export const getDefaultDueDate = (policy: LayawayPolicy, from: Date = new Date()) => {
+  const due = new Date(from);
+  due.setDate(due.getDate() + policy.hold_days);
+  return toDateKey(due);
+};
+
+// Installments taken so far, before anything paid back on cancellation
+export const getLayawayPaid = (layaway: Layaway) => {
+  return layaway.payments
+    .filter((payment) => payment.type === 'payment')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+};
+
+export const getLayawayBalance = (layaway: Layaway) => Math.max(0, layaway.total - getLayawayPaid(layaway));
+
+export const isLayawayOverdue = (layaway: Layaway, at: Date = new Date()) => {
+  return layaway.status === 'open' && !!layaway.dueDate && toDateKey(at) > layaway.dueDate;
+};
+
+// What cancelling a layaway now would keep and pay back under the policy
+export const getCancellationSplit = (layaway: Layaway, policy: LayawayPolicy) => {
+  const paid = getLayawayPaid(layaway);
+  const forfeited = Math.min(paid, Math.round((paid * policy.forfeit_percent) / 100));
+  return { paid, forfeited, refundable: paid - forfeited };
+};
@@ -0,0 +1,145 @@
+import { Product, StockLot, StockLotMovement } from '@/types';
+import { toDateKey } from './promotions';
+import { roundQuantity } from './units';
+
+export type ExpiryStatus = 'expired' | 'expiring' | 'fresh';
+
+export const EXPIRY_STATUS_LABELS: Record<ExpiryStatus, string> = {
+  expired: 'Kedaluwarsa',
+  expiring: 'Segera Kedaluwarsa',
+  fresh: 'Aman',
+};
+
+// How far ahead the expiry report looks unless told otherwise
+export const DEFAULT_EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Purchases entered without a batch number still get one, so the lot can be told apart on the shelf
+export const getDefaultBatchNumber = (receivedAt: Date = new Date()) => {
+  return `LOT-${toDateKey(receivedAt).replace(/-/g, '')}`;
+};
+
+export const getLotStock = (product: Product) => {
+  return roundQuantity((product.lots || []).reduce((sum, lot) => sum + lot.quantity, 0));
+};
+
+// Stock received before lots were tracked, or put back by a return or correction
+export const getUntrackedStock = (product: Product) => Math.max(0, roundQuantity(product.stock - getLotStock(product)));
+
+/**
+ * First expiry, first out: dated lots by expiry date, then lots without
+ * one, each group oldest received first.
+ */
+export const sortLotsForPicking = (lots: StockLot[]) => {
+  return [...lots].sort((a, b) => {
+    if (a.expiryDate && b.expiryDate && a.expiryDate !== b.expiryDate) {
+      return a.expiryDate.localeCompare(b.expiryDate);
+    }
+    if (!!a.expiryDate !== !!b.expiryDate) {
+      return a.expiryDate ? -1 : 1;
+    }
+    return new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime();
+  });
+};
+
+const toMovement = (lot: StockLot, quantity: number): StockLotMovement => ({
+  lotId: lot.id,
+  batchNumber: lot.batchNumber,
+  expiryDate: lot.expiryDate,
+  receivedAt: lot.receivedAt,
+  quantity,
+});
+
+/**
+ * Takes quantity off the shelf. Untracked stock goes first: most of it was
+ * received before lots were tracked, so it is the oldest on the shelf. The
+ * rest comes off the lots in picking order, so movements may add up to less
+ * than was asked for. Emptied lots are dropped.
+ */
+export const drawLots = (lots: StockLot[], quantity: number, untracked = 0) => {
+  let remaining = roundQuantity(quantity - Math.min(Math.max(0, untracked), quantity));
+  const movements: StockLotMovement[] = [];
+  const taken = new Map<string, number>();
+
+  for (const lot of sortLotsForPicking(lots)) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    if (take <= 0) continue;
+    taken.set(lot.id, take);
+    movements.push(toMovement(lot, -take));
+    remaining = roundQuantity(remaining - take);
+  }
+
+  const updated = lots
+    .map((lot) => (taken.has(lot.id) ? { ...lot, quantity: roundQuantity(lot.quantity - taken.get(lot.id)) } : lot))
+    .filter((lot) => lot.quantity > 0);
+
+  return { lots: updated, movements };
+};
+
+// Takes quantity off one chosen lot, e.g. the batch being written off; undefined when it does not hold that much
+export const drawFromLot = (lots: StockLot[], lotId: string, quantity: number) => {
+  const lot = lots.find((l) => l.id === lotId);
+  if (!lot || roundQuantity(lot.quantity - quantity) < 0) return undefined;
+
+  const updated = lots
+    .map((l) => (l.id === lotId ? { ...l, quantity: roundQuantity(l.quantity - quantity) } : l))
+    .filter((l) => l.quantity > 0);
+
+  return { lots: updated, movements: [toMovement(lot, -quantity)] };
+};
+
+/**
+ * Puts goods back into the lots they were drawn from, e.g. when a layaway
+ * is cancelled. A lot that has run out in the meantime is reopened.
+ */
+export const returnToLots = (lots: StockLot[], movements: StockLotMovement[], receivedAt: string = new Date().toISOString()) => {
+  let updated = [...lots];
+  const returned = movements.map((movement) => ({ ...movement, quantity: Math.abs(movement.quantity) }));
+
+  returned.forEach((movement) => {
+    updated = updated.some((lot) => lot.id === movement.lotId)
+      ? updated.map((lot) => (lot.id === movement.lotId ? { ...lot, quantity: roundQuantity(lot.quantity + movement.quantity) } : lot))
+      : [...updated, {
+          id: movement.lotId,
+          batchNumber: movement.batchNumber,
+          expiryDate: movement.expiryDate,
+          receivedAt: movement.receivedAt ?? receivedAt,
+          quantity: movement.quantity,
+        }];
+  });
+
+  return { lots: updated, movements: returned };
+};
+
+const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Whole days left until the expiry date; 0 on the day itself, negative once past it
+export const getDaysUntilExpiry = (expiryDate: string, at: Date = new Date()) => {
+  return Math.round((parseDateKey(expiryDate).getTime() - parseDateKey(toDateKey(at)).getTime()) / DAY_MS);
+};
+
+export const getExpiryStatus = (lot: StockLot, warningDays = DEFAULT_EXPIRY_WARNING_DAYS, at: Date = new Date()): ExpiryStatus => {
+  if (!lot.expiryDate) return 'fresh';
+  const daysLeft = getDaysUntilExpiry(lot.expiryDate, at);
+  if (daysLeft < 0) return 'expired';
+  return daysLeft <= warningDays ? 'expiring' : 'fresh';
+};
+
+// Lots already past their date or due within warningDays, soonest first
+export const getExpiringLots = (products: Product[], warningDays = DEFAULT_EXPIRY_WARNING_DAYS, at: Date = new Date()) => {
+  return products
+    .flatMap((product) => (product.lots || []).map((lot) => ({ product, lot })))
+    .filter(({ lot }) => lot.quantity > 0 && getExpiryStatus(lot, warningDays, at) !== 'fresh')
+    .map(({ product, lot }) => ({
+      product,
+      lot,
+      daysLeft: getDaysUntilExpiry(lot.expiryDate, at),
+      status: getExpiryStatus(lot, warningDays, at),
+    }))
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+};
@@ -0,0 +1,104 @@
+import { Category, LoyaltyEntry, Transaction } from '@/types';
+import { getLineAmount } from './pricing';
+
+export const LOYALTY_ENTRY_LABELS: Record<LoyaltyEntry['type'], string> = {
+  earn: 'Didapat',
+  redeem: 'Ditukar',
+  expire: 'Kedaluwarsa',
+  refund: 'Retur',
+  restore: 'Dikembalikan',
+};
+
+// Entries that hold points which can still be spent or expire
+const isPointLot = (entry: LoyaltyEntry) => entry.type === 'earn' || entry.type === 'restore';
+
+export const getLoyaltyBalance = (ledger: LoyaltyEntry[], customerId: string) => {
+  return ledger
+    .filter((entry) => entry.customerId === customerId)
+    .reduce((sum, entry) => sum + entry.points, 0);
+};
+
+/**
+ * Points for a completed sale. Spend is what the customer actually paid
+ * before PPN, spread over the lines so order discounts and redeemed points
+ * earn nothing, then weighted by each line's category multiplier.
+ */
+export const calculateEarnedPoints = (
+  transaction: Transaction,
+  categories: Category[],
+  spendPerPoint: number
+) => {
+  if (spendPerPoint <= 0 || transaction.subtotal <= 0) return 0;
+
+  const exclusiveTax = transaction.taxInclusive ? 0 : transaction.tax || 0;
+  const ratio = Math.max(0, transaction.total - exclusiveTax) / transaction.subtotal;
+
+  const weightedSpend = transaction.items.reduce((sum, item) => {
+    const category = categories.find((c) => c.id === item.product.categoryId);
+    const multiplier = category?.loyaltyMultiplier ?? 1;
+    return sum + getLineAmount(item) * ratio * multiplier;
+  }, 0);
+
+  return Math.floor(weightedSpend / spendPerPoint);
+};
+
+// Lots closest to expiring are used up first
+const getOpenLots = (ledger: LoyaltyEntry[], customerId: string) => {
+  return ledger
+    .filter((entry) => entry.customerId === customerId && isPointLot(entry) && (entry.remaining || 0) > 0)
+    .sort((a, b) => {
+      const aExpiry = a.expiresAt ? new Date(a.expiresAt).getTime() : Infinity;
+      const bExpiry = b.expiresAt ? new Date(b.expiresAt).getTime() : Infinity;
+      return aExpiry - bExpiry || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    });
+};
+
+/**
+ * Takes points off the customer's open lots so later expiry only
+ * catches what was never spent. Returns the updated ledger.
+ */
+export const consumePoints = (ledger: LoyaltyEntry[], customerId: string, points: number) => {
+  let left = points;
+  const consumed = new Map<string, number>();
+
+  for (const lot of getOpenLots(ledger, customerId)) {
+    if (left <= 0) break;
+    const take = Math.min(lot.remaining || 0, left);
+    consumed.set(lot.id, take);
+    left -= take;
+  }
+
+  return ledger.map((entry) =>
+    consumed.has(entry.id) ? { ...entry, remaining: (entry.remaining || 0) - consumed.get(entry.id) } : entry
+  );
+};
+
+/**
+ * Closes every lot past its expiry date, writing one expire entry per
+ * lot so the ledger still points at the sale the points came from.
+ */
+export const expireLots = (ledger: LoyaltyEntry[], now: Date) => {
+  const expired = ledger.filter(
+    (entry) =>
+      isPointLot(entry) &&
+      (entry.remaining || 0) > 0 &&
+      entry.expiresAt &&
+      new Date(entry.expiresAt) <= now
+  );
+  if (expired.length === 0) return ledger;
+
+  const expiredIds = new Set(expired.map((entry) => entry.id));
+  const expiryEntries: LoyaltyEntry[] = expired.map((lot) => ({
+    id: `${now.getTime()}-expire-${lot.id}`,
+    customerId: lot.customerId,
+    type: 'expire',
+    points: -(lot.remaining || 0),
+    transactionId: lot.transactionId,
+    createdAt: now.toISOString(),
+  }));
+
+  return [
+    ...ledger.map((entry) => (expiredIds.has(entry.id) ? { ...entry, remaining: 0 } : entry)),
+    ...expiryEntries,
+  ];
+};
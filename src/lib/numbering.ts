@@ -0,0 +1,94 @@
+export type DocumentType = 'sale' | 'refund' | 'purchase' | 'adjustment' | 'layaway';
+
+export type NumberingReset = 'never' | 'yearly' | 'monthly';
+
+export interface NumberingRule {
+  pattern: string;
+  reset: NumberingReset;
+}
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  sale: 'Penjualan',
+  refund: 'Retur',
+  purchase: 'Pembelian',
+  adjustment: 'Penyesuaian Stok',
+  layaway: 'Layaway / DP',
+};
+
+export const DEFAULT_NUMBERING: Record<DocumentType, NumberingRule> = {
+  sale: { pattern: 'INV/{YYYY}/{MM}/{######}', reset: 'monthly' },
+  refund: { pattern: 'RTR/{YYYY}/{MM}/{####}', reset: 'monthly' },
+  purchase: { pattern: 'PB/{YYYY}/{####}', reset: 'yearly' },
+  adjustment: { pattern: 'ADJ/{YYYY}/{#####}', reset: 'yearly' },
+  layaway: { pattern: 'DP/{YYYY}/{MM}/{####}', reset: 'monthly' },
+};
+
+const COUNTERS_KEY = 'posDocumentCounters';
+const LOCK_NAME = 'pos-document-numbers';
+
+type Counters = Partial<Record<DocumentType, { period: string; last: number }>>;
+
+const pad = (value: number, length: number) => value.toString().padStart(length, '0');
+
+export const getNumberingPeriod = (reset: NumberingReset, date: Date) => {
+  if (reset === 'yearly') return `${date.getFullYear()}`;
+  if (reset === 'monthly') return `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}`;
+  return '';
+};
+
+/**
+ * Fills a pattern such as INV/{YYYY}/{MM}/{######}. Date tokens are
+ * {YYYY}, {YY}, {MM} and {DD}; a run of # is the zero-padded sequence.
+ */
+export const formatDocumentNumber = (pattern: string, sequence: number, date: Date) => {
+  return pattern
+    .replace(/\{YYYY\}/g, `${date.getFullYear()}`)
+    .replace(/\{YY\}/g, pad(date.getFullYear() % 100, 2))
+    .replace(/\{MM\}/g, pad(date.getMonth() + 1, 2))
+    .replace(/\{DD\}/g, pad(date.getDate(), 2))
+    .replace(/\{(#+)\}/g, (_, hashes: string) => pad(sequence, hashes.length));
+};
+
+export const isValidNumberingPattern = (pattern: string) => /\{#+\}/.test(pattern);
+
+/**
+ * Hands out the next number for a document type. Counters live in
+ * localStorage so they survive reloads, and the read-increment-write runs
+ * under a Web Lock so two tabs on the same till can never draw the same
+ * number. Call it only once the document is certain to be saved, otherwise
+ * the sequence gets a gap.
+ */
+export const allocateDocumentNumber = async (type: DocumentType, rule: NumberingRule, date = new Date()) => {
+  const allocate = () => {
+    const stored = localStorage.getItem(COUNTERS_KEY);
+    const counters: Counters = stored ? JSON.parse(stored) : {};
+
+    const period = getNumberingPeriod(rule.reset, date);
+    const counter = counters[type];
+    const sequence = counter && counter.period === period ? counter.last + 1 : 1;
+
+    counters[type] = { period, last: sequence };
+    localStorage.setItem(COUNTERS_KEY, JSON.stringify(counters));
+
+    return formatDocumentNumber(rule.pattern, sequence, date);
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, allocate);
+  }
+  return allocate();
+};
+
+// Records made before numbering existed only have their internal id
+export const getDocumentNumber = (document: { id: string; number?: string }) => {
+  return document.number || document.id;
+};
+
+export const matchesDocumentNumber = (document: { id: string; number?: string }, query: string) => {
+  const normalized = query.trim().replace(/^#/, '').toLowerCase();
+  if (!normalized) return false;
+  return (
+    document.id.toLowerCase().includes(normalized) ||
+    (document.number?.toLowerCase().includes(normalized) ?? false)
+  );
+};
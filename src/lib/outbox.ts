@@ -0,0 +1,58 @@
+import axios from 'axios';
+import { Transaction } from '@/types';
+import { TransactionInput } from '@/services/transactionService';
+import { createId } from './ids';
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export const createIdempotencyKey = createId;
+
+// Exponential backoff: 5s, 10s, 20s ... capped at five minutes
+export const getRetryDelay = (attempts: number) => {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+};
+
+export const toTransactionInput = (transaction: Transaction): TransactionInput => ({
+  items: transaction.items.map((item) => ({
+    productId: item.product.id,
+    quantity: item.quantity,
+    unit: item.unit?.name,
+    unitFactor: item.unit?.factor,
+    discount: item.discount,
+  })),
+  subtotal: transaction.subtotal,
+  discount: transaction.discount,
+  tax: transaction.tax,
+  total: transaction.total,
+  cashRounding: transaction.cashRounding,
+  paymentMethod: transaction.paymentMethod,
+  payments: transaction.payments,
+  cashierId: transaction.cashierId,
+  customerName: transaction.customerName,
+  customerId: transaction.customerId,
+  localId: transaction.id,
+  number: transaction.number,
+  qrisReference: transaction.qrisReference,
+  couponCode: transaction.couponCode,
+  createdAt: transaction.createdAt,
+});
+
+/**
+ * Decides what a failed replay means. Network trouble, timeouts and server
+ * errors are retried; a request the server understood and refused (stock
+ * shortage, validation) is a conflict that needs a person to look at it.
+ */
+export const classifySyncError = (error: unknown): { conflict: boolean; message: string } => {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return { conflict: false, message: (error as Error)?.message || 'Network error' };
+  }
+
+  const { status, data } = error.response;
+  const message = data?.errors
+    ? Object.values(data.errors as Record<string, string[]>).map((errors) => errors[0]).join(', ')
+    : data?.message || `HTTP ${status}`;
+
+  const retryable = status >= 500 || status === 401 || status === 408 || status === 429;
+  return { conflict: !retryable, message };
+};
@@ -0,0 +1,89 @@
+import { PaymentMethod, PaymentTender, PriceRounding, Transaction } from '@/types';
+import { roundAmount } from './pricing';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Tunai',
+  card: 'Kartu',
+  'e-wallet': 'E-Wallet',
+  credit: 'Kasbon',
+  voucher: 'Voucher',
+  deposit: 'DP',
+};
+
+// Methods that bring money in over the counter, as opposed to settling against a balance held elsewhere
+export const COUNTER_PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'e-wallet'];
+
+export const getPaymentMethodLabel = (method: PaymentMethod) => {
+  return PAYMENT_METHOD_LABELS[method] || method;
+};
+
+export const sumTenders = (payments: PaymentTender[], method?: PaymentMethod) => {
+  return payments
+    .filter((payment) => !method || payment.method === method)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+};
+
+// Change is only ever handed back from the cash portion of a payment
+export const calculateChange = (payments: PaymentTender[], total: number) => {
+  const cashPaid = sumTenders(payments, 'cash');
+  const nonCashPaid = sumTenders(payments) - cashPaid;
+  return Math.max(0, cashPaid - Math.max(0, total - nonCashPaid));
+};
+
+/**
+ * Cash rounding on a sale: what is left for cash after the other tenders is
+ * rounded to a payable amount. Returns the adjustment to add to the total,
+ * negative when rounded down. Callers only apply it when cash is tendered.
+ */
+export const getCashRounding = (total: number, nonCashPaid: number, rounding?: PriceRounding) => {
+  const cashDue = Math.max(0, total - nonCashPaid);
+  return roundAmount(cashDue, rounding) - cashDue;
+};
+
+// The exact amount, then the round sums a customer is likely to hand over for it
+export const getQuickCashAmounts = (due: number) => {
+  if (due <= 0) return [];
+  const amounts = [due, ...[5000, 10000, 50000, 100000].map((step) => Math.ceil(due / step) * step)];
+  return Array.from(new Set(amounts)).sort((a, b) => a - b);
+};
+
+// Largest tender wins, so a mostly-cash sale still files under cash
+export const getPrimaryPaymentMethod = (payments: PaymentTender[]): PaymentMethod => {
+  return payments.reduce(
+    (primary, payment) => (payment.amount > primary.amount ? payment : primary),
+    payments[0]
+  ).method;
+};
+
+/**
+ * Amount each tender actually contributed to the sale, with change taken off
+ * the cash tenders. Used by reports to attribute sales per payment method.
+ */
+export const getNetTenders = (transaction: Transaction): PaymentTender[] => {
+  let changeLeft = transaction.change || 0;
+
+  return transaction.payments.map((payment) => {
+    if (payment.method !== 'cash' || changeLeft <= 0) {
+      return payment;
+    }
+
+    const deducted = Math.min(changeLeft, payment.amount);
+    changeLeft -= deducted;
+    return { ...payment, amount: payment.amount - deducted };
+  });
+};
+
+// Transactions stored before split tenders carried a single paymentMethod only
+export const withPayments = (transaction: Transaction): Transaction => {
+  if (transaction.payments) {
+    return transaction;
+  }
+
+  return {
+    ...transaction,
+    payments: [{
+      method: transaction.paymentMethod,
+      amount: transaction.total + (transaction.change || 0),
+    }],
+  };
+};
@@ -0,0 +1,70 @@
+import { CartItem, PriceRounding, PriceTier, Product } from '@/types';
+
+/**
+ * The wholesale tier a quantity falls into: the highest break the line has
+ * reached. Below the first break there is no tier and the list price applies.
+ */
+export const getApplicablePriceTier = (product: Product, quantity: number): PriceTier | undefined => {
+  return (product.priceTiers || [])
+    .filter((tier) => quantity >= tier.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+};
+
+// The tier a cart line is actually charged at, if any
+export const getAppliedPriceTier = (item: CartItem) => {
+  return item.unit || item.priceOverride !== undefined ? undefined : getApplicablePriceTier(item.product, item.quantity);
+};
+
+// Pack units carry their own price; wholesale tiers only apply to lines sold in the base unit
+export const getUnitPrice = (item: CartItem) => {
+  if (item.priceOverride !== undefined) {
+    return item.priceOverride;
+  }
+  if (item.unit) {
+    return item.unit.price ?? item.product.price * item.unit.factor;
+  }
+  return getAppliedPriceTier(item)?.price ?? item.product.price;
+};
+
+export const roundAmount = (amount: number, rounding?: PriceRounding) => {
+  if (!rounding || !(rounding.step > 0)) return amount;
+  // The epsilon keeps 12000 × 1.15 = 13799.999... from rounding a step down or up
+  const steps = amount / rounding.step;
+  if (rounding.mode === 'up') return Math.ceil(steps - 1e-9) * rounding.step;
+  if (rounding.mode === 'down') return Math.floor(steps + 1e-9) * rounding.step;
+  return Math.round(steps) * rounding.step;
+};
+
+// Price × quantity for a line, rounded by the rule stamped on weighed lines
+export const getLineGross = (item: CartItem) => roundAmount(getUnitPrice(item) * item.quantity, item.priceRounding);
+
+// What a cart line costs after its tier and line discount, before order-level reductions
+export const getLineAmount = (item: CartItem) => getLineGross(item) - (item.discount || 0);
+
+export const formatPriceTier = (tier: PriceTier) => `Grosir ${tier.minQuantity.toLocaleString('id-ID')}+`;
+
+/**
+ * Sorts tiers by quantity and rejects ones the till could not apply
+ * unambiguously. Throws on the first problem found.
+ */
+export const normalizePriceTiers = (tiers: PriceTier[], basePrice: number) => {
+  const sorted = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+
+  sorted.forEach((tier, index) => {
+    if (!Number.isFinite(tier.minQuantity) || tier.minQuantity <= 1) {
+      throw new Error('Tier quantity must be greater than 1');
+    }
+    if (!Number.isFinite(tier.price) || tier.price <= 0) {
+      throw new Error('Tier price must be greater than 0');
+    }
+    if (index > 0 && sorted[index - 1].minQuantity === tier.minQuantity) {
+      throw new Error(`Duplicate tier for quantity ${tier.minQuantity}`);
+    }
+    const previousPrice = index > 0 ? sorted[index - 1].price : basePrice;
+    if (tier.price >= previousPrice) {
+      throw new Error(`Tier price for ${tier.minQuantity}+ must be lower than the tier below it`);
+    }
+  });
+
+  return sorted;
+};
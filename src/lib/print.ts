@@ -0,0 +1,250 @@
+import axios from 'axios';
+import { AppSettings } from '@/types';
+import { renderQrSvg } from './qrcode';
+
+export type PrintFormat = AppSettings['receipt_print_format'];
+
+export type PrintLine =
+  | { text: string; align?: 'left' | 'center'; bold?: boolean }
+  | { left: string; right: string; bold?: boolean }
+  | { divider: true }
+  | { logo: string } // Image URL; only the HTML layouts can show it
+  | { qr: string }; // Printed as a QR code by ESC/POS and HTML, left out of plain text
+
+// Characters per line on common thermal printers
+export const PRINT_COLUMNS: Record<Exclude<PrintFormat, 'a4'>, number> = {
+  thermal_58mm: 32,
+  thermal_80mm: 48,
+};
+
+export const formatRupiah = (amount: number) => `Rp ${Math.round(amount).toLocaleString('id-ID')}`;
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Breaks on spaces where possible; words longer than a line are cut
+const wrap = (text: string, columns: number) => {
+  const lines: string[] = [];
+  let current = '';
+
+  text.split(' ').forEach((word) => {
+    while (word.length > columns) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(word.slice(0, columns));
+      word = word.slice(columns);
+    }
+
+    if (!current) {
+      current = word;
+    } else if (current.length + 1 + word.length <= columns) {
+      current += ` ${word}`;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+
+  lines.push(current);
+  return lines;
+};
+
+const layoutLine = (line: PrintLine, columns: number): string[] => {
+  if ('logo' in line || 'qr' in line) {
+    return [];
+  }
+
+  if ('divider' in line) {
+    return ['-'.repeat(columns)];
+  }
+
+  if ('left' in line) {
+    const gap = columns - line.left.length - line.right.length;
+    if (gap >= 1) {
+      return [line.left + ' '.repeat(gap) + line.right];
+    }
+    return [...wrap(line.left, columns), line.right.padStart(columns)];
+  }
+
+  return wrap(line.text, columns).map((text) => {
+    if (line.align !== 'center') return text;
+    const padding = Math.floor((columns - text.length) / 2);
+    return ' '.repeat(padding) + text;
+  });
+};
+
+/**
+ * Lays the lines out as fixed-width text for a thermal printer. Left/right
+ * pairs that do not fit on one line put the value on its own line.
+ */
+export const renderPlainText = (lines: PrintLine[], columns: number) => {
+  return lines.flatMap((line) => layoutLine(line, columns)).join('\n');
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Printers run a single-byte code page; anything outside ASCII is printed as '?'
+const encodeAscii = (text: string) => {
+  return Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+};
+
+// The printer draws the code itself (GS ( k): model 2, 6-dot modules, level M, centred
+const escPosQr = (data: string) => {
+  const encoded = encodeAscii(data);
+  const length = encoded.length + 3;
+  return [
+    ESC, 0x61, 1,
+    GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, 6,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...encoded,
+    GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30,
+    0x0a, ESC, 0x61, 0,
+  ];
+};
+
+/**
+ * Raw ESC/POS job for the same lines: initialise, print each line with its
+ * bold setting, feed past the tear bar and cut. Alignment is already baked
+ * into the padded text, so the printer stays left-aligned throughout.
+ */
+export const renderEscPos = (lines: PrintLine[], columns: number) => {
+  const bytes: number[] = [ESC, 0x40];
+
+  lines.forEach((line) => {
+    if ('qr' in line) {
+      bytes.push(...escPosQr(line.qr));
+      return;
+    }
+
+    const bold = 'bold' in line && !!line.bold;
+    if (bold) bytes.push(ESC, 0x45, 1);
+    layoutLine(line, columns).forEach((text) => {
+      bytes.push(...encodeAscii(text), 0x0a);
+    });
+    if (bold) bytes.push(ESC, 0x45, 0);
+  });
+
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0);
+  return new Uint8Array(bytes);
+};
+
+export const downloadBytes = (bytes: Uint8Array, filename: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// A printer bridge is a small local service that forwards raw bytes to a USB or network printer
+export const sendToPrinterBridge = async (url: string, bytes: Uint8Array) => {
+  await axios.post(url, bytes, {
+    headers: { 'Content-Type': 'application/octet-stream' },
+    timeout: 10000,
+  });
+};
+
+export const renderHtml = (lines: PrintLine[], format: PrintFormat, title: string) => {
+  const logo = lines.find((line): line is { logo: string } => 'logo' in line);
+
+  if (format !== 'a4') {
+    const width = format === 'thermal_58mm' ? '58mm' : '80mm';
+    const logoHtml = logo ? `<img src="${escapeHtml(logo.logo)}" alt="" />` : '';
+
+    // QR codes split the monospace text into separate blocks around them
+    const blocks: string[] = [];
+    let text: PrintLine[] = [];
+    const flush = () => {
+      if (text.length > 0) blocks.push(`<pre>${escapeHtml(renderPlainText(text, PRINT_COLUMNS[format]))}</pre>`);
+      text = [];
+    };
+    lines.forEach((line) => {
+      if ('qr' in line) {
+        flush();
+        blocks.push(`<div class="qr">${renderQrSvg(line.qr)}</div>`);
+      } else {
+        text.push(line);
+      }
+    });
+    flush();
+
+    return `<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title><style>
+@page { size: ${width} auto; margin: 0; }
+body { margin: 0; padding: 2mm; font-family: monospace; font-size: 12px; }
+img { display: block; max-width: 60%; max-height: 20mm; margin: 0 auto 2mm; }
+pre { margin: 0; white-space: pre; }
+.qr svg { display: block; width: 40mm; margin: 2mm auto; }
+</style></head><body>${logoHtml}${blocks.join('')}</body></html>`;
+  }
+
+  const rows = lines.map((line) => {
+    if ('logo' in line) {
+      return `<tr><td colspan="2" class="center"><img src="${escapeHtml(line.logo)}" alt="" /></td></tr>`;
+    }
+    if ('qr' in line) {
+      return `<tr><td colspan="2" class="center"><div class="qr">${renderQrSvg(line.qr)}</div></td></tr>`;
+    }
+    if ('divider' in line) {
+      return '<tr><td colspan="2"><hr /></td></tr>';
+    }
+    const weight = line.bold ? ' style="font-weight:bold"' : '';
+    if ('left' in line) {
+      return `<tr${weight}><td>${escapeHtml(line.left)}</td><td class="right">${escapeHtml(line.right)}</td></tr>`;
+    }
+    const align = line.align === 'center' ? ' class="center"' : '';
+    return `<tr${weight}><td colspan="2"${align}>${escapeHtml(line.text)}</td></tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title><style>
+@page { size: A4; margin: 15mm; }
+body { font-family: sans-serif; font-size: 12pt; }
+table { width: 100%; border-collapse: collapse; }
+td { padding: 2px 0; }
+.right { text-align: right; }
+.center { text-align: center; }
+hr { border: 0; border-top: 1px solid #999; }
+img { max-height: 25mm; }
+.qr svg { width: 45mm; }
+</style></head><body><table>${rows}</table></body></html>`;
+};
+
+/**
+ * Prints through a hidden iframe so the current page stays as it is.
+ */
+export const printDocument = (lines: PrintLine[], format: PrintFormat, title: string) => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const doc = iframe.contentWindow?.document;
+  if (!doc || !iframe.contentWindow) {
+    document.body.removeChild(iframe);
+    throw new Error('Printing is not available');
+  }
+
+  doc.open();
+  doc.write(renderHtml(lines, format, title));
+  doc.close();
+
+  iframe.contentWindow.focus();
+  iframe.contentWindow.print();
+
+  // Give the print dialog time to take its snapshot before cleaning up
+  setTimeout(() => document.body.removeChild(iframe), 1000);
+};
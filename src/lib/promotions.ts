@@ -0,0 +1,147 @@
+import { AppliedPromotion, CartItem, Promotion, PromotionType } from '@/types';
+import { getLineAmount, getUnitPrice } from './pricing';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Beli X Gratis Y',
+  bundle_price: 'Harga Paket',
+  category_percentage: 'Diskon % Kategori',
+  minimum_spend: 'Minimal Belanja',
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const toDateKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Whether a promotion applies at the given moment: switched on, inside its
+ * date range, on an allowed weekday and inside its time window.
+ */
+export const isPromotionActive = (promotion: Promotion, at: Date = new Date()) => {
+  if (!promotion.isActive) return false;
+
+  const dateKey = toDateKey(at);
+  if (promotion.startDate && dateKey < promotion.startDate) return false;
+  if (promotion.endDate && dateKey > promotion.endDate) return false;
+
+  if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(at.getDay())) {
+    return false;
+  }
+
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  if (promotion.startTime && minutes < toMinutes(promotion.startTime)) return false;
+  if (promotion.endTime && minutes >= toMinutes(promotion.endTime)) return false;
+
+  return true;
+};
+
+// Expands eligible lines into one price per whole unit, most expensive first.
+// Picking a parent product makes every one of its variants eligible.
+const getEligibleUnitPrices = (cart: CartItem[], productIds: string[] = []) => {
+  return cart
+    .filter((item) => productIds.includes(item.product.id) || productIds.includes(item.product.parentId))
+    .flatMap((item) => Array<number>(Math.floor(item.quantity)).fill(getUnitPrice(item)))
+    .sort((a, b) => b - a);
+};
+
+const evaluateBuyXGetY = (promotion: Promotion, cart: CartItem[]) => {
+  const buy = promotion.buyQuantity || 0;
+  const get = promotion.getQuantity || 0;
+  if (buy <= 0 || get <= 0) return 0;
+
+  const unitPrices = getEligibleUnitPrices(cart, promotion.productIds);
+  const freeUnits = Math.floor(unitPrices.length / (buy + get)) * get;
+
+  // The cheapest units are the ones given away
+  return unitPrices.slice(unitPrices.length - freeUnits).reduce((sum, price) => sum + price, 0);
+};
+
+const evaluateBundlePrice = (promotion: Promotion, cart: CartItem[]) => {
+  const size = promotion.bundleQuantity || 0;
+  const bundlePrice = promotion.bundlePrice || 0;
+  if (size <= 0) return 0;
+
+  const unitPrices = getEligibleUnitPrices(cart, promotion.productIds);
+  const bundles = Math.floor(unitPrices.length / size);
+
+  let discount = 0;
+  for (let i = 0; i < bundles; i++) {
+    const regularPrice = unitPrices.slice(i * size, (i + 1) * size).reduce((sum, price) => sum + price, 0);
+    discount += Math.max(0, regularPrice - bundlePrice);
+  }
+  return discount;
+};
+
+const evaluateCategoryPercentage = (promotion: Promotion, cart: CartItem[]) => {
+  const eligibleAmount = cart
+    .filter((item) => item.product.categoryId === promotion.categoryId)
+    .reduce((sum, item) => sum + getLineAmount(item), 0);
+
+  return eligibleAmount * ((promotion.percentage || 0) / 100);
+};
+
+const evaluateMinimumSpend = (promotion: Promotion, spend: number) => {
+  if (spend < (promotion.minimumSpend || 0)) return 0;
+
+  if (promotion.discountAmount) {
+    return Math.min(promotion.discountAmount, spend);
+  }
+  return spend * ((promotion.percentage || 0) / 100);
+};
+
+/**
+ * Evaluates every running promotion against the cart. Item-level rules are
+ * applied first; minimum-spend rules then look at what is left to pay.
+ */
+export const evaluatePromotions = (
+  cart: CartItem[],
+  promotions: Promotion[],
+  at: Date = new Date()
+): AppliedPromotion[] => {
+  if (cart.length === 0) return [];
+
+  const running = promotions.filter((promotion) => isPromotionActive(promotion, at));
+  const applied: AppliedPromotion[] = [];
+
+  running
+    .filter((promotion) => promotion.type !== 'minimum_spend')
+    .forEach((promotion) => {
+      let amount = 0;
+      if (promotion.type === 'buy_x_get_y') {
+        amount = evaluateBuyXGetY(promotion, cart);
+      } else if (promotion.type === 'bundle_price') {
+        amount = evaluateBundlePrice(promotion, cart);
+      } else if (promotion.type === 'category_percentage') {
+        amount = evaluateCategoryPercentage(promotion, cart);
+      }
+
+      amount = Math.round(amount);
+      if (amount > 0) {
+        applied.push({ promotionId: promotion.id, name: promotion.name, amount });
+      }
+    });
+
+  const subtotal = cart.reduce((sum, item) => sum + getLineAmount(item), 0);
+  const spendAfterItemPromotions = subtotal - applied.reduce((sum, promotion) => sum + promotion.amount, 0);
+
+  running
+    .filter((promotion) => promotion.type === 'minimum_spend')
+    .forEach((promotion) => {
+      const amount = Math.round(evaluateMinimumSpend(promotion, spendAfterItemPromotions));
+      if (amount > 0) {
+        applied.push({ promotionId: promotion.id, name: promotion.name, amount });
+      }
+    });
+
+  return applied;
+};
+
+export const sumPromotions = (promotions: AppliedPromotion[] = []) => {
+  return promotions.reduce((sum, promotion) => sum + promotion.amount, 0);
+};
@@ -0,0 +1,132 @@
+import { createId } from './ids';
+
+// QRIS follows the EMVCo merchant-presented QR spec: ID (2 digits), length (2 digits), value
+export interface TlvField {
+  id: string;
+  value: string;
+}
+
+const TAG_POINT_OF_INITIATION = '01';
+const TAG_AMOUNT = '54';
+const TAG_TIP_INDICATOR = '55';
+const TAG_TIP_FIXED = '56';
+const TAG_TIP_PERCENTAGE = '57';
+const TAG_MERCHANT_NAME = '59';
+const TAG_ADDITIONAL_DATA = '62';
+const TAG_CRC = '63';
+const SUBTAG_REFERENCE_LABEL = '05';
+
+const STATIC_INITIATION = '11';
+const DYNAMIC_INITIATION = '12';
+const MAX_REFERENCE_LENGTH = 25;
+
+export const parseTlv = (payload: string): TlvField[] => {
+  const fields: TlvField[] = [];
+  let index = 0;
+  while (index < payload.length) {
+    const id = payload.slice(index, index + 2);
+    const length = Number(payload.slice(index + 2, index + 4));
+    if (!/^\d{2}$/.test(id) || !/^\d{2}$/.test(payload.slice(index + 2, index + 4)) || index + 4 + length > payload.length) {
+      throw new Error(`Malformed QRIS field at position ${index}`);
+    }
+    fields.push({ id, value: payload.slice(index + 4, index + 4 + length) });
+    index += 4 + length;
+  }
+  return fields;
+};
+
+export const formatTlv = (fields: TlvField[]) => {
+  return fields
+    .map(({ id, value }) => {
+      if (value.length > 99) throw new Error(`QRIS field ${id} is longer than 99 characters`);
+      return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+    })
+    .join('');
+};
+
+// CRC-16/CCITT-FALSE: polynomial 0x1021, initial value 0xFFFF, as four uppercase hex digits
+export const crc16 = (text: string) => {
+  let crc = 0xffff;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// The checksum covers everything up to and including its own ID and length, "6304"
+const withCrc = (body: string) => {
+  const unsigned = `${body}${TAG_CRC}04`;
+  return `${unsigned}${crc16(unsigned)}`;
+};
+
+/**
+ * Checks a static QRIS payload as printed on the merchant's sticker and
+ * returns its fields without the checksum. Throws on the first problem.
+ */
+export const parseStaticQris = (payload: string) => {
+  const trimmed = payload.trim();
+  const fields = parseTlv(trimmed);
+
+  if (fields[0]?.id !== '00' || fields[0].value !== '01') {
+    throw new Error('QRIS payload must start with format indicator 000201');
+  }
+  const crc = fields[fields.length - 1];
+  if (crc?.id !== TAG_CRC || crc.value.length !== 4) {
+    throw new Error('QRIS payload must end with a CRC field');
+  }
+  if (crc16(trimmed.slice(0, -4)) !== crc.value.toUpperCase()) {
+    throw new Error('QRIS checksum does not match; check the payload was copied completely');
+  }
+  const initiation = fields.find((field) => field.id === TAG_POINT_OF_INITIATION);
+  if (initiation?.value !== STATIC_INITIATION) {
+    throw new Error('QRIS payload is not a static QRIS');
+  }
+
+  return fields.slice(0, -1);
+};
+
+export const getQrisMerchantName = (payload: string) => {
+  return parseStaticQris(payload).find((field) => field.id === TAG_MERCHANT_NAME)?.value;
+};
+
+// Short enough for the 25-character reference label and easy to read out to the e-wallet provider
+export const createQrisReference = () => createId().replace(/[^a-zA-Z0-9]/g, '').slice(0, 12).toUpperCase();
+
+/**
+ * Turns the store's static QRIS into a dynamic one for a single sale: the
+ * amount is fixed so the customer cannot change it, any tip prompt is
+ * dropped, and the reference goes into the additional data so the
+ * payment can be matched to the sale in the acquirer's report.
+ */
+export const buildDynamicQris = (staticPayload: string, amount: number, reference: string) => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('QRIS amount must be greater than 0');
+  }
+  if (reference.length > MAX_REFERENCE_LENGTH) {
+    throw new Error(`QRIS reference must be at most ${MAX_REFERENCE_LENGTH} characters`);
+  }
+
+  const fields = parseStaticQris(staticPayload)
+    .filter((field) => ![TAG_AMOUNT, TAG_TIP_INDICATOR, TAG_TIP_FIXED, TAG_TIP_PERCENTAGE].includes(field.id))
+    .map((field) => (field.id === TAG_POINT_OF_INITIATION ? { ...field, value: DYNAMIC_INITIATION } : field));
+
+  // Rupiah amounts have no minor unit
+  fields.push({ id: TAG_AMOUNT, value: Math.round(amount).toString() });
+
+  const additional = fields.find((field) => field.id === TAG_ADDITIONAL_DATA);
+  const subfields = additional
+    ? parseTlv(additional.value).filter((field) => field.id !== SUBTAG_REFERENCE_LABEL)
+    : [];
+  subfields.push({ id: SUBTAG_REFERENCE_LABEL, value: reference });
+  subfields.sort((a, b) => a.id.localeCompare(b.id));
+
+  const withAdditional = [
+    ...fields.filter((field) => field.id !== TAG_ADDITIONAL_DATA),
+    { id: TAG_ADDITIONAL_DATA, value: formatTlv(subfields) },
+  ].sort((a, b) => a.id.localeCompare(b.id));
+
+  return withCrc(formatTlv(withAdditional));
+};
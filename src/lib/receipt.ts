@@ -0,0 +1,338 @@
+import { CartItem, CreditEntry, Customer, GiftVoucher, Layaway, Refund, StoreSettings, Transaction } from '@/types';
+import { AGING_BUCKET_LABELS, CREDIT_ENTRY_LABELS, CreditAging } from './credit';
+import { getLayawayBalance, getLayawayPaid, LAYAWAY_STATUS_LABELS } from './layaways';
+import { getDocumentNumber } from './numbering';
+import { getPaymentMethodLabel } from './payments';
+import { formatPriceTier, getAppliedPriceTier, getLineGross, getUnitPrice } from './pricing';
+import { getTaxLabel } from './tax';
+import { formatQuantity, getUnitLabel } from './units';
+import {
+  formatRupiah,
+  PrintFormat,
+  PrintLine,
+  PRINT_COLUMNS,
+  printDocument,
+  renderEscPos,
+  sendToPrinterBridge
+} from './print';
+
+export type ReceiptStore = Pick<StoreSettings, 'store_name' | 'address' | 'phone' | 'receipt_footer' | 'logo_path' | 'qris_on_receipt'>;
+
+export interface ReceiptOutput {
+  format: PrintFormat;
+  bridgeUrl?: string;
+}
+
+const buildHeader = (store: ReceiptStore): PrintLine[] => {
+  const lines: PrintLine[] = [];
+  if (store.logo_path) {
+    lines.push({ logo: store.logo_path });
+  }
+  lines.push({ text: store.store_name, align: 'center', bold: true });
+  if (store.address) {
+    lines.push({ text: store.address, align: 'center' });
+  }
+  if (store.phone) {
+    lines.push({ text: `Telp: ${store.phone}`, align: 'center' });
+  }
+  lines.push({ divider: true });
+  return lines;
+};
+
+// A weighed line prints what the scale read and the price per unit, e.g. "1,250 kg x 12.000/kg"
+const formatQuantityAndPrice = (item: CartItem) => {
+  const unitPrice = getUnitPrice(item).toLocaleString('id-ID');
+  const quantity = formatQuantity(item.product, item.quantity);
+  if (item.product.soldByWeight && !item.unit) {
+    return `${quantity} ${getUnitLabel(item)} x ${unitPrice}/${getUnitLabel(item)}`;
+  }
+  return `${quantity}${item.unit ? ` ${item.unit.name}` : ''} x ${unitPrice}`;
+};
+
+/**
+ * Lines for a sales receipt, laid out once and rendered to thermal text,
+ * A4 HTML or ESC/POS by the print helpers.
+ */
+export const buildReceiptLines = (transaction: Transaction, store: ReceiptStore): PrintLine[] => {
+  const lines: PrintLine[] = [
+    ...buildHeader(store),
+    { left: 'No.', right: getDocumentNumber(transaction) },
+    { left: 'Tanggal', right: new Date(transaction.createdAt).toLocaleString('id-ID') },
+  ];
+
+  if (transaction.cashierName) {
+    lines.push({ left: 'Kasir', right: transaction.cashierName });
+  }
+  if (transaction.customerName) {
+    lines.push({ left: 'Pelanggan', right: transaction.customerName });
+  }
+  lines.push({ divider: true });
+
+  transaction.items.forEach((item) => {
+    const tier = getAppliedPriceTier(item);
+    lines.push(
+      { text: item.product.name },
+      {
+        left: `  ${formatQuantityAndPrice(item)}${tier ? ` (${formatPriceTier(tier)})` : ''}`,
+        right: formatRupiah(getLineGross(item)),
+      }
+    );
+    if (item.discount) {
+      lines.push({ left: '  Diskon', right: `-${formatRupiah(item.discount)}` });
+    }
+  });
+
+  lines.push({ divider: true }, { left: 'Subtotal', right: formatRupiah(transaction.subtotal) });
+
+  transaction.promotions?.forEach((promotion) => {
+    lines.push({ left: promotion.name, right: `-${formatRupiah(promotion.amount)}` });
+  });
+  if (transaction.discount) {
+    lines.push({ left: 'Diskon', right: `-${formatRupiah(transaction.discount)}` });
+  }
+  if (transaction.loyaltyDiscount) {
+    lines.push({
+      left: `Tukar ${transaction.loyaltyPointsRedeemed} Poin`,
+      right: `-${formatRupiah(transaction.loyaltyDiscount)}`,
+    });
+  }
+  if (transaction.couponDiscount) {
+    lines.push({ left: `Kupon ${transaction.couponCode}`, right: `-${formatRupiah(transaction.couponDiscount)}` });
+  }
+  if (transaction.tax) {
+    lines.push({ left: getTaxLabel(transaction.taxRate || 0, transaction.taxInclusive), right: formatRupiah(transaction.tax) });
+  }
+
+  if (transaction.cashRounding) {
+    lines.push({
+      left: 'Pembulatan',
+      right: `${transaction.cashRounding < 0 ? '-' : ''}${formatRupiah(Math.abs(transaction.cashRounding))}`,
+    });
+  }
+
+  lines.push({ left: 'TOTAL', right: formatRupiah(transaction.total), bold: true }, { divider: true });
+
+  transaction.payments.forEach((payment) => {
+    const label = payment.reference
+      ? `${getPaymentMethodLabel(payment.method)} (${payment.reference})`
+      : getPaymentMethodLabel(payment.method);
+    lines.push({ left: label, right: formatRupiah(payment.amount) });
+    if (payment.qrisPayload && store.qris_on_receipt) {
+      lines.push({ qr: payment.qrisPayload });
+    }
+  });
+  if (transaction.change !== undefined) {
+    lines.push({ left: 'Kembalian', right: formatRupiah(transaction.change) });
+  }
+
+  if (transaction.loyaltyPointsEarned) {
+    lines.push({ divider: true }, { left: 'Poin didapat', right: transaction.loyaltyPointsEarned.toLocaleString('id-ID') });
+  }
+
+  lines.push({ divider: true });
+  if (store.receipt_footer) {
+    lines.push({ text: store.receipt_footer, align: 'center' });
+  }
+
+  return lines;
+};
+
+export const buildRefundSlipLines = (refund: Refund, store: ReceiptStore): PrintLine[] => {
+  const lines: PrintLine[] = [
+    ...buildHeader(store),
+    { text: 'SLIP RETUR', align: 'center', bold: true },
+    { left: 'No. Retur', right: getDocumentNumber(refund) },
+    { left: 'No. Transaksi', right: refund.transactionNumber || refund.transactionId },
+    { left: 'Tanggal', right: new Date(refund.createdAt).toLocaleString('id-ID') },
+  ];
+
+  if (refund.cashierName) {
+    lines.push({ left: 'Kasir', right: refund.cashierName });
+  }
+  lines.push({ divider: true });
+
+  refund.items.forEach((item) => {
+    lines.push({ text: item.product.name }, { left: `  ${formatQuantity(item.product, item.quantity)} ${getUnitLabel(item)}`, right: formatRupiah(item.amount) });
+  });
+
+  lines.push({ divider: true });
+  if (refund.tax > 0) {
+    lines.push({ left: 'Termasuk PPN', right: formatRupiah(refund.tax) });
+  }
+  lines.push(
+    { left: 'TOTAL REFUND', right: formatRupiah(refund.total), bold: true },
+    { left: 'Dikembalikan via', right: getPaymentMethodLabel(refund.method) }
+  );
+  if (refund.reason) {
+    lines.push({ left: 'Alasan', right: refund.reason });
+  }
+
+  lines.push(
+    { text: '' },
+    { text: '' },
+    { left: '(Kasir)', right: '(Pelanggan)' }
+  );
+
+  return lines;
+};
+
+/**
+ * A statement of the customer's kasbon: every charge, repayment and return
+ * with a running balance, followed by what is still owed by age.
+ */
+export const buildCreditStatementLines = (
+  customer: Customer,
+  entries: CreditEntry[],
+  aging: CreditAging,
+  store: ReceiptStore
+): PrintLine[] => {
+  const lines: PrintLine[] = [
+    ...buildHeader(store),
+    { text: 'REKENING KASBON', align: 'center', bold: true },
+    { left: 'Pelanggan', right: customer.name },
+  ];
+
+  if (customer.phone) {
+    lines.push({ left: 'Telp', right: customer.phone });
+  }
+  lines.push(
+    { left: 'Tanggal', right: new Date().toLocaleString('id-ID') },
+    { left: 'Limit', right: formatRupiah(customer.credit_limit || 0) },
+    { divider: true }
+  );
+
+  let balance = 0;
+  entries.forEach((entry) => {
+    balance += entry.amount;
+    const label = entry.transactionNumber
+      ? `${CREDIT_ENTRY_LABELS[entry.type]} ${entry.transactionNumber}`
+      : entry.method
+        ? `${CREDIT_ENTRY_LABELS[entry.type]} (${getPaymentMethodLabel(entry.method)})`
+        : CREDIT_ENTRY_LABELS[entry.type];
+    lines.push(
+      { text: `${new Date(entry.createdAt).toLocaleDateString('id-ID')} ${label}` },
+      {
+        left: `  ${entry.amount < 0 ? '-' : ''}${formatRupiah(Math.abs(entry.amount))}`,
+        right: formatRupiah(balance),
+      }
+    );
+  });
+  if (entries.length === 0) {
+    lines.push({ text: 'Belum ada transaksi kasbon', align: 'center' });
+  }
+
+  lines.push({ divider: true });
+  (Object.keys(AGING_BUCKET_LABELS) as Array<keyof typeof AGING_BUCKET_LABELS>).forEach((bucket) => {
+    lines.push({ left: AGING_BUCKET_LABELS[bucket], right: formatRupiah(aging[bucket]) });
+  });
+  lines.push({ left: 'TOTAL KASBON', right: formatRupiah(balance), bold: true }, { divider: true });
+
+  if (store.receipt_footer) {
+    lines.push({ text: store.receipt_footer, align: 'center' });
+  }
+
+  return lines;
+};
+
+/**
+ * The customer's copy of a layaway: what is reserved, every installment so
+ * far and what is still due before the goods can be collected.
+ */
+export const buildLayawayLines = (layaway: Layaway, store: ReceiptStore): PrintLine[] => {
+  const lines: PrintLine[] = [
+    ...buildHeader(store),
+    { text: 'TANDA TERIMA DP / LAYAWAY', align: 'center', bold: true },
+    { left: 'No.', right: getDocumentNumber(layaway) },
+    { left: 'Tanggal', right: new Date(layaway.createdAt).toLocaleString('id-ID') },
+    { left: 'Pelanggan', right: layaway.customerName || '-' },
+    { left: 'Status', right: LAYAWAY_STATUS_LABELS[layaway.status] },
+  ];
+
+  if (layaway.dueDate) {
+    lines.push({ left: 'Ambil s/d', right: new Date(layaway.dueDate).toLocaleDateString('id-ID') });
+  }
+  lines.push({ divider: true });
+
+  layaway.items.forEach((item) => {
+    lines.push(
+      { text: item.product.name },
+      { left: `  ${formatQuantityAndPrice(item)}`, right: formatRupiah(getLineGross(item)) }
+    );
+    if (item.discount) {
+      lines.push({ left: '  Diskon', right: `-${formatRupiah(item.discount)}` });
+    }
+  });
+
+  lines.push({ divider: true });
+  layaway.promotions?.forEach((promotion) => {
+    lines.push({ left: promotion.name, right: `-${formatRupiah(promotion.amount)}` });
+  });
+  if (layaway.tax) {
+    lines.push({ left: getTaxLabel(layaway.taxRate || 0, layaway.taxInclusive), right: formatRupiah(layaway.tax) });
+  }
+  lines.push({ left: 'TOTAL', right: formatRupiah(layaway.total), bold: true }, { divider: true });
+
+  layaway.payments.forEach((payment) => {
+    const label = `${payment.type === 'refund' ? 'Refund' : 'Bayar'} ${getPaymentMethodLabel(payment.method)}`;
+    lines.push(
+      { text: `${new Date(payment.createdAt).toLocaleDateString('id-ID')} ${label}` },
+      { left: payment.reference ? `  Ref: ${payment.reference}` : '', right: `${payment.amount < 0 ? '-' : ''}${formatRupiah(Math.abs(payment.amount))}` }
+    );
+  });
+
+  lines.push({ divider: true }, { left: 'Sudah Dibayar', right: formatRupiah(getLayawayPaid(layaway)) });
+  if (layaway.status === 'open') {
+    lines.push({ left: 'SISA', right: formatRupiah(getLayawayBalance(layaway)), bold: true });
+  }
+  if (layaway.forfeitedAmount) {
+    lines.push({ left: 'DP Hangus', right: formatRupiah(layaway.forfeitedAmount) });
+  }
+  if (layaway.transactionNumber) {
+    lines.push({ left: 'Penjualan', right: layaway.transactionNumber });
+  }
+
+  lines.push({ divider: true }, { text: 'Barang diambil setelah lunas. Simpan tanda terima ini.', align: 'center' });
+  if (store.receipt_footer) {
+    lines.push({ text: store.receipt_footer, align: 'center' });
+  }
+
+  return lines;
+};
+
+// One slip per voucher, with the code as text and as a QR code to scan at the till
+export const buildGiftVoucherLines = (vouchers: GiftVoucher[], store: ReceiptStore): PrintLine[] => {
+  return vouchers.flatMap((voucher) => {
+    const lines: PrintLine[] = [
+      ...buildHeader(store),
+      { text: 'VOUCHER BELANJA', align: 'center', bold: true },
+      { text: formatRupiah(voucher.faceValue), align: 'center', bold: true },
+      { qr: voucher.code },
+      { text: voucher.code, align: 'center', bold: true },
+    ];
+
+    if (voucher.recipientName) {
+      lines.push({ left: 'Untuk', right: voucher.recipientName });
+    }
+    lines.push({
+      left: 'Berlaku s/d',
+      right: voucher.expiresAt ? new Date(voucher.expiresAt).toLocaleDateString('id-ID') : 'Tanpa batas',
+    });
+    lines.push({ text: 'Dapat dipakai beberapa kali sampai saldo habis. Tidak dapat ditukar uang tunai.' });
+    lines.push({ divider: true }, { text: '' });
+
+    return lines;
+  });
+};
+
+/**
+ * Thermal formats go straight to the printer bridge as ESC/POS when one is
+ * configured; everything else goes through the browser print dialog.
+ */
+export const printLines = async (lines: PrintLine[], output: ReceiptOutput, title: string) => {
+  if (output.format !== 'a4' && output.bridgeUrl) {
+    await sendToPrinterBridge(output.bridgeUrl, renderEscPos(lines, PRINT_COLUMNS[output.format]));
+    return;
+  }
+
+  printDocument(lines, output.format, title);
+};
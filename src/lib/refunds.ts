@@ -0,0 +1,88 @@
+import { CartItem, Category, Refund, RefundItem, Transaction } from '@/types';
+import { isTaxExempt } from './tax';
+import { getLineAmount } from './pricing';
+import { getBaseQuantity, getLineKey, roundQuantity } from './units';
+
+export const getRefundsForTransaction = (refunds: Refund[], transactionId: string) => {
+  return refunds.filter((refund) => refund.transactionId === transactionId);
+};
+
+// Quantities are per sale line (see getLineKey), in the unit the line was sold in
+export const getRefundedQuantity = (refunds: Refund[], transactionId: string, lineKey: string) => {
+  return getRefundsForTransaction(refunds, transactionId).reduce((sum, refund) => {
+    return sum + refund.items
+      .filter((item) => getLineKey(item) === lineKey)
+      .reduce((itemSum, item) => itemSum + item.quantity, 0);
+  }, 0);
+};
+
+export const getRefundableQuantity = (
+  transaction: Transaction,
+  refunds: Refund[],
+  lineKey: string
+) => {
+  const sold = transaction.items
+    .filter((item) => getLineKey(item) === lineKey)
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  return Math.max(0, roundQuantity(sold - getRefundedQuantity(refunds, transaction.id, lineKey)));
+};
+
+/**
+ * What the customer paid for some units of a line, after promotions, the
+ * order discount and any tax added on top are spread over the whole order.
+ */
+export const calculateRefundLineAmount = (transaction: Transaction, item: CartItem, quantity: number) => {
+  if (transaction.subtotal <= 0 || item.quantity <= 0) return 0;
+
+  const paidRatio = transaction.total / transaction.subtotal;
+  const unitAmount = (getLineAmount(item) / item.quantity) * paidRatio;
+  return Math.round(unitAmount * quantity);
+};
+
+/**
+ * How much of the order's goods, by line value, the given refunds took back
+ * between them; 1 once every unit has been returned.
+ */
+export const getRefundedShare = (transaction: Transaction, refunds: Refund[]) => {
+  const orderValue = transaction.items.reduce((sum, item) => sum + getLineAmount(item), 0);
+  if (orderValue <= 0) return 0;
+
+  const refundedValue = transaction.items.reduce((sum, item) => {
+    if (item.quantity <= 0) return sum;
+    const refunded = refunds
+      .filter((refund) => refund.transactionId === transaction.id)
+      .reduce((refundSum, refund) => refundSum + refund.items
+        .filter((refundItem) => getLineKey(refundItem) === getLineKey(item))
+        .reduce((itemSum, refundItem) => itemSum + refundItem.quantity, 0), 0);
+    return sum + getLineAmount(item) * (Math.min(refunded, item.quantity) / item.quantity);
+  }, 0);
+
+  return Math.min(1, refundedValue / orderValue);
+};
+
+// The PPN portion of a refund, taken from the taxable lines only
+export const calculateRefundTax = (
+  transaction: Transaction,
+  refundItems: RefundItem[],
+  categories: Category[]
+) => {
+  if (!transaction.tax) return 0;
+
+  const taxableItems = transaction.items.filter((item) => !isTaxExempt(item, categories));
+  const taxableTotal = taxableItems.reduce((sum, item) => sum + getLineAmount(item), 0);
+  if (taxableTotal <= 0) return 0;
+
+  const refundedTaxable = refundItems.reduce((sum, refundItem) => {
+    const line = taxableItems.find((item) => getLineKey(item) === getLineKey(refundItem));
+    if (!line || line.quantity <= 0) return sum;
+    return sum + (getLineAmount(line) / line.quantity) * refundItem.quantity;
+  }, 0);
+
+  return Math.round(transaction.tax * (refundedTaxable / taxableTotal));
+};
+
+// Cost of the goods that came back, used to net refunds out of profit
+export const calculateRefundCost = (refund: Refund, getCost: (productId: string) => number) => {
+  return refund.items.reduce((sum, item) => sum + getCost(item.product.id) * getBaseQuantity(item), 0);
+};
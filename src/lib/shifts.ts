@@ -0,0 +1,219 @@
+import { CreditEntry, Layaway, PaymentMethod, Refund, Shift, Transaction, VoucherEntry } from '@/types';
+import { getNetTenders, getPaymentMethodLabel } from './payments';
+import { formatRupiah, PrintLine } from './print';
+
+// Rupiah notes and coins in circulation, largest first
+export const CASH_DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100];
+
+export interface ShiftSummary {
+  transactionCount: number;
+  grossSales: number;
+  salesByMethod: Partial<Record<PaymentMethod, number>>;
+  refundCount: number;
+  refundTotal: number;
+  cashSales: number;
+  cashRefunds: number;
+  repaymentCount: number;
+  repaymentTotal: number;
+  cashRepayments: number;
+  voucherSaleCount: number;
+  voucherSaleTotal: number;
+  cashVoucherSales: number;
+  layawayPaymentCount: number;
+  layawayPaymentTotal: number;
+  cashLayawayPayments: number;
+  layawayRefundCount: number;
+  layawayRefundTotal: number; // Deposits paid back on cancelled layaways
+  cashLayawayRefunds: number;
+  expectedCash: number;
+}
+
+export const countCash = (cashCount: Record<string, number>) => {
+  return Object.entries(cashCount).reduce((sum, [denomination, count]) => {
+    return sum + Number(denomination) * (count || 0);
+  }, 0);
+};
+
+/**
+ * Fewest notes and coins that make up an amount, largest first. Whatever is
+ * below the smallest coin is returned as the remainder.
+ */
+export const breakDownCash = (amount: number) => {
+  let remainder = Math.round(amount);
+  const parts: Array<{ denomination: number; count: number }> = [];
+  CASH_DENOMINATIONS.forEach((denomination) => {
+    const count = Math.floor(remainder / denomination);
+    if (count > 0) {
+      parts.push({ denomination, count });
+      remainder -= count * denomination;
+    }
+  });
+  return { parts, remainder };
+};
+
+/**
+ * Totals a shift from the sales, refunds, kasbon repayments, gift voucher
+ * sales and layaway deposits and refunds stamped with its id. Expected
+ * cash is the opening float plus cash taken (after change), repaid, paid
+ * for vouchers and put down on layaways, less cash refunded on sales and
+ * cancelled layaways.
+ */
+export const summarizeShift = (
+  shift: Shift,
+  transactions: Transaction[],
+  refunds: Refund[],
+  creditLedger: CreditEntry[] = [],
+  voucherLedger: VoucherEntry[] = [],
+  layaways: Layaway[] = []
+): ShiftSummary => {
+  const shiftTransactions = transactions.filter((transaction) => transaction.shiftId === shift.id);
+  const shiftRefunds = refunds.filter((refund) => refund.shiftId === shift.id);
+  const shiftRepayments = creditLedger.filter((entry) => entry.type === 'repayment' && entry.shiftId === shift.id);
+  // Complimentary vouchers bring no money in, so only the ones paid for count as sales
+  const shiftVoucherSales = voucherLedger.filter((entry) => entry.type === 'issue' && entry.method && entry.shiftId === shift.id);
+
+  const shiftLayawayEntries = layaways.flatMap((layaway) => layaway.payments.filter((payment) => payment.shiftId === shift.id));
+  const shiftLayawayPayments = shiftLayawayEntries.filter((entry) => entry.type === 'payment');
+  // Refund entries carry a negative amount
+  const shiftLayawayRefunds = shiftLayawayEntries.filter((entry) => entry.type === 'refund');
+
+  const salesByMethod: Partial<Record<PaymentMethod, number>> = {};
+  shiftTransactions.forEach((transaction) => {
+    getNetTenders(transaction).forEach((tender) => {
+      salesByMethod[tender.method] = (salesByMethod[tender.method] || 0) + tender.amount;
+    });
+  });
+
+  const cashSales = salesByMethod.cash || 0;
+  const cashRefunds = shiftRefunds
+    .filter((refund) => refund.method === 'cash')
+    .reduce((sum, refund) => sum + refund.total, 0);
+  const cashRepayments = shiftRepayments
+    .filter((entry) => entry.method === 'cash')
+    .reduce((sum, entry) => sum - entry.amount, 0);
+  const cashVoucherSales = shiftVoucherSales
+    .filter((entry) => entry.method === 'cash')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const cashLayawayPayments = shiftLayawayPayments
+    .filter((payment) => payment.method === 'cash')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+  const cashLayawayRefunds = shiftLayawayRefunds
+    .filter((entry) => entry.method === 'cash')
+    .reduce((sum, entry) => sum - entry.amount, 0);
+
+  return {
+    transactionCount: shiftTransactions.length,
+    grossSales: shiftTransactions.reduce((sum, transaction) => sum + transaction.total, 0),
+    salesByMethod,
+    refundCount: shiftRefunds.length,
+    refundTotal: shiftRefunds.reduce((sum, refund) => sum + refund.total, 0),
+    cashSales,
+    cashRefunds,
+    repaymentCount: shiftRepayments.length,
+    repaymentTotal: shiftRepayments.reduce((sum, entry) => sum - entry.amount, 0),
+    cashRepayments,
+    voucherSaleCount: shiftVoucherSales.length,
+    voucherSaleTotal: shiftVoucherSales.reduce((sum, entry) => sum + entry.amount, 0),
+    cashVoucherSales,
+    layawayPaymentCount: shiftLayawayPayments.length,
+    layawayPaymentTotal: shiftLayawayPayments.reduce((sum, payment) => sum + payment.amount, 0),
+    cashLayawayPayments,
+    layawayRefundCount: shiftLayawayRefunds.length,
+    layawayRefundTotal: shiftLayawayRefunds.reduce((sum, entry) => sum - entry.amount, 0),
+    cashLayawayRefunds,
+    expectedCash: shift.openingFloat + cashSales + cashRepayments + cashVoucherSales + cashLayawayPayments - cashRefunds - cashLayawayRefunds,
+  };
+};
+
+/**
+ * Lines for an X report (mid-shift, read only) or a Z report (closing, with
+ * the drawer count and over/short).
+ */
+export const buildShiftReport = (
+  kind: 'X' | 'Z',
+  shift: Shift,
+  summary: ShiftSummary,
+  storeName: string
+): PrintLine[] => {
+  const lines: PrintLine[] = [
+    { text: storeName, align: 'center', bold: true },
+    { text: kind === 'X' ? 'LAPORAN X (SEMENTARA)' : 'LAPORAN Z (TUTUP SHIFT)', align: 'center', bold: true },
+    { divider: true },
+    { left: 'Kasir', right: shift.cashierName },
+    { left: 'Dibuka', right: new Date(shift.openedAt).toLocaleString('id-ID') },
+  ];
+
+  if (shift.closedAt) {
+    lines.push({ left: 'Ditutup', right: new Date(shift.closedAt).toLocaleString('id-ID') });
+  }
+  lines.push({ left: 'Dicetak', right: new Date().toLocaleString('id-ID') });
+
+  lines.push(
+    { divider: true },
+    { left: 'Jumlah Transaksi', right: summary.transactionCount.toString() },
+    { left: 'Penjualan', right: formatRupiah(summary.grossSales) },
+  );
+
+  (Object.keys(summary.salesByMethod) as PaymentMethod[]).forEach((method) => {
+    lines.push({ left: `  ${getPaymentMethodLabel(method)}`, right: formatRupiah(summary.salesByMethod[method] || 0) });
+  });
+
+  lines.push(
+    { left: `Retur (${summary.refundCount})`, right: `-${formatRupiah(summary.refundTotal)}` },
+    { left: 'Penjualan Bersih', right: formatRupiah(summary.grossSales - summary.refundTotal), bold: true },
+  );
+
+  if (summary.repaymentCount > 0) {
+    lines.push({ left: `Pelunasan Kasbon (${summary.repaymentCount})`, right: formatRupiah(summary.repaymentTotal) });
+  }
+  if (summary.voucherSaleCount > 0) {
+    lines.push({ left: `Penjualan Voucher (${summary.voucherSaleCount})`, right: formatRupiah(summary.voucherSaleTotal) });
+  }
+  if (summary.layawayPaymentCount > 0) {
+    lines.push({ left: `DP Layaway (${summary.layawayPaymentCount})`, right: formatRupiah(summary.layawayPaymentTotal) });
+  }
+  if (summary.layawayRefundCount > 0) {
+    lines.push({ left: `Refund Layaway (${summary.layawayRefundCount})`, right: `-${formatRupiah(summary.layawayRefundTotal)}` });
+  }
+
+  lines.push(
+    { divider: true },
+    { left: 'Modal Awal', right: formatRupiah(shift.openingFloat) },
+    { left: 'Penjualan Tunai', right: formatRupiah(summary.cashSales) },
+    { left: 'Pelunasan Kasbon Tunai', right: formatRupiah(summary.cashRepayments) },
+    { left: 'Penjualan Voucher Tunai', right: formatRupiah(summary.cashVoucherSales) },
+    { left: 'DP Layaway Tunai', right: formatRupiah(summary.cashLayawayPayments) },
+    { left: 'Retur Tunai', right: `-${formatRupiah(summary.cashRefunds)}` },
+    { left: 'Refund Layaway Tunai', right: `-${formatRupiah(summary.cashLayawayRefunds)}` },
+    { left: 'Kas Seharusnya', right: formatRupiah(summary.expectedCash), bold: true },
+  );
+
+  if (kind === 'Z' && shift.cashCount) {
+    lines.push({ divider: true }, { text: 'Hitungan Laci Kas' });
+    CASH_DENOMINATIONS.forEach((denomination) => {
+      const count = shift.cashCount?.[denomination] || 0;
+      if (count > 0) {
+        lines.push({
+          left: `  ${denomination.toLocaleString('id-ID')} x ${count}`,
+          right: formatRupiah(denomination * count),
+        });
+      }
+    });
+
+    const overShort = shift.overShort || 0;
+    lines.push(
+      { left: 'Kas Dihitung', right: formatRupiah(shift.countedCash || 0), bold: true },
+      {
+        left: overShort > 0 ? 'Lebih' : overShort < 0 ? 'Kurang' : 'Selisih',
+        right: formatRupiah(Math.abs(overShort)),
+        bold: true,
+      },
+    );
+
+    if (shift.notes) {
+      lines.push({ text: `Catatan: ${shift.notes}` });
+    }
+  }
+
+  return lines;
+};
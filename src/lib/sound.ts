@@ -0,0 +1,21 @@
+let audioContext: AudioContext | null = null;
+
+// Short low buzz so the cashier notices a failed scan without looking at the screen
+export const playErrorBeep = () => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = 'square';
+    oscillator.frequency.value = 220;
+    gain.gain.value = 0.1;
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.25);
+  } catch {
+    // Audio may be unavailable or blocked; the visual flash still signals the error
+  }
+};
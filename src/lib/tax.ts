@@ -0,0 +1,65 @@
+import { CartItem, Category } from '@/types';
+import { getLineAmount } from './pricing';
+
+export interface TaxBreakdown {
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number; // DPP: taxable sales excluding the tax itself
+  exemptAmount: number;
+  tax: number;
+}
+
+interface TaxInput {
+  cart: CartItem[];
+  categories: Category[];
+  rate: number;
+  inclusive: boolean;
+  reductions?: number; // Promotions and manual discount taken off the whole order
+}
+
+export const isTaxExempt = (item: CartItem, categories: Category[]) => {
+  return categories.some((category) => category.id === item.product.categoryId && category.taxExempt);
+};
+
+/**
+ * Splits an order into taxable and exempt sales and works out the PPN.
+ * Order-level reductions are spread over taxable and exempt lines in
+ * proportion to their value.
+ */
+export const calculateTaxBreakdown = ({
+  cart,
+  categories,
+  rate,
+  inclusive,
+  reductions = 0,
+}: TaxInput): TaxBreakdown => {
+  const subtotal = cart.reduce((sum, item) => sum + getLineAmount(item), 0);
+  const taxableSubtotal = cart
+    .filter((item) => !isTaxExempt(item, categories))
+    .reduce((sum, item) => sum + getLineAmount(item), 0);
+
+  const net = Math.max(0, subtotal - reductions);
+  const taxableNet = subtotal > 0 ? Math.round(net * (taxableSubtotal / subtotal)) : 0;
+  const exemptAmount = net - taxableNet;
+
+  if (rate <= 0) {
+    return { rate, inclusive, taxableAmount: taxableNet, exemptAmount, tax: 0 };
+  }
+
+  if (inclusive) {
+    const tax = Math.round(taxableNet * rate / (100 + rate));
+    return { rate, inclusive, taxableAmount: taxableNet - tax, exemptAmount, tax };
+  }
+
+  return {
+    rate,
+    inclusive,
+    taxableAmount: taxableNet,
+    exemptAmount,
+    tax: Math.round(taxableNet * rate / 100),
+  };
+};
+
+export const getTaxLabel = (rate: number, inclusive?: boolean) => {
+  return inclusive ? `PPN ${rate}% (termasuk)` : `PPN ${rate}%`;
+};
@@ -0,0 +1,120 @@
+import { CartItem, Product, ProductUnit } from '@/types';
+
+export const DEFAULT_BASE_UNIT = 'pcs';
+
+export const getBaseUnit = (product: Product) => product.baseUnit || DEFAULT_BASE_UNIT;
+
+export const getSellUnits = (product: Product) => (product.units || []).filter((unit) => (unit.price || 0) > 0);
+
+export const getUnitLabel = (item: Pick<CartItem, 'product' | 'unit'>) => item.unit?.name || getBaseUnit(item.product);
+
+// Weighed products are entered to the gram by default; everything else is counted whole
+export const getQuantityPrecision = (product: Product) => {
+  return product.quantityPrecision ?? (product.soldByWeight ? 3 : 0);
+};
+
+// Keeps fractional stock and quantities from drifting through floating point sums
+export const roundQuantity = (quantity: number, precision = 3) => {
+  const factor = 10 ** precision;
+  return Math.round(quantity * factor) / factor;
+};
+
+// Weighed quantities always show their decimals, e.g. "1,250", so the customer can check them against the scale
+export const formatQuantity = (product: Product, quantity: number) => {
+  const precision = getQuantityPrecision(product);
+  return quantity.toLocaleString('id-ID', {
+    minimumFractionDigits: product.soldByWeight ? precision : 0,
+    maximumFractionDigits: Math.max(precision, 3),
+  });
+};
+
+// How many base units a sold, refunded or purchased quantity takes off or puts on the shelf
+export const toBaseQuantity = (quantity: number, unit?: ProductUnit) => quantity * (unit?.factor ?? 1);
+
+export const getBaseQuantity = (item: Pick<CartItem, 'quantity' | 'unit'>) => toBaseQuantity(item.quantity, item.unit);
+
+/**
+ * Base units a set of lines moves per product, so each product's stock is
+ * adjusted once even when it is on several lines, e.g. by the dus and by
+ * the pcs.
+ */
+export const getBaseQuantitiesByProduct = (items: Pick<CartItem, 'product' | 'quantity' | 'unit'>[]) => {
+  const quantities = new Map<string, number>();
+  items.forEach((item) => {
+    quantities.set(item.product.id, roundQuantity((quantities.get(item.product.id) || 0) + getBaseQuantity(item)));
+  });
+  return quantities;
+};
+
+// A weighed line counts as one item however much it weighs
+export const countItems = (items: Pick<CartItem, 'product' | 'quantity' | 'unit'>[]) => {
+  return items.reduce((sum, item) => sum + (item.product.soldByWeight && !item.unit ? 1 : item.quantity), 0);
+};
+
+/**
+ * Identifies a line on a sale: the same product sold by the piece and by
+ * the pack are separate lines, refunded separately.
+ */
+export const getLineKey = (item: Pick<CartItem, 'product' | 'unit'>) => {
+  return item.unit ? `${item.product.id}@${item.unit.name}` : item.product.id;
+};
+
+export const findProductUnitByBarcode = (products: Product[], barcode: string) => {
+  for (const product of products) {
+    if (!product.isActive) continue;
+    const unit = getSellUnits(product).find((u) => u.barcode === barcode);
+    if (unit) return { product, unit };
+  }
+  return undefined;
+};
+
+/**
+ * Stock in the largest pack plus loose base units, e.g. "3 dus 12 pcs".
+ * Products without packs show the plain count.
+ */
+export const formatStockQuantity = (product: Product, quantity: number) => {
+  const baseUnit = getBaseUnit(product);
+  const largest = [...(product.units || [])].sort((a, b) => b.factor - a.factor)[0];
+
+  const sign = quantity < 0 ? '-' : '';
+  const amount = Math.abs(quantity);
+  if (!largest || amount < largest.factor) {
+    return `${sign}${formatQuantity(product, amount)} ${baseUnit}`;
+  }
+
+  const packs = Math.floor(amount / largest.factor);
+  const loose = Math.round((amount - packs * largest.factor) * 1000) / 1000;
+  return loose > 0
+    ? `${sign}${packs.toLocaleString('id-ID')} ${largest.name} ${formatQuantity(product, loose)} ${baseUnit}`
+    : `${sign}${packs.toLocaleString('id-ID')} ${largest.name}`;
+};
+
+/**
+ * Trims unit names and checks the conversions make sense. Throws on the
+ * first problem found.
+ */
+export const normalizeProductUnits = (units: ProductUnit[], baseUnit: string) => {
+  const names = new Set<string>([baseUnit.trim().toLowerCase()]);
+
+  return units.map((unit) => {
+    const name = unit.name.trim();
+    if (!name) {
+      throw new Error('Every unit needs a name');
+    }
+    if (names.has(name.toLowerCase())) {
+      throw new Error(`Duplicate unit ${name}`);
+    }
+    names.add(name.toLowerCase());
+
+    if (!Number.isFinite(unit.factor) || unit.factor <= 1) {
+      throw new Error(`Unit ${name} must hold more than one ${baseUnit}`);
+    }
+
+    return {
+      name,
+      factor: unit.factor,
+      price: unit.price && unit.price > 0 ? unit.price : undefined,
+      barcode: unit.barcode?.trim() || undefined,
+    };
+  });
+};
@@ -0,0 +1,82 @@
+import { Product, VariantOption } from '@/types';
+
+export const isVariantParent = (product: Product) => (product.variantOptions?.length || 0) > 0;
+
+export const getVariantLabel = (attributes: Record<string, string> = {}) => Object.values(attributes).join(' / ');
+
+export const buildVariantName = (parentName: string, attributes: Record<string, string>) => {
+  return `${parentName} - ${getVariantLabel(attributes)}`;
+};
+
+// Attributes in option order, so the same variant always gets the same key
+export const getVariantKey = (attributes: Record<string, string>, options: VariantOption[]) => {
+  return options.map((option) => `${option.name}=${attributes[option.name] ?? ''}`).join('|');
+};
+
+/**
+ * Every combination of option values, e.g. Ukuran S/M and Warna Merah/Biru
+ * gives four variants.
+ */
+export const buildVariantCombinations = (options: VariantOption[]): Record<string, string>[] => {
+  return options.reduce<Record<string, string>[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) =>
+        option.values.map((value) => ({ ...combination, [option.name]: value }))
+      ),
+    [{}]
+  );
+};
+
+/**
+ * Trims option names and values and drops empty ones. Throws when two
+ * options share a name or an option has no values left.
+ */
+export const normalizeVariantOptions = (options: VariantOption[]) => {
+  const normalized = options
+    .map((option) => ({
+      name: option.name.trim(),
+      values: Array.from(new Set(option.values.map((value) => value.trim()).filter(Boolean))),
+    }))
+    .filter((option) => option.name || option.values.length > 0);
+
+  const names = new Set<string>();
+  normalized.forEach((option) => {
+    if (!option.name) {
+      throw new Error('Every variant option needs a name');
+    }
+    if (option.values.length === 0) {
+      throw new Error(`Variant option ${option.name} needs at least one value`);
+    }
+    if (names.has(option.name.toLowerCase())) {
+      throw new Error(`Duplicate variant option ${option.name}`);
+    }
+    names.add(option.name.toLowerCase());
+  });
+
+  return normalized;
+};
+
+// Sales of a variant are reported against its parent when rolling up
+export const getReportingProductId = (product: Product, rollUp: boolean) => {
+  return rollUp && product.parentId ? product.parentId : product.id;
+};
+
+export const getVariantStock = (parent: Product, products: Product[]) => {
+  return products
+    .filter((product) => product.parentId === parent.id && product.isActive)
+    .reduce((sum, product) => sum + product.stock, 0);
+};
+
+export const getVariantPriceRange = (parent: Product, products: Product[]) => {
+  const prices = products
+    .filter((product) => product.parentId === parent.id && product.isActive)
+    .map((product) => product.price);
+  if (prices.length === 0) return { min: parent.price, max: parent.price };
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+};
+
+export const formatPriceRange = ({ min, max }: { min: number; max: number }) => {
+  return min === max
+    ? `Rp ${min.toLocaleString('id-ID')}`
+    : `Rp ${min.toLocaleString('id-ID')} - ${max.toLocaleString('id-ID')}`;
+};
@@ -0,0 +1,106 @@
+import { CartItem, Coupon, CouponRedemption, CouponType, GiftVoucher, VoucherEntry } from '@/types';
+import { getLineAmount } from './pricing';
+import { toDateKey } from './promotions';
+
+export type VoucherStatus = 'active' | 'used' | 'expired' | 'void';
+
+export const VOUCHER_STATUS_LABELS: Record<VoucherStatus, string> = {
+  active: 'Aktif',
+  used: 'Terpakai',
+  expired: 'Kedaluwarsa',
+  void: 'Dibatalkan',
+};
+
+export const VOUCHER_ENTRY_LABELS: Record<VoucherEntry['type'], string> = {
+  issue: 'Terbit',
+  redeem: 'Dipakai',
+  refund: 'Retur',
+  void: 'Dibatalkan',
+};
+
+export const COUPON_TYPE_LABELS: Record<CouponType, string> = {
+  percentage: 'Persentase',
+  fixed: 'Potongan Tetap',
+};
+
+// No 0/O or 1/I, so a code read out over the counter is typed in right the first time
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export const generateVoucherCode = () => {
+  const values = new Uint32Array(8);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(values);
+  } else {
+    values.forEach((_, i) => { values[i] = Math.floor(Math.random() * 2 ** 32); });
+  }
+  const chars = Array.from(values, (value) => CODE_ALPHABET[value % CODE_ALPHABET.length]).join('');
+  return `GV-${chars.slice(0, 4)}-${chars.slice(4)}`;
+};
+
+export const getVoucherBalance = (ledger: VoucherEntry[], voucherId: string) => {
+  return ledger
+    .filter((entry) => entry.voucherId === voucherId)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+};
+
+export const isVoucherExpired = (voucher: GiftVoucher, at: Date = new Date()) => {
+  return !!voucher.expiresAt && toDateKey(at) > voucher.expiresAt;
+};
+
+export const getVoucherStatus = (voucher: GiftVoucher, balance: number, at: Date = new Date()): VoucherStatus => {
+  if (voucher.voidedAt) return 'void';
+  if (balance <= 0) return 'used';
+  if (isVoucherExpired(voucher, at)) return 'expired';
+  return 'active';
+};
+
+// Voided sales give their use back, so they don't count against the limit
+export const getCouponUsageCount = (redemptions: CouponRedemption[], couponId: string) => {
+  return redemptions.filter((redemption) => redemption.couponId === couponId && !redemption.voidedAt).length;
+};
+
+export const isCouponEligible = (coupon: Coupon, item: CartItem) => {
+  return !coupon.categoryIds || coupon.categoryIds.length === 0 || coupon.categoryIds.includes(item.product.categoryId);
+};
+
+/**
+ * What a coupon takes off the cart, worked out on the eligible lines only.
+ * Throws when the coupon cannot be used, with the reason for the cashier.
+ * The caller still caps the result at what is left to pay.
+ */
+export const calculateCouponDiscount = (
+  coupon: Coupon,
+  cart: CartItem[],
+  usageCount: number,
+  at: Date = new Date()
+) => {
+  const dateKey = toDateKey(at);
+  if (!coupon.isActive || (coupon.startDate && dateKey < coupon.startDate)) {
+    throw new Error('Coupon is not active');
+  }
+  if (coupon.endDate && dateKey > coupon.endDate) {
+    throw new Error('Coupon has expired');
+  }
+  if (coupon.usageLimit && usageCount >= coupon.usageLimit) {
+    throw new Error('Coupon usage limit reached');
+  }
+
+  const eligibleAmount = cart
+    .filter((item) => isCouponEligible(coupon, item))
+    .reduce((sum, item) => sum + getLineAmount(item), 0);
+  if (eligibleAmount <= 0) {
+    throw new Error('No items in the cart are eligible for this coupon');
+  }
+  if (coupon.minimumSpend && eligibleAmount < coupon.minimumSpend) {
+    throw new Error(`Coupon requires a minimum spend of Rp ${coupon.minimumSpend.toLocaleString('id-ID')} on eligible items`);
+  }
+
+  const discount = coupon.type === 'percentage'
+    ? Math.round((eligibleAmount * coupon.value) / 100)
+    : coupon.value;
+  const capped = coupon.type === 'percentage' && coupon.maxDiscount ? Math.min(discount, coupon.maxDiscount) : discount;
+
+  return Math.min(capped, eligibleAmount);
+};
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useSettings } from '@/contexts/SettingsContext';
+import { usePromotions } from '@/contexts/PromotionContext';
+import { useCustomerDisplay } from '@/hooks/use-customer-display';
+import { PAID_SCREEN_MS } from '@/lib/customer-display';
+import { isPromotionActive } from '@/lib/promotions';
+import { Store, Tag } from "lucide-react";
+
+const SLIDE_MS = 6000;
+
+const formatRupiah = (amount: number) => `Rp ${amount.toLocaleString('id-ID')}`;
+
+const CustomerDisplay = () => {
+  const { settings } = useSettings();
+  const { promotions } = usePromotions();
+  const state = useCustomerDisplay();
+  const [now, setNow] = useState(() => Date.now());
+  const [slide, setSlide] = useState(0);
+
+  // Drives both the slideshow and the return to idle after a paid screen
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      setSlide(prev => prev + 1);
+    }, SLIDE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const showPaid = state.status === 'paid' && now - new Date(state.paidAt).getTime() < PAID_SCREEN_MS;
+  const activePromotions = promotions.filter(promotion => isPromotionActive(promotion));
+  const promotion = activePromotions.length > 0 ? activePromotions[slide % activePromotions.length] : null;
+
+  if (state.status === 'cart') {
+    const remaining = Math.max(0, state.total - state.paid);
+
+    return (
+      <div className="min-h-screen flex bg-gray-50">
+        <div className="flex-1 p-8 overflow-y-auto">
+          <div className="flex items-center justify-between mb-6">
+            <h1 className="text-2xl font-bold text-pos-blue-dark">{settings.store_name}</h1>
+            {state.customerName && <span className="text-lg text-gray-600">Pelanggan: {state.customerName}</span>}
+          </div>
+          <div className="bg-white rounded-lg shadow divide-y">
+            {state.lines.map((line, index) => (
+              <div key={index} className="flex justify-between items-center p-4 text-xl">
+                <div>
+                  <div className="font-medium">{line.name}</div>
+                  <div className="text-base text-gray-500">
+                    {line.quantity} x {formatRupiah(line.unitPrice)}
+                  </div>
+                </div>
+                <div className="font-semibold">{formatRupiah(line.amount)}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="w-96 bg-white shadow-lg p-8 flex flex-col justify-end space-y-3 text-lg">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Subtotal</span>
+            <span>{formatRupiah(state.subtotal)}</span>
+          </div>
+          {state.promotions.map(applied => (
+            <div key={applied.promotionId} className="flex justify-between text-green-600">
+              <span>{applied.name}</span>
+              <span>-{formatRupiah(applied.amount)}</span>
+            </div>
+          ))}
+          {state.discount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Diskon</span>
+              <span>-{formatRupiah(state.discount)}</span>
+            </div>
+          )}
+          {state.tax > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Pajak</span>
+              <span>{formatRupiah(state.tax)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-3xl font-bold border-t pt-4">
+            <span>Total</span>
+            <span>{formatRupiah(state.total)}</span>
+          </div>
+          {state.paid > 0 && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Dibayar</span>
+                <span>{formatRupiah(state.paid)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Sisa</span>
+                <span>{formatRupiah(remaining)}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (showPaid && state.status === 'paid') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-pos-blue-dark text-white p-8">
+        <p className="text-2xl mb-2">Total {formatRupiah(state.total)} · Dibayar {formatRupiah(state.paid)}</p>
+        <p className="text-4xl font-medium mt-8">Kembalian</p>
+        <p className="text-8xl font-bold mt-4">{formatRupiah(state.change)}</p>
+        <p className="text-2xl mt-12">Terima kasih telah berbelanja!</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 p-8 text-center">
+      {settings.logo_path ? (
+        <img src={settings.logo_path} alt={settings.store_name} className="max-h-40 mb-6 object-contain" />
+      ) : (
+        <Store size={96} className="text-pos-blue-dark mb-6" />
+      )}
+      <h1 className="text-5xl font-bold text-pos-blue-dark">{settings.store_name}</h1>
+      <p className="text-xl text-gray-600 mt-2">{settings.address}</p>
+
+      {promotion && (
+        <div key={promotion.id} className="mt-16 max-w-2xl bg-white rounded-lg shadow p-8 animate-in fade-in">
+          <div className="flex items-center justify-center text-green-600 mb-3">
+            <Tag size={28} className="mr-2" />
+            <span className="text-xl font-medium">Promo</span>
+          </div>
+          <h2 className="text-4xl font-bold">{promotion.name}</h2>
+          {promotion.description && <p className="text-xl text-gray-600 mt-4">{promotion.description}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerDisplay;
@@ -3,6 +3,11 @@ import { format } from 'date-fns';
 import AppLayout from '@/components/layouts/AppLayout';
 import { Customer } from '@/types';
 import { useCustomers } from '@/contexts/CustomerContext';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useLoyalty } from '@/contexts/LoyaltyContext';
+import { useCredit } from '@/contexts/CreditContext';
+import { LOYALTY_ENTRY_LABELS } from '@/lib/loyalty';
+import { getDocumentNumber } from '@/lib/numbering';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -28,7 +33,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Search, Plus, Pencil, Trash2 } from "lucide-react";
+import { Search, Plus, Pencil, Trash2, History, Award } from "lucide-react";
 import { toast } from 'sonner';
 
 const Customers = () => {
@@ -36,12 +41,17 @@ const Customers = () => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [newCustomer, setNewCustomer] = useState({ name: '', phone: '', email: '', address: '' });
+  const [newCustomer, setNewCustomer] = useState({ name: '', phone: '', email: '', address: '', credit_limit: '' });
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [editCustomer, setEditCustomer] = useState<Omit<Customer, 'createdAt' | 'updatedAt'> | null>(null);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  const [pointsCustomer, setPointsCustomer] = useState<Customer | null>(null);
 
   // Context
   const { customers, addCustomer, updateCustomer, deleteCustomer, searchCustomers } = useCustomers();
+  const { refunds, getCustomerTransactions, getTransactionById } = useTransactions();
+  const { getPointsBalance, getCustomerLedger } = useLoyalty();
+  const { getCreditBalance } = useCredit();
 
   // Filtered customers based on search
   const [filteredCustomers, setFilteredCustomers] = useState<Customer[]>([]);
@@ -62,16 +72,28 @@ const Customers = () => {
       return;
     }
     
+    const creditLimit = newCustomer.credit_limit ? parseFloat(newCustomer.credit_limit) : 0;
+    if (isNaN(creditLimit) || creditLimit < 0) {
+      toast.error('Limit kasbon tidak valid');
+      return;
+    }
+
     // Now name is guaranteed to be provided
-    addCustomer({
-      name: newCustomer.name,
-      phone: newCustomer.phone || '',
-      email: newCustomer.email || '',
-      address: newCustomer.address || ''
-    });
+    try {
+      addCustomer({
+        name: newCustomer.name,
+        phone: newCustomer.phone || '',
+        email: newCustomer.email || '',
+        address: newCustomer.address || '',
+        credit_limit: creditLimit
+      });
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+      return;
+    }
     
     // Reset form and close dialog
-    setNewCustomer({ name: '', phone: '', email: '', address: '' });
+    setNewCustomer({ name: '', phone: '', email: '', address: '', credit_limit: '' });
     setIsAddDialogOpen(false);
   };
 
@@ -84,12 +106,23 @@ const Customers = () => {
       return;
     }
 
-    updateCustomer(editCustomer.id, {
-      name: editCustomer.name,
-      phone: editCustomer.phone || '',
-      email: editCustomer.email || '',
-      address: editCustomer.address || ''
-    });
+    if ((editCustomer.credit_limit || 0) < 0) {
+      toast.error('Limit kasbon tidak valid');
+      return;
+    }
+
+    try {
+      updateCustomer(editCustomer.id, {
+        name: editCustomer.name,
+        phone: editCustomer.phone || '',
+        email: editCustomer.email || '',
+        address: editCustomer.address || '',
+        credit_limit: editCustomer.credit_limit || 0
+      });
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+      return;
+    }
 
     setEditCustomer(null);
     setIsEditDialogOpen(false);
@@ -160,6 +193,11 @@ const Customers = () => {
                   <TableHead>Telepon</TableHead>
                   <TableHead>Email</TableHead>
                   <TableHead>Alamat</TableHead>
+                  <TableHead className="text-right">Transaksi</TableHead>
+                  <TableHead className="text-right">Total Belanja</TableHead>
+                  <TableHead>Terakhir Belanja</TableHead>
+                  <TableHead className="text-right">Poin</TableHead>
+                  <TableHead className="text-right">Kasbon / Limit</TableHead>
                   <TableHead className="text-right">Aksi</TableHead>
                 </TableRow>
               </TableHeader>
@@ -174,7 +212,37 @@ const Customers = () => {
                       <TableCell>{customer.phone || '-'}</TableCell>
                       <TableCell>{customer.email || '-'}</TableCell>
                       <TableCell className="max-w-xs truncate">{customer.address || '-'}</TableCell>
+                      <TableCell className="text-right">{customer.total_transactions || 0}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        Rp {(customer.total_spent || 0).toLocaleString('id-ID')}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {customer.last_transaction_date ? formatDate(customer.last_transaction_date) : '-'}
+                      </TableCell>
                       <TableCell className="text-right">
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="px-0"
+                          onClick={() => setPointsCustomer(customer)}
+                        >
+                          {getPointsBalance(customer.id).toLocaleString('id-ID')}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {customer.credit_limit
+                          ? `Rp ${getCreditBalance(customer.id).toLocaleString('id-ID')} / ${customer.credit_limit.toLocaleString('id-ID')}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryCustomer(customer)}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          Riwayat
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -185,7 +253,8 @@ const Customers = () => {
                               name: customer.name,
                               phone: customer.phone || '',
                               email: customer.email || '',
-                              address: customer.address || ''
+                              address: customer.address || '',
+                              credit_limit: customer.credit_limit || 0
                             });
                             setIsEditDialogOpen(true);
                           }}
@@ -206,7 +275,7 @@ const Customers = () => {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-6 text-gray-500">
+                    <TableCell colSpan={11} className="text-center py-6 text-gray-500">
                       Tidak ada data pelanggan yang ditemukan.
                     </TableCell>
                   </TableRow>
@@ -269,6 +338,19 @@ const Customers = () => {
                 onChange={(e) => setNewCustomer({ ...newCustomer, address: e.target.value })}
               />
             </div>
+
+            {/* Credit limit */}
+            <div className="space-y-2">
+              <Label htmlFor="credit_limit">Limit Kasbon (Rp)</Label>
+              <Input
+                id="credit_limit"
+                type="number"
+                min="0"
+                placeholder="0 = tidak boleh kasbon"
+                value={newCustomer.credit_limit}
+                onChange={(e) => setNewCustomer({ ...newCustomer, credit_limit: e.target.value })}
+              />
+            </div>
           </div>
 
           <DialogFooter>
@@ -330,6 +412,24 @@ const Customers = () => {
                 onChange={(e) => setEditCustomer({ ...editCustomer!, address: e.target.value })}
               />
             </div>
+
+            {/* Credit limit */}
+            <div className="space-y-2">
+              <Label htmlFor="credit_limit">Limit Kasbon (Rp)</Label>
+              <Input
+                id="credit_limit"
+                type="number"
+                min="0"
+                placeholder="0 = tidak boleh kasbon"
+                value={editCustomer?.credit_limit || ''}
+                onChange={(e) => setEditCustomer({ ...editCustomer!, credit_limit: parseFloat(e.target.value) || 0 })}
+              />
+              {editCustomer && getCreditBalance(editCustomer.id) > 0 && (
+                <p className="text-xs text-gray-500">
+                  Kasbon berjalan Rp {getCreditBalance(editCustomer.id).toLocaleString('id-ID')}
+                </p>
+              )}
+            </div>
           </div>
 
           <DialogFooter>
@@ -338,6 +438,122 @@ const Customers = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Loyalty Points Ledger Dialog */}
+      <Dialog open={!!pointsCustomer} onOpenChange={(open) => !open && setPointsCustomer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Award className="mr-2 h-5 w-5" /> Poin {pointsCustomer?.name}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="py-4 space-y-4">
+            <div className="flex justify-between items-center border rounded-lg p-3">
+              <span className="text-gray-600">Saldo Poin</span>
+              <span className="text-xl font-bold">
+                {pointsCustomer ? getPointsBalance(pointsCustomer.id).toLocaleString('id-ID') : 0}
+              </span>
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Jenis</TableHead>
+                    <TableHead>No. Transaksi</TableHead>
+                    <TableHead>Kedaluwarsa</TableHead>
+                    <TableHead className="text-right">Poin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pointsCustomer && getCustomerLedger(pointsCustomer.id).length > 0 ? (
+                    getCustomerLedger(pointsCustomer.id).map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                        <TableCell>{LOYALTY_ENTRY_LABELS[entry.type]}</TableCell>
+                        <TableCell>
+                          {entry.transactionId
+                            ? getDocumentNumber(getTransactionById(entry.transactionId) || { id: entry.transactionId })
+                            : '-'}
+                          {entry.refundId && (
+                            <span className="text-gray-500">
+                              {' '}(retur {getDocumentNumber(refunds.find(r => r.id === entry.refundId) || { id: entry.refundId })})
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {entry.expiresAt ? new Date(entry.expiresAt).toLocaleDateString('id-ID') : '-'}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${entry.points < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                          {entry.points > 0 ? '+' : ''}{entry.points.toLocaleString('id-ID')}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-gray-500">
+                        Belum ada riwayat poin.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPointsCustomer(null)}>Tutup</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Purchase History Dialog */}
+      <Dialog open={!!historyCustomer} onOpenChange={(open) => !open && setHistoryCustomer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Riwayat Belanja {historyCustomer?.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="py-4 max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>No. Transaksi</TableHead>
+                  <TableHead className="text-right">Item</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {historyCustomer && getCustomerTransactions(historyCustomer.id).length > 0 ? (
+                  getCustomerTransactions(historyCustomer.id).map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(transaction.createdAt)}</TableCell>
+                      <TableCell>{getDocumentNumber(transaction)}</TableCell>
+                      <TableCell className="text-right">
+                        {transaction.items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </TableCell>
+                      <TableCell className="text-right">Rp {transaction.total.toLocaleString('id-ID')}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6 text-gray-500">
+                      Belum ada transaksi.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHistoryCustomer(null)}>Tutup</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </AppLayout>
   );
 };
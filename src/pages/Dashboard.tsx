@@ -20,10 +20,11 @@ import {
 
 const Dashboard = () => {
   const { products, getLowStockProducts } = useProducts();
-  const { transactions } = useTransactions();
+  const { transactions, refunds, getStaleHeldOrders } = useTransactions();
   const [salesData, setSalesData] = useState<any[]>([]);
   const [categoryData, setCategoryData] = useState<any[]>([]);
   const lowStockProducts = getLowStockProducts();
+  const staleHeldOrders = getStaleHeldOrders();
 
   useEffect(() => {
     // Generate daily sales data for the last 7 days
@@ -78,7 +79,8 @@ const Dashboard = () => {
   }, [products, transactions]);
 
   // Calculate total sales, products, and transactions
-  const totalSales = transactions.reduce((sum, t) => sum + t.total, 0);
+  const totalSales = transactions.reduce((sum, t) => sum + t.total, 0)
+    - refunds.reduce((sum, r) => sum + r.total, 0);
   const totalProducts = products.length;
   const totalTransactions = transactions.length;
 
@@ -183,6 +185,40 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Uncompleted Held Orders Alert */}
+        {staleHeldOrders.length > 0 && (
+          <Card className="border-amber-300">
+            <CardHeader>
+              <CardTitle>Pesanan Ditahan Belum Selesai</CardTitle>
+              <CardDescription>Pesanan yang ditahan dari hari sebelumnya dan belum diselesaikan</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="table-container">
+                <table className="pos-table">
+                  <thead>
+                    <tr>
+                      <th>Label</th>
+                      <th>Pelanggan</th>
+                      <th>Jumlah Item</th>
+                      <th>Ditahan Sejak</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {staleHeldOrders.map((order) => (
+                      <tr key={order.id} className="hover:bg-gray-50">
+                        <td className="font-medium">{order.label}</td>
+                        <td>{order.customerName || '-'}</td>
+                        <td>{order.items.reduce((sum, item) => sum + item.quantity, 0)}</td>
+                        <td className="text-amber-600">{new Date(order.createdAt).toLocaleString('id-ID')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Low Stock Alert */}
         <Card>
           <CardHeader>
@@ -0,0 +1,573 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { useLayaways } from '@/contexts/LayawayContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { Layaway, LayawayStatus, PaymentMethod, Transaction } from '@/types';
+import { COUNTER_PAYMENT_METHODS, getPaymentMethodLabel, PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import {
+  getCancellationSplit,
+  getLayawayBalance,
+  getLayawayPaid,
+  isLayawayOverdue,
+  LAYAWAY_STATUS_LABELS
+} from '@/lib/layaways';
+import { getDocumentNumber, matchesDocumentNumber } from '@/lib/numbering';
+import { buildLayawayLines, buildReceiptLines, printLines } from '@/lib/receipt';
+import { formatQuantity, getUnitLabel } from '@/lib/units';
+import { getLineAmount } from '@/lib/pricing';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Ban,
+  Eye,
+  HandCoins,
+  Printer,
+  Search
+} from "lucide-react";
+import { toast } from "sonner";
+
+const STATUS_STYLES: Record<LayawayStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const Layaways = () => {
+  const { layaways, recordLayawayPayment, cancelLayaway } = useLayaways();
+  const { settings } = useSettings();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LayawayStatus | 'all'>('open');
+  const [detailLayaway, setDetailLayaway] = useState<Layaway | null>(null);
+  const [paymentLayaway, setPaymentLayaway] = useState<Layaway | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [completedSale, setCompletedSale] = useState<Transaction | null>(null);
+  const [cancelItem, setCancelItem] = useState<Layaway | null>(null);
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [cancelReason, setCancelReason] = useState('');
+
+  const openLayaways = layaways.filter(layaway => layaway.status === 'open');
+  const totalBalance = openLayaways.reduce((sum, layaway) => sum + getLayawayBalance(layaway), 0);
+  const totalDeposits = openLayaways.reduce((sum, layaway) => sum + getLayawayPaid(layaway), 0);
+  const overdueCount = openLayaways.filter(layaway => isLayawayOverdue(layaway)).length;
+
+  const filteredLayaways = layaways
+    .filter(layaway => statusFilter === 'all' || layaway.status === statusFilter)
+    .filter(layaway =>
+      matchesDocumentNumber(layaway, searchTerm) ||
+      (layaway.customerName || '').toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const cancelSplit = cancelItem ? getCancellationSplit(cancelItem, settings.layaway_policy) : null;
+
+  const printLayaway = async (layaway: Layaway) => {
+    try {
+      await printLines(
+        buildLayawayLines(layaway, settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Layaway ${getDocumentNumber(layaway)}`
+      );
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const printSale = async (transaction: Transaction) => {
+    try {
+      await printLines(
+        buildReceiptLines(transaction, settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Struk ${getDocumentNumber(transaction)}`
+      );
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenPayment = (layaway: Layaway) => {
+    setPaymentLayaway(layaway);
+    setPaymentAmount(getLayawayBalance(layaway).toString());
+    setPaymentMethod('cash');
+    setPaymentReference('');
+  };
+
+  const handleRecordPayment = async () => {
+    if (!paymentLayaway || isProcessing) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Jumlah pembayaran tidak valid');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const { layaway, transaction } = await recordLayawayPayment(paymentLayaway.id, {
+        amount,
+        method: paymentMethod,
+        reference: paymentReference.trim() || undefined,
+      });
+      setPaymentLayaway(null);
+
+      if (transaction) {
+        setCompletedSale(transaction);
+        if (settings.auto_print_receipt) {
+          printSale(transaction);
+        }
+      } else if (settings.auto_print_receipt) {
+        printLayaway(layaway);
+      }
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleOpenCancel = (layaway: Layaway) => {
+    setCancelItem(layaway);
+    setRefundMethod('cash');
+    setCancelReason('');
+  };
+
+  const handleCancel = () => {
+    if (!cancelItem) return;
+
+    try {
+      cancelLayaway(cancelItem.id, {
+        refundMethod,
+        reason: cancelReason.trim() || undefined,
+      });
+      setCancelItem(null);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Layaway / DP</h1>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Layaway Berjalan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{openLayaways.length}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Sisa Tagihan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-blue-600">Rp {totalBalance.toLocaleString('id-ID')}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">DP Diterima</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">Rp {totalDeposits.toLocaleString('id-ID')}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Lewat Batas Ambil</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${overdueCount > 0 ? 'text-red-500' : ''}`}>{overdueCount}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Daftar Layaway</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-1 max-w-sm">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+                <Input
+                  placeholder="Cari nomor atau pelanggan..."
+                  className="pl-8"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as LayawayStatus | 'all')}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Semua Status</SelectItem>
+                  {(Object.keys(LAYAWAY_STATUS_LABELS) as LayawayStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{LAYAWAY_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="table-container">
+              <table className="pos-table">
+                <thead>
+                  <tr>
+                    <th>No.</th>
+                    <th>Pelanggan</th>
+                    <th>Tanggal</th>
+                    <th>Ambil s/d</th>
+                    <th>Total</th>
+                    <th>Dibayar</th>
+                    <th>Sisa</th>
+                    <th>Status</th>
+                    <th>Aksi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredLayaways.length > 0 ? (
+                    filteredLayaways.map(layaway => {
+                      const overdue = isLayawayOverdue(layaway);
+                      return (
+                        <tr key={layaway.id}>
+                          <td className="font-medium">{getDocumentNumber(layaway)}</td>
+                          <td>{layaway.customerName || '-'}</td>
+                          <td>{new Date(layaway.createdAt).toLocaleDateString('id-ID')}</td>
+                          <td className={overdue ? 'text-red-500' : ''}>
+                            {layaway.dueDate ? new Date(layaway.dueDate).toLocaleDateString('id-ID') : '-'}
+                          </td>
+                          <td>Rp {layaway.total.toLocaleString('id-ID')}</td>
+                          <td>Rp {getLayawayPaid(layaway).toLocaleString('id-ID')}</td>
+                          <td className="font-semibold">
+                            {layaway.status === 'open' ? `Rp ${getLayawayBalance(layaway).toLocaleString('id-ID')}` : '-'}
+                          </td>
+                          <td>
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[layaway.status]}`}>
+                              {LAYAWAY_STATUS_LABELS[layaway.status]}
+                            </span>
+                          </td>
+                          <td className="whitespace-nowrap">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Bayar Cicilan"
+                              disabled={layaway.status !== 'open'}
+                              onClick={() => handleOpenPayment(layaway)}
+                            >
+                              <HandCoins size={16} />
+                            </Button>
+                            <Button variant="ghost" size="sm" title="Detail" onClick={() => setDetailLayaway(layaway)}>
+                              <Eye size={16} />
+                            </Button>
+                            <Button variant="ghost" size="sm" title="Cetak" onClick={() => printLayaway(layaway)}>
+                              <Printer size={16} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Batalkan"
+                              className="text-red-500 hover:text-red-700"
+                              disabled={layaway.status !== 'open'}
+                              onClick={() => handleOpenCancel(layaway)}
+                            >
+                              <Ban size={16} />
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })
+                  ) : (
+                    <tr>
+                      <td colSpan={9} className="text-center py-4 text-muted-foreground">
+                        Tidak ada layaway
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Payment Dialog */}
+      <Dialog open={!!paymentLayaway} onOpenChange={(open) => !open && setPaymentLayaway(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Bayar Cicilan - {paymentLayaway && getDocumentNumber(paymentLayaway)}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="flex justify-between bg-gray-50 p-3 rounded-md">
+              <span className="text-gray-600">Sisa Tagihan</span>
+              <span className="font-bold">
+                Rp {paymentLayaway ? getLayawayBalance(paymentLayaway).toLocaleString('id-ID') : 0}
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="layaway-payment-amount">Jumlah (Rp)</Label>
+              <Input
+                id="layaway-payment-amount"
+                type="number"
+                min="0"
+                value={paymentAmount}
+                onChange={(e) => setPaymentAmount(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Pelunasan langsung membuat penjualan dan struk akhir</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="layaway-payment-method">Metode Pembayaran</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger id="layaway-payment-method">
+                  <SelectValue placeholder="Pilih metode pembayaran" />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTER_PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {paymentMethod !== 'cash' && (
+              <div className="space-y-2">
+                <Label htmlFor="layaway-payment-reference">No. Referensi</Label>
+                <Input
+                  id="layaway-payment-reference"
+                  placeholder="Opsional"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaymentLayaway(null)}>Batal</Button>
+            <Button onClick={handleRecordPayment} disabled={isProcessing}>
+              {isProcessing ? 'Memproses...' : 'Simpan Pembayaran'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Completed Sale Dialog */}
+      <Dialog open={!!completedSale} onOpenChange={(open) => !open && setCompletedSale(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Layaway Lunas</DialogTitle>
+          </DialogHeader>
+          <p className="py-4">
+            Penjualan <strong>{completedSale && getDocumentNumber(completedSale)}</strong> sebesar Rp{' '}
+            {completedSale?.total.toLocaleString('id-ID')} telah dibuat. Barang dapat diserahkan ke pelanggan.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCompletedSale(null)}>Tutup</Button>
+            <Button onClick={() => completedSale && printSale(completedSale)}>
+              <Printer className="mr-2 h-4 w-4" /> Cetak Struk
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Detail Dialog */}
+      <Dialog open={!!detailLayaway} onOpenChange={(open) => !open && setDetailLayaway(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Layaway {detailLayaway && getDocumentNumber(detailLayaway)}</DialogTitle>
+          </DialogHeader>
+
+          {detailLayaway && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <span className="text-gray-500">Pelanggan</span>
+                <span>{detailLayaway.customerName || '-'}</span>
+                <span className="text-gray-500">Kasir</span>
+                <span>{detailLayaway.cashierName || '-'}</span>
+                {detailLayaway.notes && (
+                  <>
+                    <span className="text-gray-500">Catatan</span>
+                    <span>{detailLayaway.notes}</span>
+                  </>
+                )}
+                {detailLayaway.transactionNumber && (
+                  <>
+                    <span className="text-gray-500">Penjualan</span>
+                    <span>{detailLayaway.transactionNumber}</span>
+                  </>
+                )}
+                {detailLayaway.cancelledAt && (
+                  <>
+                    <span className="text-gray-500">Dibatalkan</span>
+                    <span>
+                      {new Date(detailLayaway.cancelledAt).toLocaleString('id-ID')}
+                      {detailLayaway.cancelReason && ` - ${detailLayaway.cancelReason}`}
+                    </span>
+                  </>
+                )}
+                {detailLayaway.forfeitedAmount && (
+                  <>
+                    <span className="text-gray-500">DP Hangus</span>
+                    <span>Rp {detailLayaway.forfeitedAmount.toLocaleString('id-ID')}</span>
+                  </>
+                )}
+              </div>
+
+              <div className="table-container max-h-48 overflow-y-auto">
+                <table className="pos-table">
+                  <thead>
+                    <tr>
+                      <th>Produk</th>
+                      <th>Jumlah</th>
+                      <th>Subtotal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detailLayaway.items.map((item, index) => (
+                      <tr key={index}>
+                        <td>{item.product.name}</td>
+                        <td>{formatQuantity(item.product, item.quantity)} {getUnitLabel(item)}</td>
+                        <td>Rp {getLineAmount(item).toLocaleString('id-ID')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="table-container max-h-48 overflow-y-auto">
+                <table className="pos-table">
+                  <thead>
+                    <tr>
+                      <th>Tanggal</th>
+                      <th>Keterangan</th>
+                      <th>Jumlah</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {detailLayaway.payments.map(payment => (
+                      <tr key={payment.id}>
+                        <td>{new Date(payment.createdAt).toLocaleString('id-ID')}</td>
+                        <td>
+                          {payment.type === 'refund' ? 'Refund' : 'Bayar'} {getPaymentMethodLabel(payment.method)}
+                          {payment.reference && <div className="text-xs text-gray-500">Ref: {payment.reference}</div>}
+                          {payment.cashierName && <div className="text-xs text-gray-500">{payment.cashierName}</div>}
+                        </td>
+                        <td className={payment.amount < 0 ? 'text-red-500' : 'text-green-600'}>
+                          Rp {payment.amount.toLocaleString('id-ID')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between font-medium">
+                <span>Total Rp {detailLayaway.total.toLocaleString('id-ID')}</span>
+                <span>
+                  {detailLayaway.status === 'open'
+                    ? `Sisa Rp ${getLayawayBalance(detailLayaway).toLocaleString('id-ID')}`
+                    : LAYAWAY_STATUS_LABELS[detailLayaway.status]}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => detailLayaway && printLayaway(detailLayaway)}>
+              <Printer className="mr-2 h-4 w-4" /> Cetak
+            </Button>
+            <Button onClick={() => setDetailLayaway(null)}>Tutup</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Dialog */}
+      <Dialog open={!!cancelItem} onOpenChange={(open) => !open && setCancelItem(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Batalkan Layaway {cancelItem && getDocumentNumber(cancelItem)}</DialogTitle>
+          </DialogHeader>
+
+          {cancelSplit && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-1 bg-gray-50 p-3 rounded-md text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">DP Dibayar</span>
+                  <span>Rp {cancelSplit.paid.toLocaleString('id-ID')}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Hangus ({settings.layaway_policy.forfeit_percent}%)</span>
+                  <span>Rp {cancelSplit.forfeited.toLocaleString('id-ID')}</span>
+                </div>
+                <div className="flex justify-between font-bold">
+                  <span>Dikembalikan</span>
+                  <span>Rp {cancelSplit.refundable.toLocaleString('id-ID')}</span>
+                </div>
+              </div>
+
+              {cancelSplit.refundable > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="layaway-refund-method">Metode Pengembalian</Label>
+                  <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as PaymentMethod)}>
+                    <SelectTrigger id="layaway-refund-method">
+                      <SelectValue placeholder="Pilih metode pengembalian" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COUNTER_PAYMENT_METHODS.map(method => (
+                        <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="layaway-cancel-reason">Alasan</Label>
+                <Input
+                  id="layaway-cancel-reason"
+                  placeholder="Opsional"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                />
+              </div>
+
+              <p className="text-sm text-gray-500">Barang yang dipesan dikembalikan ke stok.</p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelItem(null)}>Kembali</Button>
+            <Button variant="destructive" onClick={handleCancel}>Batalkan Layaway</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default Layaways;
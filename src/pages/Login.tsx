@@ -80,8 +80,8 @@ const Login = () => {
 
               <div className="bg-blue-50 border-l-4 border-blue-500 text-blue-700 p-4 rounded-md" role="alert">
                 <p className="font-bold">Demo Credentials</p>
-                <p>Admin: admin@example.com / admin123</p>
-                <p>Manager: manager@example.com / manager123</p>
+                <p>Admin: admin@example.com / admin123 (PIN 1234)</p>
+                <p>Manager: manager@example.com / manager123 (PIN 5678)</p>
                 <p>Kasir: cashier@example.com / cashier123</p>
               </div>
             </CardContent>
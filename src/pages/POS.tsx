@@ -1,9 +1,39 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import AppLayout from '@/components/layouts/AppLayout';
 import { useProducts } from '@/contexts/ProductContext';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useAuth } from '@/contexts/AuthContext';
-import { Product, CartItem, PaymentMethod } from '@/types';
+import { useShift } from '@/contexts/ShiftContext';
+import { useLoyalty } from '@/contexts/LoyaltyContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { Product, ProductUnit, CartItem, PaymentMethod, PaymentTender, Transaction, AppliedPromotion, Layaway } from '@/types';
+import { getPaymentMethodLabel, sumTenders } from '@/lib/payments';
+import { getTaxLabel } from '@/lib/tax';
+import { isEanCode, isValidEan, parseWeighedBarcode } from '@/lib/barcode';
+import { playErrorBeep } from '@/lib/sound';
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner';
+import { useManagerApproval } from '@/hooks/use-manager-approval';
+import { useHotkeys } from '@/hooks/use-hotkeys';
+import { useUserPreferences } from '@/hooks/use-user-preferences';
+import { usePublishCustomerDisplay } from '@/hooks/use-customer-display';
+import { toCustomerDisplayLine } from '@/lib/customer-display';
+import { DEFAULT_HOTKEYS, formatHotkey, HotkeyBindings, resolveHotkeys } from '@/lib/hotkeys';
+import { getDiscountPercent, getListUnitPrice, getPriceOverrideType } from '@/lib/approvals';
+import { buildLayawayLines, buildReceiptLines, printLines } from '@/lib/receipt';
+import { getDocumentNumber } from '@/lib/numbering';
+import { formatPriceRange, getVariantPriceRange, getVariantStock, isVariantParent } from '@/lib/variants';
+import { countItems, findProductUnitByBarcode, formatQuantity, getBaseQuantity, getSellUnits, getUnitLabel, roundQuantity, toBaseQuantity } from '@/lib/units';
+import { formatPriceTier, getAppliedPriceTier, getLineAmount, getLineGross, getUnitPrice } from '@/lib/pricing';
+import { downloadBytes, PRINT_COLUMNS, renderEscPos } from '@/lib/print';
+import PaymentDialog from '@/components/pos/PaymentDialog';
+import LayawayDialog from '@/components/pos/LayawayDialog';
+import CustomerPickerDialog from '@/components/pos/CustomerPickerDialog';
+import VariantPickerDialog from '@/components/pos/VariantPickerDialog';
+import UnitPickerDialog from '@/components/pos/UnitPickerDialog';
+import QuantityKeypadDialog from '@/components/pos/QuantityKeypadDialog';
+import PriceOverrideDialog from '@/components/pos/PriceOverrideDialog';
+import HotkeyCheatSheetDialog from '@/components/pos/HotkeyCheatSheetDialog';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -17,42 +47,104 @@ import {
   Trash2,
   Barcode,
   Printer,
-  BanknoteIcon,
-  CreditCard,
-  Wallet
+  Download,
+  PauseCircle,
+  ClipboardList,
+  AlertTriangle,
+  UserRound,
+  Scale,
+  Keyboard,
+  Monitor,
+  PackageCheck,
+  X
 } from "lucide-react";
 import { toast } from 'sonner';
 
 const POS = () => {
-  const { products, categories, searchProducts, getProductsByCategory } = useProducts();
-  const { cart, addToCart, updateCartItem, removeFromCart, clearCart, calculateSubtotal, calculateTotal, completeTransaction } = useTransactions();
+  const { products, categories, searchProducts, getProductsByCategory, getProductByBarcode } = useProducts();
+  const { 
+    cart, 
+    heldOrders,
+    addToCart, 
+    updateCartItem, 
+    removeFromCart, 
+    clearCart, 
+    recordCartApproval,
+    appliedPromotions,
+    cartCustomer,
+    setCartCustomer,
+    calculateSubtotal, 
+    calculateTax,
+    calculateTotal,
+    holdCart,
+    resumeHeldOrder,
+    deleteHeldOrder,
+    getStaleHeldOrders
+  } = useTransactions();
   const { user } = useAuth();
+  const { currentShift } = useShift();
+  const { isEnabled: isLoyaltyEnabled, getPointsBalance } = useLoyalty();
+  const { settings } = useSettings();
+  const { requestApproval, approvalDialog, isApprovalPending } = useManagerApproval();
+  const { preferences, updatePreferences } = useUserPreferences();
+  const hotkeys = useMemo(() => resolveHotkeys(preferences?.pos_hotkeys), [preferences?.pos_hotkeys]);
+  const navigate = useNavigate();
   
   const [searchQuery, setSearchQuery] = useState('');
   const [activeCategory, setActiveCategory] = useState('all');
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
-  const [amountPaid, setAmountPaid] = useState<string>('');
-  const [discount, setDiscount] = useState<string>('');
-  const [customerName, setCustomerName] = useState('');
   
   const [receiptDialogOpen, setReceiptDialogOpen] = useState(false);
   const [currentReceipt, setCurrentReceipt] = useState<any>(null);
 
+  const [isHoldDialogOpen, setIsHoldDialogOpen] = useState(false);
+  const [isHeldOrdersDialogOpen, setIsHeldOrdersDialogOpen] = useState(false);
+  const [isLayawayDialogOpen, setIsLayawayDialogOpen] = useState(false);
+  const [holdLabel, setHoldLabel] = useState('');
+  const [holdCustomerName, setHoldCustomerName] = useState('');
+  const [isCustomerPickerOpen, setIsCustomerPickerOpen] = useState(false);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
+  const [unitProduct, setUnitProduct] = useState<Product | null>(null);
+  // Line whose quantity is being typed on the keypad; no index while the product is not yet in the cart
+  const [keypadLine, setKeypadLine] = useState<{ item: CartItem; index?: number } | null>(null);
+  const [priceLineIndex, setPriceLineIndex] = useState<number | null>(null);
+  // Set once the customer has been shown the total; cleared with the cart
+  const [paymentOpened, setPaymentOpened] = useState(false);
+  const [paymentMethodHint, setPaymentMethodHint] = useState<PaymentMethod | undefined>();
+  // Cart line the quantity and delete hotkeys act on; follows the newest line
+  const [selectedLineIndex, setSelectedLineIndex] = useState(-1);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  // What the customer display shows: the payment being entered, then the change of the last sale
+  const [checkout, setCheckout] = useState<{ discount: number; rounding: number; paid: number } | null>(null);
+  const [lastSale, setLastSale] = useState<Transaction | null>(null);
+
+  const [scanError, setScanError] = useState(false);
+
   const searchInputRef = useRef<HTMLInputElement>(null);
   
   useEffect(() => {
     if (searchQuery) {
-      setFilteredProducts(searchProducts(searchQuery));
+      // A variant found by its own SKU or barcode is shown directly, unless its parent matched too
+      const results = searchProducts(searchQuery);
+      setFilteredProducts(results.filter(p => !p.parentId || !results.some(r => r.id === p.parentId)));
     } else if (activeCategory === 'all') {
-      setFilteredProducts(products.filter(p => p.isActive));
+      setFilteredProducts(products.filter(p => p.isActive && !p.parentId));
     } else {
-      setFilteredProducts(getProductsByCategory(activeCategory));
+      setFilteredProducts(getProductsByCategory(activeCategory).filter(p => !p.parentId));
     }
   }, [searchQuery, activeCategory, products, searchProducts, getProductsByCategory]);
 
+  useEffect(() => {
+    setSelectedLineIndex(cart.length - 1);
+    if (cart.length === 0) {
+      setPaymentOpened(false);
+    } else {
+      setLastSale(null);
+    }
+  }, [cart.length]);
+
   useEffect(() => {
     // Focus search input on mount
     if (searchInputRef.current) {
@@ -60,18 +152,134 @@ const POS = () => {
     }
   }, []);
 
-  const handleAddToCart = (product: Product) => {
+  // Everything of a product already in the cart, in base units, across pack sizes
+  const getBaseQuantityInCart = (productId: string) => {
+    return cart
+      .filter(item => item.product.id === productId)
+      .reduce((sum, item) => sum + getBaseQuantity(item), 0);
+  };
+
+  const handleAddToCart = (product: Product, quantity = 1, unit?: ProductUnit, pricing?: Pick<CartItem, 'priceOverride' | 'priceRounding'>) => {
+    if (isVariantParent(product)) {
+      setVariantParent(product);
+      return;
+    }
+
     if (product.stock <= 0) {
       toast.error(`Stok ${product.name} habis!`);
       return;
     }
+
+    if (roundQuantity(getBaseQuantityInCart(product.id) + toBaseQuantity(quantity, unit)) > product.stock) {
+      toast.error(`Stok ${product.name} tidak mencukupi!`);
+      return;
+    }
     
     addToCart({
       product,
-      quantity: 1
+      quantity,
+      unit,
+      ...pricing
     });
   };
 
+  // Weighed products sold loose are keyed in from the scale display
+  const handleSelectUnit = (product: Product, unit?: ProductUnit) => {
+    if (!unit && product.soldByWeight) {
+      setKeypadLine({ item: { product, quantity: 0, priceRounding: settings.weighed_price_rounding } });
+      return;
+    }
+    handleAddToCart(product, 1, unit);
+  };
+
+  // Tapping a product asks for the variant, pack size or weight first when there is a choice
+  const handleSelectProduct = (product: Product) => {
+    if (isVariantParent(product)) {
+      handleAddToCart(product);
+      return;
+    }
+    if (getSellUnits(product).length > 0) {
+      setUnitProduct(product);
+      return;
+    }
+    handleSelectUnit(product);
+  };
+
+  const signalScanError = (message: string) => {
+    playErrorBeep();
+    toast.error(message);
+    setScanError(true);
+    setTimeout(() => setScanError(false), 600);
+  };
+
+  const handleScan = (code: string) => {
+    if (isEanCode(code) && !isValidEan(code)) {
+      signalScanError(`Barcode ${code} tidak valid, silakan pindai ulang`);
+      return;
+    }
+
+    // A weighed product's own barcode opens the weight keypad
+    const product = getProductByBarcode(code);
+    if (product) {
+      handleSelectUnit(product);
+      return;
+    }
+
+    // Packs carry their own barcode
+    const packed = findProductUnitByBarcode(products, code);
+    if (packed) {
+      handleAddToCart(packed.product, 1, packed.unit);
+      return;
+    }
+
+    /**
+     * Scale labels carry the product's item code plus the weight or the price
+     * of the pack. A priced label is charged exactly what it says: the weight
+     * is worked back from the list price and the line priced to match.
+     */
+    const weighed = parseWeighedBarcode(code);
+    const weighedProduct = weighed && getProductByBarcode(weighed.itemCode);
+    if (weighed && weighedProduct && weighedProduct.price > 0) {
+      const priceRounding = settings.weighed_price_rounding;
+      if (weighed.weight !== undefined) {
+        handleAddToCart(weighedProduct, weighed.weight, undefined, { priceRounding });
+        return;
+      }
+      const quantity = Math.max(0.001, Math.round((weighed.price / weighedProduct.price) * 1000) / 1000);
+      handleAddToCart(weighedProduct, quantity, undefined, { priceOverride: weighed.price / quantity, priceRounding });
+      return;
+    }
+
+    signalScanError(`Barcode ${code} tidak terdaftar`);
+  };
+
+  useBarcodeScanner((code, target) => {
+    // The burst also landed in the search box when it had focus
+    if (target === searchInputRef.current) {
+      setSearchQuery(prev => prev.endsWith(code) ? prev.slice(0, -code.length) : prev);
+    }
+    handleScan(code);
+  }, {
+    enabled: !isPaymentModalOpen && !receiptDialogOpen && !isHoldDialogOpen && !isHeldOrdersDialogOpen && !isCustomerPickerOpen && !variantParent && !unitProduct && !keypadLine && priceLineIndex === null && !isApprovalPending && !isShortcutsOpen
+  });
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Escape clears a half-typed query so the line hotkeys work again
+    if (e.key === 'Escape' && searchQuery) {
+      e.preventDefault();
+      setSearchQuery('');
+      return;
+    }
+
+    // A barcode typed by hand when the label won't scan
+    if (e.key !== 'Enter' || e.defaultPrevented) return;
+    const code = searchQuery.trim();
+    if (/^\d+$/.test(code)) {
+      setSearchQuery('');
+      handleScan(code);
+    }
+  };
+
   const handleUpdateQuantity = (index: number, quantity: number) => {
     const item = cart[index];
     if (!item) return;
@@ -79,11 +287,11 @@ const POS = () => {
     const newQuantity = item.quantity + quantity;
     
     if (newQuantity <= 0) {
-      removeFromCart(index);
+      handleRemoveLine(index);
       return;
     }
     
-    if (newQuantity > item.product.stock) {
+    if (getBaseQuantityInCart(item.product.id) + toBaseQuantity(quantity, item.unit) > item.product.stock) {
       toast.error(`Stok ${item.product.name} tidak mencukupi!`);
       return;
     }
@@ -91,65 +299,311 @@ const POS = () => {
     updateCartItem(index, { quantity: newQuantity });
   };
 
-  const handleCompletePayment = () => {
-    if (cart.length === 0) {
-      toast.error('Keranjang kosong!');
+  // Taking items off after the customer has seen the total needs a manager
+  const handleRemoveLine = async (index: number) => {
+    const item = cart[index];
+    if (!item) return;
+
+    if (paymentOpened && settings.approval_policy.remove_after_payment) {
+      const approval = await requestApproval(
+        'remove_line',
+        `${item.product.name} ${formatQuantity(item.product, item.quantity)} ${getUnitLabel(item)} (Rp ${getLineAmount(item).toLocaleString('id-ID')})`
+      );
+      if (!approval) return;
+      recordCartApproval(approval);
+    }
+
+    removeFromCart(index);
+  };
+
+  const openPayment = (method?: PaymentMethod) => {
+    if (cart.length === 0 || !currentShift) return;
+    setPaymentMethodHint(method);
+    setPaymentOpened(true);
+    setIsPaymentModalOpen(true);
+  };
+
+  const handleHotkeysChange = (bindings: HotkeyBindings) => {
+    // Only what differs from the defaults is stored, so later default changes still reach the user
+    const changed = Object.fromEntries(
+      Object.entries(bindings).filter(([action, hotkey]) => DEFAULT_HOTKEYS[action as keyof HotkeyBindings] !== hotkey)
+    );
+    updatePreferences({ pos_hotkeys: changed });
+  };
+
+  const selectedItem = cart[selectedLineIndex];
+
+  // Weighed lines have no whole steps, so +/- opens the keypad for them instead
+  const adjustSelectedLine = (step: number) => {
+    if (!selectedItem) return;
+    if (selectedItem.product.soldByWeight && !selectedItem.unit) {
+      setKeypadLine({ item: selectedItem, index: selectedLineIndex });
       return;
     }
+    handleUpdateQuantity(selectedLineIndex, step);
+  };
+
+  useHotkeys(hotkeys, {
+    show_shortcuts: () => setIsShortcutsOpen(true),
+    focus_search: () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    },
+    hold_resume: () => (cart.length > 0 ? handleOpenHoldDialog() : setIsHeldOrdersDialogOpen(true)),
+    pay_cash: () => openPayment('cash'),
+    pay_card: () => openPayment('card'),
+    pay_ewallet: () => openPayment('e-wallet'),
+    pay_credit: () => openPayment('credit'),
+    pay_voucher: () => openPayment('voucher'),
+    previous_line: () => setSelectedLineIndex(index => Math.max(0, index - 1)),
+    next_line: () => setSelectedLineIndex(index => Math.min(cart.length - 1, index + 1)),
+    increase_quantity: () => adjustSelectedLine(1),
+    decrease_quantity: () => adjustSelectedLine(-1),
+    set_quantity: () => selectedItem && setKeypadLine({ item: selectedItem, index: selectedLineIndex }),
+    remove_line: () => selectedItem && handleRemoveLine(selectedLineIndex),
+    cancel: () => setSearchQuery(''),
+  }, {
+    // The search box holds focus between scans; line keys still work once it is empty again
+    inEmptyFields: true,
+    enabled: !isPaymentModalOpen && !receiptDialogOpen && !isHoldDialogOpen && !isHeldOrdersDialogOpen && !isCustomerPickerOpen && !variantParent && !unitProduct && !keypadLine && priceLineIndex === null && !isApprovalPending && !isShortcutsOpen
+  });
+
+  const handleClearCart = async () => {
+    if (paymentOpened && settings.approval_policy.remove_after_payment) {
+      const approval = await requestApproval(
+        'remove_line',
+        `Kosongkan keranjang: ${cart.length} baris (Rp ${calculateSubtotal().toLocaleString('id-ID')})`
+      );
+      if (!approval) return;
+      recordCartApproval(approval);
+    }
 
+    clearCart();
+  };
+
+  const handlePriceChange = async (index: number, price: number | undefined) => {
+    const item = cart[index];
+    if (!item) return;
+
+    const overrideType = price === undefined ? undefined : getPriceOverrideType(item, price, settings.approval_policy);
+    if (overrideType) {
+      const listPrice = getListUnitPrice(item);
+      const approval = await requestApproval(
+        overrideType,
+        `${item.product.name}: Rp ${listPrice.toLocaleString('id-ID')} menjadi Rp ${price.toLocaleString('id-ID')} per ${getUnitLabel(item)} (-${getDiscountPercent(listPrice - price, listPrice).toFixed(1)}%)`
+      );
+      if (!approval) return;
+      recordCartApproval(approval);
+    }
+
+    updateCartItem(index, { priceOverride: price });
+  };
+
+  const handleSetQuantity = (index: number, quantity: number) => {
+    const item = cart[index];
+    if (!item) return;
+
+    const otherLines = getBaseQuantityInCart(item.product.id) - getBaseQuantity(item);
+    if (roundQuantity(otherLines + toBaseQuantity(quantity, item.unit)) > item.product.stock) {
+      toast.error(`Stok ${item.product.name} tidak mencukupi!`);
+      return;
+    }
+
+    updateCartItem(index, { quantity });
+  };
+
+  const handleKeypadConfirm = (quantity: number) => {
+    if (!keypadLine) return;
+    if (keypadLine.index === undefined) {
+      handleAddToCart(keypadLine.item.product, quantity);
+    } else {
+      handleSetQuantity(keypadLine.index, quantity);
+    }
+  };
+
+  const printReceipt = async (transaction: Transaction) => {
     try {
-      const amountPaidValue = amountPaid ? parseFloat(amountPaid) : 0;
-      const discountValue = discount ? parseFloat(discount) : 0;
-      const totalValue = calculateTotal(discountValue);
-      
-      if (paymentMethod === 'cash' && amountPaidValue < totalValue) {
-        toast.error('Jumlah pembayaran kurang dari total!');
-        return;
-      }
-      
-      const transaction = completeTransaction({
-        paymentMethod,
-        amountPaid: amountPaidValue,
-        discount: discountValue,
-        customerName: customerName || undefined,
-      });
-      
-      setCurrentReceipt({
-        ...transaction,
-        cashierName: user?.name,
+      await printLines(
+        buildReceiptLines(transaction, settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Struk ${getDocumentNumber(transaction)}`
+      );
+      return true;
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+      return false;
+    }
+  };
+
+  const handlePaymentCompleted = (transaction: Transaction) => {
+    const receipt = {
+      ...transaction,
+      cashierName: user?.name,
+    };
+    setCurrentReceipt(receipt);
+    setReceiptDialogOpen(true);
+    setLastSale(transaction);
+
+    if (settings.auto_print_receipt) {
+      printReceipt(receipt);
+    }
+  };
+
+  const handleLayawayCreated = async (layaway: Layaway) => {
+    if (!settings.auto_print_receipt) return;
+
+    try {
+      await printLines(
+        buildLayawayLines(layaway, settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Layaway ${getDocumentNumber(layaway)}`
+      );
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenHoldDialog = () => {
+    setHoldLabel(`Pesanan ${heldOrders.length + 1}`);
+    setHoldCustomerName(cartCustomer?.name || '');
+    setIsHoldDialogOpen(true);
+  };
+
+  const handleHoldCart = () => {
+    if (!holdLabel.trim()) {
+      toast.error('Label pesanan harus diisi');
+      return;
+    }
+
+    try {
+      holdCart({
+        label: holdLabel.trim(),
+        customerName: holdCustomerName.trim() || undefined,
       });
-      
-      setIsPaymentModalOpen(false);
-      setReceiptDialogOpen(true);
-      
-      // Reset payment form
-      setPaymentMethod('cash');
-      setAmountPaid('');
-      setDiscount('');
-      setCustomerName('');
+      setIsHoldDialogOpen(false);
     } catch (error) {
       toast.error(`Error: ${(error as Error).message}`);
     }
   };
 
-  const handlePrintReceipt = () => {
-    toast.success('Struk berhasil dicetak!');
-    setReceiptDialogOpen(false);
+  const handleResumeHeldOrder = (id: string) => {
+    if (cart.length > 0) {
+      toast.error('Tahan atau kosongkan keranjang saat ini terlebih dahulu');
+      return;
+    }
+
+    try {
+      resumeHeldOrder(id);
+      setIsHeldOrdersDialogOpen(false);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handlePrintReceipt = async () => {
+    if (!currentReceipt) return;
+
+    if (await printReceipt(currentReceipt)) {
+      setReceiptDialogOpen(false);
+    }
+  };
+
+  // Raw printer bytes for stores that print through their own spooler or a USB tool
+  const handleDownloadEscPos = () => {
+    if (!currentReceipt) return;
+
+    const columns = settings.receipt_print_format === 'thermal_58mm'
+      ? PRINT_COLUMNS.thermal_58mm
+      : PRINT_COLUMNS.thermal_80mm;
+    downloadBytes(renderEscPos(buildReceiptLines(currentReceipt, settings), columns), `struk-${getDocumentNumber(currentReceipt).replace(/[^\w-]+/g, '-')}.bin`);
   };
 
   const subtotal = calculateSubtotal();
-  const discountValue = discount ? parseFloat(discount) : 0;
-  const total = calculateTotal(discountValue);
-  const change = paymentMethod === 'cash' && amountPaid ? parseFloat(amountPaid) - total : 0;
+  const taxBreakdown = calculateTax();
+  const total = calculateTotal();
+  const staleHeldOrders = getStaleHeldOrders();
+
+  usePublishCustomerDisplay(
+    cart.length > 0
+      ? {
+          status: 'cart',
+          lines: cart.map(toCustomerDisplayLine),
+          subtotal,
+          promotions: appliedPromotions,
+          discount: checkout?.discount || 0,
+          tax: calculateTax(checkout?.discount).tax,
+          total: calculateTotal(checkout?.discount) + (checkout?.rounding || 0),
+          paid: checkout?.paid || 0,
+          customerName: cartCustomer?.name,
+        }
+      : lastSale
+        ? {
+            status: 'paid',
+            transactionNumber: lastSale.number,
+            total: lastSale.total,
+            paid: sumTenders(lastSale.payments),
+            change: lastSale.change || 0,
+            paidAt: lastSale.createdAt,
+          }
+        : { status: 'idle' }
+  );
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
   
   return (
     <AppLayout>
       <div className="h-full flex flex-col">
-        <h1 className="text-2xl font-bold mb-6">Point of Sale</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold">Point of Sale</h1>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => window.open('/customer-display', 'pos-customer-display', 'popup,width=1024,height=768')}
+          >
+            <Monitor size={16} className="mr-2" />
+            Layar Pelanggan
+          </Button>
+        </div>
+        
+        {!currentShift && (
+          <div className="flex items-center justify-between gap-4 mb-4 p-3 rounded-lg border border-red-300 bg-red-50 text-red-800">
+            <div className="flex items-center">
+              <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+              <span className="text-sm">
+                Belum ada shift yang dibuka. Buka shift dengan modal awal sebelum menerima pembayaran.
+              </span>
+            </div>
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => navigate('/shifts')}
+            >
+              Buka Shift
+            </Button>
+          </div>
+        )}
+        
+        {staleHeldOrders.length > 0 && (
+          <div className="flex items-center justify-between gap-4 mb-4 p-3 rounded-lg border border-amber-300 bg-amber-50 text-amber-800">
+            <div className="flex items-center">
+              <AlertTriangle size={18} className="mr-2 flex-shrink-0" />
+              <span className="text-sm">
+                {staleHeldOrders.length} pesanan ditahan dari hari sebelumnya belum diselesaikan.
+              </span>
+            </div>
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => setIsHeldOrdersDialogOpen(true)}
+            >
+              Lihat
+            </Button>
+          </div>
+        )}
         
         <div className="flex flex-col lg:flex-row gap-6 h-full">
           {/* Product Selection */}
-          <div className="w-full lg:w-2/3 bg-white rounded-lg shadow overflow-hidden flex flex-col h-full">
+          <div className={`w-full lg:w-2/3 bg-white rounded-lg shadow overflow-hidden flex flex-col h-full transition-shadow ${scanError ? 'ring-4 ring-red-500' : ''}`}>
             {/* Search and Filter */}
             <div className="p-4 border-b">
               <div className="flex gap-2 mb-4">
@@ -162,6 +616,7 @@ const POS = () => {
                     className="pl-10"
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={handleSearchKeyDown}
                   />
                 </div>
                 <Button 
@@ -173,6 +628,14 @@ const POS = () => {
                 >
                   <Barcode size={18} />
                 </Button>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title={`Pintasan keyboard (${formatHotkey(hotkeys.show_shortcuts)})`}
+                  onClick={() => setIsShortcutsOpen(true)}
+                >
+                  <Keyboard size={18} />
+                </Button>
               </div>
               
               <Tabs defaultValue="all" value={activeCategory} onValueChange={setActiveCategory}>
@@ -191,26 +654,37 @@ const POS = () => {
             <div className="flex-1 overflow-y-auto p-4 bg-gray-50">
               {filteredProducts.length > 0 ? (
                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
-                  {filteredProducts.map(product => (
-                    <button
-                      key={product.id}
-                      className={`
-                        bg-white rounded-lg shadow-sm p-3 text-left transition-all hover:shadow 
-                        ${product.stock <= 0 ? 'opacity-60' : 'hover:scale-105'}
-                      `}
-                      onClick={() => handleAddToCart(product)}
-                      disabled={product.stock <= 0}
-                    >
-                      <div className="font-medium truncate">{product.name}</div>
-                      <div className="text-gray-500 text-sm truncate">SKU: {product.sku}</div>
-                      <div className="flex justify-between items-center mt-2">
-                        <div className="font-bold text-pos-blue-dark">Rp {product.price.toLocaleString('id-ID')}</div>
-                        <div className={`text-sm ${product.stock <= product.lowStockThreshold ? 'text-red-500' : 'text-gray-500'}`}>
-                          Stok: {product.stock}
+                  {filteredProducts.map(product => {
+                    const hasVariants = isVariantParent(product);
+                    const stock = hasVariants ? getVariantStock(product, products) : product.stock;
+
+                    return (
+                      <button
+                        key={product.id}
+                        className={`
+                          bg-white rounded-lg shadow-sm p-3 text-left transition-all hover:shadow 
+                          ${stock <= 0 ? 'opacity-60' : 'hover:scale-105'}
+                        `}
+                        onClick={() => handleSelectProduct(product)}
+                        disabled={stock <= 0}
+                      >
+                        <div className="font-medium truncate">{product.name}</div>
+                        <div className="text-gray-500 text-sm truncate">
+                          {hasVariants ? product.variantOptions.map(option => option.name).join(', ') : `SKU: ${product.sku}`}
                         </div>
-                      </div>
-                    </button>
-                  ))}
+                        <div className="flex justify-between items-center mt-2">
+                          <div className="font-bold text-pos-blue-dark">
+                            {hasVariants
+                              ? formatPriceRange(getVariantPriceRange(product, products))
+                              : `Rp ${product.price.toLocaleString('id-ID')}`}
+                          </div>
+                          <div className={`text-sm ${!hasVariants && stock <= product.lowStockThreshold ? 'text-red-500' : 'text-gray-500'}`}>
+                            Stok: {stock}
+                          </div>
+                        </div>
+                      </button>
+                    );
+                  })}
                 </div>
               ) : (
                 <div className="flex flex-col items-center justify-center h-full text-gray-500">
@@ -229,14 +703,77 @@ const POS = () => {
           <div className="w-full lg:w-1/3 bg-white rounded-lg shadow flex flex-col h-full">
             <div className="p-4 border-b flex items-center justify-between">
               <h2 className="font-bold text-lg">Keranjang Belanja</h2>
-              {cart.length > 0 && (
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={clearCart}
-                  className="text-red-500 hover:text-red-700"
+              <div className="flex gap-2">
+                {heldOrders.length > 0 && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setIsHeldOrdersDialogOpen(true)}
+                  >
+                    <ClipboardList size={16} className="mr-1" /> Ditahan ({heldOrders.length})
+                  </Button>
+                )}
+                {cart.length > 0 && (
+                  <>
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      onClick={handleOpenHoldDialog}
+                    >
+                      <PauseCircle size={16} className="mr-1" /> Tahan
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      onClick={() => setIsLayawayDialogOpen(true)}
+                      disabled={!currentShift}
+                    >
+                      <PackageCheck size={16} className="mr-1" /> DP
+                    </Button>
+                    <Button 
+                      variant="outline" 
+                      size="sm" 
+                      onClick={handleClearCart}
+                      className="text-red-500 hover:text-red-700"
+                    >
+                      <Trash2 size={16} className="mr-1" /> Kosongkan
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="px-4 py-2 border-b flex items-center justify-between">
+              {cartCustomer ? (
+                <>
+                  <div className="flex items-center min-w-0">
+                    <UserRound size={16} className="mr-2 text-pos-blue flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm truncate">{cartCustomer.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {cartCustomer.phone || '-'}
+                        {isLoyaltyEnabled && ` · ${getPointsBalance(cartCustomer.id).toLocaleString('id-ID')} poin`}
+                      </div>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Lepas pelanggan"
+                    onClick={() => setCartCustomer(null)}
+                  >
+                    <X size={14} />
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-gray-600"
+                  onClick={() => setIsCustomerPickerOpen(true)}
                 >
-                  <Trash2 size={16} className="mr-1" /> Kosongkan
+                  <UserRound size={16} className="mr-2" /> Pilih Pelanggan
                 </Button>
               )}
             </div>
@@ -245,34 +782,76 @@ const POS = () => {
               {cart.length > 0 ? (
                 <div className="space-y-3">
                   {cart.map((item, index) => (
-                    <div key={index} className="flex justify-between items-center border-b pb-3">
+                    <div
+                      key={index}
+                      className={`flex justify-between items-center border-b pb-3 ${index === selectedLineIndex ? 'border-l-4 border-l-pos-blue pl-2' : ''}`}
+                      onClick={() => setSelectedLineIndex(index)}
+                    >
                       <div className="flex-1">
                         <div className="font-medium">{item.product.name}</div>
-                        <div className="text-sm text-gray-500">Rp {item.product.price.toLocaleString('id-ID')} x {item.quantity}</div>
+                        <button
+                          type="button"
+                          className="text-sm text-gray-500 text-left hover:underline"
+                          title="Ubah harga"
+                          onClick={() => setPriceLineIndex(index)}
+                        >
+                          {item.product.soldByWeight && !item.unit
+                            ? `Rp ${getUnitPrice(item).toLocaleString('id-ID')}/${getUnitLabel(item)} = Rp ${getLineGross(item).toLocaleString('id-ID')}`
+                            : `Rp ${getUnitPrice(item).toLocaleString('id-ID')} x ${item.quantity}${item.unit ? ` ${getUnitLabel(item)}` : ''}`}
+                          {getAppliedPriceTier(item) && (
+                            <span className="ml-2 text-xs text-green-600">
+                              {formatPriceTier(getAppliedPriceTier(item))}
+                            </span>
+                          )}
+                          {item.priceOverride !== undefined && (
+                            <span className="ml-2 text-xs text-amber-600">Harga diubah</span>
+                          )}
+                        </button>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <Button 
-                          variant="outline" 
-                          size="icon" 
-                          className="h-8 w-8" 
-                          onClick={() => handleUpdateQuantity(index, -1)}
-                        >
-                          <Minus size={14} />
-                        </Button>
-                        <span className="w-8 text-center">{item.quantity}</span>
-                        <Button 
-                          variant="outline" 
-                          size="icon" 
-                          className="h-8 w-8" 
-                          onClick={() => handleUpdateQuantity(index, 1)}
-                        >
-                          <Plus size={14} />
-                        </Button>
+                        {item.product.soldByWeight && !item.unit ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8"
+                            onClick={() => setKeypadLine({ item, index })}
+                          >
+                            <Scale size={14} className="mr-1" />
+                            {formatQuantity(item.product, item.quantity)} {getUnitLabel(item)}
+                          </Button>
+                        ) : (
+                          <>
+                            <Button 
+                              variant="outline" 
+                              size="icon" 
+                              className="h-8 w-8" 
+                              onClick={() => handleUpdateQuantity(index, -1)}
+                            >
+                              <Minus size={14} />
+                            </Button>
+                            <button
+                              type="button"
+                              className="w-8 text-center rounded hover:bg-gray-100"
+                              aria-label={`Ubah jumlah ${item.product.name}`}
+                              onClick={() => setKeypadLine({ item, index })}
+                            >
+                              {formatQuantity(item.product, item.quantity)}
+                            </button>
+                            <Button 
+                              variant="outline" 
+                              size="icon" 
+                              className="h-8 w-8" 
+                              onClick={() => handleUpdateQuantity(index, 1)}
+                            >
+                              <Plus size={14} />
+                            </Button>
+                          </>
+                        )}
                         <Button 
                           variant="ghost" 
                           size="icon" 
                           className="h-8 w-8 text-red-500 hover:text-red-700" 
-                          onClick={() => removeFromCart(index)}
+                          onClick={() => handleRemoveLine(index)}
                         >
                           <Trash2 size={16} />
                         </Button>
@@ -295,19 +874,31 @@ const POS = () => {
                   <span>Subtotal:</span>
                   <span>Rp {subtotal.toLocaleString('id-ID')}</span>
                 </div>
+                {appliedPromotions.map((promotion) => (
+                  <div key={promotion.promotionId} className="flex justify-between text-sm text-green-700">
+                    <span>{promotion.name}:</span>
+                    <span>-Rp {promotion.amount.toLocaleString('id-ID')}</span>
+                  </div>
+                ))}
+                {taxBreakdown.tax > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span>{getTaxLabel(taxBreakdown.rate, taxBreakdown.inclusive)}:</span>
+                    <span>Rp {taxBreakdown.tax.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Total Item:</span>
-                  <span>{cart.reduce((sum, item) => sum + item.quantity, 0)} item</span>
+                  <span>{countItems(cart)} item</span>
                 </div>
               </div>
               
               <Button 
                 className="w-full" 
                 size="lg"
-                disabled={cart.length === 0}
-                onClick={() => setIsPaymentModalOpen(true)}
+                disabled={cart.length === 0 || !currentShift}
+                onClick={() => openPayment()}
               >
-                Bayar - Rp {subtotal.toLocaleString('id-ID')}
+                Bayar - Rp {total.toLocaleString('id-ID')}
               </Button>
             </div>
           </div>
@@ -315,129 +906,172 @@ const POS = () => {
       </div>
       
       {/* Payment Modal */}
-      <Dialog open={isPaymentModalOpen} onOpenChange={setIsPaymentModalOpen}>
+      <PaymentDialog 
+        open={isPaymentModalOpen} 
+        onOpenChange={setIsPaymentModalOpen}
+        onCompleted={handlePaymentCompleted}
+        hotkeys={hotkeys}
+        initialMethod={paymentMethodHint}
+        onCheckoutChange={setCheckout}
+      />
+
+      <LayawayDialog
+        open={isLayawayDialogOpen}
+        onOpenChange={setIsLayawayDialogOpen}
+        onCreated={handleLayawayCreated}
+      />
+
+      <HotkeyCheatSheetDialog
+        open={isShortcutsOpen}
+        onOpenChange={setIsShortcutsOpen}
+        bindings={hotkeys}
+        onChange={handleHotkeysChange}
+        onReset={() => updatePreferences({ pos_hotkeys: {} })}
+      />
+
+      {/* Variant Picker */}
+      <VariantPickerDialog
+        parent={variantParent}
+        onOpenChange={(open) => !open && setVariantParent(null)}
+        onSelect={(variant) => handleSelectProduct(variant)}
+      />
+
+      <UnitPickerDialog
+        product={unitProduct}
+        onOpenChange={(open) => !open && setUnitProduct(null)}
+        onSelect={handleSelectUnit}
+      />
+
+      <QuantityKeypadDialog
+        item={keypadLine?.item ?? null}
+        onOpenChange={(open) => !open && setKeypadLine(null)}
+        onConfirm={handleKeypadConfirm}
+      />
+
+      <PriceOverrideDialog
+        item={priceLineIndex !== null ? cart[priceLineIndex] ?? null : null}
+        onOpenChange={(open) => !open && setPriceLineIndex(null)}
+        onConfirm={(price) => priceLineIndex !== null && handlePriceChange(priceLineIndex, price)}
+      />
+
+      {approvalDialog}
+
+      {/* Customer Picker */}
+      <CustomerPickerDialog
+        open={isCustomerPickerOpen}
+        onOpenChange={setIsCustomerPickerOpen}
+        onSelect={setCartCustomer}
+      />
+      
+      {/* Hold Order Dialog */}
+      <Dialog open={isHoldDialogOpen} onOpenChange={setIsHoldDialogOpen}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Pembayaran</DialogTitle>
+            <DialogTitle>Tahan Pesanan</DialogTitle>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
             <div>
-              <Label htmlFor="customerName">Nama Pelanggan (Opsional)</Label>
+              <Label htmlFor="holdLabel">Label Pesanan *</Label>
               <Input 
-                id="customerName" 
-                placeholder="Masukkan nama pelanggan" 
-                value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
+                id="holdLabel" 
+                placeholder="Contoh: Ibu baju merah" 
+                value={holdLabel}
+                onChange={(e) => setHoldLabel(e.target.value)}
               />
             </div>
             
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <Label htmlFor="subtotal">Subtotal</Label>
-                <Input 
-                  id="subtotal" 
-                  value={`Rp ${subtotal.toLocaleString('id-ID')}`}
-                  readOnly
-                  disabled
-                />
-              </div>
-              <div>
-                <Label htmlFor="discount">Diskon (Rp)</Label>
-                <Input 
-                  id="discount" 
-                  type="number"
-                  placeholder="0"
-                  value={discount}
-                  onChange={(e) => setDiscount(e.target.value)}
-                />
-              </div>
-            </div>
-            
             <div>
-              <Label htmlFor="total">Total</Label>
+              <Label htmlFor="holdCustomerName">Nama Pelanggan (Opsional)</Label>
               <Input 
-                id="total" 
-                className="text-lg font-bold"
-                value={`Rp ${total.toLocaleString('id-ID')}`}
-                readOnly
-                disabled
+                id="holdCustomerName" 
+                placeholder="Masukkan nama pelanggan" 
+                value={holdCustomerName}
+                onChange={(e) => setHoldCustomerName(e.target.value)}
               />
             </div>
             
-            <div>
-              <Label>Metode Pembayaran</Label>
-              <div className="grid grid-cols-3 gap-3 mt-2">
-                <Button 
-                  type="button" 
-                  variant={paymentMethod === 'cash' ? 'default' : 'outline'} 
-                  className={`flex flex-col items-center justify-center h-24 ${
-                    paymentMethod === 'cash' ? 'bg-pos-blue text-white' : ''
-                  }`}
-                  onClick={() => setPaymentMethod('cash')}
-                >
-                  <BanknoteIcon className="h-8 w-8 mb-2" />
-                  <span>Tunai</span>
-                </Button>
-                <Button 
-                  type="button" 
-                  variant={paymentMethod === 'card' ? 'default' : 'outline'} 
-                  className={`flex flex-col items-center justify-center h-24 ${
-                    paymentMethod === 'card' ? 'bg-pos-blue text-white' : ''
-                  }`}
-                  onClick={() => setPaymentMethod('card')}
-                >
-                  <CreditCard className="h-8 w-8 mb-2" />
-                  <span>Kartu</span>
-                </Button>
-                <Button 
-                  type="button" 
-                  variant={paymentMethod === 'e-wallet' ? 'default' : 'outline'} 
-                  className={`flex flex-col items-center justify-center h-24 ${
-                    paymentMethod === 'e-wallet' ? 'bg-pos-blue text-white' : ''
-                  }`}
-                  onClick={() => setPaymentMethod('e-wallet')}
-                >
-                  <Wallet className="h-8 w-8 mb-2" />
-                  <span>E-Wallet</span>
-                </Button>
-              </div>
+            <div className="text-sm text-gray-500">
+              {countItems(cart)} item - Rp {subtotal.toLocaleString('id-ID')}
             </div>
-            
-            {paymentMethod === 'cash' && (
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="amountPaid">Jumlah Pembayaran</Label>
-                  <Input 
-                    id="amountPaid" 
-                    type="number"
-                    placeholder="Masukkan jumlah pembayaran"
-                    value={amountPaid}
-                    onChange={(e) => setAmountPaid(e.target.value)}
-                  />
-                </div>
-                
-                {amountPaid && parseFloat(amountPaid) >= total && (
-                  <div>
-                    <Label htmlFor="change">Kembalian</Label>
-                    <Input 
-                      id="change" 
-                      className="text-lg font-bold"
-                      value={`Rp ${change.toLocaleString('id-ID')}`}
-                      readOnly
-                      disabled
-                    />
-                  </div>
-                )}
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsHoldDialogOpen(false)}>Batal</Button>
+            <Button onClick={handleHoldCart}>
+              <PauseCircle className="mr-2 h-4 w-4" /> Tahan Pesanan
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Held Orders Dialog */}
+      <Dialog open={isHeldOrdersDialogOpen} onOpenChange={setIsHeldOrdersDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Pesanan Ditahan</DialogTitle>
+          </DialogHeader>
+          
+          <div className="py-4 max-h-96 overflow-y-auto">
+            {heldOrders.length > 0 ? (
+              <div className="space-y-3">
+                {heldOrders.map(order => {
+                  const isStale = new Date(order.createdAt) < startOfToday;
+                  const orderTotal = order.items.reduce(
+                    (sum, item) => sum + getLineAmount(item), 
+                    0
+                  );
+                  
+                  return (
+                    <div 
+                      key={order.id} 
+                      className={`flex justify-between items-center border rounded-lg p-3 ${
+                        isStale ? 'border-amber-300 bg-amber-50' : ''
+                      }`}
+                    >
+                      <div className="flex-1">
+                        <div className="font-medium">{order.label}</div>
+                        {order.customerName && (
+                          <div className="text-sm text-gray-500">{order.customerName}</div>
+                        )}
+                        <div className="text-sm text-gray-500">
+                          {countItems(order.items)} item - Rp {orderTotal.toLocaleString('id-ID')}
+                        </div>
+                        <div className={`text-xs ${isStale ? 'text-amber-700' : 'text-gray-400'}`}>
+                          {new Date(order.createdAt).toLocaleString('id-ID')}
+                          {isStale && ' - belum diselesaikan'}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Button 
+                          size="sm" 
+                          onClick={() => handleResumeHeldOrder(order.id)}
+                        >
+                          Lanjutkan
+                        </Button>
+                        <Button 
+                          variant="ghost" 
+                          size="icon" 
+                          className="h-8 w-8 text-red-500 hover:text-red-700" 
+                          onClick={() => deleteHeldOrder(order.id)}
+                        >
+                          <Trash2 size={16} />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+                <ClipboardList size={48} className="mb-2 opacity-30" />
+                <p>Tidak ada pesanan yang ditahan.</p>
               </div>
             )}
           </div>
           
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsPaymentModalOpen(false)}>Batal</Button>
-            <Button onClick={handleCompletePayment}>
-              Selesaikan Pembayaran
-            </Button>
+            <Button variant="outline" onClick={() => setIsHeldOrdersDialogOpen(false)}>Tutup</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -460,7 +1094,7 @@ const POS = () => {
               <div className="border-t border-b py-2">
                 <div className="grid grid-cols-2 gap-2 text-sm">
                   <div>No. Transaksi:</div>
-                  <div className="text-right">{currentReceipt.id}</div>
+                  <div className="text-right">{getDocumentNumber(currentReceipt)}</div>
                   <div>Tanggal:</div>
                   <div className="text-right">
                     {new Date(currentReceipt.createdAt).toLocaleDateString('id-ID')}
@@ -490,9 +1124,12 @@ const POS = () => {
                   <div key={index} className="text-sm flex justify-between">
                     <div>
                       <div>{item.product.name}</div>
-                      <div className="text-gray-500">{item.quantity} x Rp {item.product.price.toLocaleString('id-ID')}</div>
+                      <div className="text-gray-500">
+                        {formatQuantity(item.product, item.quantity)}{(item.unit || item.product.soldByWeight) && ` ${getUnitLabel(item)}`} x Rp {getUnitPrice(item).toLocaleString('id-ID')}{item.product.soldByWeight && !item.unit && `/${getUnitLabel(item)}`}
+                        {getAppliedPriceTier(item) && ` (${formatPriceTier(getAppliedPriceTier(item))})`}
+                      </div>
                     </div>
-                    <div>Rp {(item.product.price * item.quantity).toLocaleString('id-ID')}</div>
+                    <div>Rp {getLineGross(item).toLocaleString('id-ID')}</div>
                   </div>
                 ))}
               </div>
@@ -502,12 +1139,42 @@ const POS = () => {
                   <span>Subtotal:</span>
                   <span>Rp {currentReceipt.subtotal.toLocaleString('id-ID')}</span>
                 </div>
+                {currentReceipt.promotions?.map((promotion: AppliedPromotion) => (
+                  <div key={promotion.promotionId} className="flex justify-between">
+                    <span>{promotion.name}:</span>
+                    <span>-Rp {promotion.amount.toLocaleString('id-ID')}</span>
+                  </div>
+                ))}
                 {currentReceipt.discount && (
                   <div className="flex justify-between">
                     <span>Diskon:</span>
                     <span>Rp {currentReceipt.discount.toLocaleString('id-ID')}</span>
                   </div>
                 )}
+                {currentReceipt.loyaltyDiscount > 0 && (
+                  <div className="flex justify-between">
+                    <span>Tukar {currentReceipt.loyaltyPointsRedeemed} Poin:</span>
+                    <span>-Rp {currentReceipt.loyaltyDiscount.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentReceipt.couponDiscount > 0 && (
+                  <div className="flex justify-between">
+                    <span>Kupon {currentReceipt.couponCode}:</span>
+                    <span>-Rp {currentReceipt.couponDiscount.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentReceipt.tax > 0 && (
+                  <div className="flex justify-between">
+                    <span>{getTaxLabel(currentReceipt.taxRate, currentReceipt.taxInclusive)}:</span>
+                    <span>Rp {currentReceipt.tax.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentReceipt.cashRounding && (
+                  <div className="flex justify-between">
+                    <span>Pembulatan:</span>
+                    <span>{currentReceipt.cashRounding > 0 ? '' : '-'}Rp {Math.abs(currentReceipt.cashRounding).toLocaleString('id-ID')}</span>
+                  </div>
+                )}
                 <div className="flex justify-between font-bold text-lg border-t pt-1">
                   <span>Total:</span>
                   <span>Rp {currentReceipt.total.toLocaleString('id-ID')}</span>
@@ -515,26 +1182,28 @@ const POS = () => {
               </div>
               
               <div className="space-y-1 text-sm">
-                <div className="flex justify-between">
-                  <span>Metode Pembayaran:</span>
-                  <span>
-                    {currentReceipt.paymentMethod === 'cash' ? 'Tunai' : 
-                     currentReceipt.paymentMethod === 'card' ? 'Kartu' : 'E-Wallet'}
-                  </span>
-                </div>
+                {currentReceipt.payments.map((payment: PaymentTender, index: number) => (
+                  <div key={index} className="flex justify-between">
+                    <span>
+                      {getPaymentMethodLabel(payment.method)}
+                      {payment.reference && ` (${payment.reference})`}:
+                    </span>
+                    <span>Rp {payment.amount.toLocaleString('id-ID')}</span>
+                  </div>
+                ))}
                 {currentReceipt.change !== undefined && (
-                  <>
-                    <div className="flex justify-between">
-                      <span>Dibayar:</span>
-                      <span>Rp {(currentReceipt.total + currentReceipt.change).toLocaleString('id-ID')}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Kembalian:</span>
-                      <span>Rp {currentReceipt.change.toLocaleString('id-ID')}</span>
-                    </div>
-                  </>
+                  <div className="flex justify-between">
+                    <span>Kembalian:</span>
+                    <span>Rp {currentReceipt.change.toLocaleString('id-ID')}</span>
+                  </div>
                 )}
               </div>
+
+              {currentReceipt.loyaltyPointsEarned > 0 && (
+                <div className="text-center text-sm">
+                  Poin didapat: {currentReceipt.loyaltyPointsEarned.toLocaleString('id-ID')}
+                </div>
+              )}
               
               <div className="text-center text-sm text-gray-500 pt-4 border-t">
                 <p>Terima kasih telah berbelanja</p>
@@ -551,6 +1220,14 @@ const POS = () => {
             >
               Tutup
             </Button>
+            <Button 
+              variant="outline" 
+              className="w-full"
+              title="Unduh berkas ESC/POS"
+              onClick={handleDownloadEscPos}
+            >
+              <Download className="mr-2 h-4 w-4" /> ESC/POS
+            </Button>
             <Button 
               className="w-full"
               onClick={handlePrintReceipt}
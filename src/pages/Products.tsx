@@ -3,7 +3,19 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import AppLayout from '@/components/layouts/AppLayout';
 import { useProducts } from '@/contexts/ProductContext';
-import { Product, Category } from '@/types';
+import { Product, Category, PriceTier, ProductUnit, ProductVariantInput, VariantOption } from '@/types';
+import { isEanCode, isValidEan } from '@/lib/barcode';
+import { normalizePriceTiers } from '@/lib/pricing';
+import { DEFAULT_BASE_UNIT, formatStockQuantity, normalizeProductUnits } from '@/lib/units';
+import {
+  formatPriceRange,
+  getVariantLabel,
+  getVariantPriceRange,
+  getVariantStock,
+  isVariantParent,
+  normalizeVariantOptions
+} from '@/lib/variants';
+import VariantEditor from '@/components/products/VariantEditor';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -29,7 +41,8 @@ import {
   Trash2,
   Edit,
   Box,
-  Package
+  Package,
+  X
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -41,6 +54,9 @@ const Products = () => {
     addProduct,
     updateProduct,
     deleteProduct,
+    getProductById,
+    getProductVariants,
+    saveProductVariants,
     addCategory,
     updateCategory,
     deleteCategory,
@@ -72,6 +88,10 @@ const Products = () => {
     description: '',
   });
   
+  const [hasVariants, setHasVariants] = useState(false);
+  const [variantOptions, setVariantOptions] = useState<VariantOption[]>([]);
+  const [variantRows, setVariantRows] = useState<ProductVariantInput[]>([]);
+  
   const [editingId, setEditingId] = useState<string | null>(null);
   const [deleteItem, setDeleteItem] = useState<{ id: string, type: 'product' | 'category', name: string } | null>(null);
   
@@ -82,16 +102,43 @@ const Products = () => {
     (product.barcode && product.barcode.includes(searchQuery))
   );
   
+  // Variants are listed right under their parent; a variant found on its own is listed alone
+  const displayedProducts = filteredProducts
+    .filter(product => !product.parentId || !filteredProducts.some(p => p.id === product.parentId))
+    .flatMap(product => [product, ...filteredProducts.filter(variant => variant.parentId === product.id)]);
+  
   // Filter categories based on search query
   const filteredCategories = categories.filter(category => 
     category.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
   
-  const handleOpenProductDialog = (product?: Product) => {
+  const handleOpenProductDialog = (selected?: Product) => {
+    // Variants are edited on their parent
+    const product = selected?.parentId ? getProductById(selected.parentId) || selected : selected;
+
     if (product) {
       setProductForm({ ...product });
       setEditingId(product.id);
+      setHasVariants(isVariantParent(product));
+      setVariantOptions(product.variantOptions || []);
+      setVariantRows(
+        getProductVariants(product.id)
+          .filter(variant => variant.isActive)
+          .map(variant => ({
+            id: variant.id,
+            variantAttributes: variant.variantAttributes || {},
+            sku: variant.sku,
+            barcode: variant.barcode,
+            price: variant.price,
+            cost: variant.cost,
+            stock: variant.stock,
+            isActive: variant.isActive,
+          }))
+      );
     } else {
+      setHasVariants(false);
+      setVariantOptions([]);
+      setVariantRows([]);
       setProductForm({
         name: '',
         description: '',
@@ -109,6 +156,60 @@ const Products = () => {
     setIsProductDialogOpen(true);
   };
   
+  // Stock already on the shelf can't be split between variants automatically
+  const canHaveVariants = !editingId || hasVariants || !productForm.stock;
+
+  const handleToggleVariants = (checked: boolean) => {
+    setHasVariants(checked);
+    if (checked && variantOptions.length === 0) {
+      setVariantOptions([{ name: 'Ukuran', values: [] }]);
+    }
+  };
+
+  const handleAddUnit = () => {
+    setProductForm({
+      ...productForm,
+      units: [...(productForm.units || []), { name: '', factor: 0 }],
+    });
+  };
+
+  const handleUpdateUnit = (index: number, changes: Partial<ProductUnit>) => {
+    setProductForm({
+      ...productForm,
+      units: (productForm.units || []).map((unit, i) => (i === index ? { ...unit, ...changes } : unit)),
+    });
+  };
+
+  const handleRemoveUnit = (index: number) => {
+    setProductForm({
+      ...productForm,
+      units: (productForm.units || []).filter((_, i) => i !== index),
+    });
+  };
+
+  const handleAddPriceTier = () => {
+    const tiers = productForm.priceTiers || [];
+    const last = tiers[tiers.length - 1];
+    setProductForm({
+      ...productForm,
+      priceTiers: [...tiers, { minQuantity: last ? last.minQuantity * 2 : 12, price: 0 }],
+    });
+  };
+
+  const handleUpdatePriceTier = (index: number, changes: Partial<PriceTier>) => {
+    setProductForm({
+      ...productForm,
+      priceTiers: (productForm.priceTiers || []).map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+    });
+  };
+
+  const handleRemovePriceTier = (index: number) => {
+    setProductForm({
+      ...productForm,
+      priceTiers: (productForm.priceTiers || []).filter((_, i) => i !== index),
+    });
+  };
+  
   const handleOpenCategoryDialog = (category?: Category) => {
     if (category) {
       setCategoryForm({ ...category });
@@ -117,6 +218,8 @@ const Products = () => {
       setCategoryForm({
         name: '',
         description: '',
+        taxExempt: false,
+        loyaltyMultiplier: 1,
       });
       setEditingId(null);
     }
@@ -128,11 +231,75 @@ const Products = () => {
       alert('Harap isi semua field yang diperlukan.');
       return;
     }
+
+    if (productForm.barcode && isEanCode(productForm.barcode) && !isValidEan(productForm.barcode)) {
+      alert('Digit pemeriksa barcode EAN tidak valid.');
+      return;
+    }
+
+    const baseUnit = productForm.baseUnit?.trim() || DEFAULT_BASE_UNIT;
+    let priceTiers: PriceTier[];
+    let units: ProductUnit[];
+    try {
+      priceTiers = normalizePriceTiers(productForm.priceTiers || [], productForm.price || 0);
+      units = normalizeProductUnits(productForm.units || [], baseUnit);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+      return;
+    }
+
+    const invalidUnit = units.find(unit => unit.barcode && isEanCode(unit.barcode) && !isValidEan(unit.barcode));
+    if (invalidUnit) {
+      alert(`Digit pemeriksa barcode EAN satuan ${invalidUnit.name} tidak valid.`);
+      return;
+    }
+
+    let options: VariantOption[] = [];
+    if (hasVariants) {
+      try {
+        options = normalizeVariantOptions(variantOptions);
+      } catch (error) {
+        toast.error(`Error: ${(error as Error).message}`);
+        return;
+      }
+
+      if (variantRows.length === 0) {
+        alert('Buat minimal satu varian.');
+        return;
+      }
+
+      const invalid = variantRows.find(variant =>
+        !variant.sku || variant.price <= 0 ||
+        (variant.barcode && isEanCode(variant.barcode) && !isValidEan(variant.barcode))
+      );
+      if (invalid) {
+        alert(`Periksa SKU, harga dan barcode varian ${getVariantLabel(invalid.variantAttributes)}.`);
+        return;
+      }
+    }
+
+    const productData = {
+      ...productForm,
+      priceTiers: !hasVariants && priceTiers.length > 0 ? priceTiers : undefined,
+      baseUnit: baseUnit === DEFAULT_BASE_UNIT ? undefined : baseUnit,
+      units: !hasVariants && units.length > 0 ? units : undefined,
+      soldByWeight: !hasVariants && productForm.soldByWeight ? true : undefined,
+      quantityPrecision: !hasVariants && productForm.soldByWeight ? productForm.quantityPrecision : undefined,
+      variantOptions: hasVariants ? options : undefined,
+      stock: hasVariants ? 0 : productForm.stock,
+    };
     
+    let saved: Product;
     if (editingId) {
-      updateProduct(editingId, productForm);
+      updateProduct(editingId, productData);
+      saved = { ...getProductById(editingId), ...productData } as Product;
     } else {
-      addProduct(productForm as Omit<Product, 'id' | 'createdAt' | 'updatedAt'>);
+      saved = addProduct(productData as Omit<Product, 'id' | 'createdAt' | 'updatedAt'>);
+    }
+
+    // Turning variants off retires the ones that existed
+    if (hasVariants || getProductVariants(saved.id).length > 0) {
+      saveProductVariants(saved, hasVariants ? variantRows : []);
     }
     
     setIsProductDialogOpen(false);
@@ -143,6 +310,11 @@ const Products = () => {
       alert('Harap isi nama kategori.');
       return;
     }
+
+    if (categoryForm.loyaltyMultiplier !== undefined && categoryForm.loyaltyMultiplier < 0) {
+      alert('Pengali poin tidak boleh negatif.');
+      return;
+    }
     
     if (editingId) {
       updateCategory(editingId, categoryForm);
@@ -236,25 +408,48 @@ const Products = () => {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
-                    {filteredProducts.length > 0 ? (
-                      filteredProducts.map((product) => {
+                    {displayedProducts.length > 0 ? (
+                      displayedProducts.map((product) => {
                         // Find the category name
                         const category = categories.find(c => c.id === product.categoryId);
+                        const isParent = isVariantParent(product);
+                        const isNested = product.parentId && displayedProducts.some(p => p.id === product.parentId);
+                        const stock = isParent ? getVariantStock(product, products) : product.stock;
                         return (
                           <tr key={product.id} className="hover:bg-gray-50">
-                            <td className="py-3 px-4">{product.name}</td>
+                            <td className="py-3 px-4">
+                              {isNested ? (
+                                <span className="pl-4 text-gray-600">↳ {getVariantLabel(product.variantAttributes)}</span>
+                              ) : (
+                                product.name
+                              )}
+                              {isParent && (
+                                <div className="text-xs text-gray-500">
+                                  {product.variantOptions.map(option => option.name).join(', ')}
+                                </div>
+                              )}
+                            </td>
                             <td className="py-3 px-4">{product.sku}</td>
                             <td className="py-3 px-4">{category?.name || 'Unknown'}</td>
-                            <td className="py-3 px-4">Rp {product.price.toLocaleString('id-ID')}</td>
+                            <td className="py-3 px-4">
+                              {isParent
+                                ? formatPriceRange(getVariantPriceRange(product, products))
+                                : `Rp ${product.price.toLocaleString('id-ID')}`}
+                              {product.priceTiers && product.priceTiers.length > 0 && (
+                                <div className="text-xs text-gray-500">
+                                  {product.priceTiers.length} harga grosir
+                                </div>
+                              )}
+                            </td>
                             <td className="py-3 px-4" onClick={() => handleStockManagement(product.id)}>
                               <span className={`
                                 cursor-pointer hover:underline
-                                ${product.stock <= product.lowStockThreshold
+                                ${!isParent && stock <= product.lowStockThreshold
                                   ? 'text-red-500 font-medium'
                                   : ''
                                 }
                               `}>
-                                {product.stock}
+                                {isParent ? stock : formatStockQuantity(product, stock)}
                               </span>
                             </td>
                             <td className="py-3 px-4">
@@ -324,6 +519,8 @@ const Products = () => {
                     <tr>
                       <th className="py-3 px-4 text-left">Nama</th>
                       <th className="py-3 px-4 text-left">Deskripsi</th>
+                      <th className="py-3 px-4 text-left">Pajak</th>
+                      <th className="py-3 px-4 text-left">Poin</th>
                       <th className="py-3 px-4 text-center">Aksi</th>
                     </tr>
                   </thead>
@@ -333,6 +530,18 @@ const Products = () => {
                         <tr key={category.id} className="hover:bg-gray-50">
                           <td className="py-3 px-4">{category.name}</td>
                           <td className="py-3 px-4">{category.description}</td>
+                          <td className="py-3 px-4">
+                            {category.taxExempt ? (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                                Bebas PPN
+                              </span>
+                            ) : (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                Kena PPN
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">{category.loyaltyMultiplier ?? 1}x</td>
                           <td className="py-3 px-4">
                             <div className="flex justify-center space-x-2">
                               <Button 
@@ -363,7 +572,7 @@ const Products = () => {
                       ))
                     ) : (
                       <tr>
-                        <td colSpan={3} className="py-6 text-center text-gray-500">
+                        <td colSpan={5} className="py-6 text-center text-gray-500">
                           <Box className="mx-auto mb-2 h-12 w-12 text-gray-400" />
                           <p>Tidak ada kategori yang ditemukan.</p>
                           <Button 
@@ -386,7 +595,7 @@ const Products = () => {
       
       {/* Product Dialog */}
       <Dialog open={isProductDialogOpen} onOpenChange={setIsProductDialogOpen}>
-        <DialogContent className="max-w-md">
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingId ? 'Edit Produk' : 'Tambah Produk'}</DialogTitle>
           </DialogHeader>
@@ -427,7 +636,7 @@ const Products = () => {
                 <Label htmlFor="product-barcode">Barcode</Label>
                 <Input 
                   id="product-barcode" 
-                  placeholder="Masukkan barcode" 
+                  placeholder="EAN-13/EAN-8 atau kode timbang 5 digit" 
                   value={productForm.barcode || ''}
                   onChange={(e) => setProductForm({ ...productForm, barcode: e.target.value })}
                 />
@@ -484,25 +693,175 @@ const Products = () => {
                 />
               </div>
             </div>
+
+            {!hasVariants && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Harga Grosir</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={handleAddPriceTier}>
+                    <Plus size={14} className="mr-1" /> Tambah
+                  </Button>
+                </div>
+                {productForm.priceTiers && productForm.priceTiers.length > 0 ? (
+                  <div className="space-y-2">
+                    {productForm.priceTiers.map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min="2"
+                          aria-label="Jumlah minimal"
+                          value={tier.minQuantity || ''}
+                          onChange={(e) => handleUpdatePriceTier(index, { minQuantity: parseFloat(e.target.value) || 0 })}
+                          className="w-24"
+                        />
+                        <span className="text-sm text-gray-500 whitespace-nowrap">ke atas @ Rp</span>
+                        <Input
+                          type="number"
+                          min="0"
+                          aria-label="Harga satuan"
+                          value={tier.price || ''}
+                          onChange={(e) => handleUpdatePriceTier(index, { price: parseFloat(e.target.value) || 0 })}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          onClick={() => handleRemovePriceTier(index)}
+                        >
+                          <X size={14} />
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Harga jual berlaku di bawah jumlah grosir terkecil.
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">Belum ada harga grosir</p>
+                )}
+              </div>
+            )}
+
+            {!hasVariants && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Satuan & Kemasan</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={handleAddUnit}>
+                    <Plus size={14} className="mr-1" /> Tambah
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-500 whitespace-nowrap">Satuan dasar</span>
+                  <Input
+                    aria-label="Satuan dasar"
+                    placeholder={productForm.soldByWeight ? 'kg' : DEFAULT_BASE_UNIT}
+                    value={productForm.baseUnit || ''}
+                    onChange={(e) => setProductForm({ ...productForm, baseUnit: e.target.value })}
+                    className="w-24"
+                  />
+                </div>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="product-sold-by-weight"
+                      checked={productForm.soldByWeight || false}
+                      onChange={(e) => setProductForm({
+                        ...productForm,
+                        soldByWeight: e.target.checked,
+                        baseUnit: e.target.checked && !productForm.baseUnit ? 'kg' : productForm.baseUnit,
+                      })}
+                      className="h-4 w-4 rounded border-gray-300 text-pos-blue focus:ring-pos-blue"
+                    />
+                    <Label htmlFor="product-sold-by-weight">Dijual per timbang (kg, liter)</Label>
+                  </div>
+                  {productForm.soldByWeight && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-500 whitespace-nowrap">Desimal</span>
+                      <select
+                        aria-label="Jumlah angka desimal"
+                        value={productForm.quantityPrecision ?? 3}
+                        onChange={(e) => setProductForm({ ...productForm, quantityPrecision: parseInt(e.target.value) })}
+                        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                      >
+                        <option value={1}>0,1</option>
+                        <option value={2}>0,01</option>
+                        <option value={3}>0,001</option>
+                      </select>
+                    </div>
+                  )}
+                </div>
+                {productForm.units && productForm.units.length > 0 && (
+                  <div className="space-y-2">
+                    {productForm.units.map((unit, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_4.5rem_1fr_1fr_2rem] items-center gap-2">
+                        <Input
+                          placeholder="dus"
+                          aria-label="Nama satuan"
+                          value={unit.name}
+                          onChange={(e) => handleUpdateUnit(index, { name: e.target.value })}
+                        />
+                        <Input
+                          type="number"
+                          min="2"
+                          placeholder="Isi"
+                          aria-label="Isi dalam satuan dasar"
+                          value={unit.factor || ''}
+                          onChange={(e) => handleUpdateUnit(index, { factor: parseFloat(e.target.value) || 0 })}
+                        />
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="Harga jual"
+                          aria-label="Harga jual satuan"
+                          value={unit.price || ''}
+                          onChange={(e) => handleUpdateUnit(index, { price: parseFloat(e.target.value) || undefined })}
+                        />
+                        <Input
+                          placeholder="Barcode"
+                          aria-label="Barcode satuan"
+                          value={unit.barcode || ''}
+                          onChange={(e) => handleUpdateUnit(index, { barcode: e.target.value })}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleRemoveUnit(index)}
+                        >
+                          <X size={14} />
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Isi dihitung dalam satuan dasar. Kosongkan harga jual untuk satuan yang hanya dipakai saat pembelian.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
             
             <div className="grid grid-cols-2 gap-4">
-              {!editingId && (
+              {!editingId && !hasVariants && (
                 <div className="space-y-2">
                   <Label htmlFor="product-stock">Stok Awal *</Label>
                   <Input 
                     id="product-stock" 
                     type="number"
+                    step={productForm.soldByWeight ? 'any' : undefined}
                     placeholder="0" 
                     value={productForm.stock || ''}
                     onChange={(e) => setProductForm({ 
                       ...productForm, 
-                      stock: parseInt(e.target.value) || 0
+                      stock: (productForm.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0
                     })}
                   />
                 </div>
               )}
               
-              {editingId && (
+              {editingId && !hasVariants && (
                 <div className="space-y-2">
                   <Label htmlFor="product-stock">Stok Saat Ini</Label>
                   <div className="flex items-center">
@@ -537,16 +896,47 @@ const Products = () => {
                 <Input 
                   id="product-threshold" 
                   type="number"
+                  step={productForm.soldByWeight ? 'any' : undefined}
                   placeholder="0" 
                   value={productForm.lowStockThreshold || ''}
                   onChange={(e) => setProductForm({ 
                     ...productForm, 
-                    lowStockThreshold: parseInt(e.target.value) || 0
+                    lowStockThreshold: (productForm.soldByWeight ? parseFloat(e.target.value) : parseInt(e.target.value)) || 0
                   })}
                 />
               </div>
             </div>
             
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="product-has-variants"
+                  checked={hasVariants}
+                  disabled={!canHaveVariants}
+                  onChange={(e) => handleToggleVariants(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-pos-blue focus:ring-pos-blue"
+                />
+                <Label htmlFor="product-has-variants">Produk memiliki varian (ukuran, warna, rasa)</Label>
+              </div>
+              {!canHaveVariants && (
+                <p className="text-xs text-gray-500">
+                  Kosongkan stok produk ini terlebih dahulu untuk membaginya menjadi varian.
+                </p>
+              )}
+              {hasVariants && (
+                <VariantEditor
+                  options={variantOptions}
+                  variants={variantRows}
+                  defaultPrice={productForm.price || 0}
+                  defaultCost={productForm.cost || 0}
+                  skuPrefix={productForm.sku || ''}
+                  onOptionsChange={setVariantOptions}
+                  onVariantsChange={setVariantRows}
+                />
+              )}
+            </div>
+
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -593,6 +983,34 @@ const Products = () => {
                 onChange={(e) => setCategoryForm({ ...categoryForm, description: e.target.value })}
               />
             </div>
+            
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="category-tax-exempt"
+                checked={categoryForm.taxExempt || false}
+                onChange={(e) => setCategoryForm({ ...categoryForm, taxExempt: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-pos-blue focus:ring-pos-blue"
+              />
+              <Label htmlFor="category-tax-exempt">Bebas PPN</Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-loyalty-multiplier">Pengali Poin Loyalitas</Label>
+              <Input 
+                id="category-loyalty-multiplier" 
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="1"
+                value={categoryForm.loyaltyMultiplier ?? ''}
+                onChange={(e) => setCategoryForm({
+                  ...categoryForm,
+                  loyaltyMultiplier: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                })}
+              />
+              <p className="text-xs text-gray-500">Contoh: 2 berarti produk kategori ini mendapat poin dua kali lipat, 0 berarti tidak mendapat poin.</p>
+            </div>
           </div>
           
           <DialogFooter>
@@ -0,0 +1,588 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { usePromotions } from '@/contexts/PromotionContext';
+import { useProducts } from '@/contexts/ProductContext';
+import { Promotion, PromotionType } from '@/types';
+import { isPromotionActive, PROMOTION_TYPE_LABELS } from '@/lib/promotions';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Search,
+  Plus,
+  Trash2,
+  Edit,
+  Power,
+  Tag
+} from "lucide-react";
+import { toast } from "sonner";
+
+const DAY_LABELS = ['Min', 'Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab'];
+
+type PromotionForm = Omit<Promotion, 'id' | 'createdAt' | 'updatedAt'>;
+
+const emptyForm: PromotionForm = {
+  name: '',
+  description: '',
+  type: 'buy_x_get_y',
+  productIds: [],
+  categoryId: '',
+  buyQuantity: 2,
+  getQuantity: 1,
+  bundleQuantity: 2,
+  bundlePrice: 0,
+  percentage: 0,
+  minimumSpend: 0,
+  discountAmount: 0,
+  startDate: '',
+  endDate: '',
+  daysOfWeek: [],
+  startTime: '',
+  endTime: '',
+  isActive: true,
+};
+
+const Promotions = () => {
+  const { promotions, addPromotion, updatePromotion, deletePromotion } = usePromotions();
+  const { products, categories } = useProducts();
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteItem, setDeleteItem] = useState<Promotion | null>(null);
+
+  const filteredPromotions = promotions.filter(promotion =>
+    promotion.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const handleOpenDialog = (promotion?: Promotion) => {
+    if (promotion) {
+      setForm({ ...emptyForm, ...promotion });
+      setEditingId(promotion.id);
+    } else {
+      setForm(emptyForm);
+      setEditingId(null);
+    }
+    setIsDialogOpen(true);
+  };
+
+  const toggleProduct = (productId: string) => {
+    const productIds = form.productIds || [];
+    setForm({
+      ...form,
+      productIds: productIds.includes(productId)
+        ? productIds.filter(id => id !== productId)
+        : [...productIds, productId],
+    });
+  };
+
+  const toggleDay = (day: number) => {
+    const days = form.daysOfWeek || [];
+    setForm({
+      ...form,
+      daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort(),
+    });
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      toast.error('Nama promo harus diisi');
+      return;
+    }
+
+    if ((form.type === 'buy_x_get_y' || form.type === 'bundle_price') && (form.productIds || []).length === 0) {
+      toast.error('Pilih minimal satu produk untuk promo ini');
+      return;
+    }
+
+    if (form.type === 'category_percentage' && !form.categoryId) {
+      toast.error('Pilih kategori untuk promo ini');
+      return;
+    }
+
+    if (form.type === 'minimum_spend' && !form.discountAmount && !form.percentage) {
+      toast.error('Isi potongan harga atau persentase diskon');
+      return;
+    }
+
+    if (form.startDate && form.endDate && form.startDate > form.endDate) {
+      toast.error('Tanggal mulai tidak boleh setelah tanggal berakhir');
+      return;
+    }
+
+    // Drop empty optional fields so they don't constrain the schedule
+    const promotionData: PromotionForm = {
+      ...form,
+      name: form.name.trim(),
+      startDate: form.startDate || undefined,
+      endDate: form.endDate || undefined,
+      startTime: form.startTime || undefined,
+      endTime: form.endTime || undefined,
+    };
+
+    if (editingId) {
+      updatePromotion(editingId, promotionData);
+    } else {
+      addPromotion(promotionData);
+    }
+
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = () => {
+    if (!deleteItem) return;
+
+    deletePromotion(deleteItem.id);
+    setIsDeleteDialogOpen(false);
+    setDeleteItem(null);
+  };
+
+  const describeRule = (promotion: Promotion) => {
+    const productNames = (promotion.productIds || [])
+      .map(id => products.find(p => p.id === id)?.name)
+      .filter(Boolean)
+      .join(', ');
+
+    switch (promotion.type) {
+      case 'buy_x_get_y':
+        return `Beli ${promotion.buyQuantity} gratis ${promotion.getQuantity}: ${productNames}`;
+      case 'bundle_price':
+        return `${promotion.bundleQuantity} item Rp ${(promotion.bundlePrice || 0).toLocaleString('id-ID')}: ${productNames}`;
+      case 'category_percentage':
+        return `${promotion.percentage}% ${categories.find(c => c.id === promotion.categoryId)?.name || ''}`;
+      case 'minimum_spend':
+        return `Min. Rp ${(promotion.minimumSpend || 0).toLocaleString('id-ID')}, potongan ${
+          promotion.discountAmount
+            ? `Rp ${promotion.discountAmount.toLocaleString('id-ID')}`
+            : `${promotion.percentage}%`
+        }`;
+      default:
+        return '-';
+    }
+  };
+
+  const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.startDate || promotion.endDate) {
+      parts.push(`${promotion.startDate || '...'} s/d ${promotion.endDate || '...'}`);
+    }
+    if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0) {
+      parts.push(promotion.daysOfWeek.map(day => DAY_LABELS[day]).join(', '));
+    }
+    if (promotion.startTime || promotion.endTime) {
+      parts.push(`${promotion.startTime || '00:00'} - ${promotion.endTime || '24:00'}`);
+    }
+    return parts.length > 0 ? parts.join(' | ') : 'Setiap saat';
+  };
+
+  const renderStatus = (promotion: Promotion) => {
+    if (!promotion.isActive) {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+          Nonaktif
+        </span>
+      );
+    }
+
+    return isPromotionActive(promotion) ? (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+        Berjalan
+      </span>
+    ) : (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+        Terjadwal
+      </span>
+    );
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold">Manajemen Promo</h1>
+
+          <Button onClick={() => handleOpenDialog()}>
+            <Plus className="mr-2 h-4 w-4" /> Tambah Promo
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+          <Input
+            type="text"
+            placeholder="Cari promo..."
+            className="pl-10"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-100 text-gray-700">
+                <tr>
+                  <th className="py-3 px-4 text-left">Nama</th>
+                  <th className="py-3 px-4 text-left">Tipe</th>
+                  <th className="py-3 px-4 text-left">Aturan</th>
+                  <th className="py-3 px-4 text-left">Jadwal</th>
+                  <th className="py-3 px-4 text-left">Status</th>
+                  <th className="py-3 px-4 text-center">Aksi</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredPromotions.length > 0 ? (
+                  filteredPromotions.map((promotion) => (
+                    <tr key={promotion.id} className="hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium">{promotion.name}</td>
+                      <td className="py-3 px-4">{PROMOTION_TYPE_LABELS[promotion.type]}</td>
+                      <td className="py-3 px-4 text-sm">{describeRule(promotion)}</td>
+                      <td className="py-3 px-4 text-sm">{describeSchedule(promotion)}</td>
+                      <td className="py-3 px-4">{renderStatus(promotion)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex justify-center space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={promotion.isActive ? 'Nonaktifkan' : 'Aktifkan'}
+                            onClick={() => updatePromotion(promotion.id, { isActive: !promotion.isActive })}
+                          >
+                            <Power size={16} className={promotion.isActive ? 'text-green-600' : 'text-gray-400'} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleOpenDialog(promotion)}
+                          >
+                            <Edit size={16} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-500 hover:text-red-700"
+                            onClick={() => {
+                              setDeleteItem(promotion);
+                              setIsDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 size={16} />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-gray-500">
+                      <Tag className="mx-auto mb-2 h-12 w-12 text-gray-400" />
+                      <p>Tidak ada promo yang ditemukan.</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Promotion Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Promo' : 'Tambah Promo'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-name">Nama Promo *</Label>
+              <Input
+                id="promo-name"
+                placeholder="Contoh: Beli 2 Gratis 1"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="promo-type">Tipe Promo *</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm({ ...form, type: value as PromotionType })}
+              >
+                <SelectTrigger id="promo-type">
+                  <SelectValue placeholder="Pilih tipe promo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                    <SelectItem key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.type === 'buy_x_get_y' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-buy">Jumlah Beli *</Label>
+                  <Input
+                    id="promo-buy"
+                    type="number"
+                    min="1"
+                    value={form.buyQuantity || ''}
+                    onChange={(e) => setForm({ ...form, buyQuantity: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-get">Jumlah Gratis *</Label>
+                  <Input
+                    id="promo-get"
+                    type="number"
+                    min="1"
+                    value={form.getQuantity || ''}
+                    onChange={(e) => setForm({ ...form, getQuantity: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {form.type === 'bundle_price' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-bundle-qty">Jumlah per Paket *</Label>
+                  <Input
+                    id="promo-bundle-qty"
+                    type="number"
+                    min="1"
+                    value={form.bundleQuantity || ''}
+                    onChange={(e) => setForm({ ...form, bundleQuantity: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-bundle-price">Harga Paket *</Label>
+                  <Input
+                    id="promo-bundle-price"
+                    type="number"
+                    value={form.bundlePrice || ''}
+                    onChange={(e) => setForm({ ...form, bundlePrice: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {(form.type === 'buy_x_get_y' || form.type === 'bundle_price') && (
+              <div className="space-y-2">
+                <Label>Produk *</Label>
+                <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-1">
+                  {products.filter(p => p.isActive).map(product => (
+                    <label key={product.id} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={(form.productIds || []).includes(product.id)}
+                        onChange={() => toggleProduct(product.id)}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      <span>{product.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {form.type === 'category_percentage' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-category">Kategori *</Label>
+                  <Select
+                    value={form.categoryId || ''}
+                    onValueChange={(value) => setForm({ ...form, categoryId: value })}
+                  >
+                    <SelectTrigger id="promo-category">
+                      <SelectValue placeholder="Pilih kategori" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        {categories.map(category => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-percentage">Diskon (%) *</Label>
+                  <Input
+                    id="promo-percentage"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={form.percentage || ''}
+                    onChange={(e) => setForm({ ...form, percentage: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {form.type === 'minimum_spend' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-min-spend">Minimal Belanja (Rp) *</Label>
+                  <Input
+                    id="promo-min-spend"
+                    type="number"
+                    value={form.minimumSpend || ''}
+                    onChange={(e) => setForm({ ...form, minimumSpend: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="promo-amount">Potongan (Rp)</Label>
+                    <Input
+                      id="promo-amount"
+                      type="number"
+                      value={form.discountAmount || ''}
+                      onChange={(e) => setForm({ ...form, discountAmount: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="promo-min-percentage">atau Diskon (%)</Label>
+                    <Input
+                      id="promo-min-percentage"
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={form.percentage || ''}
+                      onChange={(e) => setForm({ ...form, percentage: parseFloat(e.target.value) || 0 })}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            <div className="border-t pt-4 space-y-4">
+              <Label className="text-base">Jadwal</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-start-date">Tanggal Mulai</Label>
+                  <Input
+                    id="promo-start-date"
+                    type="date"
+                    value={form.startDate || ''}
+                    onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-end-date">Tanggal Berakhir</Label>
+                  <Input
+                    id="promo-end-date"
+                    type="date"
+                    value={form.endDate || ''}
+                    onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Hari Berlaku</Label>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={(form.daysOfWeek || []).includes(day) ? 'default' : 'outline'}
+                      onClick={() => toggleDay(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">Kosongkan untuk berlaku setiap hari</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-start-time">Jam Mulai</Label>
+                  <Input
+                    id="promo-start-time"
+                    type="time"
+                    value={form.startTime || ''}
+                    onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-end-time">Jam Berakhir</Label>
+                  <Input
+                    id="promo-end-time"
+                    type="time"
+                    value={form.endTime || ''}
+                    onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="promo-active"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-pos-blue focus:ring-pos-blue"
+              />
+              <Label htmlFor="promo-active">Aktif</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Batal</Button>
+            <Button onClick={handleSave}>{editingId ? 'Perbarui' : 'Simpan'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Konfirmasi Hapus</DialogTitle>
+          </DialogHeader>
+
+          <div className="py-4">
+            <p>
+              Apakah Anda yakin ingin menghapus promo <span className="font-medium">{deleteItem?.name}</span>?
+            </p>
+            <p className="text-gray-500 mt-2 text-sm">
+              Riwayat promo pada transaksi yang sudah selesai tetap tersimpan.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>Batal</Button>
+            <Button variant="destructive" onClick={handleDelete}>Hapus</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default Promotions;
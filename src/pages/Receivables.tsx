@@ -0,0 +1,414 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { useCustomers } from '@/contexts/CustomerContext';
+import { useCredit } from '@/contexts/CreditContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { Customer, PaymentMethod } from '@/types';
+import { COUNTER_PAYMENT_METHODS, getPaymentMethodLabel, PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import { AGING_BUCKET_LABELS, CREDIT_ENTRY_LABELS, CreditAging, getCreditAging, getDaysOutstanding, getOldestOpenCharge } from '@/lib/credit';
+import { buildCreditStatementLines, printLines } from '@/lib/receipt';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Download,
+  HandCoins,
+  History,
+  Printer,
+  Search
+} from "lucide-react";
+import { toast } from "sonner";
+
+interface ReceivableRow {
+  customer: Customer;
+  aging: CreditAging;
+  oldestDays: number;
+}
+
+const AGING_BUCKETS = Object.keys(AGING_BUCKET_LABELS) as Array<keyof typeof AGING_BUCKET_LABELS>;
+
+const Receivables = () => {
+  const { customers } = useCustomers();
+  const { ledger, getCreditBalance, getCustomerCreditLedger, recordRepayment } = useCredit();
+  const { settings } = useSettings();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [repaymentCustomer, setRepaymentCustomer] = useState<Customer | null>(null);
+  const [repaymentAmount, setRepaymentAmount] = useState('');
+  const [repaymentMethod, setRepaymentMethod] = useState<PaymentMethod>('cash');
+  const [repaymentReference, setRepaymentReference] = useState('');
+  const [repaymentNotes, setRepaymentNotes] = useState('');
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+
+  const now = new Date();
+
+  // Anyone who may buy on kasbon or still owes something
+  const rows: ReceivableRow[] = customers
+    .filter(customer => (customer.credit_limit || 0) > 0 || getCreditBalance(customer.id) !== 0)
+    .filter(customer =>
+      customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (customer.phone || '').includes(searchTerm)
+    )
+    .map(customer => {
+      const oldest = getOldestOpenCharge(ledger, customer.id);
+      return {
+        customer,
+        aging: getCreditAging(ledger, customer.id, now),
+        oldestDays: oldest ? getDaysOutstanding(oldest, now) : 0,
+      };
+    })
+    .sort((a, b) => b.aging.total - a.aging.total);
+
+  const totals = rows.reduce<CreditAging>(
+    (sum, row) => ({
+      current: sum.current + row.aging.current,
+      days31to60: sum.days31to60 + row.aging.days31to60,
+      over60: sum.over60 + row.aging.over60,
+      total: sum.total + row.aging.total,
+    }),
+    { current: 0, days31to60: 0, over60: 0, total: 0 }
+  );
+
+  const exportToCSV = (filename: string, data: Array<Record<string, string | number>>) => {
+    if (data.length === 0) {
+      alert('No data to export');
+      return;
+    }
+
+    const headers = Object.keys(data[0]);
+    const csvContent = [
+      headers.join(','),
+      ...data.map(row => headers.map(header => {
+        const cell = row[header];
+        const cellStr = cell === null || cell === undefined ? '' : String(cell);
+        return `"${cellStr.replace(/"/g, '""')}"`;
+      }).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.setAttribute('download', `${filename}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const getAgingReportCSV = () => {
+    const data = rows.map(row => ({
+      'Pelanggan': row.customer.name,
+      'Telepon': row.customer.phone || '',
+      'Limit (Rp)': row.customer.credit_limit || 0,
+      [`${AGING_BUCKET_LABELS.current} (Rp)`]: row.aging.current,
+      [`${AGING_BUCKET_LABELS.days31to60} (Rp)`]: row.aging.days31to60,
+      [`${AGING_BUCKET_LABELS.over60} (Rp)`]: row.aging.over60,
+      'Total (Rp)': row.aging.total,
+      'Umur Tertua (hari)': row.oldestDays,
+    }));
+    exportToCSV(`umur-piutang-${now.toISOString().split('T')[0]}`, data);
+  };
+
+  const printStatement = async (customer: Customer) => {
+    try {
+      await printLines(
+        buildCreditStatementLines(customer, getCustomerCreditLedger(customer.id), getCreditAging(ledger, customer.id), settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Rekening Kasbon - ${customer.name}`
+      );
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenRepayment = (customer: Customer) => {
+    setRepaymentCustomer(customer);
+    setRepaymentAmount(getCreditBalance(customer.id).toString());
+    setRepaymentMethod('cash');
+    setRepaymentReference('');
+    setRepaymentNotes('');
+  };
+
+  const handleRecordRepayment = () => {
+    if (!repaymentCustomer) return;
+
+    const amount = parseFloat(repaymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      toast.error('Jumlah pembayaran tidak valid');
+      return;
+    }
+
+    try {
+      recordRepayment({
+        customerId: repaymentCustomer.id,
+        amount,
+        method: repaymentMethod,
+        reference: repaymentReference.trim() || undefined,
+        notes: repaymentNotes.trim() || undefined,
+      });
+      setRepaymentCustomer(null);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const historyEntries = historyCustomer ? getCustomerCreditLedger(historyCustomer.id) : [];
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <h1 className="text-2xl font-bold">Kasbon Pelanggan</h1>
+          <Button variant="outline" onClick={getAgingReportCSV}>
+            <Download className="mr-2 h-4 w-4" /> Ekspor CSV
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Total Kasbon</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-blue-600">Rp {totals.total.toLocaleString('id-ID')}</div>
+            </CardContent>
+          </Card>
+          {AGING_BUCKETS.map(bucket => (
+            <Card key={bucket}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm text-muted-foreground">{AGING_BUCKET_LABELS[bucket]}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${bucket === 'over60' && totals.over60 > 0 ? 'text-red-500' : ''}`}>
+                  Rp {totals[bucket].toLocaleString('id-ID')}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Umur Piutang</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative max-w-sm">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+              <Input
+                placeholder="Cari nama atau telepon..."
+                className="pl-8"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+
+            <div className="table-container">
+              <table className="pos-table">
+                <thead>
+                  <tr>
+                    <th>Pelanggan</th>
+                    <th>Limit</th>
+                    {AGING_BUCKETS.map(bucket => (
+                      <th key={bucket}>{AGING_BUCKET_LABELS[bucket]}</th>
+                    ))}
+                    <th>Total</th>
+                    <th>Umur Tertua</th>
+                    <th>Aksi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.length > 0 ? (
+                    rows.map(({ customer, aging, oldestDays }) => (
+                      <tr key={customer.id}>
+                        <td>
+                          <div className="font-medium">{customer.name}</div>
+                          {customer.phone && <div className="text-xs text-gray-500">{customer.phone}</div>}
+                        </td>
+                        <td>Rp {(customer.credit_limit || 0).toLocaleString('id-ID')}</td>
+                        {AGING_BUCKETS.map(bucket => (
+                          <td key={bucket} className={bucket === 'over60' && aging.over60 > 0 ? 'text-red-500' : ''}>
+                            Rp {aging[bucket].toLocaleString('id-ID')}
+                          </td>
+                        ))}
+                        <td className="font-semibold">Rp {getCreditBalance(customer.id).toLocaleString('id-ID')}</td>
+                        <td>{aging.total > 0 ? `${oldestDays} hari` : '-'}</td>
+                        <td className="whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Catat Pembayaran"
+                            disabled={getCreditBalance(customer.id) <= 0}
+                            onClick={() => handleOpenRepayment(customer)}
+                          >
+                            <HandCoins size={16} />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Riwayat" onClick={() => setHistoryCustomer(customer)}>
+                            <History size={16} />
+                          </Button>
+                          <Button variant="ghost" size="sm" title="Cetak Rekening" onClick={() => printStatement(customer)}>
+                            <Printer size={16} />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={8} className="text-center py-4 text-muted-foreground">
+                        Belum ada pelanggan dengan kasbon
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Repayment Dialog */}
+      <Dialog open={!!repaymentCustomer} onOpenChange={(open) => !open && setRepaymentCustomer(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Pembayaran Kasbon - {repaymentCustomer?.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="flex justify-between bg-gray-50 p-3 rounded-md">
+              <span className="text-gray-600">Sisa Kasbon</span>
+              <span className="font-bold">
+                Rp {repaymentCustomer ? getCreditBalance(repaymentCustomer.id).toLocaleString('id-ID') : 0}
+              </span>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="repayment-amount">Jumlah (Rp)</Label>
+              <Input
+                id="repayment-amount"
+                type="number"
+                min="0"
+                value={repaymentAmount}
+                onChange={(e) => setRepaymentAmount(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="repayment-method">Metode Pembayaran</Label>
+              <Select
+                value={repaymentMethod}
+                onValueChange={(value) => setRepaymentMethod(value as PaymentMethod)}
+              >
+                <SelectTrigger id="repayment-method">
+                  <SelectValue placeholder="Pilih metode pembayaran" />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTER_PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {repaymentMethod !== 'cash' && (
+              <div className="space-y-2">
+                <Label htmlFor="repayment-reference">No. Referensi</Label>
+                <Input
+                  id="repayment-reference"
+                  placeholder="Opsional"
+                  value={repaymentReference}
+                  onChange={(e) => setRepaymentReference(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="repayment-notes">Catatan</Label>
+              <Input
+                id="repayment-notes"
+                placeholder="Opsional"
+                value={repaymentNotes}
+                onChange={(e) => setRepaymentNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRepaymentCustomer(null)}>Batal</Button>
+            <Button onClick={handleRecordRepayment}>Simpan Pembayaran</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Credit History Dialog */}
+      <Dialog open={!!historyCustomer} onOpenChange={(open) => !open && setHistoryCustomer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Riwayat Kasbon - {historyCustomer?.name}</DialogTitle>
+          </DialogHeader>
+
+          <div className="table-container max-h-96 overflow-y-auto">
+            <table className="pos-table">
+              <thead>
+                <tr>
+                  <th>Tanggal</th>
+                  <th>Jenis</th>
+                  <th>Keterangan</th>
+                  <th>Jumlah</th>
+                </tr>
+              </thead>
+              <tbody>
+                {historyEntries.length > 0 ? (
+                  [...historyEntries].reverse().map(entry => (
+                    <tr key={entry.id}>
+                      <td>{new Date(entry.createdAt).toLocaleString('id-ID')}</td>
+                      <td>{CREDIT_ENTRY_LABELS[entry.type]}</td>
+                      <td>
+                        {entry.transactionNumber || (entry.method ? getPaymentMethodLabel(entry.method) : '')}
+                        {entry.reference && ` (${entry.reference})`}
+                        {entry.notes && <div className="text-xs text-gray-500">{entry.notes}</div>}
+                      </td>
+                      <td className={entry.amount < 0 ? 'text-green-600' : ''}>
+                        {entry.amount < 0 ? '-' : ''}Rp {Math.abs(entry.amount).toLocaleString('id-ID')}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={4} className="text-center py-4 text-muted-foreground">
+                      Belum ada riwayat kasbon
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <DialogFooter>
+            {historyCustomer && (
+              <Button variant="outline" onClick={() => printStatement(historyCustomer)}>
+                <Printer className="mr-2 h-4 w-4" /> Cetak Rekening
+              </Button>
+            )}
+            <Button onClick={() => setHistoryCustomer(null)}>Tutup</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default Receivables;
@@ -3,10 +3,21 @@ import { useState } from 'react';
 import AppLayout from '@/components/layouts/AppLayout';
 import { useTransactions } from '@/contexts/TransactionContext';
 import { useProducts } from '@/contexts/ProductContext';
-import { Transaction } from '@/types';
+import { useVouchers } from '@/contexts/VoucherContext';
+import { Transaction, PaymentMethod, Refund } from '@/types';
+import { getNetTenders, getPaymentMethodLabel } from '@/lib/payments';
+import { calculateRefundCost, getRefundsForTransaction } from '@/lib/refunds';
+import { getUnitPrice } from '@/lib/pricing';
+import { getReportingProductId, isVariantParent } from '@/lib/variants';
+import { formatStockQuantity, getBaseQuantity, getBaseUnit, getLineKey } from '@/lib/units';
+import { getDocumentNumber, matchesDocumentNumber } from '@/lib/numbering';
+import { OVERRIDE_TYPE_LABELS } from '@/lib/approvals';
+import { getVoucherBalance, getVoucherStatus, VOUCHER_ENTRY_LABELS } from '@/lib/vouchers';
+import { DEFAULT_EXPIRY_WARNING_DAYS, EXPIRY_STATUS_LABELS, getExpiringLots } from '@/lib/lots';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -34,10 +45,14 @@ interface DateRange {
 }
 
 const Reports = () => {
-  const { transactions } = useTransactions();
+  const { transactions, refunds, overrideApprovals } = useTransactions();
   const { products, getLowStockProducts } = useProducts();
+  const { vouchers, voucherLedger, coupons, couponRedemptions } = useVouchers();
   
-  const [activeTab, setActiveTab] = useState<'sales' | 'inventory' | 'profit'>('sales');
+  const [activeTab, setActiveTab] = useState<'sales' | 'inventory' | 'expiry' | 'profit' | 'promotions' | 'vouchers' | 'tax' | 'cashiers' | 'overrides'>('sales');
+  const [transactionQuery, setTransactionQuery] = useState('');
+  const [rollUpVariants, setRollUpVariants] = useState(true);
+  const [expiryWarningDays, setExpiryWarningDays] = useState(DEFAULT_EXPIRY_WARNING_DAYS);
   const [dateRange, setDateRange] = useState<DateRange>(() => {
     const today = new Date();
     const startDate = new Date(today);
@@ -49,20 +64,30 @@ const Reports = () => {
     };
   });
   
-  const filterTransactionsByDateRange = (transactions: Transaction[], { startDate, endDate }: DateRange) => {
+  const filterByDateRange = <T extends { createdAt: string }>(records: T[], { startDate, endDate }: DateRange) => {
     const start = new Date(startDate);
     start.setHours(0, 0, 0, 0);
     
     const end = new Date(endDate);
     end.setHours(23, 59, 59, 999);
     
-    return transactions.filter(transaction => {
-      const date = new Date(transaction.createdAt);
+    return records.filter(record => {
+      const date = new Date(record.createdAt);
       return date >= start && date <= end;
     });
   };
   
-  const filteredTransactions = filterTransactionsByDateRange(transactions, dateRange);
+  const filteredTransactions = filterByDateRange(transactions, dateRange);
+  // Refunds count in the period they were given back, not when the original sale happened
+  const filteredRefunds = filterByDateRange(refunds, dateRange);
+  const filteredApprovals = filterByDateRange(overrideApprovals, dateRange)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const detailTransactions = transactionQuery.trim()
+    ? filteredTransactions.filter(transaction => matchesDocumentNumber(transaction, transactionQuery))
+    : filteredTransactions;
+  
+  const getCost = (productId: string) => products.find(p => p.id === productId)?.cost || 0;
   
   // Group transactions by date
   const transactionsByDate = filteredTransactions.reduce<Record<string, Transaction[]>>((acc, transaction) => {
@@ -72,44 +97,75 @@ const Reports = () => {
     return acc;
   }, {});
   
-  // Generate sales data by date
-  const salesData = Object.entries(transactionsByDate).map(([date, dayTransactions]) => {
+  const refundsByDate = filteredRefunds.reduce<Record<string, Refund[]>>((acc, refund) => {
+    const date = refund.createdAt.split('T')[0];
+    if (!acc[date]) acc[date] = [];
+    acc[date].push(refund);
+    return acc;
+  }, {});
+  
+  const reportDates = Array.from(new Set([...Object.keys(transactionsByDate), ...Object.keys(refundsByDate)]));
+  
+  // Generate sales data by date, net of refunds given that day
+  const salesData = reportDates.map(date => {
+    const dayTransactions = transactionsByDate[date] || [];
+    const dayRefunds = refundsByDate[date] || [];
+    const grossSales = dayTransactions.reduce((sum, t) => sum + t.total, 0);
+    const refundTotal = dayRefunds.reduce((sum, r) => sum + r.total, 0);
     return {
       date,
       formattedDate: new Date(date).toLocaleDateString('id-ID', { day: '2-digit', month: 'short' }),
-      sales: dayTransactions.reduce((sum, t) => sum + t.total, 0),
+      grossSales,
+      refunds: refundTotal,
+      sales: grossSales - refundTotal,
       transactions: dayTransactions.length,
     };
   }).sort((a, b) => a.date.localeCompare(b.date));
   
-  // Generate payment method data
+  // Generate payment method data, attributing each tender of a split payment separately
   const paymentMethodData = filteredTransactions.reduce<Record<string, { count: number, value: number }>>((acc, transaction) => {
-    const method = transaction.paymentMethod;
-    if (!acc[method]) acc[method] = { count: 0, value: 0 };
-    acc[method].count += 1;
-    acc[method].value += transaction.total;
+    getNetTenders(transaction).forEach(tender => {
+      if (!acc[tender.method]) acc[tender.method] = { count: 0, value: 0 };
+      acc[tender.method].count += 1;
+      acc[tender.method].value += tender.amount;
+    });
     return acc;
   }, {});
+  filteredRefunds.forEach(refund => {
+    if (!paymentMethodData[refund.method]) paymentMethodData[refund.method] = { count: 0, value: 0 };
+    paymentMethodData[refund.method].value -= refund.total;
+  });
   
   const paymentMethodChartData = Object.entries(paymentMethodData).map(([method, data]) => {
-    const displayName = method === 'cash' ? 'Tunai' : method === 'card' ? 'Kartu' : 'E-Wallet';
     return {
-      name: displayName,
-      value: data.count,
-      sales: data.value,
+      name: getPaymentMethodLabel(method as PaymentMethod),
+      value: data.value,
+      count: data.count,
     };
   });
   
   // Generate product sales data
   const productSalesData = filteredTransactions.reduce<Record<string, { quantity: number, sales: number }>>((acc, transaction) => {
     transaction.items.forEach(item => {
-      const productId = item.product.id;
+      const productId = getReportingProductId(item.product, rollUpVariants);
       if (!acc[productId]) acc[productId] = { quantity: 0, sales: 0 };
-      acc[productId].quantity += item.quantity;
-      acc[productId].sales += item.product.price * item.quantity;
+      acc[productId].quantity += getBaseQuantity(item);
+      acc[productId].sales += getUnitPrice(item) * item.quantity;
     });
     return acc;
   }, {});
+  filteredRefunds.forEach(refund => {
+    refund.items.forEach(item => {
+      const productId = getReportingProductId(item.product, rollUpVariants);
+      if (!productSalesData[productId]) productSalesData[productId] = { quantity: 0, sales: 0 };
+      // Refund lines are credited at the unit price the original sale line was charged
+      const soldLine = transactions
+        .find(t => t.id === refund.transactionId)
+        ?.items.find(line => getLineKey(line) === getLineKey(item));
+      productSalesData[productId].quantity -= getBaseQuantity(item);
+      productSalesData[productId].sales -= (soldLine ? getUnitPrice(soldLine) : item.product.price) * item.quantity;
+    });
+  });
   
   const topProductsData = Object.entries(productSalesData)
     .map(([productId, data]) => {
@@ -126,23 +182,148 @@ const Reports = () => {
   
   // Inventory data
   const lowStockProducts = getLowStockProducts();
-  const outOfStockProducts = products.filter(product => product.isActive && product.stock === 0);
+  const outOfStockProducts = products.filter(product => product.isActive && !isVariantParent(product) && product.stock === 0);
+
+  // Expiry is about what is on the shelf today, so it ignores the date range
+  const expiringLots = getExpiringLots(products, expiryWarningDays);
+  const expiredLots = expiringLots.filter(entry => entry.status === 'expired');
+  const expiringSoonLots = expiringLots.filter(entry => entry.status === 'expiring');
+  const expiredStockValue = expiredLots.reduce((sum, entry) => sum + entry.lot.quantity * (entry.product.cost || 0), 0);
+  const expiringStockValue = expiringSoonLots.reduce((sum, entry) => sum + entry.lot.quantity * (entry.product.cost || 0), 0);
   
-  // Calculate profit/loss
-  const totalSales = filteredTransactions.reduce((sum, t) => sum + t.total, 0);
+  // Calculate profit/loss on sales net of refunds and of PPN, which is owed to the tax office
+  const grossSales = filteredTransactions.reduce((sum, t) => sum + t.total, 0);
+  const totalRefunds = filteredRefunds.reduce((sum, r) => sum + r.total, 0);
+  const totalSales = grossSales - totalRefunds;
+  const netSales = totalSales
+    - filteredTransactions.reduce((sum, t) => sum + (t.tax || 0), 0)
+    + filteredRefunds.reduce((sum, r) => sum + r.tax, 0);
   const costOfGoods = filteredTransactions.reduce((sum, t) => {
     return sum + t.items.reduce((itemSum, item) => {
       const product = products.find(p => p.id === item.product.id);
       const cost = product?.cost || 0;
-      return itemSum + (cost * item.quantity);
+      return itemSum + (cost * getBaseQuantity(item));
     }, 0);
-  }, 0);
-  const grossProfit = totalSales - costOfGoods;
-  const grossProfitMargin = totalSales > 0 ? (grossProfit / totalSales) * 100 : 0;
+  }, 0) - filteredRefunds.reduce((sum, r) => sum + calculateRefundCost(r, getCost), 0);
+  const grossProfit = netSales - costOfGoods;
+  const grossProfitMargin = netSales > 0 ? (grossProfit / netSales) * 100 : 0;
+  
+  // Promotion usage, from the promotion lines stored on each transaction
+  const promotionUsageData = Object.values(filteredTransactions.reduce<Record<string, { id: string, name: string, uses: number, amount: number }>>((acc, transaction) => {
+    (transaction.promotions || []).forEach(promotion => {
+      if (!acc[promotion.promotionId]) {
+        acc[promotion.promotionId] = { id: promotion.promotionId, name: promotion.name, uses: 0, amount: 0 };
+      }
+      acc[promotion.promotionId].uses += 1;
+      acc[promotion.promotionId].amount += promotion.amount;
+    });
+    return acc;
+  }, {})).sort((a, b) => b.amount - a.amount);
+  const totalPromotionAmount = promotionUsageData.reduce((sum, promotion) => sum + promotion.amount, 0);
+  
+  // Outstanding voucher balances are a liability as of today, whatever the period; expired ones are shown apart
+  const voucherBalances = vouchers.map(voucher => {
+    const balance = getVoucherBalance(voucherLedger, voucher.id);
+    return { balance, status: getVoucherStatus(voucher, balance) };
+  });
+  const voucherLiability = voucherBalances
+    .filter(voucher => voucher.status === 'active')
+    .reduce((sum, voucher) => sum + voucher.balance, 0);
+  const expiredVoucherBalance = voucherBalances
+    .filter(voucher => voucher.status === 'expired')
+    .reduce((sum, voucher) => sum + voucher.balance, 0);
+  const filteredVoucherEntries = filterByDateRange(voucherLedger, dateRange)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const vouchersSold = filteredVoucherEntries
+    .filter(entry => entry.type === 'issue')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const vouchersRedeemed = filteredVoucherEntries
+    .filter(entry => entry.type === 'redeem' || entry.type === 'refund')
+    .reduce((sum, entry) => sum - entry.amount, 0);
+  
+  // Coupon usage, from the redemption log; voided sales gave their use back
+  const filteredCouponRedemptions = filterByDateRange(couponRedemptions, dateRange)
+    .filter(redemption => !redemption.voidedAt);
+  const couponUsageData = Object.values(filteredCouponRedemptions.reduce<Record<string, { id: string, code: string, name: string, uses: number, amount: number, limit?: number }>>((acc, redemption) => {
+    if (!acc[redemption.couponId]) {
+      const coupon = coupons.find(c => c.id === redemption.couponId);
+      acc[redemption.couponId] = {
+        id: redemption.couponId,
+        code: redemption.code,
+        name: coupon?.name || '-',
+        uses: 0,
+        amount: 0,
+        limit: coupon?.usageLimit,
+      };
+    }
+    acc[redemption.couponId].uses += 1;
+    acc[redemption.couponId].amount += redemption.discount;
+    return acc;
+  }, {})).sort((a, b) => b.amount - a.amount);
+  const totalCouponAmount = couponUsageData.reduce((sum, coupon) => sum + coupon.amount, 0);
+  
+  // DPP given back by a refund, derived from its PPN and the original sale's rate
+  const getRefundTaxableAmount = (refund: Refund) => {
+    const rate = transactions.find(t => t.id === refund.transactionId)?.taxRate || 0;
+    return rate > 0 ? Math.round(refund.tax * 100 / rate) : 0;
+  };
+  
+  // PPN summary per day, net of refunds; transactions from before tax was applied count as untaxed
+  const taxData = reportDates.map(date => {
+    const dayTransactions = transactionsByDate[date] || [];
+    const dayRefunds = refundsByDate[date] || [];
+    const sales = dayTransactions.reduce((sum, t) => sum + t.total, 0) - dayRefunds.reduce((sum, r) => sum + r.total, 0);
+    const taxableAmount = dayTransactions.reduce((sum, t) => sum + (t.taxableAmount || 0), 0)
+      - dayRefunds.reduce((sum, r) => sum + getRefundTaxableAmount(r), 0);
+    const tax = dayTransactions.reduce((sum, t) => sum + (t.tax || 0), 0) - dayRefunds.reduce((sum, r) => sum + r.tax, 0);
+    return {
+      date,
+      sales,
+      taxableAmount,
+      exemptAmount: sales - taxableAmount - tax,
+      tax,
+    };
+  }).sort((a, b) => a.date.localeCompare(b.date));
+  const totalTaxableAmount = taxData.reduce((sum, day) => sum + day.taxableAmount, 0);
+  const totalExemptAmount = taxData.reduce((sum, day) => sum + day.exemptAmount, 0);
+  const totalTax = taxData.reduce((sum, day) => sum + day.tax, 0);
+  
+  // Sales and refunds handled per cashier
+  const cashierData = Object.values([...filteredTransactions, ...filteredRefunds].reduce<Record<string, { id: string, name: string, transactions: number, sales: number, refunds: number, refundTotal: number }>>((acc, record) => {
+    if (!acc[record.cashierId]) {
+      acc[record.cashierId] = {
+        id: record.cashierId,
+        name: record.cashierName || `Kasir #${record.cashierId}`,
+        transactions: 0,
+        sales: 0,
+        refunds: 0,
+        refundTotal: 0,
+      };
+    }
+    if ('transactionId' in record) {
+      acc[record.cashierId].refunds += 1;
+      acc[record.cashierId].refundTotal += record.total;
+    } else {
+      acc[record.cashierId].transactions += 1;
+      acc[record.cashierId].sales += record.total;
+    }
+    return acc;
+  }, {})).sort((a, b) => (b.sales - b.refundTotal) - (a.sales - a.refundTotal));
   
   // COLORS for charts
   const COLORS = ['#4299E1', '#48BB78', '#F56565', '#ED8936', '#9F7AEA'];
   
+  // Per-sale profit, with any refunds linked to the sale taken off
+  const getTransactionProfit = (transaction: Transaction) => {
+    const linkedRefunds = getRefundsForTransaction(refunds, transaction.id);
+    const refunded = linkedRefunds.reduce((sum, r) => sum + r.total, 0);
+    const cost = transaction.items.reduce((sum, item) => sum + getCost(item.product.id) * getBaseQuantity(item), 0)
+      - linkedRefunds.reduce((sum, r) => sum + calculateRefundCost(r, getCost), 0);
+    const netSales = transaction.total - refunded
+      - (transaction.tax || 0) + linkedRefunds.reduce((sum, r) => sum + r.tax, 0);
+    return { refunded, cost, netSales, profit: netSales - cost };
+  };
+  
   // Export data to CSV
   const exportToCSV = (filename: string, rows: Array<Record<string, any>>) => {
     if (rows.length === 0) {
@@ -173,7 +354,9 @@ const Reports = () => {
   const getSalesReportCSV = () => {
     const data = salesData.map(item => ({
       'Tanggal': new Date(item.date).toLocaleDateString('id-ID'),
-      'Penjualan (Rp)': item.sales,
+      'Penjualan Kotor (Rp)': item.grossSales,
+      'Retur (Rp)': item.refunds,
+      'Penjualan Bersih (Rp)': item.sales,
       'Jumlah Transaksi': item.transactions,
     }));
     exportToCSV(`laporan-penjualan-${dateRange.startDate}-${dateRange.endDate}`, data);
@@ -185,32 +368,117 @@ const Reports = () => {
       'SKU': product.sku,
       'Harga': product.price,
       'Stok': product.stock,
+      'Satuan': getBaseUnit(product),
+      'Stok (Kemasan)': formatStockQuantity(product, product.stock),
       'Stok Minimum': product.lowStockThreshold,
       'Status': product.isActive ? 'Aktif' : 'Nonaktif',
     }));
     exportToCSV(`laporan-inventori-${new Date().toISOString().split('T')[0]}`, data);
   };
   
+  const getExpiryReportCSV = () => {
+    const data = expiringLots.map(({ product, lot, daysLeft, status }) => ({
+      'Nama': product.name,
+      'SKU': product.sku,
+      'No. Batch': lot.batchNumber,
+      'Kedaluwarsa': lot.expiryDate,
+      'Sisa Hari': daysLeft,
+      'Sisa Stok': lot.quantity,
+      'Satuan': getBaseUnit(product),
+      'Nilai Modal (Rp)': lot.quantity * (product.cost || 0),
+      'Status': EXPIRY_STATUS_LABELS[status],
+    }));
+    exportToCSV(`laporan-kedaluwarsa-${new Date().toISOString().split('T')[0]}`, data);
+  };
+  
   const getProfitReportCSV = () => {
     const transactionsData = filteredTransactions.map(transaction => {
-      const cost = transaction.items.reduce((sum, item) => {
-        const product = products.find(p => p.id === item.product.id);
-        return sum + ((product?.cost || 0) * item.quantity);
-      }, 0);
-      const profit = transaction.total - cost;
+      const { refunded, cost, netSales, profit } = getTransactionProfit(transaction);
       
       return {
         'Tanggal': new Date(transaction.createdAt).toLocaleDateString('id-ID'),
-        'ID Transaksi': transaction.id,
+        'No. Transaksi': getDocumentNumber(transaction),
         'Total (Rp)': transaction.total,
+        'Retur (Rp)': refunded,
+        'PPN (Rp)': transaction.tax || 0,
         'Modal (Rp)': cost,
         'Laba (Rp)': profit,
-        'Margin (%)': transaction.total > 0 ? ((profit / transaction.total) * 100).toFixed(2) : '0',
+        'Margin (%)': netSales > 0 ? ((profit / netSales) * 100).toFixed(2) : '0',
       };
     });
     exportToCSV(`laporan-laba-rugi-${dateRange.startDate}-${dateRange.endDate}`, transactionsData);
   };
   
+  const getPromotionReportCSV = () => {
+    const data = promotionUsageData.map(promotion => ({
+      'Promo': promotion.name,
+      'Jumlah Transaksi': promotion.uses,
+      'Total Potongan (Rp)': promotion.amount,
+    }));
+    exportToCSV(`laporan-promo-${dateRange.startDate}-${dateRange.endDate}`, data);
+  };
+  
+  const getVoucherReportCSV = () => {
+    const data = [
+      ...filteredVoucherEntries.map(entry => ({
+        'Waktu': new Date(entry.createdAt).toLocaleString('id-ID'),
+        'Jenis': `Voucher ${VOUCHER_ENTRY_LABELS[entry.type]}`,
+        'Kode': entry.code,
+        'No. Transaksi': entry.transactionNumber || entry.transactionId || '',
+        'Metode': entry.method ? getPaymentMethodLabel(entry.method) : '',
+        'Kasir': entry.cashierName || '',
+        'Jumlah (Rp)': entry.amount,
+      })),
+      ...filteredCouponRedemptions.map(redemption => ({
+        'Waktu': new Date(redemption.createdAt).toLocaleString('id-ID'),
+        'Jenis': 'Kupon Dipakai',
+        'Kode': redemption.code,
+        'No. Transaksi': redemption.transactionNumber || redemption.transactionId,
+        'Metode': '',
+        'Kasir': redemption.cashierName || '',
+        'Jumlah (Rp)': -redemption.discount,
+      })),
+    ];
+    exportToCSV(`laporan-voucher-kupon-${dateRange.startDate}-${dateRange.endDate}`, data);
+  };
+  
+  const getTaxReportCSV = () => {
+    const data = taxData.map(day => ({
+      'Tanggal': new Date(day.date).toLocaleDateString('id-ID'),
+      'Penjualan (Rp)': day.sales,
+      'DPP (Rp)': day.taxableAmount,
+      'Bebas PPN (Rp)': day.exemptAmount,
+      'PPN (Rp)': day.tax,
+    }));
+    exportToCSV(`laporan-ppn-${dateRange.startDate}-${dateRange.endDate}`, data);
+  };
+  
+  const getCashierReportCSV = () => {
+    const data = cashierData.map(cashier => ({
+      'Kasir': cashier.name,
+      'Jumlah Transaksi': cashier.transactions,
+      'Penjualan (Rp)': cashier.sales,
+      'Jumlah Retur': cashier.refunds,
+      'Retur (Rp)': cashier.refundTotal,
+      'Penjualan Bersih (Rp)': cashier.sales - cashier.refundTotal,
+    }));
+    exportToCSV(`laporan-kasir-${dateRange.startDate}-${dateRange.endDate}`, data);
+  };
+
+  const getOverrideReportCSV = () => {
+    const data = filteredApprovals.map(approval => ({
+      'Waktu': new Date(approval.createdAt).toLocaleString('id-ID'),
+      'Jenis': OVERRIDE_TYPE_LABELS[approval.type],
+      'Keterangan': approval.detail,
+      'No. Transaksi': approval.transactionNumber || approval.transactionId || '',
+      'ID Kasir': approval.requestedBy,
+      'Kasir': approval.requestedByName || '',
+      'ID Penyetuju': approval.approvedBy,
+      'Penyetuju': approval.approvedByName || '',
+    }));
+    exportToCSV(`laporan-otorisasi-${dateRange.startDate}-${dateRange.endDate}`, data);
+  };
+  
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -241,11 +509,17 @@ const Reports = () => {
           </div>
         </div>
         
-        <Tabs defaultValue="sales" value={activeTab} onValueChange={(value) => setActiveTab(value as 'sales' | 'inventory' | 'profit')}>
+        <Tabs defaultValue="sales" value={activeTab} onValueChange={(value) => setActiveTab(value as 'sales' | 'inventory' | 'expiry' | 'profit' | 'promotions' | 'vouchers' | 'tax' | 'cashiers' | 'overrides')}>
           <TabsList className="mb-4">
             <TabsTrigger value="sales">Penjualan</TabsTrigger>
             <TabsTrigger value="inventory">Inventori</TabsTrigger>
+            <TabsTrigger value="expiry">Kedaluwarsa</TabsTrigger>
             <TabsTrigger value="profit">Laba/Rugi</TabsTrigger>
+            <TabsTrigger value="promotions">Promosi</TabsTrigger>
+            <TabsTrigger value="vouchers">Voucher & Kupon</TabsTrigger>
+            <TabsTrigger value="tax">PPN</TabsTrigger>
+            <TabsTrigger value="cashiers">Kasir</TabsTrigger>
+            <TabsTrigger value="overrides">Otorisasi</TabsTrigger>
           </TabsList>
           
           <TabsContent value="sales">
@@ -259,16 +533,25 @@ const Reports = () => {
                 </Button>
               </div>
               
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm text-muted-foreground">Total Penjualan</CardTitle>
+                    <CardTitle className="text-sm text-muted-foreground">Penjualan Bersih</CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="text-2xl font-bold">Rp {totalSales.toLocaleString('id-ID')}</div>
                   </CardContent>
                 </Card>
                 
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Retur ({filteredRefunds.length})</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-500">Rp {totalRefunds.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+                
                 <Card>
                   <CardHeader className="pb-2">
                     <CardTitle className="text-sm text-muted-foreground">Jumlah Transaksi</CardTitle>
@@ -285,7 +568,7 @@ const Reports = () => {
                   <CardContent>
                     <div className="text-2xl font-bold">
                       {filteredTransactions.length > 0 
-                        ? `Rp ${Math.floor(totalSales / filteredTransactions.length).toLocaleString('id-ID')}` 
+                        ? `Rp ${Math.floor(grossSales / filteredTransactions.length).toLocaleString('id-ID')}` 
                         : 'Rp 0'}
                     </div>
                   </CardContent>
@@ -332,7 +615,7 @@ const Reports = () => {
                               <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                             ))}
                           </Pie>
-                          <Tooltip formatter={(value: any) => [value, 'Transaksi']} />
+                          <Tooltip formatter={(value: any) => [`Rp ${parseInt(value).toLocaleString('id-ID')}`, 'Pembayaran']} />
                         </PieChart>
                       </ResponsiveContainer>
                       
@@ -344,7 +627,7 @@ const Reports = () => {
                               className="w-3 h-3 mr-1"
                               style={{ backgroundColor: COLORS[index % COLORS.length] }}
                             />
-                            <span className="text-sm">{entry.name}: {entry.value} ({`Rp ${entry.sales.toLocaleString('id-ID')}`})</span>
+                            <span className="text-sm">{entry.name}: {entry.count}x ({`Rp ${entry.value.toLocaleString('id-ID')}`})</span>
                           </div>
                         ))}
                       </div>
@@ -354,8 +637,12 @@ const Reports = () => {
               </div>
               
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
                   <CardTitle>Produk Terlaris</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Switch id="roll-up-variants" checked={rollUpVariants} onCheckedChange={setRollUpVariants} />
+                    <Label htmlFor="roll-up-variants" className="text-sm font-normal">Gabungkan varian</Label>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <div className="table-container">
@@ -454,9 +741,9 @@ const Reports = () => {
                               <td className="font-medium">{product.name}</td>
                               <td>{product.sku}</td>
                               <td className={product.stock === 0 ? 'text-red-500' : 'text-amber-500'}>
-                                {product.stock}
+                                {formatStockQuantity(product, product.stock)}
                               </td>
-                              <td>{product.lowStockThreshold}</td>
+                              <td>{product.lowStockThreshold} {getBaseUnit(product)}</td>
                               <td>
                                 {product.stock === 0 ? (
                                   <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
@@ -485,6 +772,108 @@ const Reports = () => {
             </div>
           </TabsContent>
           
+          <TabsContent value="expiry">
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h2 className="text-xl font-semibold">Laporan Kedaluwarsa</h2>
+                
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="expiry-warning-days" className="whitespace-nowrap">Dalam (hari):</Label>
+                    <Input
+                      id="expiry-warning-days"
+                      type="number"
+                      min="0"
+                      value={expiryWarningDays}
+                      onChange={(e) => setExpiryWarningDays(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-24"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={getExpiryReportCSV}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Export CSV
+                  </Button>
+                </div>
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Lot Kedaluwarsa ({expiredLots.length})</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-500">Rp {expiredStockValue.toLocaleString('id-ID')}</div>
+                    <p className="text-xs text-muted-foreground mt-1">Nilai modal yang masih di rak</p>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">
+                      Kedaluwarsa dalam {expiryWarningDays} Hari ({expiringSoonLots.length})
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-amber-500">Rp {expiringStockValue.toLocaleString('id-ID')}</div>
+                    <p className="text-xs text-muted-foreground mt-1">Nilai modal yang masih di rak</p>
+                  </CardContent>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Lot Kedaluwarsa & Segera Kedaluwarsa</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Nama Produk</th>
+                          <th>SKU</th>
+                          <th>No. Batch</th>
+                          <th>Kedaluwarsa</th>
+                          <th>Sisa Hari</th>
+                          <th>Sisa Stok</th>
+                          <th>Status</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {expiringLots.length > 0 ? (
+                          expiringLots.map(({ product, lot, daysLeft, status }) => (
+                            <tr key={lot.id}>
+                              <td className="font-medium">{product.name}</td>
+                              <td>{product.sku}</td>
+                              <td>{lot.batchNumber}</td>
+                              <td>{new Date(lot.expiryDate).toLocaleDateString('id-ID')}</td>
+                              <td className={status === 'expired' ? 'text-red-500' : 'text-amber-500'}>
+                                {daysLeft < 0 ? `${-daysLeft} hari lalu` : daysLeft === 0 ? 'Hari ini' : `${daysLeft} hari`}
+                              </td>
+                              <td>{formatStockQuantity(product, lot.quantity)}</td>
+                              <td>
+                                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                                  status === 'expired' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                                }`}>
+                                  {EXPIRY_STATUS_LABELS[status]}
+                                </span>
+                              </td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={7} className="text-center py-4 text-muted-foreground">
+                              Tidak ada lot yang kedaluwarsa atau segera kedaluwarsa
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+          
           <TabsContent value="profit">
             <div className="space-y-6">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -499,10 +888,10 @@ const Reports = () => {
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-sm text-muted-foreground">Total Penjualan</CardTitle>
+                    <CardTitle className="text-sm text-muted-foreground">Penjualan (tanpa PPN)</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="text-2xl font-bold">Rp {totalSales.toLocaleString('id-ID')}</div>
+                    <div className="text-2xl font-bold">Rp {netSales.toLocaleString('id-ID')}</div>
                   </CardContent>
                 </Card>
                 
@@ -535,8 +924,14 @@ const Reports = () => {
               </div>
               
               <Card>
-                <CardHeader>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
                   <CardTitle>Detail Transaksi</CardTitle>
+                  <Input
+                    placeholder="Cari nomor transaksi..."
+                    value={transactionQuery}
+                    onChange={(e) => setTransactionQuery(e.target.value)}
+                    className="w-64"
+                  />
                 </CardHeader>
                 <CardContent>
                   <div className="table-container">
@@ -544,7 +939,7 @@ const Reports = () => {
                       <thead>
                         <tr>
                           <th>Tanggal</th>
-                          <th>ID Transaksi</th>
+                          <th>No. Transaksi</th>
                           <th>Total Penjualan</th>
                           <th>Harga Pokok</th>
                           <th>Laba</th>
@@ -552,22 +947,26 @@ const Reports = () => {
                         </tr>
                       </thead>
                       <tbody>
-                        {filteredTransactions.length > 0 ? (
-                          filteredTransactions.map((transaction) => {
-                            const cost = transaction.items.reduce((sum, item) => {
-                              const product = products.find(p => p.id === item.product.id);
-                              return sum + ((product?.cost || 0) * item.quantity);
-                            }, 0);
-                            const profit = transaction.total - cost;
-                            const margin = transaction.total > 0 ? (profit / transaction.total) * 100 : 0;
+                        {detailTransactions.length > 0 ? (
+                          detailTransactions.map((transaction) => {
+                            const { refunded, cost, netSales, profit } = getTransactionProfit(transaction);
+                            const margin = netSales > 0 ? (profit / netSales) * 100 : 0;
                             
                             const date = new Date(transaction.createdAt);
                             
                             return (
                               <tr key={transaction.id}>
                                 <td>{date.toLocaleDateString('id-ID')}</td>
-                                <td>{transaction.id}</td>
-                                <td>Rp {transaction.total.toLocaleString('id-ID')}</td>
+                                <td>
+                                  {getDocumentNumber(transaction)}
+                                  {transaction.voidedAt && <span className="ml-1 text-xs text-red-500">VOID</span>}
+                                </td>
+                                <td>
+                                  Rp {(transaction.total - refunded).toLocaleString('id-ID')}
+                                  {refunded > 0 && (
+                                    <div className="text-xs text-red-500">retur Rp {refunded.toLocaleString('id-ID')}</div>
+                                  )}
+                                </td>
                                 <td>Rp {cost.toLocaleString('id-ID')}</td>
                                 <td className={profit >= 0 ? 'text-green-500' : 'text-red-500'}>
                                   Rp {profit.toLocaleString('id-ID')}
@@ -590,6 +989,410 @@ const Reports = () => {
               </Card>
             </div>
           </TabsContent>
+          
+          <TabsContent value="promotions">
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h2 className="text-xl font-semibold">Laporan Promosi</h2>
+                
+                <Button variant="outline" onClick={getPromotionReportCSV}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Total Potongan Promo</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-500">Rp {totalPromotionAmount.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Transaksi dengan Promo</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">
+                      {filteredTransactions.filter(t => t.promotions && t.promotions.length > 0).length}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Potongan per Promo</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Promo</th>
+                          <th>Jumlah Transaksi</th>
+                          <th>Total Potongan</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {promotionUsageData.length > 0 ? (
+                          promotionUsageData.map((promotion) => (
+                            <tr key={promotion.id}>
+                              <td className="font-medium">{promotion.name}</td>
+                              <td>{promotion.uses}</td>
+                              <td>Rp {promotion.amount.toLocaleString('id-ID')}</td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={3} className="text-center py-4 text-muted-foreground">
+                              Tidak ada promo yang digunakan pada periode ini
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="vouchers">
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h2 className="text-xl font-semibold">Laporan Voucher & Kupon</h2>
+                
+                <Button variant="outline" onClick={getVoucherReportCSV}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Saldo Voucher Beredar</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-blue-600">Rp {voucherLiability.toLocaleString('id-ID')}</div>
+                    {expiredVoucherBalance > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        + Rp {expiredVoucherBalance.toLocaleString('id-ID')} kedaluwarsa belum terpakai
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Voucher Diterbitkan</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">Rp {vouchersSold.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Voucher Dipakai</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">Rp {vouchersRedeemed.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Potongan Kupon ({filteredCouponRedemptions.length})</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-red-500">Rp {totalCouponAmount.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pemakaian Kupon</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Kode</th>
+                          <th>Kupon</th>
+                          <th>Jumlah Pemakaian</th>
+                          <th>Total Potongan</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {couponUsageData.length > 0 ? (
+                          couponUsageData.map((coupon) => (
+                            <tr key={coupon.id}>
+                              <td className="font-medium">{coupon.code}</td>
+                              <td>{coupon.name}</td>
+                              <td>{coupon.uses}{coupon.limit ? ` / ${coupon.limit}` : ''}</td>
+                              <td>Rp {coupon.amount.toLocaleString('id-ID')}</td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={4} className="text-center py-4 text-muted-foreground">
+                              Tidak ada kupon yang digunakan pada periode ini
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Mutasi Voucher</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Waktu</th>
+                          <th>Kode</th>
+                          <th>Jenis</th>
+                          <th>No. Transaksi</th>
+                          <th>Kasir</th>
+                          <th>Jumlah</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredVoucherEntries.length > 0 ? (
+                          filteredVoucherEntries.map((entry) => (
+                            <tr key={entry.id}>
+                              <td>{new Date(entry.createdAt).toLocaleString('id-ID')}</td>
+                              <td className="font-medium">{entry.code}</td>
+                              <td>
+                                {VOUCHER_ENTRY_LABELS[entry.type]}
+                                {entry.type === 'issue' && ` (${entry.method ? getPaymentMethodLabel(entry.method) : 'Gratis'})`}
+                              </td>
+                              <td>{entry.transactionNumber || entry.transactionId || '-'}</td>
+                              <td>{entry.cashierName || '-'}</td>
+                              <td className={entry.amount < 0 ? 'text-red-500' : 'text-green-600'}>
+                                Rp {entry.amount.toLocaleString('id-ID')}
+                              </td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={6} className="text-center py-4 text-muted-foreground">
+                              Tidak ada mutasi voucher pada periode ini
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="tax">
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h2 className="text-xl font-semibold">Laporan PPN</h2>
+                
+                <Button variant="outline" onClick={getTaxReportCSV}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+              
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Dasar Pengenaan Pajak (DPP)</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">Rp {totalTaxableAmount.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Penjualan Bebas PPN</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">Rp {totalExemptAmount.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+                
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-muted-foreground">Total PPN Terkumpul</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold text-blue-600">Rp {totalTax.toLocaleString('id-ID')}</div>
+                  </CardContent>
+                </Card>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>PPN per Hari</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Tanggal</th>
+                          <th>Penjualan</th>
+                          <th>DPP</th>
+                          <th>Bebas PPN</th>
+                          <th>PPN</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {taxData.length > 0 ? (
+                          taxData.map((day) => (
+                            <tr key={day.date}>
+                              <td>{new Date(day.date).toLocaleDateString('id-ID')}</td>
+                              <td>Rp {day.sales.toLocaleString('id-ID')}</td>
+                              <td>Rp {day.taxableAmount.toLocaleString('id-ID')}</td>
+                              <td>Rp {day.exemptAmount.toLocaleString('id-ID')}</td>
+                              <td className="font-medium">Rp {day.tax.toLocaleString('id-ID')}</td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={5} className="text-center py-4 text-muted-foreground">
+                              Tidak ada transaksi pada periode ini
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+          
+          <TabsContent value="cashiers">
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h2 className="text-xl font-semibold">Laporan Kasir</h2>
+                
+                <Button variant="outline" onClick={getCashierReportCSV}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Penjualan per Kasir</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Kasir</th>
+                          <th>Jumlah Transaksi</th>
+                          <th>Penjualan</th>
+                          <th>Retur</th>
+                          <th>Penjualan Bersih</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {cashierData.length > 0 ? (
+                          cashierData.map((cashier) => (
+                            <tr key={cashier.id}>
+                              <td className="font-medium">{cashier.name}</td>
+                              <td>{cashier.transactions}</td>
+                              <td>Rp {cashier.sales.toLocaleString('id-ID')}</td>
+                              <td className={cashier.refundTotal > 0 ? 'text-red-500' : ''}>
+                                Rp {cashier.refundTotal.toLocaleString('id-ID')} ({cashier.refunds})
+                              </td>
+                              <td className="font-medium">Rp {(cashier.sales - cashier.refundTotal).toLocaleString('id-ID')}</td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={5} className="text-center py-4 text-muted-foreground">
+                              Tidak ada transaksi pada periode ini
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="overrides">
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <h2 className="text-xl font-semibold">Laporan Otorisasi Manajer</h2>
+                
+                <Button variant="outline" onClick={getOverrideReportCSV}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
+              </div>
+              
+              <Card>
+                <CardHeader>
+                  <CardTitle>Otorisasi yang Disetujui</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="table-container">
+                    <table className="pos-table">
+                      <thead>
+                        <tr>
+                          <th>Waktu</th>
+                          <th>Jenis</th>
+                          <th>Keterangan</th>
+                          <th>No. Transaksi</th>
+                          <th>Kasir</th>
+                          <th>Disetujui Oleh</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredApprovals.length > 0 ? (
+                          filteredApprovals.map((approval) => (
+                            <tr key={approval.id}>
+                              <td>{new Date(approval.createdAt).toLocaleString('id-ID')}</td>
+                              <td>{OVERRIDE_TYPE_LABELS[approval.type]}</td>
+                              <td>{approval.detail}</td>
+                              <td>{approval.transactionNumber || approval.transactionId || <span className="text-muted-foreground">Tidak jadi</span>}</td>
+                              <td>{approval.requestedByName || `Kasir #${approval.requestedBy}`}</td>
+                              <td className="font-medium">{approval.approvedByName || `#${approval.approvedBy}`}</td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={6} className="text-center py-4 text-muted-foreground">
+                              Tidak ada otorisasi pada periode ini
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
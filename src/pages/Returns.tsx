@@ -0,0 +1,486 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { CartItem, OverrideApproval, PaymentMethod, Refund, RefundItem, Transaction } from '@/types';
+import { useManagerApproval } from '@/hooks/use-manager-approval';
+import { getPaymentMethodLabel, PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import { calculateRefundLineAmount, getRefundableQuantity, getRefundedQuantity } from '@/lib/refunds';
+import { buildRefundSlipLines, printLines } from '@/lib/receipt';
+import { getDocumentNumber, matchesDocumentNumber } from '@/lib/numbering';
+import { countItems, formatQuantity, getLineKey, getQuantityPrecision, getUnitLabel, roundQuantity } from '@/lib/units';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Search,
+  RotateCcw,
+  Printer,
+  Ban
+} from "lucide-react";
+import { toast } from "sonner";
+
+const Returns = () => {
+  const { transactions, refunds, createRefund, voidTransaction } = useTransactions();
+  const { settings } = useSettings();
+  const { requestApproval, approvalDialog } = useManagerApproval();
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, string>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [reason, setReason] = useState('');
+
+  const [slipDialogOpen, setSlipDialogOpen] = useState(false);
+  const [currentSlip, setCurrentSlip] = useState<Refund | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const resetForm = () => {
+    setReturnQuantities({});
+    setReason('');
+  };
+
+  const handleSearch = () => {
+    const query = searchQuery.trim().replace(/^#/, '');
+    if (!query) {
+      toast.error('Masukkan nomor transaksi');
+      return;
+    }
+
+    // An exact number wins; otherwise the most recent sale whose number contains the query
+    const normalized = query.toLowerCase();
+    const found = transactions.find(t => t.id === query || t.number?.toLowerCase() === normalized)
+      || [...transactions].reverse().find(t => matchesDocumentNumber(t, query));
+
+    if (!found) {
+      setSelectedTransaction(null);
+      toast.error('Transaksi tidak ditemukan');
+      return;
+    }
+
+    setSelectedTransaction(found);
+    setRefundMethod(found.paymentMethod === 'deposit' ? 'cash' : found.paymentMethod);
+    resetForm();
+  };
+
+  const getQuantity = (lineKey: string) => {
+    return parseFloat(returnQuantities[lineKey] || '0') || 0;
+  };
+
+  // Weighed lines can be returned in part, down to the precision they were sold in
+  const getLinePrecision = (item: CartItem) => (item.unit ? 0 : getQuantityPrecision(item.product));
+
+  const handleQuantityChange = (item: CartItem, value: string, max: number) => {
+    const lineKey = getLineKey(item);
+    const quantity = parseFloat(value) || 0;
+    if (quantity > max) {
+      toast.error(`Maksimal ${formatQuantity(item.product, max)} ${getUnitLabel(item)} dapat diretur`);
+      return;
+    }
+    if (roundQuantity(quantity, getLinePrecision(item)) !== quantity) {
+      toast.error(`Jumlah ${item.product.name} maksimal ${getLinePrecision(item)} angka desimal`);
+      return;
+    }
+    setReturnQuantities({ ...returnQuantities, [lineKey]: value });
+  };
+
+  const refundPreview = selectedTransaction
+    ? selectedTransaction.items.reduce((sum, item) => {
+        return sum + calculateRefundLineAmount(selectedTransaction, item, getQuantity(getLineKey(item)));
+      }, 0)
+    : 0;
+
+  const handleProcessRefund = async () => {
+    if (!selectedTransaction || isProcessing) return;
+
+    const items = selectedTransaction.items
+      .map(item => ({ lineKey: getLineKey(item), quantity: getQuantity(getLineKey(item)) }))
+      .filter(item => item.quantity > 0);
+
+    if (items.length === 0) {
+      toast.error('Pilih minimal satu item untuk diretur');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const refund = await createRefund({
+        transactionId: selectedTransaction.id,
+        items,
+        method: refundMethod,
+        reason: reason.trim() || undefined,
+      });
+
+      resetForm();
+      setCurrentSlip(refund);
+      setSlipDialogOpen(true);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const voidedAt = selectedTransaction && transactions.find(t => t.id === selectedTransaction.id)?.voidedAt;
+  const canVoid = selectedTransaction && !voidedAt && selectedTransaction.items.some(item =>
+    getRefundableQuantity(selectedTransaction, refunds, getLineKey(item)) > 0
+  );
+
+  const handleVoid = async () => {
+    if (!selectedTransaction || isProcessing) return;
+
+    const number = getDocumentNumber(selectedTransaction);
+    if (!window.confirm(`Batalkan transaksi ${number}? Semua item yang belum diretur akan dikembalikan.`)) return;
+
+    setIsProcessing(true);
+    try {
+      let approval: OverrideApproval | null = null;
+      if (settings.approval_policy.void_sale) {
+        approval = await requestApproval('void', `Transaksi ${number} sebesar Rp ${selectedTransaction.total.toLocaleString('id-ID')}`);
+        if (!approval) return;
+      }
+
+      const refund = await voidTransaction(selectedTransaction.id, approval ?? undefined);
+
+      resetForm();
+      setCurrentSlip(refund);
+      setSlipDialogOpen(true);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePrintSlip = async () => {
+    if (!currentSlip) return;
+
+    try {
+      await printLines(
+        buildRefundSlipLines(currentSlip, settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Slip Retur ${getDocumentNumber(currentSlip)}`
+      );
+      setSlipDialogOpen(false);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const recentRefunds = [...refunds]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, 10);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Retur Penjualan</h1>
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+            <Input
+              type="text"
+              placeholder="Masukkan nomor transaksi..."
+              className="pl-10"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            />
+          </div>
+          <Button onClick={handleSearch}>Cari</Button>
+        </div>
+
+        {selectedTransaction && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle>
+                  Transaksi {getDocumentNumber(selectedTransaction)}
+                  {voidedAt && <span className="ml-2 text-sm font-medium text-red-600">VOID</span>}
+                </CardTitle>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-500 hover:text-red-700"
+                  onClick={handleVoid}
+                  disabled={!canVoid || isProcessing}
+                >
+                  <Ban size={16} className="mr-1" /> Void Transaksi
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-gray-600">
+                <div>
+                  <div className="font-medium text-gray-800">Tanggal</div>
+                  {new Date(selectedTransaction.createdAt).toLocaleString('id-ID')}
+                </div>
+                <div>
+                  <div className="font-medium text-gray-800">Kasir</div>
+                  {selectedTransaction.cashierName || `Kasir #${selectedTransaction.cashierId}`}
+                </div>
+                <div>
+                  <div className="font-medium text-gray-800">Pembayaran</div>
+                  {selectedTransaction.payments.map(p => getPaymentMethodLabel(p.method)).join(', ')}
+                </div>
+                <div>
+                  <div className="font-medium text-gray-800">Total</div>
+                  Rp {selectedTransaction.total.toLocaleString('id-ID')}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="table-container">
+                <table className="pos-table">
+                  <thead>
+                    <tr>
+                      <th>Produk</th>
+                      <th>Terjual</th>
+                      <th>Sudah Diretur</th>
+                      <th>Jumlah Retur</th>
+                      <th>Nilai Refund</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedTransaction.items.map((item) => {
+                      const lineKey = getLineKey(item);
+                      const refunded = getRefundedQuantity(refunds, selectedTransaction.id, lineKey);
+                      const refundable = getRefundableQuantity(selectedTransaction, refunds, lineKey);
+                      const quantity = getQuantity(lineKey);
+
+                      return (
+                        <tr key={lineKey}>
+                          <td className="font-medium">{item.product.name}</td>
+                          <td>{formatQuantity(item.product, item.quantity)} {getUnitLabel(item)}</td>
+                          <td>{formatQuantity(item.product, refunded)}</td>
+                          <td>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={refundable}
+                              step={10 ** -getLinePrecision(item)}
+                              className="w-24"
+                              disabled={refundable === 0}
+                              value={returnQuantities[lineKey] || ''}
+                              placeholder="0"
+                              onChange={(e) => handleQuantityChange(item, e.target.value, refundable)}
+                            />
+                          </td>
+                          <td>
+                            Rp {calculateRefundLineAmount(selectedTransaction, item, quantity).toLocaleString('id-ID')}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="refund-method">Metode Refund</Label>
+                  <Select
+                    value={refundMethod}
+                    onValueChange={(value) => setRefundMethod(value as PaymentMethod)}
+                  >
+                    <SelectTrigger id="refund-method">
+                      <SelectValue placeholder="Pilih metode refund" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+                        // Kasbon can only be credited back to the customer who owes it, and vouchers to the ones used.
+                        // A layaway deposit is spent once the sale is made, so its refunds go out as money
+                        .filter(method => method !== 'deposit')
+                        .filter(method => method !== 'credit' || selectedTransaction.customerId)
+                        .filter(method => method !== 'voucher' || selectedTransaction.payments.some(p => p.method === 'voucher'))
+                        .map(method => (
+                          <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="refund-reason">Alasan Retur</Label>
+                  <Input
+                    id="refund-reason"
+                    placeholder="Contoh: Barang rusak"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 border-t pt-4">
+                <div className="text-lg font-bold">
+                  Total Refund: Rp {refundPreview.toLocaleString('id-ID')}
+                </div>
+                <Button onClick={handleProcessRefund} disabled={refundPreview === 0 || isProcessing}>
+                  <RotateCcw className="mr-2 h-4 w-4" /> Proses Retur
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Retur Terakhir</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="table-container">
+              <table className="pos-table">
+                <thead>
+                  <tr>
+                    <th>Tanggal</th>
+                    <th>No. Retur</th>
+                    <th>No. Transaksi</th>
+                    <th>Item</th>
+                    <th>Metode</th>
+                    <th>Total</th>
+                    <th>Kasir</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recentRefunds.length > 0 ? (
+                    recentRefunds.map((refund) => (
+                      <tr
+                        key={refund.id}
+                        className="cursor-pointer"
+                        onClick={() => {
+                          setCurrentSlip(refund);
+                          setSlipDialogOpen(true);
+                        }}
+                      >
+                        <td>{new Date(refund.createdAt).toLocaleDateString('id-ID')}</td>
+                        <td>{getDocumentNumber(refund)}</td>
+                        <td>{refund.transactionNumber || refund.transactionId}</td>
+                        <td>{countItems(refund.items)}</td>
+                        <td>{getPaymentMethodLabel(refund.method)}</td>
+                        <td>Rp {refund.total.toLocaleString('id-ID')}</td>
+                        <td>{refund.cashierName || `Kasir #${refund.cashierId}`}</td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={7} className="text-center py-4 text-muted-foreground">
+                        Belum ada retur
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Refund Slip Dialog */}
+      <Dialog open={slipDialogOpen} onOpenChange={setSlipDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Slip Retur</DialogTitle>
+          </DialogHeader>
+
+          {currentSlip && (
+            <div className="space-y-4 py-4">
+              <div className="text-center border-b pb-4">
+                <h3 className="font-bold text-lg">{settings.store_name}</h3>
+                <p className="text-sm text-gray-500">{settings.address}</p>
+                <p className="text-sm text-gray-500">Telp: {settings.phone}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div>No. Retur:</div>
+                <div className="text-right">{getDocumentNumber(currentSlip)}</div>
+                <div>No. Transaksi:</div>
+                <div className="text-right">{currentSlip.transactionNumber || currentSlip.transactionId}</div>
+                <div>Tanggal:</div>
+                <div className="text-right">{new Date(currentSlip.createdAt).toLocaleString('id-ID')}</div>
+                <div>Kasir:</div>
+                <div className="text-right">{currentSlip.cashierName}</div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm font-bold flex justify-between pb-1 border-b">
+                  <span>Item Diretur</span>
+                  <span>Refund</span>
+                </div>
+                {currentSlip.items.map((item: RefundItem) => (
+                  <div key={getLineKey(item)} className="text-sm flex justify-between">
+                    <div>
+                      <div>{item.product.name}</div>
+                      <div className="text-gray-500">{formatQuantity(item.product, item.quantity)} {getUnitLabel(item)}</div>
+                    </div>
+                    <div>Rp {item.amount.toLocaleString('id-ID')}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="border-t pt-2 space-y-1">
+                {currentSlip.tax > 0 && (
+                  <div className="flex justify-between text-sm">
+                    <span>Termasuk PPN:</span>
+                    <span>Rp {currentSlip.tax.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-lg">
+                  <span>Total Refund:</span>
+                  <span>Rp {currentSlip.total.toLocaleString('id-ID')}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span>Dikembalikan via:</span>
+                  <span>{getPaymentMethodLabel(currentSlip.method)}</span>
+                </div>
+                {currentSlip.reason && (
+                  <div className="flex justify-between text-sm">
+                    <span>Alasan:</span>
+                    <span>{currentSlip.reason}</span>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-8 text-center text-sm text-gray-500 pt-8">
+                <div className="border-t pt-1">Kasir</div>
+                <div className="border-t pt-1">Pelanggan</div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setSlipDialogOpen(false)}
+            >
+              Tutup
+            </Button>
+            <Button
+              className="w-full"
+              onClick={handlePrintSlip}
+            >
+              <Printer className="mr-2 h-4 w-4" /> Cetak
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {approvalDialog}
+    </AppLayout>
+  );
+};
+
+export default Returns;
@@ -5,10 +5,11 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { toast } from '@/components/ui/sonner';
-import { Settings as SettingsIcon, Store, CreditCard, FileText, RotateCcw, Save } from 'lucide-react';
+import { Settings as SettingsIcon, Store, CreditCard, FileText, Award, Hash, RotateCcw, Save } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import {
   Card,
   CardContent,
@@ -26,6 +27,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -33,6 +35,17 @@ import {
 } from '@/components/ui/form';
 import { Settings } from '@/contexts/SettingsContext';
 import AppLayout from '@/components/layouts/AppLayout';
+import { DOCUMENT_TYPE_LABELS, DocumentType, formatDocumentNumber, isValidNumberingPattern } from '@/lib/numbering';
+import { getQrisMerchantName, parseStaticQris } from '@/lib/qris';
+
+const numberingRuleSchema = z.object({
+  pattern: z.string()
+    .min(1, 'Pattern is required')
+    .refine(isValidNumberingPattern, 'Pattern must contain a sequence such as {####}'),
+  reset: z.enum(['never', 'yearly', 'monthly']),
+});
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as DocumentType[];
 
 const formSchema = z.object({
   store_name: z.string().min(1, 'Store name is required'),
@@ -40,7 +53,50 @@ const formSchema = z.object({
   phone: z.string().optional(),
   email: z.string().email('Invalid email format').optional().or(z.literal('')),
   tax_percentage: z.number().min(0, 'Tax must be at least 0%').max(100, 'Tax cannot exceed 100%'),
+  tax_inclusive: z.boolean(),
+  weighed_price_rounding: z.object({
+    step: z.number().int('Rounding must be whole rupiah').min(1, 'Rounding must be at least 1'),
+    mode: z.enum(['nearest', 'up', 'down']),
+  }),
+  cash_rounding: z.object({
+    step: z.number().int('Rounding must be whole rupiah').min(1, 'Rounding must be at least 1'),
+    mode: z.enum(['nearest', 'up', 'down']),
+  }),
   receipt_footer: z.string().optional(),
+  receipt_print_format: z.enum(['thermal_58mm', 'thermal_80mm', 'a4']),
+  receipt_printer_bridge_url: z.string().url('Invalid URL').optional().or(z.literal('')),
+  auto_print_receipt: z.boolean(),
+  loyalty_enabled: z.boolean(),
+  loyalty_spend_per_point: z.number().min(1, 'Spend per point must be at least 1'),
+  loyalty_point_value: z.number().min(0, 'Point value cannot be negative'),
+  loyalty_expiry_days: z.number().int('Expiry must be whole days').min(0, 'Expiry cannot be negative'),
+  approval_policy: z.object({
+    max_discount_percent: z.number().min(0, 'Limit cannot be negative').max(100, 'Limit cannot exceed 100%'),
+    price_below_cost: z.boolean(),
+    remove_after_payment: z.boolean(),
+    void_sale: z.boolean(),
+  }),
+  layaway_policy: z.object({
+    min_deposit_percent: z.number().min(0, 'Deposit cannot be negative').max(100, 'Deposit cannot exceed 100%'),
+    hold_days: z.number().int('Hold period must be whole days').min(1, 'Hold period must be at least 1 day'),
+    forfeit_percent: z.number().min(0, 'Forfeit cannot be negative').max(100, 'Forfeit cannot exceed 100%'),
+  }),
+  qris_payload: z.string().superRefine((payload, ctx) => {
+    if (!payload.trim()) return;
+    try {
+      parseStaticQris(payload);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  }),
+  qris_on_receipt: z.boolean(),
+  document_numbering: z.object({
+    sale: numberingRuleSchema,
+    refund: numberingRuleSchema,
+    purchase: numberingRuleSchema,
+    adjustment: numberingRuleSchema,
+    layaway: numberingRuleSchema,
+  }),
   currency: z.string(),
   logo_path: z.string().optional(),
 });
@@ -80,6 +136,20 @@ const SettingsPage = () => {
     }).format(amount);
   };
 
+  const qrisMerchantName = (() => {
+    try {
+      return getQrisMerchantName(form.watch('qris_payload') || '');
+    } catch {
+      return undefined;
+    }
+  })();
+
+  const previewRate = form.watch('tax_percentage') || 0;
+  const previewTax = form.watch('tax_inclusive')
+    ? 45000 * previewRate / (100 + previewRate)
+    : 45000 * (previewRate / 100);
+  const previewTotal = form.watch('tax_inclusive') ? 45000 : 45000 + previewTax;
+
   return (
     <AppLayout>
       <div className="space-y-6">
@@ -96,7 +166,7 @@ const SettingsPage = () => {
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <Tabs defaultValue="store-info" className="w-full">
-              <TabsList className="grid grid-cols-3">
+              <TabsList className="grid grid-cols-5">
                 <TabsTrigger value="store-info" className="flex items-center gap-2">
                   <Store className="h-4 w-4" />
                   <span className="hidden sm:inline">Store Information</span>
@@ -112,6 +182,16 @@ const SettingsPage = () => {
                   <span className="hidden sm:inline">Receipt Settings</span>
                   <span className="sm:hidden">Receipt</span>
                 </TabsTrigger>
+                <TabsTrigger value="loyalty" className="flex items-center gap-2">
+                  <Award className="h-4 w-4" />
+                  <span className="hidden sm:inline">Loyalty Program</span>
+                  <span className="sm:hidden">Loyalty</span>
+                </TabsTrigger>
+                <TabsTrigger value="numbering" className="flex items-center gap-2">
+                  <Hash className="h-4 w-4" />
+                  <span className="hidden sm:inline">Document Numbering</span>
+                  <span className="sm:hidden">Numbering</span>
+                </TabsTrigger>
               </TabsList>
 
               {/* Store Information Tab */}
@@ -235,6 +315,119 @@ const SettingsPage = () => {
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="tax_inclusive"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel>Prices Include Tax</FormLabel>
+                            <FormDescription>
+                              When on, shelf prices already include PPN. When off, PPN is added on top at checkout.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="weighed_price_rounding.step"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Weighed Price Rounding (Rp)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                                min="1"
+                                step="1"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Price × weight is rounded to a multiple of this amount, e.g. 100.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="weighed_price_rounding.mode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Rounding Direction</FormLabel>
+                            <FormControl>
+                              <select
+                                {...field}
+                                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                <option value="nearest">Nearest</option>
+                                <option value="up">Up</option>
+                                <option value="down">Down</option>
+                              </select>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="cash_rounding.step"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Cash Rounding (Rp)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                                min="1"
+                                step="1"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              The amount due in cash is rounded to a multiple of this amount, e.g. 100 or 500. Use 1 to turn rounding off.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="cash_rounding.mode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Cash Rounding Direction</FormLabel>
+                            <FormControl>
+                              <select
+                                {...field}
+                                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                <option value="nearest">Nearest</option>
+                                <option value="up">Up</option>
+                                <option value="down">Down</option>
+                              </select>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
                       name="currency"
@@ -259,6 +452,239 @@ const SettingsPage = () => {
                     />
                   </CardContent>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Manager Approval</CardTitle>
+                    <CardDescription>
+                      Actions past these limits need a manager or admin PIN when a cashier is logged in
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="approval_policy.max_discount_percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Maximum Discount (%)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                              min="0"
+                              max="100"
+                              step="0.1"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Applies to the order discount and to prices lowered on a line.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="approval_policy.price_below_cost"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel>Selling Below Cost</FormLabel>
+                            <FormDescription>
+                              Require approval when a line price is set below its cost price.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="approval_policy.remove_after_payment"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel>Removing Items After Payment</FormLabel>
+                            <FormDescription>
+                              Require approval to remove items once the payment dialog has been opened.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="approval_policy.void_sale"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel>Voiding Sales</FormLabel>
+                            <FormDescription>
+                              Require approval to void a completed sale.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Layaway</CardTitle>
+                    <CardDescription>
+                      Goods reserved for a customer against a down payment (DP) and collected once paid off
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="layaway_policy.min_deposit_percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Minimum Deposit (%)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                              min="0"
+                              max="100"
+                              step="1"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Share of the total the customer has to pay when the goods are reserved.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="layaway_policy.hold_days"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Hold Period (days)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                              min="1"
+                              step="1"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            How long goods are held by default before the layaway is overdue.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="layaway_policy.forfeit_percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Forfeited on Cancellation (%)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                              min="0"
+                              max="100"
+                              step="1"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Share of the deposits the store keeps when a layaway is cancelled. Use 0 to refund in full, 100 to keep everything.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>QRIS</CardTitle>
+                    <CardDescription>
+                      E-wallet sales show a QRIS code with the sale amount already filled in
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="qris_payload"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Static QRIS Payload</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              {...field}
+                              rows={4}
+                              className="font-mono text-xs"
+                              placeholder="000201010211..."
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            {qrisMerchantName
+                              ? `Merchant: ${qrisMerchantName}`
+                              : 'The text inside the QRIS sticker from your bank or payment provider, read with any QR scanner app.'}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="qris_on_receipt"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel>Print QRIS on Receipt</FormLabel>
+                            <FormDescription>
+                              Print the sale's QRIS code under the payments on QRIS receipts.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
               </TabsContent>
 
               {/* Receipt Settings Tab */}
@@ -271,7 +697,69 @@ const SettingsPage = () => {
                         Customize how your receipts appear to customers
                       </CardDescription>
                     </CardHeader>
-                    <CardContent>
+                    <CardContent className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="receipt_print_format"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Print Format</FormLabel>
+                            <FormControl>
+                              <select
+                                {...field}
+                                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                              >
+                                <option value="thermal_58mm">Thermal 58mm</option>
+                                <option value="thermal_80mm">Thermal 80mm</option>
+                                <option value="a4">A4</option>
+                              </select>
+                            </FormControl>
+                            <FormDescription>
+                              Used for receipts and shift reports
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="receipt_printer_bridge_url"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Printer Bridge URL</FormLabel>
+                            <FormControl>
+                              <Input placeholder="http://localhost:9100/print" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              Optional. Thermal receipts are sent here as raw ESC/POS instead of opening the print dialog.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="auto_print_receipt"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                            <div className="space-y-0.5">
+                              <FormLabel>Print Automatically</FormLabel>
+                              <FormDescription>
+                                Print the receipt as soon as a sale is completed.
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={form.control}
                         name="receipt_footer"
@@ -345,12 +833,12 @@ const SettingsPage = () => {
                             <span>{formatCurrency(45000)}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span>Tax ({form.watch('tax_percentage')}%):</span>
-                            <span>{formatCurrency(45000 * (form.watch('tax_percentage') / 100))}</span>
+                            <span>Tax ({form.watch('tax_percentage')}%{form.watch('tax_inclusive') ? ', included' : ''}):</span>
+                            <span>{formatCurrency(previewTax)}</span>
                           </div>
                           <div className="flex justify-between font-bold">
                             <span>Total:</span>
-                            <span>{formatCurrency(45000 * (1 + form.watch('tax_percentage') / 100))}</span>
+                            <span>{formatCurrency(previewTotal)}</span>
                           </div>
                           <div className="flex justify-between">
                             <span>Payment (Cash):</span>
@@ -358,7 +846,7 @@ const SettingsPage = () => {
                           </div>
                           <div className="flex justify-between">
                             <span>Change:</span>
-                            <span>{formatCurrency(50000 - 45000 * (1 + form.watch('tax_percentage') / 100))}</span>
+                            <span>{formatCurrency(50000 - previewTotal)}</span>
                           </div>
                         </div>
                         <div className="mt-4 text-center text-xs">
@@ -369,6 +857,172 @@ const SettingsPage = () => {
                   </Card>
                 </div>
               </TabsContent>
+
+              {/* Loyalty Program Tab */}
+              <TabsContent value="loyalty" className="space-y-4 mt-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Loyalty Program</CardTitle>
+                    <CardDescription>
+                      Configure how customers earn, redeem and lose loyalty points
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="loyalty_enabled"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel>Enable Loyalty Points</FormLabel>
+                            <FormDescription>
+                              Registered customers earn points on every sale and can redeem them at checkout.
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="loyalty_spend_per_point"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Spend per Point</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                                min="1"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Amount spent (before tax) to earn one point. Category multipliers apply on top.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loyalty_point_value"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Point Value</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                                min="0"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Discount given for each redeemed point.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="loyalty_expiry_days"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Points Expire After (days)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value, 10))}
+                                min="0"
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Set to 0 to keep points forever.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              {/* Document Numbering Tab */}
+              <TabsContent value="numbering" className="space-y-4 mt-4">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Document Numbering</CardTitle>
+                    <CardDescription>
+                      Patterns may use {'{YYYY}'}, {'{YY}'}, {'{MM}'} and {'{DD}'} for the date and a run of # such as {'{######}'} for the sequence.
+                      Numbers are only drawn once a document is saved, so each sequence has no gaps.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {DOCUMENT_TYPES.map((type) => {
+                      const pattern = form.watch(`document_numbering.${type}.pattern`);
+
+                      return (
+                        <div key={type} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+                          <FormField
+                            control={form.control}
+                            name={`document_numbering.${type}.pattern`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{DOCUMENT_TYPE_LABELS[type]}</FormLabel>
+                                <FormControl>
+                                  <Input {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name={`document_numbering.${type}.reset`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Reset Sequence</FormLabel>
+                                <FormControl>
+                                  <select
+                                    {...field}
+                                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                  >
+                                    <option value="never">Never</option>
+                                    <option value="yearly">Every year</option>
+                                    <option value="monthly">Every month</option>
+                                  </select>
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <div className="space-y-2">
+                            <p className="text-sm font-medium">Preview</p>
+                            <p className="flex h-10 items-center rounded-md bg-gray-50 px-3 font-mono text-sm">
+                              {pattern && isValidNumberingPattern(pattern) ? formatDocumentNumber(pattern, 123, new Date()) : '-'}
+                            </p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
 
             <div className="flex justify-end gap-4">
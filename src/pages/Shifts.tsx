@@ -0,0 +1,376 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { useShift } from '@/contexts/ShiftContext';
+import { useTransactions } from '@/contexts/TransactionContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCredit } from '@/contexts/CreditContext';
+import { useVouchers } from '@/contexts/VoucherContext';
+import { useLayaways } from '@/contexts/LayawayContext';
+import { PaymentMethod, Shift } from '@/types';
+import { getPaymentMethodLabel } from '@/lib/payments';
+import { buildShiftReport, CASH_DENOMINATIONS, countCash, summarizeShift } from '@/lib/shifts';
+import { printLines } from '@/lib/receipt';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Clock,
+  Printer,
+  Lock
+} from "lucide-react";
+import { toast } from "sonner";
+
+const Shifts = () => {
+  const { shifts, currentShift, openShift, closeShift } = useShift();
+  const { transactions, refunds } = useTransactions();
+  const { settings } = useSettings();
+  const { user, hasPermission } = useAuth();
+  const { ledger: creditLedger } = useCredit();
+  const { voucherLedger } = useVouchers();
+  const { layaways } = useLayaways();
+
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [isCloseDialogOpen, setIsCloseDialogOpen] = useState(false);
+  const [cashCount, setCashCount] = useState<Record<string, string>>({});
+  const [closingNotes, setClosingNotes] = useState('');
+
+  const currentSummary = currentShift ? summarizeShift(currentShift, transactions, refunds, creditLedger, voucherLedger, layaways) : null;
+
+  const countedValues = Object.fromEntries(
+    Object.entries(cashCount).map(([denomination, count]) => [denomination, parseInt(count) || 0])
+  );
+  const countedCash = countCash(countedValues);
+  const overShort = currentSummary ? countedCash - currentSummary.expectedCash : 0;
+
+  // Cashiers reconcile their own drawers; managers see every shift
+  const visibleShifts = [...shifts]
+    .filter(shift => hasPermission(['admin', 'manager']) || shift.cashierId === user?.id)
+    .sort((a, b) => new Date(b.openedAt).getTime() - new Date(a.openedAt).getTime());
+
+  const printReport = async (kind: 'X' | 'Z', shift: Shift) => {
+    try {
+      const summary = summarizeShift(shift, transactions, refunds, creditLedger, voucherLedger, layaways);
+      await printLines(
+        buildShiftReport(kind, shift, summary, settings.store_name),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        `Laporan ${kind} - ${shift.cashierName} ${new Date(shift.openedAt).toLocaleString('id-ID')}`
+      );
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenShift = () => {
+    const amount = openingFloat ? parseFloat(openingFloat) : 0;
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Modal awal tidak valid');
+      return;
+    }
+
+    try {
+      openShift(amount);
+      setOpeningFloat('');
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenCloseDialog = () => {
+    setCashCount({});
+    setClosingNotes('');
+    setIsCloseDialogOpen(true);
+  };
+
+  const handleCloseShift = () => {
+    if (!currentSummary) return;
+
+    try {
+      const closedShift = closeShift({
+        cashCount: countedValues,
+        expectedCash: currentSummary.expectedCash,
+        notes: closingNotes.trim() || undefined,
+      });
+
+      setIsCloseDialogOpen(false);
+      printReport('Z', closedShift);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Shift Kasir</h1>
+
+        {!currentShift ? (
+          <Card className="max-w-md">
+            <CardHeader>
+              <CardTitle>Buka Shift</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="opening-float">Modal Awal di Laci Kas (Rp)</Label>
+                <Input
+                  id="opening-float"
+                  type="number"
+                  min="0"
+                  placeholder="0"
+                  value={openingFloat}
+                  onChange={(e) => setOpeningFloat(e.target.value)}
+                />
+              </div>
+              <Button className="w-full" onClick={handleOpenShift}>
+                <Clock className="mr-2 h-4 w-4" /> Buka Shift
+              </Button>
+            </CardContent>
+          </Card>
+        ) : currentSummary && (
+          <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div className="text-sm text-gray-600">
+                Shift #{currentShift.id} dibuka {new Date(currentShift.openedAt).toLocaleString('id-ID')}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => printReport('X', currentShift)}>
+                  <Printer className="mr-2 h-4 w-4" /> Cetak Laporan X
+                </Button>
+                <Button onClick={handleOpenCloseDialog}>
+                  <Lock className="mr-2 h-4 w-4" /> Tutup Shift
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-muted-foreground">Modal Awal</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">Rp {currentShift.openingFloat.toLocaleString('id-ID')}</div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-muted-foreground">Jumlah Transaksi</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{currentSummary.transactionCount}</div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-muted-foreground">Penjualan Bersih</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    Rp {(currentSummary.grossSales - currentSummary.refundTotal).toLocaleString('id-ID')}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-muted-foreground">Kas Seharusnya</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-blue-600">
+                    Rp {currentSummary.expectedCash.toLocaleString('id-ID')}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Penjualan per Metode Pembayaran</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {(Object.keys(currentSummary.salesByMethod) as PaymentMethod[]).length > 0 ? (
+                  (Object.keys(currentSummary.salesByMethod) as PaymentMethod[]).map(method => (
+                    <div key={method} className="flex justify-between">
+                      <span>{getPaymentMethodLabel(method)}</span>
+                      <span>Rp {(currentSummary.salesByMethod[method] || 0).toLocaleString('id-ID')}</span>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">Belum ada penjualan pada shift ini</p>
+                )}
+                {currentSummary.refundCount > 0 && (
+                  <div className="flex justify-between text-red-500 border-t pt-2">
+                    <span>Retur ({currentSummary.refundCount})</span>
+                    <span>-Rp {currentSummary.refundTotal.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentSummary.repaymentCount > 0 && (
+                  <div className="flex justify-between text-green-600 border-t pt-2">
+                    <span>Pelunasan Kasbon ({currentSummary.repaymentCount})</span>
+                    <span>Rp {currentSummary.repaymentTotal.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentSummary.voucherSaleCount > 0 && (
+                  <div className="flex justify-between text-green-600 border-t pt-2">
+                    <span>Penjualan Voucher ({currentSummary.voucherSaleCount})</span>
+                    <span>Rp {currentSummary.voucherSaleTotal.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentSummary.layawayPaymentCount > 0 && (
+                  <div className="flex justify-between text-green-600 border-t pt-2">
+                    <span>DP Layaway ({currentSummary.layawayPaymentCount})</span>
+                    <span>Rp {currentSummary.layawayPaymentTotal.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+                {currentSummary.layawayRefundCount > 0 && (
+                  <div className="flex justify-between text-red-500 border-t pt-2">
+                    <span>Refund Layaway ({currentSummary.layawayRefundCount})</span>
+                    <span>-Rp {currentSummary.layawayRefundTotal.toLocaleString('id-ID')}</span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Riwayat Shift</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="table-container">
+              <table className="pos-table">
+                <thead>
+                  <tr>
+                    <th>Kasir</th>
+                    <th>Dibuka</th>
+                    <th>Ditutup</th>
+                    <th>Modal Awal</th>
+                    <th>Kas Seharusnya</th>
+                    <th>Kas Dihitung</th>
+                    <th>Selisih</th>
+                    <th>Aksi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleShifts.length > 0 ? (
+                    visibleShifts.map((shift) => (
+                      <tr key={shift.id}>
+                        <td className="font-medium">{shift.cashierName}</td>
+                        <td>{new Date(shift.openedAt).toLocaleString('id-ID')}</td>
+                        <td>
+                          {shift.closedAt ? new Date(shift.closedAt).toLocaleString('id-ID') : (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              Berjalan
+                            </span>
+                          )}
+                        </td>
+                        <td>Rp {shift.openingFloat.toLocaleString('id-ID')}</td>
+                        <td>{shift.expectedCash !== undefined ? `Rp ${shift.expectedCash.toLocaleString('id-ID')}` : '-'}</td>
+                        <td>{shift.countedCash !== undefined ? `Rp ${shift.countedCash.toLocaleString('id-ID')}` : '-'}</td>
+                        <td className={
+                          (shift.overShort || 0) < 0 ? 'text-red-500' : (shift.overShort || 0) > 0 ? 'text-amber-500' : ''
+                        }>
+                          {shift.overShort !== undefined ? `Rp ${shift.overShort.toLocaleString('id-ID')}` : '-'}
+                        </td>
+                        <td>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={shift.status === 'closed' ? 'Cetak Laporan Z' : 'Cetak Laporan X'}
+                            onClick={() => printReport(shift.status === 'closed' ? 'Z' : 'X', shift)}
+                          >
+                            <Printer size={16} />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={8} className="text-center py-4 text-muted-foreground">
+                        Belum ada shift
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Close Shift Dialog */}
+      <Dialog open={isCloseDialogOpen} onOpenChange={setIsCloseDialogOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Tutup Shift</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <Label>Hitung Uang di Laci Kas</Label>
+            <div className="grid grid-cols-2 gap-3">
+              {CASH_DENOMINATIONS.map(denomination => (
+                <div key={denomination} className="flex items-center gap-2">
+                  <span className="w-20 text-sm text-right">{denomination.toLocaleString('id-ID')}</span>
+                  <span className="text-sm text-gray-500">x</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="0"
+                    value={cashCount[denomination] || ''}
+                    onChange={(e) => setCashCount({ ...cashCount, [denomination]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {currentSummary && (
+              <div className="border-t pt-4 space-y-1">
+                <div className="flex justify-between">
+                  <span>Kas Seharusnya:</span>
+                  <span>Rp {currentSummary.expectedCash.toLocaleString('id-ID')}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Kas Dihitung:</span>
+                  <span>Rp {countedCash.toLocaleString('id-ID')}</span>
+                </div>
+                <div className={`flex justify-between font-bold ${
+                  overShort < 0 ? 'text-red-500' : overShort > 0 ? 'text-amber-500' : 'text-green-600'
+                }`}>
+                  <span>{overShort < 0 ? 'Kurang:' : overShort > 0 ? 'Lebih:' : 'Selisih:'}</span>
+                  <span>Rp {Math.abs(overShort).toLocaleString('id-ID')}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="closing-notes">Catatan</Label>
+              <Input
+                id="closing-notes"
+                placeholder="Opsional, misalnya alasan selisih"
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCloseDialogOpen(false)}>Batal</Button>
+            <Button onClick={handleCloseShift}>Tutup Shift & Cetak Laporan Z</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default Shifts;
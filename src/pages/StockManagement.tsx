@@ -55,6 +55,11 @@ import {
   Plus
 } from "lucide-react";
 import { id } from 'date-fns/locale';
+import { matchesDocumentNumber } from '@/lib/numbering';
+import { isVariantParent } from '@/lib/variants';
+import { formatStockQuantity, getBaseUnit, getQuantityPrecision, roundQuantity, toBaseQuantity } from '@/lib/units';
+import { getDefaultBatchNumber, sortLotsForPicking } from '@/lib/lots';
+import { toDateKey } from '@/lib/promotions';
 
 const StockManagement = () => {
   // States
@@ -67,7 +72,11 @@ const StockManagement = () => {
   const [selectedSupplierId, setSelectedSupplierId] = useState<string>('');
   const [selectedType, setSelectedType] = useState<StockAdjustmentType>('purchase');
   const [adjustmentQuantity, setAdjustmentQuantity] = useState<number>(0);
+  const [selectedUnitName, setSelectedUnitName] = useState<string>('');
   const [notes, setNotes] = useState<string>('');
+  const [batchNumber, setBatchNumber] = useState<string>('');
+  const [expiryDate, setExpiryDate] = useState<string>('');
+  const [selectedLotId, setSelectedLotId] = useState<string>('');
   
   // Context
   const { 
@@ -90,8 +99,17 @@ const StockManagement = () => {
   // Selected product details
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   
+  // Quantities can be entered in any pack size; stock is always kept in the base unit
+  const selectedUnit = selectedProduct?.units?.find(unit => unit.name === selectedUnitName);
+  const baseAdjustmentQuantity = toBaseQuantity(adjustmentQuantity, selectedUnit);
+  // Weighed goods are adjusted in fractions of their base unit; packs always whole
+  const quantityPrecision = selectedProduct && !selectedUnit ? getQuantityPrecision(selectedProduct) : 0;
+
   // Calculate new stock preview
-  const newStockPreview = selectedProduct ? selectedProduct.stock + adjustmentQuantity : 0;
+  const newStockPreview = selectedProduct ? roundQuantity(selectedProduct.stock + baseAdjustmentQuantity) : 0;
+
+  const selectedProductLots = selectedProduct ? sortLotsForPicking(selectedProduct.lots || []) : [];
+  const selectedLot = selectedProductLots.find(lot => lot.id === selectedLotId);
   
   // Update filtered adjustments when dependencies change
   useEffect(() => {
@@ -114,10 +132,13 @@ const StockManagement = () => {
       return adjDate >= start && adjDate <= end;
     });
     
-    // Then filter by search query (product name)
+    // Then filter by search query (product name, document number or the sale/return number in the notes)
     if (searchQuery) {
+      const query = searchQuery.toLowerCase();
       adjustments = adjustments.filter(adj => 
-        adj.productName.toLowerCase().includes(searchQuery.toLowerCase())
+        adj.productName.toLowerCase().includes(query) ||
+        matchesDocumentNumber(adj, searchQuery) ||
+        (adj.notes?.toLowerCase().includes(query) ?? false)
       );
     }
     
@@ -132,6 +153,8 @@ const StockManagement = () => {
     setSelectedProductId(productId);
     const product = products.find(p => p.id === productId) || null;
     setSelectedProduct(product);
+    setSelectedUnitName('');
+    setSelectedLotId('');
   };
   
   // Handle adjustment type change
@@ -142,6 +165,11 @@ const StockManagement = () => {
     if (type !== 'purchase') {
       setSelectedSupplierId('');
     }
+
+    // Only a write-off is booked against a chosen lot
+    if (type !== 'loss') {
+      setSelectedLotId('');
+    }
     
     // Set a default direction for the quantity based on type
     if (type === 'purchase') {
@@ -165,6 +193,13 @@ const StockManagement = () => {
     }
     
     // Validate based on type
+    if (roundQuantity(adjustmentQuantity, quantityPrecision) !== adjustmentQuantity) {
+      alert(quantityPrecision > 0
+        ? `Jumlah maksimal ${quantityPrecision} angka desimal`
+        : 'Jumlah harus bilangan bulat');
+      return;
+    }
+    
     if (selectedType === 'purchase' && adjustmentQuantity <= 0) {
       alert('Jumlah pembelian harus positif');
       return;
@@ -181,18 +216,36 @@ const StockManagement = () => {
     }
     
     // Check if it would make stock negative
-    if (selectedProduct && selectedProduct.stock + adjustmentQuantity < 0) {
+    if (selectedProduct && newStockPreview < 0) {
       alert('Stok tidak boleh negatif');
       return;
     }
+
+    if (selectedType === 'purchase' && expiryDate && expiryDate < toDateKey(new Date())) {
+      alert('Tanggal kedaluwarsa sudah lewat');
+      return;
+    }
+
+    if (selectedLot && roundQuantity(selectedLot.quantity + baseAdjustmentQuantity) < 0) {
+      alert('Jumlah melebihi sisa lot yang dipilih');
+      return;
+    }
+
+    // Keep the quantity as entered next to the converted one
+    const unitNote = selectedUnit && selectedProduct
+      ? `${Math.abs(adjustmentQuantity)} ${selectedUnit.name} @ ${selectedUnit.factor} ${getBaseUnit(selectedProduct)}`
+      : '';
     
     // Update stock
     updateStock(
       selectedProductId,
-      adjustmentQuantity,
+      baseAdjustmentQuantity,
       selectedType,
       selectedType === 'purchase' ? selectedSupplierId : undefined,
-      notes
+      [unitNote, notes].filter(Boolean).join(' - '),
+      selectedType === 'purchase'
+        ? { batchNumber, expiryDate }
+        : selectedType === 'loss' && selectedLotId ? { lotId: selectedLotId } : undefined
     );
     
     // Reset form
@@ -207,7 +260,11 @@ const StockManagement = () => {
     setSelectedType('purchase');
     setSelectedSupplierId('');
     setAdjustmentQuantity(0);
+    setSelectedUnitName('');
     setNotes('');
+    setBatchNumber('');
+    setExpiryDate('');
+    setSelectedLotId('');
   };
   
   // Get icon for adjustment type
@@ -221,6 +278,8 @@ const StockManagement = () => {
         return <RotateCcw className="h-4 w-4 text-blue-500" />;
       case 'return':
         return <TrendingDown className="h-4 w-4 text-orange-500" />;
+      case 'reservation':
+        return <Package className="h-4 w-4 text-purple-500" />;
       default:
         return null;
     }
@@ -238,8 +297,14 @@ const StockManagement = () => {
   };
   
   // Get adjustment quantity with sign
-  const getAdjustmentWithSign = (adjustment: number) => {
-    return adjustment > 0 ? `+${adjustment}` : adjustment;
+  const getAdjustmentWithSign = (adjustment: number, product?: Product) => {
+    const quantity = product ? formatStockQuantity(product, adjustment) : adjustment;
+    return adjustment > 0 ? `+${quantity}` : quantity;
+  };
+
+  // Movements of deleted products fall back to plain numbers
+  const formatAdjustmentStock = (quantity: number, product?: Product) => {
+    return product ? formatStockQuantity(product, quantity) : quantity;
   };
   
   return (
@@ -301,7 +366,7 @@ const StockManagement = () => {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
             <Input
               type="text"
-              placeholder="Cari nama produk..."
+              placeholder="Cari nama produk atau nomor dokumen..."
               className="pl-10"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -349,6 +414,7 @@ const StockManagement = () => {
             <TabsTrigger value="loss">Kehilangan</TabsTrigger>
             <TabsTrigger value="correction">Koreksi</TabsTrigger>
             <TabsTrigger value="return">Retur</TabsTrigger>
+            <TabsTrigger value="reservation">Reservasi</TabsTrigger>
           </TabsList>
           
           <TabsContent value={activeTab}>
@@ -358,7 +424,9 @@ const StockManagement = () => {
                   <TableHeader>
                     <TableRow>
                       <TableHead>Tanggal</TableHead>
+                      <TableHead>No. Dokumen</TableHead>
                       <TableHead>Produk</TableHead>
+                      <TableHead>Lot</TableHead>
                       <TableHead>Tipe</TableHead>
                       <TableHead>Stok Sebelumnya</TableHead>
                       <TableHead>Penyesuaian</TableHead>
@@ -370,46 +438,61 @@ const StockManagement = () => {
                   </TableHeader>
                   <TableBody>
                     {filteredAdjustments.length > 0 ? (
-                      filteredAdjustments.map((adjustment) => (
-                        <TableRow key={adjustment.id}>
-                          <TableCell className="font-medium whitespace-nowrap">
-                            {formatDate(adjustment.createdAt)}
-                          </TableCell>
-                          <TableCell>{adjustment.productName}</TableCell>
-                          <TableCell>
-                            <div className="flex items-center">
-                              {getAdjustmentIcon(adjustment.adjustmentType)}
-                              <span className="ml-2 capitalize">
-                                {adjustment.adjustmentType === 'purchase' ? 'Pembelian' :
-                                 adjustment.adjustmentType === 'loss' ? 'Kehilangan' :
-                                 adjustment.adjustmentType === 'correction' ? 'Koreksi' : 'Retur'}
+                      filteredAdjustments.map((adjustment) => {
+                        const product = products.find(p => p.id === adjustment.productId);
+                        return (
+                          <TableRow key={adjustment.id}>
+                            <TableCell className="font-medium whitespace-nowrap">
+                              {formatDate(adjustment.createdAt)}
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">{adjustment.number || '-'}</TableCell>
+                            <TableCell>{adjustment.productName}</TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {adjustment.lots ? adjustment.lots.map(lot => (
+                                <div key={lot.lotId}>
+                                  {lot.batchNumber}
+                                  {lot.expiryDate && (
+                                    <span className="text-xs text-gray-500"> (ED {new Date(lot.expiryDate).toLocaleDateString('id-ID')})</span>
+                                  )}
+                                </div>
+                              )) : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center">
+                                {getAdjustmentIcon(adjustment.adjustmentType)}
+                                <span className="ml-2 capitalize">
+                                  {adjustment.adjustmentType === 'purchase' ? 'Pembelian' :
+                                   adjustment.adjustmentType === 'loss' ? 'Kehilangan' :
+                                   adjustment.adjustmentType === 'correction' ? 'Koreksi' :
+                                   adjustment.adjustmentType === 'reservation' ? 'Reservasi' : 'Retur'}
+                                </span>
+                              </div>
+                            </TableCell>
+                            <TableCell>{formatAdjustmentStock(adjustment.previousStock, product)}</TableCell>
+                            <TableCell>
+                              <span className={`flex items-center ${
+                                adjustment.adjustmentQuantity > 0 ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {adjustment.adjustmentQuantity > 0 ? (
+                                  <ArrowUp className="mr-1 h-4 w-4" />
+                                ) : (
+                                  <ArrowDown className="mr-1 h-4 w-4" />
+                                )}
+                                {getAdjustmentWithSign(adjustment.adjustmentQuantity, product)}
                               </span>
-                            </div>
-                          </TableCell>
-                          <TableCell>{adjustment.previousStock}</TableCell>
-                          <TableCell>
-                            <span className={`flex items-center ${
-                              adjustment.adjustmentQuantity > 0 ? 'text-green-600' : 'text-red-600'
-                            }`}>
-                              {adjustment.adjustmentQuantity > 0 ? (
-                                <ArrowUp className="mr-1 h-4 w-4" />
-                              ) : (
-                                <ArrowDown className="mr-1 h-4 w-4" />
-                              )}
-                              {getAdjustmentWithSign(adjustment.adjustmentQuantity)}
-                            </span>
-                          </TableCell>
-                          <TableCell>{adjustment.newStock}</TableCell>
-                          <TableCell>{adjustment.supplierName || '-'}</TableCell>
-                          <TableCell className="max-w-xs truncate">
-                            {adjustment.notes || '-'}
-                          </TableCell>
-                          <TableCell>{adjustment.userName}</TableCell>
-                        </TableRow>
-                      ))
+                            </TableCell>
+                            <TableCell>{formatAdjustmentStock(adjustment.newStock, product)}</TableCell>
+                            <TableCell>{adjustment.supplierName || '-'}</TableCell>
+                            <TableCell className="max-w-xs truncate">
+                              {adjustment.notes || '-'}
+                            </TableCell>
+                            <TableCell>{adjustment.userName}</TableCell>
+                          </TableRow>
+                        );
+                      })
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={9} className="text-center py-6 text-gray-500">
+                        <TableCell colSpan={11} className="text-center py-6 text-gray-500">
                           <Package className="mx-auto mb-2 h-12 w-12 text-gray-400" />
                           <p>Tidak ada data penyesuaian stok yang ditemukan.</p>
                         </TableCell>
@@ -440,9 +523,9 @@ const StockManagement = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectGroup>
-                    {products.map(product => (
+                    {products.filter(product => !isVariantParent(product)).map(product => (
                       <SelectItem key={product.id} value={product.id}>
-                        {product.name} ({product.stock} tersedia)
+                        {product.name} ({formatStockQuantity(product, product.stock)} tersedia)
                       </SelectItem>
                     ))}
                   </SelectGroup>
@@ -490,6 +573,55 @@ const StockManagement = () => {
               </div>
             )}
             
+            {/* Lot received (only for purchase) */}
+            {selectedType === 'purchase' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="batch-number">No. Batch</Label>
+                  <Input
+                    id="batch-number"
+                    placeholder={getDefaultBatchNumber()}
+                    value={batchNumber}
+                    onChange={(e) => setBatchNumber(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expiry-date">Tanggal Kedaluwarsa</Label>
+                  <Input
+                    id="expiry-date"
+                    type="date"
+                    value={expiryDate}
+                    onChange={(e) => setExpiryDate(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Lot written off (only for loss) */}
+            {selectedType === 'loss' && selectedProductLots.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="lot">Lot</Label>
+                <Select
+                  value={selectedLotId || '__fefo'}
+                  onValueChange={(value) => setSelectedLotId(value === '__fefo' ? '' : value)}
+                >
+                  <SelectTrigger id="lot">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__fefo">Otomatis (kedaluwarsa terdekat)</SelectItem>
+                    {selectedProductLots.map(lot => (
+                      <SelectItem key={lot.id} value={lot.id}>
+                        {lot.batchNumber}
+                        {lot.expiryDate ? ` - ED ${new Date(lot.expiryDate).toLocaleDateString('id-ID')}` : ''}
+                        {' '}({selectedProduct && formatStockQuantity(selectedProduct, lot.quantity)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            
             {/* Quantity */}
             <div className="space-y-2">
               <Label htmlFor="quantity">Jumlah Penyesuaian *</Label>
@@ -497,13 +629,33 @@ const StockManagement = () => {
                 <Input
                   id="quantity"
                   type="number"
+                  step={10 ** -quantityPrecision}
                   value={adjustmentQuantity}
                   onChange={(e) => setAdjustmentQuantity(Number(e.target.value))}
                 />
+
+                {selectedProduct && selectedProduct.units && selectedProduct.units.length > 0 && (
+                  <Select
+                    value={selectedUnitName || '__base'}
+                    onValueChange={(value) => setSelectedUnitName(value === '__base' ? '' : value)}
+                  >
+                    <SelectTrigger className="w-32" aria-label="Satuan">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__base">{getBaseUnit(selectedProduct)}</SelectItem>
+                      {selectedProduct.units.map(unit => (
+                        <SelectItem key={unit.name} value={unit.name}>
+                          {unit.name} ({unit.factor})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 
                 {selectedProduct && (
                   <div className="text-sm">
-                    <span className="font-medium">Stok Saat Ini:</span> {selectedProduct.stock}
+                    <span className="font-medium">Stok Saat Ini:</span> {formatStockQuantity(selectedProduct, selectedProduct.stock)}
                   </div>
                 )}
               </div>
@@ -512,7 +664,7 @@ const StockManagement = () => {
                 <div className="flex items-center mt-2 p-2 bg-gray-50 rounded">
                   <span className="font-medium mr-2">Stok Setelah Penyesuaian:</span>
                   <span className={`${newStockPreview < 0 ? 'text-red-500' : ''}`}>
-                    {newStockPreview}
+                    {formatStockQuantity(selectedProduct, newStockPreview)}
                   </span>
                 </div>
               )}
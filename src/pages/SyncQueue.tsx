@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { useOutbox } from '@/contexts/OutboxContext';
+import { OutboxEntry } from '@/types';
+import { getDocumentNumber } from '@/lib/numbering';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  RefreshCw,
+  Send,
+  CheckCircle
+} from "lucide-react";
+import { toast } from "sonner";
+
+const SyncQueue = () => {
+  const { entries, pendingCount, conflictCount, isOnline, isSyncing, lastSyncedAt, syncNow, retryEntry, resolveEntry } = useOutbox();
+
+  const [resolvingEntry, setResolvingEntry] = useState<OutboxEntry | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const conflicts = entries.filter(entry => entry.status === 'conflict');
+  const pending = entries.filter(entry => entry.status === 'pending');
+  const resolved = entries
+    .filter(entry => entry.status === 'resolved')
+    .sort((a, b) => new Date(b.resolvedAt || 0).getTime() - new Date(a.resolvedAt || 0).getTime());
+
+  const handleResolve = () => {
+    if (!resolvingEntry) return;
+
+    if (!resolutionNote.trim()) {
+      toast.error('Tuliskan catatan penyelesaian');
+      return;
+    }
+
+    try {
+      resolveEntry(resolvingEntry.id, resolutionNote.trim());
+      setResolvingEntry(null);
+      setResolutionNote('');
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const describeItems = (entry: OutboxEntry) => {
+    return entry.transaction.items.map(item => `${item.product.name} x${item.quantity}`).join(', ');
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold">Sinkronisasi Transaksi</h1>
+
+          <Button onClick={syncNow} disabled={isSyncing || pendingCount === 0}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} /> Sinkronkan Sekarang
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Koneksi</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${isOnline ? 'text-green-600' : 'text-gray-500'}`}>
+                {isOnline ? 'Online' : 'Offline'}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Menunggu Sinkron</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-amber-500">{pendingCount}</div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Konflik</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-red-500">{conflictCount}</div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground">Terakhir Sinkron</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-sm font-medium">
+                {lastSyncedAt ? new Date(lastSyncedAt).toLocaleString('id-ID') : 'Belum pernah'}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Konflik</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="table-container">
+              <table className="pos-table">
+                <thead>
+                  <tr>
+                    <th>Tanggal Transaksi</th>
+                    <th>No. Transaksi</th>
+                    <th>Item</th>
+                    <th>Total</th>
+                    <th>Alasan Ditolak</th>
+                    <th>Aksi</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflicts.length > 0 ? (
+                    conflicts.map((entry) => (
+                      <tr key={entry.id}>
+                        <td>{new Date(entry.transaction.createdAt).toLocaleString('id-ID')}</td>
+                        <td>{getDocumentNumber(entry.transaction)}</td>
+                        <td className="text-sm">{describeItems(entry)}</td>
+                        <td>Rp {entry.transaction.total.toLocaleString('id-ID')}</td>
+                        <td className="text-sm text-red-500">{entry.lastError}</td>
+                        <td>
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Kirim ulang setelah data di server diperbaiki"
+                              onClick={() => retryEntry(entry.id)}
+                            >
+                              <Send size={14} className="mr-1" /> Kirim Ulang
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                setResolvingEntry(entry);
+                                setResolutionNote('');
+                              }}
+                            >
+                              <CheckCircle size={14} className="mr-1" /> Selesai
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={6} className="text-center py-4 text-muted-foreground">
+                        Tidak ada konflik
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Antrean</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="table-container">
+              <table className="pos-table">
+                <thead>
+                  <tr>
+                    <th>Tanggal Transaksi</th>
+                    <th>No. Transaksi</th>
+                    <th>Total</th>
+                    <th>Percobaan</th>
+                    <th>Percobaan Berikutnya</th>
+                    <th>Kesalahan Terakhir</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pending.length > 0 ? (
+                    pending.map((entry) => (
+                      <tr key={entry.id}>
+                        <td>{new Date(entry.transaction.createdAt).toLocaleString('id-ID')}</td>
+                        <td>{getDocumentNumber(entry.transaction)}</td>
+                        <td>Rp {entry.transaction.total.toLocaleString('id-ID')}</td>
+                        <td>{entry.attempts}</td>
+                        <td>{new Date(entry.nextAttemptAt).toLocaleTimeString('id-ID')}</td>
+                        <td className="text-sm text-gray-500">{entry.lastError || '-'}</td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={6} className="text-center py-4 text-muted-foreground">
+                        Semua transaksi sudah tersinkron
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        {resolved.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Riwayat Penyelesaian</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="table-container">
+                <table className="pos-table">
+                  <thead>
+                    <tr>
+                      <th>No. Transaksi</th>
+                      <th>Alasan Ditolak</th>
+                      <th>Catatan</th>
+                      <th>Diselesaikan Oleh</th>
+                      <th>Waktu</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {resolved.map((entry) => (
+                      <tr key={entry.id}>
+                        <td>{getDocumentNumber(entry.transaction)}</td>
+                        <td className="text-sm">{entry.lastError}</td>
+                        <td className="text-sm">{entry.resolutionNote}</td>
+                        <td>{entry.resolvedBy}</td>
+                        <td>{entry.resolvedAt ? new Date(entry.resolvedAt).toLocaleString('id-ID') : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Resolve Conflict Dialog */}
+      <Dialog open={!!resolvingEntry} onOpenChange={(open) => !open && setResolvingEntry(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Selesaikan Konflik</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <p className="text-sm text-gray-600">
+              Transaksi <span className="font-medium">{resolvingEntry && getDocumentNumber(resolvingEntry.transaction)}</span> tidak akan dikirim
+              lagi ke server. Transaksi tetap tercatat di perangkat ini.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="resolution-note">Catatan Penyelesaian *</Label>
+              <Input
+                id="resolution-note"
+                placeholder="Contoh: stok disesuaikan manual di server"
+                value={resolutionNote}
+                onChange={(e) => setResolutionNote(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolvingEntry(null)}>Batal</Button>
+            <Button onClick={handleResolve}>Tandai Selesai</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default SyncQueue;
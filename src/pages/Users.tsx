@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
 import { User, UserRole } from '@/types';
+import { createId } from '@/lib/ids';
 import { 
   Search,
   Plus,
@@ -182,7 +183,7 @@ const Users = () => {
     } else {
       // Create new user
       const newUser: User = {
-        id: String(Date.now()),
+        id: createId(),
         name: userForm.name,
         email: userForm.email,
         role: userForm.role,
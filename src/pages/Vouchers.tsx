@@ -0,0 +1,789 @@
+import { useState } from 'react';
+import AppLayout from '@/components/layouts/AppLayout';
+import { useVouchers } from '@/contexts/VoucherContext';
+import { useProducts } from '@/contexts/ProductContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { Coupon, CouponType, GiftVoucher, PaymentMethod } from '@/types';
+import { COUNTER_PAYMENT_METHODS, getPaymentMethodLabel, PAYMENT_METHOD_LABELS } from '@/lib/payments';
+import { COUPON_TYPE_LABELS, getVoucherStatus, VOUCHER_ENTRY_LABELS, VOUCHER_STATUS_LABELS, VoucherStatus } from '@/lib/vouchers';
+import { buildGiftVoucherLines, printLines } from '@/lib/receipt';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Search,
+  Plus,
+  Trash2,
+  Edit,
+  Power,
+  Gift,
+  History,
+  Printer,
+  Ban,
+  Ticket
+} from "lucide-react";
+import { toast } from "sonner";
+
+// Select values can't be empty, so a complimentary voucher gets its own key
+const COMPLIMENTARY = 'complimentary';
+
+const STATUS_STYLES: Record<VoucherStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  used: 'bg-gray-100 text-gray-800',
+  expired: 'bg-amber-100 text-amber-800',
+  void: 'bg-red-100 text-red-800',
+};
+
+type CouponForm = Omit<Coupon, 'id' | 'createdAt' | 'updatedAt'>;
+
+const emptyCouponForm: CouponForm = {
+  code: '',
+  name: '',
+  type: 'percentage',
+  value: 0,
+  maxDiscount: 0,
+  minimumSpend: 0,
+  categoryIds: [],
+  usageLimit: 0,
+  startDate: '',
+  endDate: '',
+  isActive: true,
+};
+
+const emptyIssueForm = {
+  faceValue: '',
+  quantity: '1',
+  expiresAt: '',
+  method: 'cash',
+  recipientName: '',
+  notes: '',
+};
+
+const Vouchers = () => {
+  const {
+    vouchers,
+    voucherLedger,
+    coupons,
+    getVoucherBalance,
+    issueVouchers,
+    voidVoucher,
+    addCoupon,
+    updateCoupon,
+    deleteCoupon,
+    getCouponUsageCount
+  } = useVouchers();
+  const { categories } = useProducts();
+  const { settings } = useSettings();
+
+  const [voucherQuery, setVoucherQuery] = useState('');
+  const [isIssueDialogOpen, setIsIssueDialogOpen] = useState(false);
+  const [issueForm, setIssueForm] = useState(emptyIssueForm);
+  const [issuedVouchers, setIssuedVouchers] = useState<GiftVoucher[]>([]);
+  const [historyVoucher, setHistoryVoucher] = useState<GiftVoucher | null>(null);
+  const [voidItem, setVoidItem] = useState<GiftVoucher | null>(null);
+
+  const [couponQuery, setCouponQuery] = useState('');
+  const [isCouponDialogOpen, setIsCouponDialogOpen] = useState(false);
+  const [couponForm, setCouponForm] = useState<CouponForm>(emptyCouponForm);
+  const [editingCouponId, setEditingCouponId] = useState<string | null>(null);
+  const [deleteCouponItem, setDeleteCouponItem] = useState<Coupon | null>(null);
+
+  const filteredVouchers = vouchers
+    .filter(voucher =>
+      voucher.code.toLowerCase().includes(voucherQuery.toLowerCase()) ||
+      (voucher.recipientName || '').toLowerCase().includes(voucherQuery.toLowerCase())
+    )
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const filteredCoupons = coupons.filter(coupon =>
+    coupon.code.toLowerCase().includes(couponQuery.toLowerCase()) ||
+    coupon.name.toLowerCase().includes(couponQuery.toLowerCase())
+  );
+
+  const historyEntries = historyVoucher
+    ? voucherLedger
+      .filter(entry => entry.voucherId === historyVoucher.id)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    : [];
+
+  const printVouchers = async (toPrint: GiftVoucher[]) => {
+    try {
+      await printLines(
+        buildGiftVoucherLines(toPrint, settings),
+        { format: settings.receipt_print_format, bridgeUrl: settings.receipt_printer_bridge_url },
+        toPrint.length === 1 ? `Voucher ${toPrint[0].code}` : `Voucher (${toPrint.length})`
+      );
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenIssueDialog = () => {
+    setIssueForm(emptyIssueForm);
+    setIsIssueDialogOpen(true);
+  };
+
+  const handleIssue = () => {
+    const faceValue = parseFloat(issueForm.faceValue);
+    if (isNaN(faceValue) || faceValue <= 0) {
+      toast.error('Nilai voucher harus lebih dari 0');
+      return;
+    }
+
+    const quantity = parseInt(issueForm.quantity, 10);
+    if (isNaN(quantity) || quantity <= 0) {
+      toast.error('Jumlah voucher tidak valid');
+      return;
+    }
+
+    try {
+      const issued = issueVouchers({
+        faceValue,
+        quantity,
+        expiresAt: issueForm.expiresAt || undefined,
+        method: issueForm.method === COMPLIMENTARY ? undefined : issueForm.method as PaymentMethod,
+        recipientName: issueForm.recipientName.trim() || undefined,
+        notes: issueForm.notes.trim() || undefined,
+      });
+      setIsIssueDialogOpen(false);
+      setIssuedVouchers(issued);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleVoid = () => {
+    if (!voidItem) return;
+
+    try {
+      voidVoucher(voidItem.id);
+      setVoidItem(null);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleOpenCouponDialog = (coupon?: Coupon) => {
+    if (coupon) {
+      setCouponForm({ ...emptyCouponForm, ...coupon });
+      setEditingCouponId(coupon.id);
+    } else {
+      setCouponForm(emptyCouponForm);
+      setEditingCouponId(null);
+    }
+    setIsCouponDialogOpen(true);
+  };
+
+  const toggleCategory = (categoryId: string) => {
+    const categoryIds = couponForm.categoryIds || [];
+    setCouponForm({
+      ...couponForm,
+      categoryIds: categoryIds.includes(categoryId)
+        ? categoryIds.filter(id => id !== categoryId)
+        : [...categoryIds, categoryId],
+    });
+  };
+
+  const handleSaveCoupon = () => {
+    if (!couponForm.code.trim()) {
+      toast.error('Kode kupon harus diisi');
+      return;
+    }
+
+    if (!couponForm.name.trim()) {
+      toast.error('Nama kupon harus diisi');
+      return;
+    }
+
+    if (couponForm.value <= 0 || (couponForm.type === 'percentage' && couponForm.value > 100)) {
+      toast.error('Nilai diskon tidak valid');
+      return;
+    }
+
+    if (couponForm.startDate && couponForm.endDate && couponForm.startDate > couponForm.endDate) {
+      toast.error('Tanggal mulai tidak boleh setelah tanggal berakhir');
+      return;
+    }
+
+    // Drop empty optional fields so they don't constrain the coupon
+    const couponData: CouponForm = {
+      ...couponForm,
+      name: couponForm.name.trim(),
+      maxDiscount: couponForm.type === 'percentage' && couponForm.maxDiscount ? couponForm.maxDiscount : undefined,
+      minimumSpend: couponForm.minimumSpend || undefined,
+      usageLimit: couponForm.usageLimit || undefined,
+      startDate: couponForm.startDate || undefined,
+      endDate: couponForm.endDate || undefined,
+    };
+
+    try {
+      if (editingCouponId) {
+        updateCoupon(editingCouponId, couponData);
+      } else {
+        addCoupon(couponData);
+      }
+      setIsCouponDialogOpen(false);
+    } catch (error) {
+      toast.error(`Error: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDeleteCoupon = () => {
+    if (!deleteCouponItem) return;
+
+    deleteCoupon(deleteCouponItem.id);
+    setDeleteCouponItem(null);
+  };
+
+  const describeCoupon = (coupon: Coupon) => {
+    const parts = [
+      coupon.type === 'percentage'
+        ? `${coupon.value}%${coupon.maxDiscount ? ` maks. Rp ${coupon.maxDiscount.toLocaleString('id-ID')}` : ''}`
+        : `Rp ${coupon.value.toLocaleString('id-ID')}`,
+    ];
+    if (coupon.minimumSpend) {
+      parts.push(`min. Rp ${coupon.minimumSpend.toLocaleString('id-ID')}`);
+    }
+    if (coupon.categoryIds && coupon.categoryIds.length > 0) {
+      parts.push(coupon.categoryIds.map(id => categories.find(c => c.id === id)?.name).filter(Boolean).join(', '));
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold">Voucher & Kupon</h1>
+
+        <Tabs defaultValue="vouchers">
+          <TabsList className="mb-4">
+            <TabsTrigger value="vouchers">Voucher Hadiah</TabsTrigger>
+            <TabsTrigger value="coupons">Kupon</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="vouchers">
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-4 justify-between">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                  <Input
+                    type="text"
+                    placeholder="Cari kode atau penerima..."
+                    className="pl-10"
+                    value={voucherQuery}
+                    onChange={(e) => setVoucherQuery(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleOpenIssueDialog}>
+                  <Plus className="mr-2 h-4 w-4" /> Terbitkan Voucher
+                </Button>
+              </div>
+
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="py-3 px-4 text-left">Kode</th>
+                        <th className="py-3 px-4 text-right">Nilai</th>
+                        <th className="py-3 px-4 text-right">Saldo</th>
+                        <th className="py-3 px-4 text-left">Berlaku s/d</th>
+                        <th className="py-3 px-4 text-left">Penerima</th>
+                        <th className="py-3 px-4 text-left">Status</th>
+                        <th className="py-3 px-4 text-center">Aksi</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {filteredVouchers.length > 0 ? (
+                        filteredVouchers.map((voucher) => {
+                          const balance = getVoucherBalance(voucher.id);
+                          const status = getVoucherStatus(voucher, balance);
+                          return (
+                            <tr key={voucher.id} className="hover:bg-gray-50">
+                              <td className="py-3 px-4 font-mono font-medium">{voucher.code}</td>
+                              <td className="py-3 px-4 text-right">Rp {voucher.faceValue.toLocaleString('id-ID')}</td>
+                              <td className="py-3 px-4 text-right">Rp {balance.toLocaleString('id-ID')}</td>
+                              <td className="py-3 px-4">
+                                {voucher.expiresAt ? new Date(voucher.expiresAt).toLocaleDateString('id-ID') : '-'}
+                              </td>
+                              <td className="py-3 px-4">{voucher.recipientName || '-'}</td>
+                              <td className="py-3 px-4">
+                                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                                  {VOUCHER_STATUS_LABELS[status]}
+                                </span>
+                              </td>
+                              <td className="py-3 px-4">
+                                <div className="flex justify-center space-x-2">
+                                  <Button variant="ghost" size="sm" title="Riwayat" onClick={() => setHistoryVoucher(voucher)}>
+                                    <History size={16} />
+                                  </Button>
+                                  <Button variant="ghost" size="sm" title="Cetak" onClick={() => printVouchers([voucher])}>
+                                    <Printer size={16} />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Batalkan"
+                                    className="text-red-500 hover:text-red-700"
+                                    disabled={!!voucher.voidedAt}
+                                    onClick={() => setVoidItem(voucher)}
+                                  >
+                                    <Ban size={16} />
+                                  </Button>
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })
+                      ) : (
+                        <tr>
+                          <td colSpan={7} className="py-6 text-center text-gray-500">
+                            <Gift className="mx-auto mb-2 h-12 w-12 text-gray-400" />
+                            <p>Belum ada voucher.</p>
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="coupons">
+            <div className="space-y-4">
+              <div className="flex flex-col sm:flex-row gap-4 justify-between">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                  <Input
+                    type="text"
+                    placeholder="Cari kupon..."
+                    className="pl-10"
+                    value={couponQuery}
+                    onChange={(e) => setCouponQuery(e.target.value)}
+                  />
+                </div>
+                <Button onClick={() => handleOpenCouponDialog()}>
+                  <Plus className="mr-2 h-4 w-4" /> Tambah Kupon
+                </Button>
+              </div>
+
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-100 text-gray-700">
+                      <tr>
+                        <th className="py-3 px-4 text-left">Kode</th>
+                        <th className="py-3 px-4 text-left">Nama</th>
+                        <th className="py-3 px-4 text-left">Diskon</th>
+                        <th className="py-3 px-4 text-left">Pemakaian</th>
+                        <th className="py-3 px-4 text-left">Periode</th>
+                        <th className="py-3 px-4 text-center">Aksi</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {filteredCoupons.length > 0 ? (
+                        filteredCoupons.map((coupon) => (
+                          <tr key={coupon.id} className="hover:bg-gray-50">
+                            <td className="py-3 px-4 font-mono font-medium">{coupon.code}</td>
+                            <td className="py-3 px-4">{coupon.name}</td>
+                            <td className="py-3 px-4 text-sm">{describeCoupon(coupon)}</td>
+                            <td className="py-3 px-4">
+                              {getCouponUsageCount(coupon.id)}{coupon.usageLimit ? ` / ${coupon.usageLimit}` : ''}
+                            </td>
+                            <td className="py-3 px-4 text-sm">
+                              {coupon.startDate || coupon.endDate
+                                ? `${coupon.startDate || '...'} s/d ${coupon.endDate || '...'}`
+                                : 'Setiap saat'}
+                            </td>
+                            <td className="py-3 px-4">
+                              <div className="flex justify-center space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title={coupon.isActive ? 'Nonaktifkan' : 'Aktifkan'}
+                                  onClick={() => updateCoupon(coupon.id, { isActive: !coupon.isActive })}
+                                >
+                                  <Power size={16} className={coupon.isActive ? 'text-green-600' : 'text-gray-400'} />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleOpenCouponDialog(coupon)}>
+                                  <Edit size={16} />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-red-500 hover:text-red-700"
+                                  onClick={() => setDeleteCouponItem(coupon)}
+                                >
+                                  <Trash2 size={16} />
+                                </Button>
+                              </div>
+                            </td>
+                          </tr>
+                        ))
+                      ) : (
+                        <tr>
+                          <td colSpan={6} className="py-6 text-center text-gray-500">
+                            <Ticket className="mx-auto mb-2 h-12 w-12 text-gray-400" />
+                            <p>Tidak ada kupon yang ditemukan.</p>
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      {/* Issue Vouchers Dialog */}
+      <Dialog open={isIssueDialogOpen} onOpenChange={setIsIssueDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Terbitkan Voucher</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="voucher-value">Nilai (Rp) *</Label>
+                <Input
+                  id="voucher-value"
+                  type="number"
+                  min="0"
+                  value={issueForm.faceValue}
+                  onChange={(e) => setIssueForm({ ...issueForm, faceValue: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher-quantity">Jumlah Voucher *</Label>
+                <Input
+                  id="voucher-quantity"
+                  type="number"
+                  min="1"
+                  value={issueForm.quantity}
+                  onChange={(e) => setIssueForm({ ...issueForm, quantity: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voucher-expiry">Berlaku Sampai</Label>
+              <Input
+                id="voucher-expiry"
+                type="date"
+                value={issueForm.expiresAt}
+                onChange={(e) => setIssueForm({ ...issueForm, expiresAt: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">Kosongkan untuk voucher tanpa batas waktu</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voucher-method">Dibayar Dengan</Label>
+              <Select
+                value={issueForm.method}
+                onValueChange={(value) => setIssueForm({ ...issueForm, method: value })}
+              >
+                <SelectTrigger id="voucher-method">
+                  <SelectValue placeholder="Pilih metode pembayaran" />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNTER_PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</SelectItem>
+                  ))}
+                  <SelectItem value={COMPLIMENTARY}>Gratis (promosi)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voucher-recipient">Penerima</Label>
+              <Input
+                id="voucher-recipient"
+                placeholder="Opsional"
+                value={issueForm.recipientName}
+                onChange={(e) => setIssueForm({ ...issueForm, recipientName: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voucher-notes">Catatan</Label>
+              <Input
+                id="voucher-notes"
+                placeholder="Opsional"
+                value={issueForm.notes}
+                onChange={(e) => setIssueForm({ ...issueForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsIssueDialogOpen(false)}>Batal</Button>
+            <Button onClick={handleIssue}>Terbitkan</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Issued Vouchers Dialog */}
+      <Dialog open={issuedVouchers.length > 0} onOpenChange={(open) => !open && setIssuedVouchers([])}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Voucher Diterbitkan</DialogTitle>
+          </DialogHeader>
+
+          <div className="max-h-80 overflow-y-auto space-y-1 py-4">
+            {issuedVouchers.map(voucher => (
+              <div key={voucher.id} className="flex justify-between border rounded p-2 text-sm">
+                <span className="font-mono font-medium">{voucher.code}</span>
+                <span>Rp {voucher.faceValue.toLocaleString('id-ID')}</span>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIssuedVouchers([])}>Tutup</Button>
+            <Button onClick={() => printVouchers(issuedVouchers)}>
+              <Printer className="mr-2 h-4 w-4" /> Cetak Voucher
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Voucher History Dialog */}
+      <Dialog open={!!historyVoucher} onOpenChange={(open) => !open && setHistoryVoucher(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Riwayat Voucher {historyVoucher?.code}</DialogTitle>
+          </DialogHeader>
+
+          <div className="table-container max-h-96 overflow-y-auto">
+            <table className="pos-table">
+              <thead>
+                <tr>
+                  <th>Tanggal</th>
+                  <th>Jenis</th>
+                  <th>Keterangan</th>
+                  <th>Jumlah</th>
+                </tr>
+              </thead>
+              <tbody>
+                {historyEntries.map(entry => (
+                  <tr key={entry.id}>
+                    <td>{new Date(entry.createdAt).toLocaleString('id-ID')}</td>
+                    <td>{VOUCHER_ENTRY_LABELS[entry.type]}</td>
+                    <td>
+                      {entry.transactionNumber ||
+                        (entry.type === 'issue' ? (entry.method ? getPaymentMethodLabel(entry.method) : 'Gratis') : '')}
+                      {entry.cashierName && <div className="text-xs text-gray-500">{entry.cashierName}</div>}
+                    </td>
+                    <td className={entry.amount < 0 ? 'text-red-500' : 'text-green-600'}>
+                      Rp {entry.amount.toLocaleString('id-ID')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => setHistoryVoucher(null)}>Tutup</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Voucher Dialog */}
+      <Dialog open={!!voidItem} onOpenChange={(open) => !open && setVoidItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Batalkan Voucher</DialogTitle>
+          </DialogHeader>
+          <p className="py-4">
+            Batalkan voucher <strong>{voidItem?.code}</strong>? Sisa saldo Rp{' '}
+            {voidItem ? getVoucherBalance(voidItem.id).toLocaleString('id-ID') : 0} tidak bisa dipakai lagi.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidItem(null)}>Kembali</Button>
+            <Button variant="destructive" onClick={handleVoid}>Batalkan Voucher</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Coupon Dialog */}
+      <Dialog open={isCouponDialogOpen} onOpenChange={setIsCouponDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCouponId ? 'Edit Kupon' : 'Tambah Kupon'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-code">Kode Kupon *</Label>
+                <Input
+                  id="coupon-code"
+                  placeholder="Contoh: HEMAT10"
+                  value={couponForm.code}
+                  onChange={(e) => setCouponForm({ ...couponForm, code: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-name">Nama Kupon *</Label>
+                <Input
+                  id="coupon-name"
+                  placeholder="Contoh: Diskon Akhir Bulan"
+                  value={couponForm.name}
+                  onChange={(e) => setCouponForm({ ...couponForm, name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-type">Tipe Diskon *</Label>
+                <Select
+                  value={couponForm.type}
+                  onValueChange={(value) => setCouponForm({ ...couponForm, type: value as CouponType })}
+                >
+                  <SelectTrigger id="coupon-type">
+                    <SelectValue placeholder="Pilih tipe diskon" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(COUPON_TYPE_LABELS) as CouponType[]).map(type => (
+                      <SelectItem key={type} value={type}>{COUPON_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-value">{couponForm.type === 'percentage' ? 'Diskon (%) *' : 'Potongan (Rp) *'}</Label>
+                <Input
+                  id="coupon-value"
+                  type="number"
+                  min="0"
+                  value={couponForm.value || ''}
+                  onChange={(e) => setCouponForm({ ...couponForm, value: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-min-spend">Minimal Belanja (Rp)</Label>
+                <Input
+                  id="coupon-min-spend"
+                  type="number"
+                  min="0"
+                  value={couponForm.minimumSpend || ''}
+                  onChange={(e) => setCouponForm({ ...couponForm, minimumSpend: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              {couponForm.type === 'percentage' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="coupon-max-discount">Maks. Potongan (Rp)</Label>
+                  <Input
+                    id="coupon-max-discount"
+                    type="number"
+                    min="0"
+                    value={couponForm.maxDiscount || ''}
+                    onChange={(e) => setCouponForm({ ...couponForm, maxDiscount: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              ) : <div />}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="coupon-usage-limit">Batas Pemakaian</Label>
+              <Input
+                id="coupon-usage-limit"
+                type="number"
+                min="0"
+                placeholder="Tanpa batas"
+                value={couponForm.usageLimit || ''}
+                onChange={(e) => setCouponForm({ ...couponForm, usageLimit: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Kategori Berlaku</Label>
+              <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-1">
+                {categories.map(category => (
+                  <label key={category.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={(couponForm.categoryIds || []).includes(category.id)}
+                      onChange={() => toggleCategory(category.id)}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <span>{category.name}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Kosongkan untuk semua kategori. Minimal belanja dihitung dari item yang berlaku.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="coupon-start-date">Tanggal Mulai</Label>
+                <Input
+                  id="coupon-start-date"
+                  type="date"
+                  value={couponForm.startDate || ''}
+                  onChange={(e) => setCouponForm({ ...couponForm, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="coupon-end-date">Tanggal Berakhir</Label>
+                <Input
+                  id="coupon-end-date"
+                  type="date"
+                  value={couponForm.endDate || ''}
+                  onChange={(e) => setCouponForm({ ...couponForm, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCouponDialogOpen(false)}>Batal</Button>
+            <Button onClick={handleSaveCoupon}>Simpan</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Coupon Dialog */}
+      <Dialog open={!!deleteCouponItem} onOpenChange={(open) => !open && setDeleteCouponItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Hapus Kupon</DialogTitle>
+          </DialogHeader>
+          <p className="py-4">
+            Apakah Anda yakin ingin menghapus kupon <strong>{deleteCouponItem?.code}</strong>? Riwayat pemakaiannya tetap tersimpan.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteCouponItem(null)}>Batal</Button>
+            <Button variant="destructive" onClick={handleDeleteCoupon}>Hapus</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AppLayout>
+  );
+};
+
+export default Vouchers;
@@ -10,6 +10,13 @@ export interface ApiResponse<T = any> {
   errors?: Record<string, string[]>;
 }
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Background requests (e.g. outbox replay) handle their own errors without toasts or redirects
+    skipGlobalErrorHandler?: boolean;
+  }
+}
+
 // Config constants
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
 const TOKEN_KEY = 'pos_auth_token';
@@ -46,6 +53,10 @@ api.interceptors.response.use(
   (error: AxiosError) => {
     const { response } = error;
     
+    if (error.config?.skipGlobalErrorHandler) {
+      return Promise.reject(error);
+    }
+    
     if (response) {
       const statusCode = response.status;
       const data = response.data as ApiResponse;
@@ -1,5 +1,5 @@
 
-import { Transaction, CartItem, PaymentMethod, Product } from '@/types';
+import { Transaction, CartItem, PaymentMethod, PaymentTender, Product } from '@/types';
 import { get, post, put, del, ApiResponse } from './api';
 
 // Interface for transaction filters
@@ -32,18 +32,27 @@ export interface TransactionInput {
   items: {
     productId: string;
     quantity: number;
+    unit?: string; // Pack the quantity is counted in, base unit when absent
+    unitFactor?: number; // Base units per pack
     discount?: number;
   }[];
   subtotal: number;
   discount?: number;
   tax?: number;
   total: number;
+  cashRounding?: number;
   paymentMethod: PaymentMethod;
+  payments: PaymentTender[];
   amountPaid?: number; // For calculating change when payment method is cash
   cashierId: string;
   customerName?: string;
   customerId?: string;
   notes?: string;
+  localId?: string; // ID the sale was given at the till, for matching after an offline replay
+  number?: string; // Document number printed on the receipt
+  qrisReference?: string;
+  couponCode?: string;
+  createdAt?: string; // When the sale actually happened, which can be long before it syncs
 }
 
 // Interface for sales report data
@@ -131,11 +140,18 @@ export const getTransactionById = async (id: string): Promise<Transaction> => {
 };
 
 /**
- * Create a new transaction (checkout)
+ * Create a new transaction (checkout). An idempotency key makes a replayed
+ * request safe: the server returns the original sale instead of a duplicate.
  */
-export const createTransaction = async (transactionData: TransactionInput): Promise<Transaction> => {
+export const createTransaction = async (
+  transactionData: TransactionInput,
+  options?: { idempotencyKey?: string; background?: boolean }
+): Promise<Transaction> => {
   try {
-    const response = await post<Transaction>('/transactions', transactionData);
+    const response = await post<Transaction>('/transactions', transactionData, {
+      headers: options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+      skipGlobalErrorHandler: options?.background,
+    });
     
     if (response.status && response.data) {
       return response.data;
@@ -15,6 +15,29 @@ export interface Category {
   id: string;
   name: string;
   description?: string;
+  taxExempt?: boolean;
+  loyaltyMultiplier?: number; // Points earned per spend are multiplied by this, 1 when unset
+}
+
+// An attribute a parent product varies by, e.g. Ukuran: S, M, L
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+// A pack size counted in base units, e.g. pack = 5 pcs or dus = 40 pcs.
+// Any unit can be bought in; it is only sold at the till when it has a price.
+export interface ProductUnit {
+  name: string;
+  factor: number;
+  price?: number;
+  barcode?: string;
+}
+
+// Unit price once a cart line reaches minQuantity (harga grosir)
+export interface PriceTier {
+  minQuantity: number;
+  price: number;
 }
 
 export interface Product {
@@ -24,43 +47,377 @@ export interface Product {
   barcode?: string;
   sku: string;
   price: number;
+  baseUnit?: string; // Unit stock is counted in, 'pcs' when not set
+  soldByWeight?: boolean; // Weighed at the till; quantities and stock may be fractional
+  quantityPrecision?: number; // Decimal places a quantity is entered with, 3 for weighed products when not set
+  units?: ProductUnit[];
+  priceTiers?: PriceTier[]; // Wholesale breaks; price applies below the first break
   cost?: number;
   categoryId: string;
-  stock: number;
+  stock: number; // Total on hand, in the base unit; stock received before lots were tracked is not in any lot
+  lots?: StockLot[]; // Batches still on the shelf, drawn down earliest expiry first
   lowStockThreshold: number;
   imageUrl?: string;
   isActive: boolean;
+  variantOptions?: VariantOption[]; // Set on a parent that is only sold through its variants
+  parentId?: string; // Set on a variant, pointing at its parent
+  variantAttributes?: Record<string, string>; // e.g. { Ukuran: 'M', Warna: 'Merah' }
   createdAt: string;
   updatedAt: string;
 }
 
+// A batch received in one purchase, with what is left of it
+export interface StockLot {
+  id: string;
+  batchNumber: string;
+  expiryDate?: string; // yyyy-MM-dd; lots without one are drawn after every dated lot
+  receivedAt: string;
+  quantity: number; // Remaining, in the base unit
+}
+
+// How much of a lot a stock adjustment took or added
+export interface StockLotMovement {
+  lotId: string;
+  batchNumber: string;
+  expiryDate?: string;
+  receivedAt?: string; // Kept so a lot that ran out can be reopened as it was
+  quantity: number;
+}
+
+// A variant row as edited on the parent; id is set once the variant exists
+export type ProductVariantInput = Pick<Product, 'sku' | 'barcode' | 'price' | 'cost' | 'stock' | 'isActive'> & {
+  id?: string;
+  variantAttributes: Record<string, string>;
+};
+
 export interface CartItem {
   product: Product;
-  quantity: number;
+  quantity: number; // Counted in unit when set, otherwise in the product's base unit
+  unit?: ProductUnit;
   discount?: number;
+  priceOverride?: number; // Price per unit typed in at the till, replacing the list, tier or pack price
+  priceRounding?: PriceRounding; // Stamped on weighed lines when added, so the sale keeps the rule it was charged under
+}
+
+export type PriceRoundingMode = 'nearest' | 'up' | 'down';
+
+// An amount rounded to a multiple of step rupiah, for weighed prices and cash due
+export interface PriceRounding {
+  step: number;
+  mode: PriceRoundingMode;
 }
 
-export type PaymentMethod = 'cash' | 'card' | 'e-wallet';
+// credit: kasbon, paid later by a registered customer; voucher: prepaid gift voucher, redeemed by its code;
+// deposit: layaway installments, paid before the goods were collected
+export type PaymentMethod = 'cash' | 'card' | 'e-wallet' | 'credit' | 'voucher' | 'deposit';
+
+export interface PaymentTender {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string; // Voucher tenders carry the voucher code here
+  qrisPayload?: string; // Dynamic QRIS the customer scanned for this tender
+}
+
+export type PromotionType = 'buy_x_get_y' | 'bundle_price' | 'category_percentage' | 'minimum_spend';
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  productIds?: string[]; // Eligible products for buy_x_get_y and bundle_price
+  categoryId?: string; // Eligible category for category_percentage
+  buyQuantity?: number;
+  getQuantity?: number;
+  bundleQuantity?: number;
+  bundlePrice?: number;
+  percentage?: number; // Used by category_percentage, and by minimum_spend when no fixed amount is set
+  minimumSpend?: number;
+  discountAmount?: number;
+  startDate?: string; // yyyy-MM-dd, inclusive
+  endDate?: string; // yyyy-MM-dd, inclusive
+  daysOfWeek?: number[]; // 0 = Sunday; empty or missing means every day
+  startTime?: string; // HH:mm, for happy-hour windows
+  endTime?: string; // HH:mm, exclusive
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  amount: number;
+}
 
 export interface Transaction {
   id: string;
+  number?: string; // Human-readable document number, e.g. INV/2026/10/000123
   items: CartItem[];
   subtotal: number;
+  promotions?: AppliedPromotion[];
   discount?: number;
   tax?: number;
-  total: number;
-  paymentMethod: PaymentMethod;
+  taxRate?: number;
+  taxInclusive?: boolean;
+  taxableAmount?: number;
+  total: number; // Includes cashRounding
+  paymentMethod: PaymentMethod; // Primary (largest) tender, kept for filtering and older records
+  payments: PaymentTender[];
   change?: number;
+  cashRounding?: number; // Added to (or, when negative, taken off) the cash due so it is a payable amount
+  cashierId: string;
+  cashierName?: string;
+  shiftId?: string;
+  customerName?: string;
+  customerId?: string;
+  loyaltyPointsEarned?: number;
+  loyaltyPointsRedeemed?: number;
+  loyaltyDiscount?: number;
+  couponId?: string;
+  couponCode?: string;
+  couponDiscount?: number;
+  overrides?: OverrideApproval[];
+  qrisReference?: string; // Reference label in the dynamic QRIS, for matching the acquirer's settlement report
+  layawayId?: string; // Set on the sale a layaway turned into once it was paid in full
+  layawayNumber?: string;
+  voidedAt?: string;
+  voidedBy?: string;
+  createdAt: string;
+}
+
+export type OverrideType = 'discount' | 'price_below_cost' | 'remove_line' | 'void';
+
+// A manager or admin letting a cashier past a policy limit
+export interface OverrideApproval {
+  id: string;
+  type: OverrideType;
+  detail: string;
+  requestedBy: string;
+  requestedByName?: string;
+  approvedBy: string;
+  approvedByName?: string;
+  transactionId?: string; // Unset for a cart that was abandoned after the approval
+  transactionNumber?: string;
+  createdAt: string;
+}
+
+export interface RefundItem {
+  product: Product;
+  quantity: number;
+  unit?: ProductUnit;
+  amount: number; // Share of what the customer actually paid for these units
+}
+
+export interface Refund {
+  id: string;
+  number?: string;
+  transactionId: string;
+  transactionNumber?: string;
+  items: RefundItem[];
+  tax: number;
+  total: number;
+  method: PaymentMethod;
+  reason?: string;
+  cashierId: string;
+  cashierName?: string;
+  shiftId?: string;
+  createdAt: string;
+}
+
+export interface Shift {
+  id: string;
+  cashierId: string;
+  cashierName: string;
+  openingFloat: number;
+  status: 'open' | 'closed';
+  openedAt: string;
+  closedAt?: string;
+  cashCount?: Record<string, number>; // Denomination -> number of notes/coins counted at close
+  countedCash?: number;
+  expectedCash?: number;
+  overShort?: number; // Positive when the drawer holds more than expected
+  notes?: string;
+}
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'expire' | 'refund' | 'restore';
+
+export interface LoyaltyEntry {
+  id: string;
+  customerId: string;
+  type: LoyaltyEntryType;
+  points: number; // Positive for earn and restore, negative for everything else
+  remaining?: number; // Earn and restore entries only: points not yet redeemed, clawed back or expired
+  expiresAt?: string; // Earn and restore entries only
+  transactionId?: string;
+  refundId?: string;
+  createdAt: string;
+}
+
+export type CreditEntryType = 'charge' | 'repayment' | 'refund';
+
+// Kasbon ledger: what a customer owes the store and what they paid back
+export interface CreditEntry {
+  id: string;
+  customerId: string;
+  type: CreditEntryType;
+  amount: number; // Positive for charges, negative for repayments and refunds
+  remaining?: number; // Charge entries only: part of the sale not yet repaid or returned
+  transactionId?: string;
+  transactionNumber?: string;
+  refundId?: string;
+  method?: PaymentMethod; // Repayments only: how the customer paid
+  reference?: string;
+  notes?: string;
+  cashierId?: string;
+  cashierName?: string;
+  shiftId?: string; // Cash repayments go into this shift's drawer
+  createdAt: string;
+}
+
+// Prepaid gift voucher; the balance is whatever its ledger entries add up to
+export interface GiftVoucher {
+  id: string;
+  code: string;
+  faceValue: number;
+  expiresAt?: string; // yyyy-MM-dd, inclusive
+  recipientName?: string;
+  notes?: string;
+  voidedAt?: string;
+  issuedBy: string;
+  issuedByName?: string;
+  createdAt: string;
+}
+
+export type VoucherEntryType = 'issue' | 'redeem' | 'refund' | 'void';
+
+export interface VoucherEntry {
+  id: string;
+  voucherId: string;
+  code: string;
+  type: VoucherEntryType;
+  amount: number; // Positive for issues and refunds, negative for redemptions and voids
+  method?: PaymentMethod; // Issues only: how the voucher was paid for; unset for a complimentary voucher
+  transactionId?: string;
+  transactionNumber?: string;
+  refundId?: string;
+  cashierId?: string;
+  cashierName?: string;
+  shiftId?: string; // Vouchers sold for cash go into this shift's drawer
+  createdAt: string;
+}
+
+export type CouponType = 'percentage' | 'fixed';
+
+export interface Coupon {
+  id: string;
+  code: string;
+  name: string;
+  type: CouponType;
+  value: number; // Percent for percentage coupons, rupiah for fixed ones
+  maxDiscount?: number; // Cap on a percentage coupon
+  minimumSpend?: number; // Measured on the eligible items
+  categoryIds?: string[]; // Empty or missing means every category
+  usageLimit?: number; // Total redemptions across all customers; unset means unlimited
+  startDate?: string; // yyyy-MM-dd, inclusive
+  endDate?: string; // yyyy-MM-dd, inclusive
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  code: string;
+  discount: number;
+  transactionId: string;
+  transactionNumber?: string;
+  customerId?: string;
+  cashierId: string;
+  cashierName?: string;
+  voidedAt?: string; // Set when the sale is voided, which gives the use back
+  createdAt: string;
+}
+
+export type OutboxStatus = 'pending' | 'conflict' | 'resolved';
+
+export interface OutboxEntry {
+  id: string;
+  idempotencyKey: string;
+  transaction: Transaction; // Snapshot of the sale as it was completed at the till
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolutionNote?: string;
+}
+
+export interface HeldOrder {
+  id: string;
+  label: string;
+  items: CartItem[];
   cashierId: string;
   customerName?: string;
   customerId?: string;
   createdAt: string;
 }
 
-export type StockAdjustmentType = 'purchase' | 'loss' | 'correction' | 'return';
+export type LayawayStatus = 'open' | 'completed' | 'cancelled';
+
+// Money taken on a layaway, or paid back (negative) when it is cancelled
+export interface LayawayPayment {
+  id: string;
+  type: 'payment' | 'refund';
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  cashierId: string;
+  cashierName?: string;
+  shiftId?: string;
+  createdAt: string;
+}
+
+// Goods set aside for a customer against a down payment (DP), sold once they are paid in full
+export interface Layaway {
+  id: string;
+  number?: string;
+  items: CartItem[];
+  subtotal: number;
+  promotions?: AppliedPromotion[];
+  tax?: number;
+  taxRate?: number;
+  taxInclusive?: boolean;
+  taxableAmount?: number;
+  total: number;
+  customerId: string;
+  customerName?: string;
+  payments: LayawayPayment[];
+  status: LayawayStatus;
+  dueDate?: string; // yyyy-MM-dd the goods are held until
+  notes?: string;
+  overrides?: OverrideApproval[]; // Approved on the cart it was made from; linked to the sale once it is booked
+  transactionId?: string; // The sale booked when the last installment came in
+  transactionNumber?: string;
+  reservedLots?: Record<string, StockLotMovement[]>; // Product id -> lots the reserved goods were taken from
+  forfeitedAmount?: number; // Part of the deposit kept by the store on cancellation
+  cancelReason?: string;
+  cancelledAt?: string;
+  cashierId: string;
+  cashierName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// reservation: goods held for a layaway, booked out when reserved and back in if it is cancelled; not a loss
+export type StockAdjustmentType = 'purchase' | 'loss' | 'correction' | 'return' | 'reservation';
 
 export interface StockAdjustment {
   id: string;
+  number?: string;
   productId: string;
   productName: string;
   previousStock: number;
@@ -69,6 +426,7 @@ export interface StockAdjustment {
   adjustmentType: StockAdjustmentType;
   supplierId?: string;
   supplierName?: string;
+  lots?: StockLotMovement[];
   notes?: string;
   userId: string;
   userName: string;
@@ -173,6 +531,7 @@ export interface Customer {
   total_spent?: number;
   last_transaction_date?: string;
   notes?: string;
+  credit_limit?: number; // Kasbon ceiling; unset or 0 means the customer cannot buy on credit
 }
 
 // Dashboard interfaces
@@ -341,9 +700,12 @@ export interface StoreSettings {
   phone: string;
   email: string;
   tax_percentage: number;
+  tax_inclusive: boolean;
   receipt_footer: string;
   currency: string;
   logo_path?: string;
+  qris_payload?: string;
+  qris_on_receipt?: boolean;
   updated_at?: string;
 }
 
@@ -360,6 +722,24 @@ export interface AppSettings {
   updated_at?: string;
 }
 
+export type HotkeyAction =
+  | 'show_shortcuts'
+  | 'focus_search'
+  | 'hold_resume'
+  | 'pay_cash'
+  | 'pay_card'
+  | 'pay_ewallet'
+  | 'pay_credit'
+  | 'pay_voucher'
+  | 'previous_line'
+  | 'next_line'
+  | 'increase_quantity'
+  | 'decrease_quantity'
+  | 'set_quantity'
+  | 'remove_line'
+  | 'confirm_payment'
+  | 'cancel';
+
 export interface UserPreference {
   id?: string;
   user_id: string;
@@ -367,6 +747,7 @@ export interface UserPreference {
   language?: string;
   notifications_enabled?: boolean;
   dashboard_layout?: Record<string, unknown>;
+  pos_hotkeys?: Partial<Record<HotkeyAction, string>>; // Only the bindings the user changed
   updated_at?: string;
 }
 